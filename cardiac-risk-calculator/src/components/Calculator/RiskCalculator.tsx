@@ -1,18 +1,51 @@
-import { useState, useCallback, useContext, createContext } from "react";
+import { useState, useCallback, useContext, useMemo, createContext } from "react";
 import { PatientDataForm } from "../Forms";
 import {
   RiskGauge,
   RiskChart,
   Recommendations,
   ExportOptions,
+  OutcomeRisks,
+  OutcomeSwitch,
+  HeartAge,
+  LifetimeRisk,
+  AtrialFibrillationRisk,
+  CacComparison,
+  TreatmentSimulator,
+  RiskDrivers,
+  CalculationSteps,
+  BloodPressureBadge,
+  GlycemicStatusBadge,
 } from "../Results";
 import { LoadingSpinner, Button } from "../UI";
 import { ProfileManager, ProfileSelector } from "../Profile";
 import { HelpButton, EducationalContent, MedicalResources } from "../Education";
 import { CalculationErrorBoundary } from "../ErrorBoundary";
-import { calculateFraminghamRisk } from "../../utils/framingham";
+import {
+  DEFAULT_RISK_MODEL_ID,
+  HEART_FAILURE_RISK_MODEL_ID,
+  STROKE_RISK_MODEL_ID,
+  calculateRisk,
+  getRiskModel,
+  isRegisteredRiskModel,
+} from "../../utils/riskModels";
+import { hasCacScore } from "../../utils/mesa";
+import { isStrokeRiskApplicable } from "../../utils/framinghamStroke";
+import { isHeartFailureRiskApplicable } from "../../utils/heartFailure";
+import {
+  NO_TREATMENT_SCENARIO,
+  hasTreatment,
+  isTreatmentSimulatorApplicable,
+  simulateTreatmentScenario,
+} from "../../utils/treatmentSimulator";
 import { handleCalculationError, logError } from "../../utils/errorHandling";
-import type { PatientData, RiskResult, PatientProfile } from "../../types";
+import type {
+  PatientData,
+  RiskResult,
+  PatientProfile,
+  RiskModelId,
+  TreatmentScenario,
+} from "../../types";
 
 // Context for sharing calculator state
 interface CalculatorContextType {
@@ -21,9 +54,11 @@ interface CalculatorContextType {
   isCalculating: boolean;
   error: string | null;
   currentStep: "input" | "results";
+  riskModelId: RiskModelId;
   setPatientData: (data: PatientData | null) => void;
   setRiskResult: (result: RiskResult | null) => void;
   setCurrentStep: (step: "input" | "results") => void;
+  setRiskModelId: (modelId: RiskModelId) => void;
 }
 
 const CalculatorContext = createContext<CalculatorContextType | null>(null);
@@ -56,6 +91,10 @@ export default function RiskCalculator({
   const [error, setError] = useState<string | null>(null);
   const [currentStep, setCurrentStep] = useState<"input" | "results">("input");
   const [showProfileManager, setShowProfileManager] = useState(false);
+  const [riskModelId, setRiskModelId] = useState<RiskModelId>(
+    DEFAULT_RISK_MODEL_ID
+  );
+  const [scenarios, setScenarios] = useState<TreatmentScenario[]>([]);
 
   // Handle form submission and risk calculation
   const handleCalculateRisk = useCallback(async (data: PatientData) => {
@@ -66,8 +105,8 @@ export default function RiskCalculator({
       // Simulate a brief loading state for better UX
       await new Promise((resolve) => setTimeout(resolve, 500));
 
-      // Calculate risk using Framingham algorithm
-      const result = calculateFraminghamRisk(data);
+      // Calculate risk using the selected model from the registry, with its step-by-step trace
+      const result = calculateRisk(data, riskModelId, { includeTrace: true });
 
       // Update state
       setPatientData(data);
@@ -87,7 +126,7 @@ export default function RiskCalculator({
     } finally {
       setIsCalculating(false);
     }
-  }, []);
+  }, [riskModelId]);
 
   // Handle returning to input form
   const handleBackToInput = useCallback(() => {
@@ -99,6 +138,7 @@ export default function RiskCalculator({
   const handleNewCalculation = useCallback(() => {
     setPatientData(null);
     setRiskResult(null);
+    setScenarios([]);
     setCurrentStep("input");
     setError(null);
   }, []);
@@ -120,7 +160,11 @@ export default function RiskCalculator({
   // Handle loading a profile
   const handleLoadProfile = useCallback((profile: PatientProfile) => {
     setPatientData(profile.patientData);
+    setScenarios(profile.scenarios ?? []);
     if (profile.riskResult) {
+      if (isRegisteredRiskModel(profile.riskResult.modelId)) {
+        setRiskModelId(profile.riskResult.modelId);
+      }
       setRiskResult(profile.riskResult);
       setCurrentStep("results");
     } else {
@@ -137,9 +181,11 @@ export default function RiskCalculator({
     isCalculating,
     error,
     currentStep,
+    riskModelId,
     setPatientData,
     setRiskResult,
     setCurrentStep,
+    setRiskModelId,
   };
 
   return (
@@ -277,6 +323,8 @@ export default function RiskCalculator({
             onDataChange={handleDataChange}
             initialData={patientData}
             disabled={isCalculating}
+            riskModelId={riskModelId}
+            onRiskModelChange={setRiskModelId}
             onLoadProfile={handleLoadProfile}
             onShowProfileManager={() => setShowProfileManager(true)}
           />
@@ -284,6 +332,8 @@ export default function RiskCalculator({
           <ResultsStep
             riskResult={riskResult!}
             patientData={patientData!}
+            scenarios={scenarios}
+            onScenariosChange={setScenarios}
             onBackToInput={handleBackToInput}
             onNewCalculation={handleNewCalculation}
             onShowProfileManager={() => setShowProfileManager(true)}
@@ -297,6 +347,7 @@ export default function RiskCalculator({
           onLoadProfile={handleLoadProfile}
           currentPatientData={patientData || undefined}
           currentRiskResult={riskResult || undefined}
+          currentScenarios={scenarios}
         />
       </div>
     </CalculatorContext.Provider>
@@ -309,6 +360,8 @@ interface InputStepProps {
   onDataChange: (data: Partial<PatientData>) => void;
   initialData: PatientData | null;
   disabled: boolean;
+  riskModelId: RiskModelId;
+  onRiskModelChange: (modelId: RiskModelId) => void;
   onLoadProfile: (profile: PatientProfile) => void;
   onShowProfileManager: () => void;
 }
@@ -318,10 +371,13 @@ function InputStep({
   onDataChange,
   initialData,
   disabled,
+  riskModelId,
+  onRiskModelChange,
   onLoadProfile,
   onShowProfileManager,
 }: InputStepProps) {
   const [showEducationalContent, setShowEducationalContent] = useState(false);
+  const riskModel = getRiskModel(riskModelId);
 
   return (
     <div className="space-y-6">
@@ -342,8 +398,8 @@ function InputStep({
               </h2>
               <p className="text-gray-600">
                 Please provide your health information to calculate your 10-year
-                cardiovascular risk using the scientifically validated
-                Framingham Risk Score.
+                cardiovascular risk using the scientifically validated{" "}
+                {riskModel.name}.
               </p>
             </div>
             <div className="flex space-x-2">
@@ -361,6 +417,8 @@ function InputStep({
           initialData={initialData || undefined}
           disabled={disabled}
           showProgress={true}
+          riskModelId={riskModelId}
+          onRiskModelChange={onRiskModelChange}
         />
       </div>
 
@@ -402,19 +460,83 @@ function InputStep({
 interface ResultsStepProps {
   patientData: PatientData;
   riskResult: RiskResult;
+  scenarios: TreatmentScenario[];
+  onScenariosChange: (scenarios: TreatmentScenario[]) => void;
   onBackToInput: () => void;
   onNewCalculation: () => void;
   onShowProfileManager: () => void;
 }
 
+interface CompanionRisk {
+  result?: RiskResult;
+  error?: string;
+}
+
+// Companion outcomes are calculated during render, outside the calculation error boundaries,
+// so a failure is reported inline rather than replacing the whole results step
+function calculateCompanionRisk(patientData: PatientData, modelId: RiskModelId): CompanionRisk {
+  try {
+    return { result: calculateRisk(patientData, modelId, { includeTrace: true }) };
+  } catch (err) {
+    const calculationError = handleCalculationError(err, patientData);
+    logError(calculationError, {
+      patientData,
+      modelId,
+      step: "companion_risk_calculation",
+    });
+    return { error: calculationError.message };
+  }
+}
+
 function ResultsStep({
   riskResult,
   patientData,
+  scenarios,
+  onScenariosChange,
   onBackToInput,
   onNewCalculation,
   onShowProfileManager,
 }: ResultsStepProps) {
   const [showMedicalResources, setShowMedicalResources] = useState(false);
+  const [scenario, setScenario] = useState<TreatmentScenario>(NO_TREATMENT_SCENARIO);
+  const riskModel = getRiskModel(riskResult.modelId);
+  // The simulator recomputes the Framingham Risk Score, so it only runs alongside that model
+  const canSimulateTreatment = isTreatmentSimulatorApplicable(patientData, riskResult.modelId);
+
+  // 10-year stroke risk reported next to the selected model, when the patient's age allows it
+  const strokeRisk = useMemo<CompanionRisk>(
+    () =>
+      isStrokeRiskApplicable(patientData)
+        ? calculateCompanionRisk(patientData, STROKE_RISK_MODEL_ID)
+        : {},
+    [patientData]
+  );
+  const strokeResult = strokeRisk.result;
+  // 10-year heart failure risk, when fasting glucose and BMI were entered
+  const heartFailureRisk = useMemo<CompanionRisk>(
+    () =>
+      isHeartFailureRiskApplicable(patientData)
+        ? calculateCompanionRisk(patientData, HEART_FAILURE_RISK_MODEL_ID)
+        : {},
+    [patientData]
+  );
+  const heartFailureResult = heartFailureRisk.result;
+  const outcomeResults = [riskResult, strokeResult, heartFailureResult].filter(
+    (result): result is RiskResult => result !== undefined
+  );
+  const [selectedModelId, setSelectedModelId] = useState<RiskModelId>(riskResult.modelId);
+  const displayedResult =
+    outcomeResults.find((result) => result.modelId === selectedModelId) ?? riskResult;
+  const isPrimaryOutcome = displayedResult === riskResult;
+  // The stroke profile shares the cardiovascular recommendations; heart failure has its own
+  const recommendationResult =
+    displayedResult === heartFailureResult ? heartFailureResult : riskResult;
+
+  // Projected risk of the active treatment scenario, shown as its own chart series
+  const scenarioRisk =
+    canSimulateTreatment && hasTreatment(scenario)
+      ? simulateTreatmentScenario(patientData, scenario).projectedRisk
+      : undefined;
 
   return (
     <div className="space-y-6">
@@ -427,8 +549,14 @@ function ResultsStep({
                 Your Cardiovascular Risk Assessment
               </h2>
               <p className="text-gray-600">
-                Based on the Framingham Heart Study algorithm
+                Based on the {riskModel.name} ({riskModel.version})
               </p>
+              <BloodPressureBadge
+                riskResult={riskResult}
+                patientData={patientData}
+                className="mt-2"
+              />
+              <GlycemicStatusBadge patientData={patientData} className="mt-2 ml-2" />
             </div>
             <HelpButton topic="framingham" variant="icon" />
           </div>
@@ -507,6 +635,27 @@ function ResultsStep({
         </div>
       </div>
 
+      {/* Outcome Switch (cardiovascular disease, stroke or heart failure) */}
+      <OutcomeSwitch
+        results={outcomeResults}
+        selectedModelId={displayedResult.modelId}
+        onChange={setSelectedModelId}
+      />
+      {strokeRisk.error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4" role="alert">
+          <p className="text-sm text-red-700">
+            10-year stroke risk could not be calculated: {strokeRisk.error}
+          </p>
+        </div>
+      )}
+      {heartFailureRisk.error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4" role="alert">
+          <p className="text-sm text-red-700">
+            10-year heart failure risk could not be calculated: {heartFailureRisk.error}
+          </p>
+        </div>
+      )}
+
       {/* Risk Visualization */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <CalculationErrorBoundary
@@ -514,22 +663,88 @@ function ResultsStep({
           onRetry={() => window.location.reload()}
           onReset={onNewCalculation}
         >
-          <RiskGauge riskResult={riskResult} />
+          <div className="space-y-6">
+            <RiskGauge riskResult={displayedResult} />
+            <CalculationSteps riskResult={displayedResult} />
+            {isPrimaryOutcome && (
+              <>
+                <HeartAge riskResult={riskResult} patientData={patientData} />
+                <LifetimeRisk riskResult={riskResult} patientData={patientData} />
+              </>
+            )}
+            <AtrialFibrillationRisk patientData={patientData} />
+          </div>
         </CalculationErrorBoundary>
         <CalculationErrorBoundary
           patientData={patientData}
           onRetry={() => window.location.reload()}
           onReset={onNewCalculation}
         >
-          <RiskChart riskResult={riskResult} />
+          <RiskChart
+            riskResult={displayedResult}
+            scenarioRisk={isPrimaryOutcome ? scenarioRisk : undefined}
+          />
         </CalculationErrorBoundary>
       </div>
 
+      {/* Per-factor Risk Attribution */}
+      {displayedResult.referenceRisk !== undefined && (
+        <CalculationErrorBoundary
+          patientData={patientData}
+          onRetry={() => window.location.reload()}
+          onReset={onNewCalculation}
+        >
+          <RiskDrivers riskResult={displayedResult} />
+        </CalculationErrorBoundary>
+      )}
+
+      {/* Outcome-specific Risks */}
+      {riskResult.outcomes && (
+        <CalculationErrorBoundary
+          patientData={patientData}
+          onRetry={() => window.location.reload()}
+          onReset={onNewCalculation}
+        >
+          <OutcomeRisks riskResult={riskResult} />
+        </CalculationErrorBoundary>
+      )}
+
+      {/* Coronary Artery Calcium Reclassification */}
+      {hasCacScore(patientData) && (
+        <CalculationErrorBoundary
+          patientData={patientData}
+          onRetry={() => window.location.reload()}
+          onReset={onNewCalculation}
+        >
+          <CacComparison riskResult={riskResult} patientData={patientData} />
+        </CalculationErrorBoundary>
+      )}
+
+      {/* What-if Treatment Simulator */}
+      {canSimulateTreatment && (
+        <CalculationErrorBoundary
+          patientData={patientData}
+          onRetry={() => window.location.reload()}
+          onReset={onNewCalculation}
+        >
+          <TreatmentSimulator
+            riskResult={riskResult}
+            patientData={patientData}
+            scenario={scenario}
+            onScenarioChange={setScenario}
+            savedScenarios={scenarios}
+            onSavedScenariosChange={onScenariosChange}
+          />
+        </CalculationErrorBoundary>
+      )}
+
       {/* Recommendations with Help */}
       <div className="bg-white rounded-lg shadow-lg p-6">
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-xl font-semibold text-gray-900">
-            Recommendations Based on Your Risk Level
+            {recommendationResult === heartFailureResult
+              ? "Recommendations to Prevent Heart Failure"
+              : "Recommendations Based on Your Risk Level"}
           </h3>
           <HelpButton topic="prevention" variant="link" size="sm">
             Prevention Guide
@@ -540,7 +755,7 @@ function ResultsStep({
           onRetry={() => window.location.reload()}
           onReset={onNewCalculation}
         >
-          <Recommendations riskResult={riskResult} />
+          <Recommendations riskResult={recommendationResult} />
         </CalculationErrorBoundary>
       </div>
 
@@ -598,8 +813,8 @@ function ResultsStep({
             <div className="mt-2 text-sm text-yellow-700">
               <p>
                 This calculator is for educational purposes only and should not
-                replace professional medical advice. The Framingham Risk Score
-                is one of several risk assessment tools and may not account for
+                replace professional medical advice. The {riskModel.name} is one
+                of several risk assessment tools and may not account for
                 all individual risk factors. Please consult with your healthcare
                 provider for personalized medical advice and treatment
                 decisions.
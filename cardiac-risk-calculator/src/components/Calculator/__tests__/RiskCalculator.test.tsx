@@ -71,7 +71,8 @@ const mockRiskResult = {
     },
   ],
   calculatedAt: new Date(),
-  framinghamVersion: '2008',
+  modelId: 'framingham-2008',
+  modelVersion: '2008',
 };
 
 describe('RiskCalculator', () => {
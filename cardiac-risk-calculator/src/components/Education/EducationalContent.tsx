@@ -172,6 +172,35 @@ export const EducationalContent: React.FC<EducationalContentProps> = ({ classNam
           </div>
         </section>
 
+        {/* Lifetime Risk */}
+        <section>
+          <h3 className="text-xl font-semibold text-gray-900 mb-4">
+            Lifetime Risk
+          </h3>
+          <div className="bg-white p-6 rounded-lg border border-gray-200">
+            <p className="text-gray-700 text-sm leading-relaxed mb-3">
+              A 10-year risk estimate is driven mostly by age, so many adults under 50 have a low
+              10-year risk even when their risk factors are not well controlled. Lifetime risk looks
+              further ahead: it estimates the chance of a heart attack, stroke or other cardiovascular
+              event by age 95, based on long-term follow-up of the Framingham Heart Study.
+            </p>
+            <p className="text-gray-600 text-sm mb-3">
+              Your lifetime risk depends on your overall risk factor profile:
+            </p>
+            <ul className="text-gray-600 text-sm space-y-1 mb-3">
+              <li><strong>All optimal:</strong> Total cholesterol below 180 mg/dL, blood pressure below 120/80 mmHg without treatment, no smoking and no diabetes</li>
+              <li><strong>Not optimal:</strong> Total cholesterol 180-199 mg/dL or blood pressure 120-139/80-89 mmHg</li>
+              <li><strong>Elevated:</strong> Total cholesterol 200-239 mg/dL or blood pressure 140-159/90-99 mmHg</li>
+              <li><strong>Major:</strong> Total cholesterol 240 mg/dL or higher, blood pressure 160/100 mmHg or higher, treatment for cholesterol or blood pressure, smoking, or diabetes</li>
+            </ul>
+            <p className="text-gray-600 text-sm">
+              People with all risk factors optimal have a lifetime risk of around 5-8%, while two or
+              more major risk factors raise it to 50-69%. Improving risk factors early in life has
+              the greatest long-term benefit.
+            </p>
+          </div>
+        </section>
+
         {/* Prevention Strategies */}
         <section>
           <h3 className="text-xl font-semibold text-gray-900 mb-4">
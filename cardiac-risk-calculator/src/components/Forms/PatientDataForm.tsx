@@ -1,25 +1,106 @@
-import React, { useCallback, useEffect, useMemo } from "react";
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
 import { useFormValidation } from "../../hooks/useFormValidation";
 import FormField from "./FormField";
 import UnitSelector from "./UnitSelector";
+import ValidationMessage from "./ValidationMessage";
 import { Button } from "../UI";
 import { FormErrorBoundary } from "../ErrorBoundary";
-import type { PatientData } from "../../types";
-import { FORM_OPTIONS } from "../../utils/constants";
+import type { BodyMeasurementUnit, HbA1cUnit, PatientData, RiskModelId } from "../../types";
 import {
+  CAC_SCORE_RANGE,
+  FORM_OPTIONS,
+  HBA1C_RANGES,
+  HEIGHT_RANGES,
+  QRS_DURATION_RANGE,
+  WEIGHT_RANGES,
+} from "../../utils/constants";
+import { assessGlycemicStatus, getGlycemicStatusLabel } from "../../utils/glycemia";
+import { getAgeExtrapolationWarning, getDiabetesMismatchMessage } from "../../utils/validation";
+import {
+  DEFAULT_RISK_MODEL_ID,
+  NON_LABORATORY_RISK_MODEL_ID,
+  getCardiovascularRiskModels,
+  getRiskModel,
+} from "../../utils/riskModels";
+import {
+  calculateBmi,
   convertCholesterolMgDlToMmolL,
   convertCholesterolMmolLToMgDl,
   convertGlucoseMgDlToMmolL,
   convertGlucoseMmolLToMgDl,
+  convertHbA1cFromPercent,
+  convertHbA1cToPercent,
+  convertHeightFromCm,
+  convertHeightToCm,
+  convertWeightFromKg,
+  convertWeightToKg,
+  convertTriglyceridesMgDlToMmolL,
+  convertTriglyceridesMmolLToMgDl,
   formatValueForDisplay,
 } from "../../utils/unitConverter";
 
+type ClinicalHistoryField =
+  | "hasAtrialFibrillation"
+  | "hasChronicKidneyDisease"
+  | "hasRheumatoidArthritis"
+  | "hasLupus"
+  | "hasMigraine"
+  | "hasSevereMentalIllness"
+  | "onAtypicalAntipsychotics"
+  | "onCorticosteroids"
+  | "hasErectileDysfunction";
+
+// Conditions and treatments asked for by QRISK3
+const CLINICAL_HISTORY_FIELDS: Array<{ name: ClinicalHistoryField; label: string; tooltip: string }> = [
+  { name: "hasAtrialFibrillation", label: "Atrial fibrillation", tooltip: "Diagnosed with an irregular heart rhythm called atrial fibrillation" },
+  { name: "hasChronicKidneyDisease", label: "Chronic kidney disease (stage 3, 4 or 5)", tooltip: "Moderate or severe chronic kidney disease, including dialysis or a kidney transplant" },
+  { name: "hasRheumatoidArthritis", label: "Rheumatoid arthritis", tooltip: "Diagnosed with rheumatoid arthritis" },
+  { name: "hasLupus", label: "Systemic lupus erythematosus (SLE)", tooltip: "Diagnosed with lupus (SLE)" },
+  { name: "hasMigraine", label: "Migraine", tooltip: "Diagnosed with migraine headaches" },
+  { name: "hasSevereMentalIllness", label: "Severe mental illness", tooltip: "Schizophrenia, bipolar disorder or moderate to severe depression" },
+  { name: "onAtypicalAntipsychotics", label: "Taking atypical antipsychotics", tooltip: "Regularly taking an atypical antipsychotic such as olanzapine or quetiapine" },
+  { name: "onCorticosteroids", label: "Taking regular steroid tablets", tooltip: "Regularly taking corticosteroid tablets such as prednisolone" },
+  { name: "hasErectileDysfunction", label: "Erectile dysfunction", tooltip: "Diagnosed with or treated for erectile dysfunction" },
+];
+
+type AdditionalConditionField =
+  | "hasCardiovascularDisease"
+  | "hasAtrialFibrillation"
+  | "hasLeftVentricularHypertrophy"
+  | "hasPriorMyocardialInfarction"
+  | "hasHeartFailure";
+
+// Conditions asked for by the Framingham Stroke Risk Profile, the heart failure model and CHARGE-AF
+const ADDITIONAL_CONDITION_FIELDS: Array<{ name: AdditionalConditionField; label: string; tooltip: string }> = [
+  { name: "hasCardiovascularDisease", label: "Cardiovascular disease", tooltip: "Previous heart attack, angina, intermittent claudication or heart failure" },
+  { name: "hasAtrialFibrillation", label: "Atrial fibrillation", tooltip: "Diagnosed with an irregular heart rhythm called atrial fibrillation" },
+  { name: "hasLeftVentricularHypertrophy", label: "Left ventricular hypertrophy (LVH)", tooltip: "Thickened heart muscle shown on an electrocardiogram (ECG)" },
+  { name: "hasPriorMyocardialInfarction", label: "Previous heart attack", tooltip: "Diagnosed myocardial infarction (heart attack) at any time" },
+  { name: "hasHeartFailure", label: "Heart failure", tooltip: "Diagnosed heart failure, whatever the cause" },
+];
+
+type RiskEnhancerConditionField =
+  | "hasChronicKidneyDisease"
+  | "hasMetabolicSyndrome"
+  | "hasInflammatoryDisease"
+  | "isSouthAsian";
+
+// Conditions that count as ACC/AHA risk enhancers for every model
+const RISK_ENHANCER_CONDITION_FIELDS: Array<{ name: RiskEnhancerConditionField; label: string; tooltip: string }> = [
+  { name: "hasChronicKidneyDisease", label: "Chronic kidney disease", tooltip: "eGFR 15-59 mL/min/1.73m² with or without albuminuria, not on dialysis or after a kidney transplant" },
+  { name: "hasMetabolicSyndrome", label: "Metabolic syndrome", tooltip: "Three or more of: large waist, high triglycerides, high blood pressure, high blood sugar, low HDL" },
+  { name: "hasInflammatoryDisease", label: "Chronic inflammatory disease", tooltip: "Psoriasis, rheumatoid arthritis, lupus or HIV/AIDS" },
+  { name: "isSouthAsian", label: "South Asian ancestry", tooltip: "Family origins in India, Pakistan, Bangladesh, Sri Lanka, Nepal or Bhutan" },
+];
+
 interface PatientDataFormProps {
   onSubmit: (data: PatientData) => void;
   onDataChange?: (data: Partial<PatientData>) => void;
   initialData?: Partial<PatientData>;
   disabled?: boolean;
   showProgress?: boolean;
+  riskModelId?: RiskModelId;
+  onRiskModelChange?: (modelId: RiskModelId) => void;
 }
 
 const PatientDataForm: React.FC<PatientDataFormProps> = ({
@@ -28,7 +109,16 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
   initialData,
   disabled = false,
   showProgress = true,
+  riskModelId = DEFAULT_RISK_MODEL_ID,
+  onRiskModelChange,
 }) => {
+  const riskModel = useMemo(() => getRiskModel(riskModelId), [riskModelId]);
+  const ageRange = riskModel.inputRanges.age ?? { min: 30, max: 79 };
+  const usesInput = (field: keyof PatientData) =>
+    riskModel.requiredInputs.includes(field) ||
+    riskModel.optionalInputs.includes(field);
+  const usesLipids = usesInput("totalCholesterol");
+
   const {
     form,
     formData,
@@ -36,9 +126,47 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
     getFieldError,
     handleSubmit,
     getFieldValidationRules,
-  } = useFormValidation<PatientData>();
+  } = useFormValidation<PatientData>(riskModel);
 
-  const { register, setValue, watch, reset } = form;
+  const { register, setValue, watch, reset, unregister } = form;
+
+  // Ages outside the validated range are allowed, with a warning, when the user opts in
+  const extrapolateAge = watch("extrapolateAge");
+  const ageInputRange = (extrapolateAge && riskModel.ageExtrapolationRange) || ageRange;
+  const ageExtrapolationWarning = getAgeExtrapolationWarning(formData, riskModel);
+
+  // Recheck an entered age against the range that applies once extrapolation is switched
+  useEffect(() => {
+    if (form.getValues("age")) {
+      form.trigger("age");
+    }
+  }, [extrapolateAge, form]);
+
+  // Laboratory model to return to when lab results become available again
+  const labRiskModelIdRef = useRef<RiskModelId>(DEFAULT_RISK_MODEL_ID);
+  useEffect(() => {
+    if (usesLipids) {
+      labRiskModelIdRef.current = riskModelId;
+    }
+  }, [usesLipids, riskModelId]);
+
+  // Switch between the non-laboratory model and the last laboratory model
+  const handleLabResultsChange = useCallback(
+    (noLabResults: boolean) => {
+      if (!onRiskModelChange) {
+        return;
+      }
+
+      if (noLabResults) {
+        // Drop cholesterol entered earlier so it cannot feed the lipid-based results
+        unregister(["totalCholesterol", "hdlCholesterol"]);
+        onRiskModelChange(NON_LABORATORY_RISK_MODEL_ID);
+      } else {
+        onRiskModelChange(labRiskModelIdRef.current);
+      }
+    },
+    [onRiskModelChange, unregister]
+  );
 
   // Initialize form with initial data
   useEffect(() => {
@@ -60,6 +188,8 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
       const currentUnit = formData.cholesterolUnit;
       const totalChol = formData.totalCholesterol;
       const hdlChol = formData.hdlCholesterol;
+      const ldlChol = formData.ldlCholesterol;
+      const triglycerides = formData.triglycerides;
 
       if (currentUnit && currentUnit !== newUnit) {
         // Convert existing values
@@ -88,6 +218,32 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
             )
           );
         }
+
+        if (ldlChol && !isNaN(ldlChol)) {
+          const convertedLdl =
+            currentUnit === "mg/dL"
+              ? convertCholesterolMgDlToMmolL(ldlChol)
+              : convertCholesterolMmolLToMgDl(ldlChol);
+          setValue(
+            "ldlCholesterol",
+            parseFloat(
+              formatValueForDisplay(convertedLdl, newUnit, "cholesterol")
+            )
+          );
+        }
+
+        if (triglycerides && !isNaN(triglycerides)) {
+          const convertedTriglycerides =
+            currentUnit === "mg/dL"
+              ? convertTriglyceridesMgDlToMmolL(triglycerides)
+              : convertTriglyceridesMmolLToMgDl(triglycerides);
+          setValue(
+            "triglycerides",
+            parseFloat(
+              formatValueForDisplay(convertedTriglycerides, newUnit, "cholesterol")
+            )
+          );
+        }
       }
 
       setValue("cholesterolUnit", newUnit);
@@ -96,6 +252,8 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
       formData.cholesterolUnit,
       formData.totalCholesterol,
       formData.hdlCholesterol,
+      formData.ldlCholesterol,
+      formData.triglycerides,
       setValue,
     ]
   );
@@ -129,20 +287,61 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
     [formData.glucoseUnit, formData.bloodGlucose, setValue]
   );
 
+  // Handle height and weight unit conversion
+  const handleBodyMeasurementUnitChange = useCallback(
+    (newUnit: BodyMeasurementUnit) => {
+      const currentUnit = formData.bodyMeasurementUnit ?? "metric";
+      const height = formData.height;
+      const weight = formData.weight;
+
+      if (currentUnit !== newUnit) {
+        if (height && !isNaN(height)) {
+          const convertedHeight = convertHeightFromCm(convertHeightToCm(height, currentUnit), newUnit);
+          setValue("height", Math.round(convertedHeight * 10) / 10);
+        }
+
+        if (weight && !isNaN(weight)) {
+          const convertedWeight = convertWeightFromKg(convertWeightToKg(weight, currentUnit), newUnit);
+          setValue("weight", Math.round(convertedWeight * 10) / 10);
+        }
+      }
+
+      setValue("bodyMeasurementUnit", newUnit);
+    },
+    [formData.bodyMeasurementUnit, formData.height, formData.weight, setValue]
+  );
+
+  // Handle HbA1c unit conversion
+  const handleHbA1cUnitChange = useCallback(
+    (newUnit: HbA1cUnit) => {
+      const currentUnit = formData.hba1cUnit ?? "%";
+      const hba1c = formData.hba1c;
+
+      if (currentUnit !== newUnit && hba1c && !isNaN(hba1c)) {
+        const convertedHbA1c = convertHbA1cFromPercent(convertHbA1cToPercent(hba1c, currentUnit), newUnit);
+        setValue("hba1c", newUnit === "%" ? Math.round(convertedHbA1c * 10) / 10 : Math.round(convertedHbA1c));
+      }
+
+      setValue("hba1cUnit", newUnit);
+    },
+    [formData.hba1cUnit, formData.hba1c, setValue]
+  );
+
+  const hba1cUnit = watch("hba1cUnit") || "%";
+  const glycemicAssessment = assessGlycemicStatus(formData as PatientData);
+
+  const bodyMeasurementUnit = watch("bodyMeasurementUnit") || "metric";
+  const calculatedBmi =
+    formData.height && formData.weight && !isNaN(formData.height) && !isNaN(formData.weight)
+      ? calculateBmi(formData.height, formData.weight, bodyMeasurementUnit)
+      : undefined;
+
   // Calculate form completion progress
   const formProgress = useMemo(() => {
-    const requiredFields = [
-      "age",
-      "gender",
-      "totalCholesterol",
-      "hdlCholesterol",
-      "systolicBP",
-      "diastolicBP",
-      "smokingStatus",
-    ];
+    const requiredFields = riskModel.requiredInputs;
 
     const completedFields = requiredFields.filter((field) => {
-      const value = formData[field as keyof PatientData];
+      const value = formData[field];
 
       // Simple and explicit check
       if (value === null || value === undefined) {
@@ -174,7 +373,7 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
         (completedFields.length / requiredFields.length) * 100
       ),
     };
-  }, [formData]);
+  }, [formData, riskModel]);
 
   const onFormSubmit = handleSubmit((data) => {
     onSubmit(data as PatientData);
@@ -203,6 +402,46 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
         </div>
       )}
 
+      {/* Risk Model Section */}
+      {onRiskModelChange && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+            Risk Model
+          </h3>
+
+          <FormField
+            label="Risk Model"
+            name="riskModel"
+            type="select"
+            options={getCardiovascularRiskModels().map((model) => ({
+              value: model.id,
+              label: `${model.name} (${model.version})`,
+            }))}
+            tooltip={riskModel.description}
+            disabled={disabled}
+            value={riskModelId}
+            onChange={(e) => onRiskModelChange(e.target.value as RiskModelId)}
+          />
+
+          <FormField
+            label="I don't have lab results"
+            name="noLabResults"
+            type="checkbox"
+            tooltip="Estimate risk without a blood test, using height and weight instead of cholesterol"
+            disabled={disabled}
+            value={!usesLipids}
+            onChange={(e) => handleLabResultsChange((e.target as HTMLInputElement).checked)}
+          />
+
+          {!usesLipids && (
+            <p className="text-sm text-gray-600">
+              Risk will be estimated with the non-laboratory model, using body mass index
+              from your height and weight in place of cholesterol.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Demographics Section */}
       <FormErrorBoundary onReset={() => reset()}>
         <div className="space-y-4">
@@ -213,16 +452,16 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormErrorBoundary
               fieldName="age"
-              onReset={() => setValue("age", 30)}
+              onReset={() => setValue("age", ageRange.min)}
             >
               <FormField
                 label="Age"
                 type="number"
-                placeholder="Enter age (30-79)"
+                placeholder={`Enter age (${ageInputRange.min}-${ageInputRange.max})`}
                 required
-                min={30}
-                max={79}
-                tooltip="Age must be between 30-79 years (Framingham study range)"
+                min={ageInputRange.min}
+                max={ageInputRange.max}
+                tooltip={`Age must be between ${ageRange.min}-${ageRange.max} years (${riskModel.name} range)`}
                 error={getFieldError("age")}
                 disabled={disabled}
                 value={watch("age") || ""}
@@ -246,79 +485,197 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
                 {...register("gender", getFieldValidationRules("gender"))}
               />
             </FormErrorBoundary>
+
+            {usesInput("race") && (
+              <FormErrorBoundary
+                fieldName="race"
+                onReset={() => setValue("race", "other")}
+              >
+                <FormField
+                  label="Race"
+                  type="select"
+                  options={FORM_OPTIONS.RACE}
+                  required
+                  tooltip="Selects race-specific coefficients; other races use the White equations"
+                  error={getFieldError("race")}
+                  disabled={disabled}
+                  value={watch("race") || ""}
+                  {...register("race", getFieldValidationRules("race"))}
+                />
+              </FormErrorBoundary>
+            )}
+
+            {usesInput("riskRegion") && (
+              <FormErrorBoundary
+                fieldName="riskRegion"
+                onReset={() => setValue("riskRegion", "moderate")}
+              >
+                <FormField
+                  label="ESC Risk Region"
+                  type="select"
+                  options={FORM_OPTIONS.RISK_REGION}
+                  required
+                  tooltip="Cardiovascular risk region of the country of residence; used to recalibrate SCORE2"
+                  error={getFieldError("riskRegion")}
+                  disabled={disabled}
+                  value={watch("riskRegion") || ""}
+                  {...register("riskRegion", getFieldValidationRules("riskRegion"))}
+                />
+              </FormErrorBoundary>
+            )}
           </div>
+
+          {riskModel.ageExtrapolationRange && (
+            <FormField
+              label={`Extrapolate for ages outside ${ageRange.min}-${ageRange.max}`}
+              name="extrapolateAge"
+              type="checkbox"
+              tooltip={`Estimates risk for ages ${riskModel.ageExtrapolationRange.min}-${riskModel.ageExtrapolationRange.max} by extending the model's age term. The model was not validated at these ages, so the result is less reliable.`}
+              disabled={disabled}
+              value={extrapolateAge || false}
+              onChange={(e) => setValue("extrapolateAge", (e.target as HTMLInputElement).checked)}
+            />
+          )}
+
+          {ageExtrapolationWarning && (
+            <ValidationMessage type="warning" message={ageExtrapolationWarning.message} />
+          )}
         </div>
       </FormErrorBoundary>
 
       {/* Cholesterol Section */}
-      <FormErrorBoundary
-        onReset={() => {
-          setValue("totalCholesterol", 200);
-          setValue("hdlCholesterol", 50);
-          setValue("cholesterolUnit", "mg/dL");
-        }}
-      >
-        <div className="space-y-4">
-          <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
-            Cholesterol Levels
-          </h3>
+      {usesLipids && (
+        <FormErrorBoundary
+          onReset={() => {
+            setValue("totalCholesterol", 200);
+            setValue("hdlCholesterol", 50);
+            setValue("cholesterolUnit", "mg/dL");
+          }}
+        >
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+              Cholesterol Levels
+            </h3>
 
-          <UnitSelector
-            label="Cholesterol Unit"
-            name="cholesterolUnit"
-            value={watch("cholesterolUnit") || "mg/dL"}
-            options={FORM_OPTIONS.CHOLESTEROL_UNITS}
-            onChange={handleCholesterolUnitChange}
-            disabled={disabled}
-          />
+            <UnitSelector
+              label="Cholesterol Unit"
+              name="cholesterolUnit"
+              value={watch("cholesterolUnit") || "mg/dL"}
+              options={FORM_OPTIONS.CHOLESTEROL_UNITS}
+              onChange={handleCholesterolUnitChange}
+              disabled={disabled}
+            />
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <FormErrorBoundary
-              fieldName="totalCholesterol"
-              onReset={() => setValue("totalCholesterol", 200)}
-            >
-              <FormField
-                label="Total Cholesterol"
-                type="number"
-                placeholder={`Enter total cholesterol`}
-                required
-                step={watch("cholesterolUnit") === "mmol/L" ? 0.1 : 1}
-                unit={watch("cholesterolUnit")}
-                tooltip="Total cholesterol level from recent blood test"
-                error={getFieldError("totalCholesterol")}
-                disabled={disabled}
-                value={watch("totalCholesterol") || ""}
-                {...register(
-                  "totalCholesterol",
-                  getFieldValidationRules("totalCholesterol")
-                )}
-              />
-            </FormErrorBoundary>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormErrorBoundary
+                fieldName="totalCholesterol"
+                onReset={() => setValue("totalCholesterol", 200)}
+              >
+                <FormField
+                  label="Total Cholesterol"
+                  type="number"
+                  placeholder={`Enter total cholesterol`}
+                  required
+                  step={watch("cholesterolUnit") === "mmol/L" ? 0.1 : 1}
+                  unit={watch("cholesterolUnit")}
+                  tooltip="Total cholesterol level from recent blood test"
+                  error={getFieldError("totalCholesterol")}
+                  disabled={disabled}
+                  value={watch("totalCholesterol") || ""}
+                  {...register(
+                    "totalCholesterol",
+                    getFieldValidationRules("totalCholesterol")
+                  )}
+                />
+              </FormErrorBoundary>
 
-            <FormErrorBoundary
-              fieldName="hdlCholesterol"
-              onReset={() => setValue("hdlCholesterol", 50)}
-            >
-              <FormField
-                label="HDL Cholesterol"
-                type="number"
-                placeholder={`Enter HDL cholesterol`}
-                required
-                step={watch("cholesterolUnit") === "mmol/L" ? 0.1 : 1}
-                unit={watch("cholesterolUnit")}
-                tooltip="HDL (good) cholesterol level from recent blood test"
-                error={getFieldError("hdlCholesterol")}
-                disabled={disabled}
-                value={watch("hdlCholesterol") || ""}
-                {...register(
-                  "hdlCholesterol",
-                  getFieldValidationRules("hdlCholesterol")
-                )}
-              />
-            </FormErrorBoundary>
+              <FormErrorBoundary
+                fieldName="hdlCholesterol"
+                onReset={() => setValue("hdlCholesterol", 50)}
+              >
+                <FormField
+                  label="HDL Cholesterol"
+                  type="number"
+                  placeholder={`Enter HDL cholesterol`}
+                  required
+                  step={watch("cholesterolUnit") === "mmol/L" ? 0.1 : 1}
+                  unit={watch("cholesterolUnit")}
+                  tooltip="HDL (good) cholesterol level from recent blood test"
+                  error={getFieldError("hdlCholesterol")}
+                  disabled={disabled}
+                  value={watch("hdlCholesterol") || ""}
+                  {...register(
+                    "hdlCholesterol",
+                    getFieldValidationRules("hdlCholesterol")
+                  )}
+                />
+              </FormErrorBoundary>
+            </div>
           </div>
+        </FormErrorBoundary>
+      )}
+
+      {/* Height & Weight Section (also used by the heart failure model and CHARGE-AF) */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+          Height & Weight
+          {!usesInput("height") && (
+            <>
+              {" "}
+              <span className="text-sm font-normal text-gray-500">(Optional)</span>
+            </>
+          )}
+        </h3>
+
+        <UnitSelector<BodyMeasurementUnit>
+          label="Measurement Units"
+          name="bodyMeasurementUnit"
+          value={bodyMeasurementUnit}
+          options={FORM_OPTIONS.BODY_MEASUREMENT_UNITS}
+          onChange={handleBodyMeasurementUnitChange}
+          disabled={disabled}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            label="Height"
+            type="number"
+            placeholder="Enter height"
+            required={usesInput("height")}
+            min={HEIGHT_RANGES[bodyMeasurementUnit].min}
+            max={HEIGHT_RANGES[bodyMeasurementUnit].max}
+            step={0.1}
+            unit={HEIGHT_RANGES[bodyMeasurementUnit].unit}
+            tooltip="Height without shoes"
+            error={getFieldError("height")}
+            disabled={disabled}
+            value={watch("height") || ""}
+            {...register("height", getFieldValidationRules("height"))}
+          />
+
+          <FormField
+            label="Weight"
+            type="number"
+            placeholder="Enter weight"
+            required={usesInput("weight")}
+            min={WEIGHT_RANGES[bodyMeasurementUnit].min}
+            max={WEIGHT_RANGES[bodyMeasurementUnit].max}
+            step={0.1}
+            unit={WEIGHT_RANGES[bodyMeasurementUnit].unit}
+            tooltip="Current body weight"
+            error={getFieldError("weight")}
+            disabled={disabled}
+            value={watch("weight") || ""}
+            {...register("weight", getFieldValidationRules("weight"))}
+          />
         </div>
-      </FormErrorBoundary>
+
+        {calculatedBmi !== undefined && isFinite(calculatedBmi) && (
+          <p className="text-sm text-gray-600">
+            Body mass index: {calculatedBmi.toFixed(1)} kg/m²
+          </p>
+        )}
+      </div>
 
       {/* Blood Pressure Section */}
       <div className="space-y-4">
@@ -403,18 +760,377 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
             label="Family history of heart disease"
             name="familyHistory"
             type="checkbox"
-            tooltip="Check if you have immediate family members with heart disease"
+            tooltip="Check if a parent, brother or sister had heart disease early (men before 55, women before 65)"
             disabled={disabled}
             value={watch("familyHistory") || false}
             onChange={(e) => setValue("familyHistory", (e.target as HTMLInputElement).checked)}
           />
+
+          <FormField
+            label="Parents with high blood pressure"
+            type="select"
+            options={FORM_OPTIONS.PARENTAL_HYPERTENSION}
+            tooltip="Used to estimate your chance of developing high blood pressure when yours is below 140/90 mmHg"
+            error={getFieldError("parentalHypertension")}
+            disabled={disabled}
+            value={watch("parentalHypertension") || ""}
+            {...register("parentalHypertension", getFieldValidationRules("parentalHypertension"))}
+          />
+
+          {usesInput("onStatin") && (
+            <FormField
+              label="Currently taking a statin"
+              name="onStatin"
+              type="checkbox"
+              tooltip="Check if you are currently taking a statin to lower cholesterol"
+              disabled={disabled}
+              value={watch("onStatin") || false}
+              onChange={(e) => setValue("onStatin", (e.target as HTMLInputElement).checked)}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Kidney Function & Body Size Section */}
+      {(usesInput("egfr") || usesInput("bmi")) && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+            Kidney Function & Body Size
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {usesInput("egfr") && (
+              <FormField
+                label="eGFR"
+                type="number"
+                placeholder="Enter eGFR"
+                required={riskModel.requiredInputs.includes("egfr")}
+                min={riskModel.inputRanges.egfr?.min}
+                max={riskModel.inputRanges.egfr?.max}
+                unit="mL/min/1.73m²"
+                tooltip="Estimated glomerular filtration rate from a recent kidney function blood test"
+                error={getFieldError("egfr")}
+                disabled={disabled}
+                value={watch("egfr") || ""}
+                {...register("egfr", getFieldValidationRules("egfr"))}
+              />
+            )}
+
+            {usesInput("bmi") && (
+              <FormField
+                label="Body Mass Index"
+                type="number"
+                placeholder="Enter BMI"
+                required={riskModel.requiredInputs.includes("bmi")}
+                min={riskModel.inputRanges.bmi?.min}
+                max={riskModel.inputRanges.bmi?.max}
+                step={0.1}
+                unit="kg/m²"
+                tooltip="Weight in kilograms divided by height in metres squared"
+                error={getFieldError("bmi")}
+                disabled={disabled}
+                value={watch("bmi") || ""}
+                {...register("bmi", getFieldValidationRules("bmi"))}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* QRISK3 Section */}
+      {usesInput("ethnicity") && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+            QRISK3 Information
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              label="Ethnicity"
+              type="select"
+              options={FORM_OPTIONS.ETHNICITY}
+              tooltip="Self-assigned ethnic group; QRISK3 uses UK ethnicity categories"
+              error={getFieldError("ethnicity")}
+              disabled={disabled}
+              value={watch("ethnicity") || ""}
+              {...register("ethnicity", getFieldValidationRules("ethnicity"))}
+            />
+
+            <FormField
+              label="Townsend Deprivation Score"
+              type="number"
+              placeholder="Leave blank if unknown"
+              min={riskModel.inputRanges.townsendScore?.min}
+              max={riskModel.inputRanges.townsendScore?.max}
+              step={0.1}
+              tooltip="Deprivation score of your home postcode; 0 is used when left blank"
+              error={getFieldError("townsendScore")}
+              disabled={disabled}
+              value={watch("townsendScore") ?? ""}
+              {...register("townsendScore", getFieldValidationRules("townsendScore"))}
+            />
+
+            <FormField
+              label="Systolic BP Variability"
+              type="number"
+              placeholder="Leave blank if unknown"
+              min={riskModel.inputRanges.systolicBPVariability?.min}
+              max={riskModel.inputRanges.systolicBPVariability?.max}
+              step={0.1}
+              unit="mmHg"
+              tooltip="Standard deviation of at least two recent systolic blood pressure readings"
+              error={getFieldError("systolicBPVariability")}
+              disabled={disabled}
+              value={watch("systolicBPVariability") ?? ""}
+              {...register("systolicBPVariability", getFieldValidationRules("systolicBPVariability"))}
+            />
+
+            {watch("smokingStatus") === "current" && (
+              <FormField
+                label="How much do you smoke?"
+                type="select"
+                options={FORM_OPTIONS.SMOKING_INTENSITY}
+                required
+                tooltip="Average number of cigarettes smoked per day"
+                error={getFieldError("smokingIntensity")}
+                disabled={disabled}
+                value={watch("smokingIntensity") || ""}
+                {...register("smokingIntensity", getFieldValidationRules("smokingIntensity"))}
+              />
+            )}
+
+            {watch("hasDiabetes") && (
+              <FormField
+                label="Diabetes Type"
+                type="select"
+                options={FORM_OPTIONS.DIABETES_TYPE}
+                required
+                tooltip="QRISK3 weights type 1 and type 2 diabetes differently"
+                error={getFieldError("diabetesType")}
+                disabled={disabled}
+                value={watch("diabetesType") || ""}
+                {...register("diabetesType", getFieldValidationRules("diabetesType"))}
+              />
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {CLINICAL_HISTORY_FIELDS.filter(
+              (field) => field.name !== "hasErectileDysfunction" || watch("gender") === "male"
+            ).map((field) => (
+              <FormField
+                key={field.name}
+                label={field.label}
+                name={field.name}
+                type="checkbox"
+                tooltip={field.tooltip}
+                disabled={disabled}
+                value={watch(field.name) || false}
+                onChange={(e) => setValue(field.name, (e.target as HTMLInputElement).checked)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Risk Enhancers Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+          Risk Enhancers{" "}
+          <span className="text-sm font-normal text-gray-500">(Optional)</span>
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            label="LDL Cholesterol"
+            type="number"
+            placeholder="Leave blank if unknown"
+            step={watch("cholesterolUnit") === "mmol/L" ? 0.1 : 1}
+            unit={watch("cholesterolUnit")}
+            tooltip="LDL (bad) cholesterol level from recent blood test"
+            error={getFieldError("ldlCholesterol")}
+            disabled={disabled}
+            value={watch("ldlCholesterol") ?? ""}
+            {...register("ldlCholesterol", getFieldValidationRules("ldlCholesterol"))}
+          />
+
+          <FormField
+            label="Triglycerides"
+            type="number"
+            placeholder="Leave blank if unknown"
+            step={watch("cholesterolUnit") === "mmol/L" ? 0.1 : 1}
+            unit={watch("cholesterolUnit")}
+            tooltip="Used to estimate LDL cholesterol when it was not measured"
+            error={getFieldError("triglycerides")}
+            disabled={disabled}
+            value={watch("triglycerides") ?? ""}
+            {...register("triglycerides", getFieldValidationRules("triglycerides"))}
+          />
+
+          <FormField
+            label="Lipoprotein(a)"
+            type="number"
+            placeholder="Leave blank if unknown"
+            step={1}
+            unit="mg/dL"
+            tooltip="Lp(a), an inherited cholesterol particle; 50 mg/dL or higher enhances risk"
+            error={getFieldError("lipoproteinA")}
+            disabled={disabled}
+            value={watch("lipoproteinA") ?? ""}
+            {...register("lipoproteinA", getFieldValidationRules("lipoproteinA"))}
+          />
+
+          <FormField
+            label="hs-CRP"
+            type="number"
+            placeholder="Leave blank if unknown"
+            step={0.1}
+            unit="mg/L"
+            tooltip="High-sensitivity C-reactive protein, a marker of inflammation; 2.0 mg/L or higher enhances risk"
+            error={getFieldError("hsCRP")}
+            disabled={disabled}
+            value={watch("hsCRP") ?? ""}
+            {...register("hsCRP", getFieldValidationRules("hsCRP"))}
+          />
+
+          <FormField
+            label="Apolipoprotein B"
+            type="number"
+            placeholder="Leave blank if unknown"
+            step={1}
+            unit="mg/dL"
+            tooltip="ApoB measures the number of atherogenic particles; 130 mg/dL or higher enhances risk"
+            error={getFieldError("apolipoproteinB")}
+            disabled={disabled}
+            value={watch("apolipoproteinB") ?? ""}
+            {...register("apolipoproteinB", getFieldValidationRules("apolipoproteinB"))}
+          />
+
+          <FormField
+            label="Ankle-Brachial Index"
+            type="number"
+            placeholder="Leave blank if unknown"
+            step={0.01}
+            tooltip="Ratio of ankle to arm blood pressure; below 0.9 indicates peripheral artery disease"
+            error={getFieldError("ankleBrachialIndex")}
+            disabled={disabled}
+            value={watch("ankleBrachialIndex") ?? ""}
+            {...register("ankleBrachialIndex", getFieldValidationRules("ankleBrachialIndex"))}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {RISK_ENHANCER_CONDITION_FIELDS.filter(
+            // QRISK3 already asks about kidney disease in its own section
+            (field) => field.name !== "hasChronicKidneyDisease" || !usesInput("hasChronicKidneyDisease")
+          ).map((field) => (
+            <FormField
+              key={field.name}
+              label={field.label}
+              name={field.name}
+              type="checkbox"
+              tooltip={field.tooltip}
+              disabled={disabled}
+              value={watch(field.name) || false}
+              onChange={(e) => setValue(field.name, (e.target as HTMLInputElement).checked)}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Coronary Artery Calcium Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+          Coronary Artery Calcium{" "}
+          <span className="text-sm font-normal text-gray-500">(Optional)</span>
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            label="CAC Score"
+            type="number"
+            placeholder="Leave blank if not scanned"
+            min={CAC_SCORE_RANGE.min}
+            max={CAC_SCORE_RANGE.max}
+            step={1}
+            unit="Agatston"
+            tooltip="Coronary artery calcium score from a cardiac CT scan; used to reclassify your risk with the MESA score"
+            error={getFieldError("cacScore")}
+            disabled={disabled}
+            value={watch("cacScore") ?? ""}
+            {...register("cacScore", getFieldValidationRules("cacScore"))}
+          />
+
+          {!usesInput("race") && (
+            <FormField
+              label="Race/Ethnicity"
+              type="select"
+              options={FORM_OPTIONS.RACE}
+              tooltip="Used by the MESA score, where other groups use the White coefficients, and by CHARGE-AF"
+              error={getFieldError("race")}
+              disabled={disabled}
+              value={watch("race") || ""}
+              {...register("race", getFieldValidationRules("race"))}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Additional Conditions Section */}
+      <div className="space-y-4">
+        <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
+          Additional Conditions{" "}
+          <span className="text-sm font-normal text-gray-500">(Optional)</span>
+        </h3>
+
+        <p className="text-sm text-gray-600">
+          Used to estimate your 10-year stroke risk with the Framingham Stroke Risk Profile (ages 55-84),
+          your 10-year heart failure risk when you also enter cholesterol, a fasting blood glucose, your
+          height and weight and a QRS duration, and your 5-year atrial fibrillation risk with CHARGE-AF (from age 46, with race, height
+          and weight).
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {ADDITIONAL_CONDITION_FIELDS.filter(
+            // QRISK3 already asks about atrial fibrillation in its own section
+            (field) => field.name !== "hasAtrialFibrillation" || !usesInput("hasAtrialFibrillation")
+          ).map((field) => (
+            <FormField
+              key={field.name}
+              label={field.label}
+              name={field.name}
+              type="checkbox"
+              tooltip={field.tooltip}
+              disabled={disabled}
+              value={watch(field.name) || false}
+              onChange={(e) => setValue(field.name, (e.target as HTMLInputElement).checked)}
+            />
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            label="QRS Duration"
+            type="number"
+            placeholder={riskModel.requiredInputs.includes("qrsDuration") ? "Enter QRS duration" : "Enter QRS duration (optional)"}
+            required={riskModel.requiredInputs.includes("qrsDuration")}
+            min={QRS_DURATION_RANGE.min}
+            max={QRS_DURATION_RANGE.max}
+            unit="ms"
+            tooltip="Width of the QRS complex on a resting electrocardiogram (ECG) report"
+            error={getFieldError("qrsDuration")}
+            disabled={disabled}
+            value={watch("qrsDuration") ?? ""}
+            {...register("qrsDuration", getFieldValidationRules("qrsDuration"))}
+          />
+
         </div>
       </div>
 
       {/* Optional Blood Glucose Section */}
       <div className="space-y-4">
         <h3 className="text-lg font-medium text-gray-900 border-b border-gray-200 pb-2">
-          Blood Glucose{" "}
+          Blood Glucose &amp; HbA1c{" "}
           <span className="text-sm font-normal text-gray-500">(Optional)</span>
         </h3>
 
@@ -433,12 +1149,60 @@ const PatientDataForm: React.FC<PatientDataFormProps> = ({
           placeholder={`Enter blood glucose (optional)`}
           step={watch("glucoseUnit") === "mmol/L" ? 0.1 : 1}
           unit={watch("glucoseUnit")}
-          tooltip="Fasting blood glucose level (optional but helpful for risk assessment)"
+          tooltip="Blood glucose level (optional but helpful for risk assessment)"
           error={getFieldError("bloodGlucose")}
           disabled={disabled}
           value={watch("bloodGlucose") || ""}
           {...register("bloodGlucose", getFieldValidationRules("bloodGlucose"))}
         />
+
+        <FormField
+          label="Glucose Test"
+          type="select"
+          options={FORM_OPTIONS.GLUCOSE_TEST_TYPES}
+          tooltip="A random (non-fasting) reading can only identify the diabetes range, 200 mg/dL (11.1 mmol/L) or more"
+          error={getFieldError("glucoseTestType")}
+          disabled={disabled}
+          value={watch("glucoseTestType") || "fasting"}
+          {...register("glucoseTestType", getFieldValidationRules("glucoseTestType"))}
+        />
+
+        <UnitSelector<HbA1cUnit>
+          label="HbA1c Unit"
+          name="hba1cUnit"
+          value={hba1cUnit}
+          options={FORM_OPTIONS.HBA1C_UNITS}
+          onChange={handleHbA1cUnitChange}
+          disabled={disabled}
+        />
+
+        <FormField
+          label="HbA1c"
+          type="number"
+          placeholder="Enter HbA1c (optional)"
+          min={HBA1C_RANGES[hba1cUnit].min}
+          max={HBA1C_RANGES[hba1cUnit].max}
+          step={hba1cUnit === "%" ? 0.1 : 1}
+          unit={hba1cUnit}
+          tooltip="Glycated haemoglobin reflects average blood sugar over the past 2-3 months. 5.7-6.4% (39-47 mmol/mol) is prediabetes and 6.5% (48 mmol/mol) or more is in the diabetes range."
+          error={getFieldError("hba1c")}
+          disabled={disabled}
+          value={watch("hba1c") ?? ""}
+          {...register("hba1c", getFieldValidationRules("hba1c"))}
+        />
+
+        {glycemicAssessment && (
+          <p className="text-sm text-gray-600">
+            ADA classification: {getGlycemicStatusLabel(glycemicAssessment.status)} ({glycemicAssessment.basis.join(", ")})
+          </p>
+        )}
+
+        {glycemicAssessment?.diabetesStatusMismatch && (
+          <ValidationMessage
+            type="warning"
+            message={getDiabetesMismatchMessage(glycemicAssessment.basis)}
+          />
+        )}
       </div>
 
       {/* Submit Button */}
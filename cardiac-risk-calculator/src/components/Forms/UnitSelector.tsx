@@ -1,17 +1,17 @@
 import React from 'react';
 
-interface UnitSelectorProps {
+interface UnitSelectorProps<T extends string> {
   label: string;
   name: string;
   value: string;
   options: Array<{ value: string; label: string }>;
-  onChange: (unit: 'mg/dL' | 'mmol/L') => void;
+  onChange: (unit: T) => void;
   disabled?: boolean;
   className?: string;
   'aria-describedby'?: string;
 }
 
-const UnitSelector: React.FC<UnitSelectorProps> = ({
+const UnitSelector = <T extends string = 'mg/dL' | 'mmol/L'>({
   label,
   name,
   value,
@@ -20,11 +20,11 @@ const UnitSelector: React.FC<UnitSelectorProps> = ({
   disabled = false,
   className = '',
   'aria-describedby': ariaDescribedBy,
-}) => {
+}: UnitSelectorProps<T>) => {
   const fieldId = `unit-selector-${name}`;
 
   const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    onChange(e.target.value as 'mg/dL' | 'mmol/L');
+    onChange(e.target.value as T);
   };
 
   return (
@@ -9,7 +9,7 @@ import {
 import SaveProfileDialog from './SaveProfileDialog';
 import DeleteConfirmDialog from './DeleteConfirmDialog';
 import RenameProfileDialog from './RenameProfileDialog';
-import type { PatientProfile, PatientData, RiskResult } from '../../types';
+import type { PatientProfile, PatientData, RiskResult, TreatmentScenario } from '../../types';
 
 interface ProfileManagerProps {
   isOpen: boolean;
@@ -17,6 +17,7 @@ interface ProfileManagerProps {
   onLoadProfile: (profile: PatientProfile) => void;
   currentPatientData?: PatientData;
   currentRiskResult?: RiskResult;
+  currentScenarios?: TreatmentScenario[];
 }
 
 interface ProfileSummary {
@@ -31,6 +32,7 @@ const ProfileManager: React.FC<ProfileManagerProps> = ({
   onLoadProfile,
   currentPatientData,
   currentRiskResult,
+  currentScenarios,
 }) => {
   const [profiles, setProfiles] = useState<ProfileSummary[]>([]);
   const [loading, setLoading] = useState(false);
@@ -113,10 +115,15 @@ const ProfileManager: React.FC<ProfileManagerProps> = ({
   const getRiskCategoryColor = (category?: string) => {
     switch (category) {
       case 'low':
+      case 'low-to-moderate':
         return 'text-green-600 bg-green-100';
+      case 'borderline':
       case 'moderate':
         return 'text-yellow-600 bg-yellow-100';
+      case 'intermediate':
+        return 'text-orange-600 bg-orange-100';
       case 'high':
+      case 'very-high':
         return 'text-red-600 bg-red-100';
       default:
         return 'text-gray-600 bg-gray-100';
@@ -219,6 +226,7 @@ const ProfileManager: React.FC<ProfileManagerProps> = ({
           onClose={() => setShowSaveDialog(false)}
           patientData={currentPatientData}
           riskResult={currentRiskResult}
+          scenarios={currentScenarios}
           onSave={loadProfiles}
         />
       )}
@@ -266,6 +274,7 @@ const ProfileItem: React.FC<ProfileItemProps> = ({
   onRename,
   onDelete,
   formatDate,
+  getRiskCategoryColor,
 }) => {
   const [fullProfile, setFullProfile] = useState<PatientProfile | null>(null);
   const [loading, setLoading] = useState(false);
@@ -295,9 +304,7 @@ const ProfileItem: React.FC<ProfileItemProps> = ({
             <h4 className="text-sm font-medium text-gray-900">{profile.name}</h4>
             {fullProfile?.riskResult && (
               <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                fullProfile.riskResult.riskCategory === 'low' ? 'text-green-600 bg-green-100' :
-                fullProfile.riskResult.riskCategory === 'moderate' ? 'text-yellow-600 bg-yellow-100' :
-                'text-red-600 bg-red-100'
+                getRiskCategoryColor(fullProfile.riskResult.riskCategory)
               }`}>
                 {fullProfile.riskResult.tenYearRisk.toFixed(1)}% risk
               </span>
@@ -1,13 +1,15 @@
 import React, { useState } from 'react';
 import { Button, Modal } from '../UI';
 import { savePatientProfile } from '../../utils/storage';
-import type { PatientData, RiskResult } from '../../types';
+import { hasLipidPanel } from '../../utils/lipids';
+import type { PatientData, RiskResult, TreatmentScenario } from '../../types';
 
 interface SaveProfileDialogProps {
   isOpen: boolean;
   onClose: () => void;
   patientData: PatientData;
   riskResult?: RiskResult;
+  scenarios?: TreatmentScenario[];
   onSave: () => void;
 }
 
@@ -16,6 +18,7 @@ const SaveProfileDialog: React.FC<SaveProfileDialogProps> = ({
   onClose,
   patientData,
   riskResult,
+  scenarios,
   onSave,
 }) => {
   const [profileName, setProfileName] = useState('');
@@ -37,6 +40,7 @@ const SaveProfileDialog: React.FC<SaveProfileDialogProps> = ({
         name: profileName.trim(),
         patientData,
         riskResult,
+        scenarios: scenarios && scenarios.length > 0 ? scenarios : undefined,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -91,12 +95,20 @@ const SaveProfileDialog: React.FC<SaveProfileDialogProps> = ({
               <div>
                 <span className="text-gray-500">Gender:</span> {patientData.gender}
               </div>
-              <div>
-                <span className="text-gray-500">Total Cholesterol:</span> {patientData.totalCholesterol} {patientData.cholesterolUnit}
-              </div>
-              <div>
-                <span className="text-gray-500">HDL Cholesterol:</span> {patientData.hdlCholesterol} {patientData.cholesterolUnit}
-              </div>
+              {hasLipidPanel(patientData) ? (
+                <>
+                  <div>
+                    <span className="text-gray-500">Total Cholesterol:</span> {patientData.totalCholesterol} {patientData.cholesterolUnit}
+                  </div>
+                  <div>
+                    <span className="text-gray-500">HDL Cholesterol:</span> {patientData.hdlCholesterol} {patientData.cholesterolUnit}
+                  </div>
+                </>
+              ) : (
+                <div className="col-span-2">
+                  <span className="text-gray-500">Cholesterol:</span> not tested (non-laboratory estimate)
+                </div>
+              )}
               {riskResult && (
                 <>
                   <div>
@@ -105,15 +117,20 @@ const SaveProfileDialog: React.FC<SaveProfileDialogProps> = ({
                   <div>
                     <span className="text-gray-500">Risk Category:</span> 
                     <span className={`ml-1 px-2 py-0.5 text-xs font-medium rounded-full ${
-                      riskResult.riskCategory === 'low' ? 'text-green-600 bg-green-100' :
-                      riskResult.riskCategory === 'moderate' ? 'text-yellow-600 bg-yellow-100' :
-                      'text-red-600 bg-red-100'
+                      riskResult.riskCategory === 'low' || riskResult.riskCategory === 'low-to-moderate' ? 'text-green-600 bg-green-100' :
+                      riskResult.riskCategory === 'high' || riskResult.riskCategory === 'very-high' ? 'text-red-600 bg-red-100' :
+                      'text-yellow-600 bg-yellow-100'
                     }`}>
                       {riskResult.riskCategory}
                     </span>
                   </div>
                 </>
               )}
+              {scenarios && scenarios.length > 0 && (
+                <div>
+                  <span className="text-gray-500">Treatment Scenarios:</span> {scenarios.length}
+                </div>
+              )}
             </div>
           </div>
 
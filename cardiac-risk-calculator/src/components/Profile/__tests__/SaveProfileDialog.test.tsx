@@ -45,7 +45,8 @@ const mockRiskResult = {
   },
   recommendations: [],
   calculatedAt: new Date(),
-  framinghamVersion: '2008',
+  modelId: 'framingham-2008',
+  modelVersion: '2008',
 };
 
 describe('SaveProfileDialog', () => {
@@ -0,0 +1,54 @@
+import type { PatientData, RiskCategory } from '../../types';
+import { RISK_CATEGORY_LABELS } from '../../utils/constants';
+import { calculateChargeAfRisk, isAtrialFibrillationRiskApplicable } from '../../utils/chargeAf';
+import { formatRiskPercentage, getRiskCategoryColor } from '../../utils/riskCategorization';
+
+interface AtrialFibrillationRiskProps {
+  patientData: PatientData;
+  className?: string;
+}
+
+const SCREENING_ADVICE: Partial<Record<RiskCategory, string>> = {
+  intermediate: 'Check the pulse for an irregular rhythm at this visit and at future visits.',
+  high: 'Screen for atrial fibrillation at this visit with a pulse check or a 12-lead ECG.',
+};
+
+/**
+ * AtrialFibrillationRisk component shows the CHARGE-AF 5-year risk of atrial fibrillation
+ * for patients without an AF diagnosis, with screening advice when the risk is raised
+ */
+export default function AtrialFibrillationRisk({ patientData, className = '' }: AtrialFibrillationRiskProps) {
+  if (!isAtrialFibrillationRiskApplicable(patientData)) {
+    return null;
+  }
+
+  const { fiveYearRisk, riskCategory } = calculateChargeAfRisk(patientData);
+  const screeningAdvice = SCREENING_ADVICE[riskCategory];
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        5-Year Atrial Fibrillation Risk
+      </h3>
+
+      <div className="text-center">
+        <div className="text-4xl font-bold" style={{ color: getRiskCategoryColor(riskCategory) }}>
+          {formatRiskPercentage(fiveYearRisk)}
+        </div>
+        <p className="text-sm text-gray-700 mt-2">
+          {RISK_CATEGORY_LABELS[riskCategory]}
+        </p>
+        {screeningAdvice && (
+          <p className="text-sm font-medium text-gray-900 mt-2">
+            {screeningAdvice}
+          </p>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Estimated risk of developing atrial fibrillation within 5 years from the CHARGE-AF model.
+        Atrial fibrillation often causes no symptoms but raises the risk of stroke.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { PatientData, RiskResult } from '../../types';
+import {
+  assessBloodPressure,
+  getBloodPressureCategoryColor,
+  getBloodPressureCategoryLabel,
+} from '../../utils/bloodPressure';
+
+interface BloodPressureBadgeProps {
+  riskResult: RiskResult;
+  patientData: PatientData;
+  className?: string;
+}
+
+/**
+ * BloodPressureBadge component shows the patient's ACC/AHA 2017 blood pressure
+ * category next to the reading, with the treatment pathway as its tooltip
+ */
+export default function BloodPressureBadge({ riskResult, patientData, className = '' }: BloodPressureBadgeProps) {
+  const assessment = assessBloodPressure(patientData, riskResult.tenYearRisk);
+  const color = getBloodPressureCategoryColor(assessment.category);
+  const label = getBloodPressureCategoryLabel(assessment.category);
+
+  return (
+    <span
+      className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${className}`}
+      style={{ backgroundColor: `${color}1a`, color }}
+      title={assessment.rationale}
+    >
+      <span
+        className="w-2 h-2 rounded-full mr-2"
+        style={{ backgroundColor: color }}
+        aria-hidden="true"
+      />
+      BP {patientData.systolicBP}/{patientData.diastolicBP} mmHg: {label}
+      <span className="sr-only">. {assessment.rationale}. {assessment.followUp}.</span>
+    </span>
+  );
+}
@@ -0,0 +1,111 @@
+import type { PatientData, RiskCategory, RiskResult } from '../../types';
+import { calculateCacReclassification, hasCacScore } from '../../utils/mesa';
+import { getRiskModel } from '../../utils/riskModels';
+import {
+  formatRiskPercentage,
+  getRiskCategoryColor,
+  getRiskCategoryLabel,
+  getRiskThresholdScheme,
+} from '../../utils/riskCategorization';
+import { CAC_RECLASSIFICATION_THRESHOLD } from '../../utils/constants';
+
+interface CacComparisonProps {
+  riskResult: RiskResult;
+  patientData: PatientData;
+  className?: string;
+}
+
+const DIRECTION_TEXT = {
+  down: 'Your calcium score moves you to a lower risk category',
+  up: 'Your calcium score moves you to a higher risk category',
+  unchanged: 'Your calcium score does not change your risk category',
+};
+
+/**
+ * CacComparison component compares the selected model's risk category with the
+ * category after a coronary artery calcium (CAC) scan, alongside the MESA
+ * 10-year CHD risk with and without CAC
+ */
+export default function CacComparison({ riskResult, patientData, className = '' }: CacComparisonProps) {
+  if (!hasCacScore(patientData)) {
+    return null;
+  }
+
+  const riskModel = getRiskModel(riskResult.modelId);
+  const reclassification = calculateCacReclassification(patientData, riskResult);
+
+  // Category display text, using the guideline names of the model's threshold scheme
+  const getCategoryText = (category: RiskCategory) =>
+    getRiskCategoryLabel(category, getRiskThresholdScheme(riskModel.thresholdScheme));
+
+  const getCacDescription = () => {
+    if (reclassification.cacScore === 0) return 'No detectable coronary calcium';
+    if (reclassification.cacScore >= CAC_RECLASSIFICATION_THRESHOLD) return 'Coronary calcium of 100 or more';
+    return 'Coronary calcium below 100';
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Coronary Artery Calcium
+      </h3>
+
+      <p className="text-sm text-gray-700 mb-4">
+        CAC score <span className="font-semibold">{reclassification.cacScore}</span>: {getCacDescription()}
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div className="border border-gray-200 rounded-lg p-4 text-center">
+          <div className="text-xs text-gray-500 mb-1">{riskModel.name}</div>
+          <div
+            className="text-lg font-semibold"
+            style={{ color: getRiskCategoryColor(reclassification.baseCategory) }}
+          >
+            {getCategoryText(reclassification.baseCategory)}
+          </div>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-4 text-center">
+          <div className="text-xs text-gray-500 mb-1">With CAC</div>
+          <div
+            className="text-lg font-semibold"
+            style={{ color: getRiskCategoryColor(reclassification.reclassifiedCategory) }}
+          >
+            {getCategoryText(reclassification.reclassifiedCategory)}
+          </div>
+        </div>
+      </div>
+
+      <p className="text-sm font-medium text-gray-900 mb-4">
+        {DIRECTION_TEXT[reclassification.direction]}
+      </p>
+
+      {reclassification.mesaRisk !== undefined && reclassification.mesaRiskWithoutCac !== undefined && (
+        <table className="w-full text-sm mb-4">
+          <tbody>
+            <tr className="border-b border-gray-100">
+              <th scope="row" className="text-left font-normal text-gray-900 py-2">
+                MESA 10-year CHD risk without CAC
+              </th>
+              <td className="text-right font-semibold text-gray-900 py-2">
+                {formatRiskPercentage(reclassification.mesaRiskWithoutCac)}
+              </td>
+            </tr>
+            <tr>
+              <th scope="row" className="text-left font-normal text-gray-900 py-2">
+                MESA 10-year CHD risk with CAC
+              </th>
+              <td className="text-right font-semibold text-gray-900 py-2">
+                {formatRiskPercentage(reclassification.mesaRisk)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+
+      <p className="text-xs text-gray-500">
+        A CAC score of 0 favors a lower category unless you smoke, have diabetes or a family history
+        of premature heart disease. A score of 100 or more favors a higher category.
+      </p>
+    </div>
+  );
+}
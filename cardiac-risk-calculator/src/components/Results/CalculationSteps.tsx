@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import type { RiskResult } from '../../types';
+import { formatTraceValue } from '../../utils/calculationTrace';
+
+interface CalculationStepsProps {
+  riskResult: RiskResult;
+  className?: string;
+}
+
+/**
+ * CalculationSteps component shows how the model produced the risk ("show your work"):
+ * the standardized inputs, each coefficient and term, the sum, mean offset,
+ * baseline survival and final transform, in a collapsible panel
+ */
+export default function CalculationSteps({ riskResult, className = '' }: CalculationStepsProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { trace } = riskResult;
+
+  if (!trace) {
+    return null;
+  }
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md overflow-hidden ${className}`}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full px-6 py-4 text-left hover:bg-gray-50 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-inset"
+        aria-expanded={isExpanded}
+        aria-controls="calculation-steps"
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">
+            How This Was Calculated
+          </h3>
+          <svg
+            className={`w-5 h-5 text-gray-500 transition-transform duration-200 ${
+              isExpanded ? 'rotate-180' : ''
+            }`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M19 9l-7 7-7-7"
+            />
+          </svg>
+        </div>
+      </button>
+
+      {isExpanded && (
+        <div id="calculation-steps" className="px-6 pb-6 space-y-4 text-sm">
+          {/* Step 1: Standardized Inputs */}
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">1. Inputs (standardized units)</h4>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+              {trace.inputs.map((input) => (
+                <div key={input.label} className="flex justify-between">
+                  <dt className="text-gray-600">{input.label}</dt>
+                  <dd className="font-medium text-gray-900">
+                    {formatTraceValue(input.value, 1)}{input.unit ? ` ${input.unit}` : ''}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+
+          {/* Step 2: Terms */}
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">2. Terms (coefficient × value)</h4>
+            <table className="w-full font-mono text-xs">
+              <thead>
+                <tr className="border-b border-gray-200 text-gray-600">
+                  <th scope="col" className="text-left font-medium py-1">Variable</th>
+                  <th scope="col" className="text-right font-medium py-1">Value</th>
+                  <th scope="col" className="text-right font-medium py-1">Coefficient</th>
+                  <th scope="col" className="text-right font-medium py-1">Product</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trace.terms.map((term) => (
+                  <tr key={term.label} className="border-b border-gray-100">
+                    <th scope="row" className="text-left font-normal text-gray-900 py-1">{term.label}</th>
+                    <td className="text-right text-gray-900 py-1">{formatTraceValue(term.value)}</td>
+                    <td className="text-right text-gray-900 py-1">{formatTraceValue(term.coefficient, 5)}</td>
+                    <td className="text-right text-gray-900 py-1">{formatTraceValue(term.product)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Step 3: Transform */}
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">3. Risk equation</h4>
+            <dl className="space-y-1 font-mono text-xs">
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Sum of terms</dt>
+                <dd className="text-gray-900">{formatTraceValue(trace.sum)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Mean sum (offset)</dt>
+                <dd className="text-gray-900">{formatTraceValue(trace.meanOffset)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">exp(sum - mean)</dt>
+                <dd className="text-gray-900">{formatTraceValue(Math.exp(trace.sum - trace.meanOffset))}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">Baseline survival (S0)</dt>
+                <dd className="text-gray-900">{formatTraceValue(trace.baselineSurvival, 5)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{trace.formula}</dt>
+                <dd className="font-semibold text-gray-900">{trace.risk.toFixed(2)}%</dd>
+              </div>
+            </dl>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The result is rounded to {riskResult.tenYearRisk.toFixed(1)}%. Values are shown rounded;
+            the calculation uses full precision.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
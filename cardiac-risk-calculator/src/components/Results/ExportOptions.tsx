@@ -2,6 +2,50 @@ import { useState } from 'react';
 import Button from '../UI/Button';
 import Modal from '../UI/Modal';
 import type { RiskResult, PatientData } from '../../types';
+import { getRiskModel } from '../../utils/riskModels';
+import {
+  HEIGHT_RANGES,
+  LDL_ESTIMATION_METHOD_LABELS,
+  RISK_ENHANCER_LABELS,
+  RISK_OUTCOME_LABELS,
+  WEIGHT_RANGES,
+} from '../../utils/constants';
+import { getDiabetesMismatchMessage, getFieldDisplayName } from '../../utils/validation';
+import { formatTraceValue } from '../../utils/calculationTrace';
+import { hasLipidPanel } from '../../utils/lipids';
+import { calculateFraminghamStrokeRisk, isStrokeRiskApplicable } from '../../utils/framinghamStroke';
+import { calculateHeartFailureRisk, isHeartFailureRiskApplicable } from '../../utils/heartFailure';
+import { calculateChargeAfRisk, isAtrialFibrillationRiskApplicable } from '../../utils/chargeAf';
+import { calculateHypertensionRisk, isHypertensionRiskApplicable } from '../../utils/hypertensionRisk';
+import { calculateBmi } from '../../utils/unitConverter';
+import { getRiskCategoryLabel, getRiskThresholdScheme } from '../../utils/riskCategorization';
+import {
+  assessBloodPressure,
+  getBloodPressureCategoryColor,
+  getBloodPressureCategoryLabel,
+} from '../../utils/bloodPressure';
+import {
+  assessGlycemicStatus,
+  getGlycemicStatusColor,
+  getGlycemicStatusLabel,
+} from '../../utils/glycemia';
+
+// QRISK3, stroke, heart failure model and CHARGE-AF conditions and treatments listed in the patient summary when present
+const CLINICAL_HISTORY_FIELDS: Array<keyof PatientData> = [
+  'hasCardiovascularDisease',
+  'hasPriorMyocardialInfarction',
+  'hasHeartFailure',
+  'hasAtrialFibrillation',
+  'hasLeftVentricularHypertrophy',
+  'hasChronicKidneyDisease',
+  'hasRheumatoidArthritis',
+  'hasLupus',
+  'hasMigraine',
+  'hasSevereMentalIllness',
+  'onAtypicalAntipsychotics',
+  'onCorticosteroids',
+  'hasErectileDysfunction',
+];
 
 interface ExportOptionsProps {
   riskResult: RiskResult;
@@ -96,6 +140,15 @@ export default function ExportOptions({ riskResult, patientData, className = ''
     });
   };
 
+  // Generate height, weight and BMI lines for the non-laboratory model
+  const generateBodySize = (data: PatientData) => {
+    const unit = data.bodyMeasurementUnit ?? 'metric';
+    return `
+          <div><strong>Height:</strong> ${data.height} ${HEIGHT_RANGES[unit].unit}</div>
+          <div><strong>Weight:</strong> ${data.weight} ${WEIGHT_RANGES[unit].unit}</div>
+          <div><strong>BMI:</strong> ${calculateBmi(data.height!, data.weight!, unit).toFixed(1)} kg/m²</div>`;
+  };
+
   // Generate patient summary for export
   const generatePatientSummary = (data?: PatientData) => {
     if (!data) return '';
@@ -106,15 +159,163 @@ export default function ExportOptions({ riskResult, patientData, className = ''
         <div class="patient-grid">
           <div><strong>Age:</strong> ${data.age} years</div>
           <div><strong>Gender:</strong> ${data.gender}</div>
-          <div><strong>Total Cholesterol:</strong> ${data.totalCholesterol} ${data.cholesterolUnit}</div>
-          <div><strong>HDL Cholesterol:</strong> ${data.hdlCholesterol} ${data.cholesterolUnit}</div>
+          ${data.race ? `<div><strong>Race:</strong> ${data.race}</div>` : ''}
+          ${data.riskRegion ? `<div><strong>ESC Risk Region:</strong> ${data.riskRegion}</div>` : ''}
+          ${hasLipidPanel(data) ? `<div><strong>Total Cholesterol:</strong> ${data.totalCholesterol} ${data.cholesterolUnit}</div>` : ''}
+          ${hasLipidPanel(data) ? `<div><strong>HDL Cholesterol:</strong> ${data.hdlCholesterol} ${data.cholesterolUnit}</div>` : ''}
+          ${data.height && data.weight ? generateBodySize(data) : ''}
           ${data.ldlCholesterol ? `<div><strong>LDL Cholesterol:</strong> ${data.ldlCholesterol} ${data.cholesterolUnit}</div>` : ''}
+          ${data.triglycerides ? `<div><strong>Triglycerides:</strong> ${data.triglycerides} ${data.cholesterolUnit}</div>` : ''}
           <div><strong>Blood Pressure:</strong> ${data.systolicBP}/${data.diastolicBP} mmHg</div>
           <div><strong>On BP Medication:</strong> ${data.onBPMedication ? 'Yes' : 'No'}</div>
-          ${data.bloodGlucose ? `<div><strong>Blood Glucose:</strong> ${data.bloodGlucose} ${data.glucoseUnit}</div>` : ''}
+          ${data.bloodGlucose ? `<div><strong>Blood Glucose:</strong> ${data.bloodGlucose} ${data.glucoseUnit} (${data.glucoseTestType === 'random' ? 'random' : 'fasting'})</div>` : ''}
+          ${data.hba1c ? `<div><strong>HbA1c:</strong> ${data.hba1c} ${data.hba1cUnit ?? '%'}</div>` : ''}
           <div><strong>Smoking Status:</strong> ${data.smokingStatus}</div>
           <div><strong>Diabetes:</strong> ${data.hasDiabetes ? 'Yes' : 'No'}</div>
           <div><strong>Family History:</strong> ${data.familyHistory ? 'Yes' : 'No'}</div>
+          ${data.parentalHypertension ? `<div><strong>Parents with Hypertension:</strong> ${data.parentalHypertension}</div>` : ''}
+          ${data.onStatin !== undefined ? `<div><strong>On Statin:</strong> ${data.onStatin ? 'Yes' : 'No'}</div>` : ''}
+          ${data.egfr ? `<div><strong>eGFR:</strong> ${data.egfr} mL/min/1.73m²</div>` : ''}
+          ${data.bmi ? `<div><strong>BMI:</strong> ${data.bmi} kg/m²</div>` : ''}
+          ${data.qrsDuration ? `<div><strong>QRS Duration:</strong> ${data.qrsDuration} ms</div>` : ''}
+          ${data.cacScore !== undefined && !isNaN(data.cacScore) ? `<div><strong>CAC Score:</strong> ${data.cacScore} Agatston</div>` : ''}
+          ${data.ethnicity ? `<div><strong>Ethnicity:</strong> ${data.ethnicity}</div>` : ''}
+          ${data.townsendScore !== undefined ? `<div><strong>Townsend Score:</strong> ${data.townsendScore}</div>` : ''}
+          ${data.systolicBPVariability !== undefined ? `<div><strong>Systolic BP Variability:</strong> ${data.systolicBPVariability} mmHg</div>` : ''}
+          ${data.smokingIntensity ? `<div><strong>Smoking Intensity:</strong> ${data.smokingIntensity}</div>` : ''}
+          ${data.diabetesType ? `<div><strong>Diabetes Type:</strong> ${data.diabetesType === 'type1' ? 'Type 1' : 'Type 2'}</div>` : ''}
+          ${generateClinicalHistory(data)}
+        </div>
+      </div>
+    `;
+  };
+
+  // Generate the list of QRISK3 conditions and treatments that apply
+  const generateClinicalHistory = (data: PatientData) => {
+    const conditions = CLINICAL_HISTORY_FIELDS
+      .filter(field => data[field])
+      .map(field => getFieldDisplayName(field));
+    
+    return conditions.length > 0
+      ? `<div><strong>Clinical History:</strong> ${conditions.join(', ')}</div>`
+      : '';
+  };
+
+  // Generate outcome-specific risks for export
+  const generateOutcomeRisks = (outcomes: RiskResult['outcomes']) => {
+    if (!outcomes || outcomes.length === 0) return '';
+    
+    return `
+      <div class="outcome-risks">
+        <h3>Risk by Outcome</h3>
+        <div class="comparison-grid">
+          ${outcomes.map(outcome => `
+            <div><strong>${RISK_OUTCOME_LABELS[outcome.outcome]} (${outcome.horizonYears}-year):</strong> ${outcome.risk.toFixed(1)}%</div>
+          `).join('')}
+        </div>
+      </div>
+    `;
+  };
+
+  // Generate the ACC/AHA 2017 blood pressure category badge for export
+  const generateBloodPressureCategory = (data: PatientData, tenYearRisk: number) => {
+    const assessment = assessBloodPressure(data, tenYearRisk);
+    const color = getBloodPressureCategoryColor(assessment.category);
+    
+    return `
+      <div class="bp-category" style="border-color: ${color}; color: ${color};">
+        <strong>Blood Pressure: ${getBloodPressureCategoryLabel(assessment.category)}</strong>
+        (${data.systolicBP}/${data.diastolicBP} mmHg)
+      </div>
+      <div class="bp-pathway">${assessment.rationale}. ${assessment.followUp}.</div>
+    `;
+  };
+
+  // Generate the ADA glycemic status for export, flagging diabetes-range results without a diagnosis
+  const generateGlycemicStatus = (data: PatientData) => {
+    const assessment = assessGlycemicStatus(data);
+    if (!assessment) return '';
+    
+    const color = getGlycemicStatusColor(assessment.status);
+    
+    return `
+      <div class="glycemic-status" style="border-color: ${color}; color: ${color};">
+        <strong>Glycemic Status: ${getGlycemicStatusLabel(assessment.status)}</strong>
+        (${assessment.basis.join(', ')})
+      </div>
+      ${assessment.diabetesStatusMismatch
+        ? `<div class="glycemic-note">${getDiabetesMismatchMessage(assessment.basis)}</div>`
+        : ''}
+    `;
+  };
+
+  // Generate the derived lipid values for export
+  const generateLipidProfile = (lipidProfile: RiskResult['lipidProfile']) => {
+    if (!lipidProfile) return '';
+    
+    return `
+      <div class="lipid-profile">
+        <h3>Lipid Profile</h3>
+        <div class="patient-grid">
+          ${lipidProfile.ldlCholesterol !== undefined && lipidProfile.ldlMethod
+            ? `<div><strong>LDL Cholesterol:</strong> ${lipidProfile.ldlCholesterol} mg/dL (${LDL_ESTIMATION_METHOD_LABELS[lipidProfile.ldlMethod]})</div>`
+            : ''}
+          <div><strong>Non-HDL Cholesterol:</strong> ${lipidProfile.nonHdlCholesterol} mg/dL</div>
+        </div>
+      </div>
+    `;
+  };
+
+  // Generate the risk enhancers list for export
+  const generateRiskEnhancers = (enhancers: RiskResult['riskEnhancers']) => {
+    if (!enhancers || enhancers.length === 0) return '';
+    
+    return `
+      <div class="risk-enhancers">
+        <h3>Risk-Enhancing Factors</h3>
+        <ul>
+          ${enhancers.map(enhancer => `<li>${RISK_ENHANCER_LABELS[enhancer]}</li>`).join('')}
+        </ul>
+      </div>
+    `;
+  };
+
+  // Generate the step-by-step calculation trace for export
+  const generateCalculationTrace = (trace: RiskResult['trace']) => {
+    if (!trace) return '';
+    
+    return `
+      <div class="calculation-trace">
+        <h3>How This Was Calculated</h3>
+        <h4>Inputs (standardized units)</h4>
+        <div class="comparison-grid">
+          ${trace.inputs.map(input => `
+            <div><strong>${input.label}:</strong> ${formatTraceValue(input.value, 1)}${input.unit ? ` ${input.unit}` : ''}</div>
+          `).join('')}
+        </div>
+        <h4>Terms</h4>
+        <table>
+          <thead>
+            <tr><th>Variable</th><th>Value</th><th>Coefficient</th><th>Product</th></tr>
+          </thead>
+          <tbody>
+            ${trace.terms.map(term => `
+              <tr>
+                <td>${term.label}</td>
+                <td>${formatTraceValue(term.value)}</td>
+                <td>${formatTraceValue(term.coefficient, 5)}</td>
+                <td>${formatTraceValue(term.product)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+        <h4>Risk Equation</h4>
+        <div class="comparison-grid">
+          <div><strong>Sum of terms:</strong> ${formatTraceValue(trace.sum)}</div>
+          <div><strong>Mean sum (offset):</strong> ${formatTraceValue(trace.meanOffset)}</div>
+          <div><strong>exp(sum - mean):</strong> ${formatTraceValue(Math.exp(trace.sum - trace.meanOffset))}</div>
+          <div><strong>Baseline survival (S0):</strong> ${formatTraceValue(trace.baselineSurvival, 5)}</div>
+          <div><strong>${trace.formula}:</strong> ${trace.risk.toFixed(2)}%</div>
         </div>
       </div>
     `;
@@ -147,7 +348,8 @@ export default function ExportOptions({ riskResult, patientData, className = ''
 
   // Generate complete print content
   const generatePrintContent = (result: RiskResult, patient?: PatientData, format: 'summary' | 'detailed' = 'summary') => {
-    const { tenYearRisk, riskCategory, comparisonData, calculatedAt, framinghamVersion } = result;
+    const { tenYearRisk, riskCategory, comparisonData, calculatedAt, modelId, modelVersion } = result;
+    const riskModel = getRiskModel(modelId);
     
     return `
       <!DOCTYPE html>
@@ -166,7 +368,7 @@ export default function ExportOptions({ riskResult, patientData, className = ''
             <h1>Cardiovascular Risk Assessment Report</h1>
             <div class="report-info">
               <div>Generated: ${formatDate(calculatedAt)}</div>
-              <div>Algorithm: Framingham Risk Score ${framinghamVersion}</div>
+              <div>Algorithm: ${riskModel.name} ${modelVersion}</div>
             </div>
           </header>
 
@@ -175,11 +377,17 @@ export default function ExportOptions({ riskResult, patientData, className = ''
               <h2>Risk Assessment Summary</h2>
               <div class="risk-result ${riskCategory}">
                 <div class="risk-percentage">${tenYearRisk.toFixed(1)}%</div>
-                <div class="risk-category">${riskCategory.toUpperCase()} RISK</div>
+                <div class="risk-category">${getRiskCategoryLabel(riskCategory, getRiskThresholdScheme(riskModel.thresholdScheme)).toUpperCase()}</div>
                 <div class="risk-description">
-                  10-year cardiovascular risk
+                  10-year cardiovascular risk${riskModel.requiredInputs.includes('height') ? ' (non-laboratory estimate: BMI in place of cholesterol)' : ''}
                 </div>
+                ${result.riskRange ? `<div class="risk-range">Plausible range: ${result.riskRange.lower.toFixed(1)}% - ${result.riskRange.upper.toFixed(1)}%</div>` : ''}
               </div>
+              ${result.ageWarning ? `
+              <div class="age-warning">
+                <h3>Outside the Validated Age Range</h3>
+                <p>${result.ageWarning.message}</p>
+              </div>` : ''}
               
               <div class="risk-comparison">
                 <h3>Risk Comparison</h3>
@@ -188,12 +396,23 @@ export default function ExportOptions({ riskResult, patientData, className = ''
                   <div><strong>Age Average:</strong> ${comparisonData.averageForAge.toFixed(1)}%</div>
                   <div><strong>Gender Average:</strong> ${comparisonData.averageForGender.toFixed(1)}%</div>
                   <div><strong>Ideal Risk:</strong> ${comparisonData.idealRisk.toFixed(1)}%</div>
+                  ${patient && isStrokeRiskApplicable(patient) ? `<div><strong>10-Year Stroke Risk:</strong> ${calculateFraminghamStrokeRisk(patient).tenYearRisk.toFixed(1)}%</div>` : ''}
+                  ${patient && isHeartFailureRiskApplicable(patient) ? `<div><strong>10-Year Heart Failure Risk:</strong> ${calculateHeartFailureRisk(patient).tenYearRisk.toFixed(1)}%</div>` : ''}
+                  ${patient && isAtrialFibrillationRiskApplicable(patient) ? `<div><strong>5-Year AF Risk (CHARGE-AF):</strong> ${calculateChargeAfRisk(patient).fiveYearRisk.toFixed(1)}%</div>` : ''}
+                  ${patient && isHypertensionRiskApplicable(patient) ? `<div><strong>4-Year Hypertension Risk:</strong> ${calculateHypertensionRisk(patient).fourYearRisk.toFixed(1)}%</div>` : ''}
+                  ${result.heartAge !== undefined ? `<div><strong>Heart Age:</strong> ${result.heartAge} years${patient ? ` (actual age ${patient.age})` : ''}</div>` : ''}
                 </div>
               </div>
+              ${patient ? generateBloodPressureCategory(patient, tenYearRisk) : ''}
+              ${patient ? generateGlycemicStatus(patient) : ''}
             </div>
 
+            ${generateOutcomeRisks(result.outcomes)}
+            ${generateRiskEnhancers(result.riskEnhancers)}
+            ${generateLipidProfile(result.lipidProfile)}
             ${patient ? generatePatientSummary(patient) : ''}
             ${generateRecommendations(result.recommendations, format)}
+            ${format === 'detailed' ? generateCalculationTrace(result.trace) : ''}
 
             <div class="disclaimer">
               <h3>Important Medical Disclaimer</h3>
@@ -201,14 +420,14 @@ export default function ExportOptions({ riskResult, patientData, className = ''
                 This cardiovascular risk assessment is for educational and informational purposes only. 
                 It should not be used as a substitute for professional medical advice, diagnosis, or treatment. 
                 Always consult with your healthcare provider before making any decisions about your health care. 
-                The Framingham Risk Score is one of several risk assessment tools and may not be appropriate 
+                The ${riskModel.name} is one of several risk assessment tools and may not be appropriate 
                 for all individuals or populations.
               </p>
             </div>
           </main>
 
           <footer class="print-footer">
-            <p>This report was generated using the Framingham Risk Score algorithm based on data from the Framingham Heart Study.</p>
+            <p>This report was generated using the ${riskModel.name} algorithm (${riskModel.description}).</p>
           </footer>
         </div>
       </body>
@@ -389,7 +608,8 @@ function getPrintStyles() {
       margin-bottom: 20px;
     }
 
-    .risk-result.low {
+    .risk-result.low,
+    .risk-result.low-to-moderate {
       background-color: #f0fdf4;
       border: 2px solid #22c55e;
     }
@@ -399,7 +619,8 @@ function getPrintStyles() {
       border: 2px solid #f59e0b;
     }
 
-    .risk-result.high {
+    .risk-result.high,
+    .risk-result.very-high {
       background-color: #fef2f2;
       border: 2px solid #ef4444;
     }
@@ -410,7 +631,8 @@ function getPrintStyles() {
       margin-bottom: 10px;
     }
 
-    .risk-result.low .risk-percentage {
+    .risk-result.low .risk-percentage,
+    .risk-result.low-to-moderate .risk-percentage {
       color: #22c55e;
     }
 
@@ -418,10 +640,36 @@ function getPrintStyles() {
       color: #f59e0b;
     }
 
-    .risk-result.high .risk-percentage {
+    .risk-result.high .risk-percentage,
+    .risk-result.very-high .risk-percentage {
       color: #ef4444;
     }
 
+    .risk-range {
+      font-size: 14px;
+      color: #4b5563;
+      margin-top: 5px;
+    }
+
+    .age-warning {
+      padding: 15px 20px;
+      margin-bottom: 20px;
+      background-color: #fffbeb;
+      border: 2px solid #f59e0b;
+      border-radius: 8px;
+      color: #92400e;
+    }
+
+    .age-warning h3 {
+      font-size: 16px;
+      font-weight: bold;
+      margin: 0 0 5px 0;
+    }
+
+    .age-warning p {
+      margin: 0;
+    }
+
     .risk-category {
       font-size: 18px;
       font-weight: bold;
@@ -437,6 +685,21 @@ function getPrintStyles() {
       margin-top: 20px;
     }
 
+    .bp-category, .glycemic-status {
+      display: inline-block;
+      margin-top: 20px;
+      padding: 4px 12px;
+      border: 2px solid;
+      border-radius: 9999px;
+      font-size: 14px;
+    }
+
+    .bp-pathway, .glycemic-note {
+      font-size: 13px;
+      color: #4b5563;
+      margin-top: 8px;
+    }
+
     .risk-comparison h3 {
       font-size: 16px;
       font-weight: bold;
@@ -451,6 +714,73 @@ function getPrintStyles() {
       font-size: 14px;
     }
 
+    .outcome-risks {
+      margin-bottom: 30px;
+    }
+
+    .outcome-risks h3 {
+      font-size: 16px;
+      font-weight: bold;
+      color: #1f2937;
+      margin: 0 0 10px 0;
+    }
+
+    .risk-enhancers,
+    .lipid-profile {
+      margin-bottom: 30px;
+    }
+
+    .risk-enhancers h3,
+    .lipid-profile h3 {
+      font-size: 16px;
+      font-weight: bold;
+      color: #1f2937;
+      margin: 0 0 10px 0;
+    }
+
+    .risk-enhancers ul {
+      margin: 0;
+      padding-left: 20px;
+      font-size: 14px;
+    }
+
+    .calculation-trace {
+      margin-bottom: 30px;
+    }
+
+    .calculation-trace h3 {
+      font-size: 16px;
+      font-weight: bold;
+      color: #1f2937;
+      margin: 0 0 10px 0;
+    }
+
+    .calculation-trace h4 {
+      font-size: 14px;
+      font-weight: bold;
+      color: #374151;
+      margin: 15px 0 8px 0;
+    }
+
+    .calculation-trace table {
+      width: 100%;
+      border-collapse: collapse;
+      font-family: monospace;
+      font-size: 12px;
+    }
+
+    .calculation-trace th,
+    .calculation-trace td {
+      text-align: right;
+      padding: 4px 8px;
+      border-bottom: 1px solid #e5e7eb;
+    }
+
+    .calculation-trace th:first-child,
+    .calculation-trace td:first-child {
+      text-align: left;
+    }
+
     .patient-summary {
       margin-bottom: 30px;
       padding: 20px;
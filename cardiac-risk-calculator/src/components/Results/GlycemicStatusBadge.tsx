@@ -0,0 +1,50 @@
+import type { PatientData } from '../../types';
+import {
+  assessGlycemicStatus,
+  getGlycemicStatusColor,
+  getGlycemicStatusLabel,
+} from '../../utils/glycemia';
+
+interface GlycemicStatusBadgeProps {
+  patientData: PatientData;
+  className?: string;
+}
+
+/**
+ * GlycemicStatusBadge component shows the ADA classification of the patient's HbA1c and
+ * glucose, and flags diabetes-range results when diabetes was not selected
+ */
+export default function GlycemicStatusBadge({ patientData, className = '' }: GlycemicStatusBadgeProps) {
+  const assessment = assessGlycemicStatus(patientData);
+
+  if (!assessment) {
+    return null;
+  }
+
+  const color = getGlycemicStatusColor(assessment.status);
+  const label = getGlycemicStatusLabel(assessment.status);
+  const results = assessment.basis.join(', ');
+
+  return (
+    <span className={`inline-flex flex-wrap items-center gap-2 ${className}`}>
+      <span
+        className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium"
+        style={{ backgroundColor: `${color}1a`, color }}
+        title={results}
+      >
+        <span
+          className="w-2 h-2 rounded-full mr-2"
+          style={{ backgroundColor: color }}
+          aria-hidden="true"
+        />
+        Glycemic status: {label}
+        <span className="sr-only">. {results}.</span>
+      </span>
+      {assessment.diabetesStatusMismatch && (
+        <span className="text-sm text-red-700" role="alert">
+          Diabetes-range results, but diabetes was not selected: your risk may be underestimated
+        </span>
+      )}
+    </span>
+  );
+}
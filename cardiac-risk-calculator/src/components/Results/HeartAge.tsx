@@ -0,0 +1,57 @@
+import type { PatientData, RiskResult } from '../../types';
+
+interface HeartAgeProps {
+  riskResult: RiskResult;
+  patientData?: PatientData;
+  className?: string;
+}
+
+/**
+ * HeartAge component shows the patient's heart age, the age of someone with
+ * optimal risk factors and the same risk, compared with their actual age
+ */
+export default function HeartAge({ riskResult, patientData, className = '' }: HeartAgeProps) {
+  const { heartAge } = riskResult;
+
+  if (heartAge === undefined) {
+    return null;
+  }
+
+  const difference = patientData ? heartAge - patientData.age : undefined;
+
+  // Describe the gap between heart age and actual age
+  const getComparisonText = () => {
+    if (difference === undefined || !patientData) return null;
+    if (difference === 0) return `The same as your actual age of ${patientData.age}`;
+
+    const years = Math.abs(difference);
+    return `${years} ${years === 1 ? 'year' : 'years'} ${difference > 0 ? 'older' : 'younger'} than your actual age of ${patientData.age}`;
+  };
+
+  const valueColor = difference !== undefined && difference > 0 ? 'text-red-600' : 'text-green-600';
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Heart Age
+      </h3>
+
+      <div className="text-center">
+        <div className={`text-4xl font-bold ${valueColor}`}>
+          {heartAge}
+        </div>
+        {difference !== undefined && (
+          <p className="text-sm text-gray-700 mt-2">
+            {getComparisonText()}
+          </p>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Heart age is the age of a person of the same sex with the same cardiovascular risk
+        but optimal risk factors: blood pressure 125 mmHg untreated, total cholesterol 180 mg/dL,
+        HDL 45 mg/dL, no smoking and no diabetes.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import type { LifetimeRiskCategory, PatientData, RiskResult } from '../../types';
+import { calculateLifetimeRisk, isLifetimeRiskApplicable } from '../../utils/lifetimeRisk';
+
+interface LifetimeRiskProps {
+  riskResult: RiskResult;
+  patientData: PatientData;
+  className?: string;
+}
+
+const CATEGORY_DESCRIPTIONS: Record<LifetimeRiskCategory, string> = {
+  allOptimal: 'All risk factors optimal',
+  notOptimal: 'At least one risk factor not optimal',
+  elevated: 'At least one risk factor elevated',
+  oneMajor: 'One major risk factor',
+  multipleMajor: 'Two or more major risk factors',
+};
+
+/**
+ * LifetimeRisk component shows the risk of a cardiovascular event by age 95 for
+ * younger patients whose 10-year risk is low
+ */
+export default function LifetimeRisk({ riskResult, patientData, className = '' }: LifetimeRiskProps) {
+  if (!isLifetimeRiskApplicable(patientData, riskResult)) {
+    return null;
+  }
+
+  const { category, lifetimeRisk, optimalRisk } = calculateLifetimeRisk(patientData);
+  const valueColor = category === 'allOptimal' ? 'text-green-600' : 'text-red-600';
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Lifetime Risk
+      </h3>
+
+      <div className="text-center">
+        <div className={`text-4xl font-bold ${valueColor}`}>
+          {lifetimeRisk}%
+        </div>
+        <p className="text-sm text-gray-700 mt-2">
+          {CATEGORY_DESCRIPTIONS[category]}
+        </p>
+        {category !== 'allOptimal' && (
+          <p className="text-sm text-gray-600 mt-1">
+            Compared with {optimalRisk}% with all risk factors optimal
+          </p>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Estimated risk of a heart attack, stroke or other cardiovascular event by age 95.
+        Your 10-year risk is low, but risk factors add up over a lifetime.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import type { OutcomeRisk, RiskResult } from '../../types';
+import { RISK_OUTCOME_LABELS } from '../../utils/constants';
+import { formatRiskPercentage } from '../../utils/riskCategorization';
+
+interface OutcomeRisksProps {
+  riskResult: RiskResult;
+  className?: string;
+}
+
+/**
+ * OutcomeRisks component lists every outcome and horizon estimated by models
+ * that report more than a single 10-year risk (e.g. PREVENT), with the horizons side by side
+ */
+export default function OutcomeRisks({ riskResult, className = '' }: OutcomeRisksProps) {
+  const { outcomes } = riskResult;
+
+  if (!outcomes || outcomes.length === 0) {
+    return null;
+  }
+
+  const horizons = Array.from(new Set(outcomes.map((outcome) => outcome.horizonYears))).sort((a, b) => a - b);
+  const outcomeTypes = Array.from(new Set(outcomes.map((outcome) => outcome.outcome)));
+
+  const findRisk = (outcomeType: OutcomeRisk['outcome'], horizonYears: number) =>
+    outcomes.find((outcome) => outcome.outcome === outcomeType && outcome.horizonYears === horizonYears);
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        Risk by Outcome
+      </h3>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200">
+            <th scope="col" className="text-left font-medium text-gray-700 py-2">
+              Outcome
+            </th>
+            {horizons.map((horizonYears) => (
+              <th key={horizonYears} scope="col" className="text-right font-medium text-gray-700 py-2">
+                {horizonYears}-Year Risk
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {outcomeTypes.map((outcomeType) => (
+            <tr key={outcomeType} className="border-b border-gray-100 last:border-0">
+              <th scope="row" className="text-left font-normal text-gray-900 py-2">
+                {RISK_OUTCOME_LABELS[outcomeType]}
+              </th>
+              {horizons.map((horizonYears) => {
+                const outcomeRisk = findRisk(outcomeType, horizonYears);
+                return (
+                  <td key={horizonYears} className="text-right font-semibold text-gray-900 py-2">
+                    {outcomeRisk ? formatRiskPercentage(outcomeRisk.risk) : '—'}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import type { RiskModelId, RiskResult } from '../../types';
+import { RISK_OUTCOME_LABELS } from '../../utils/constants';
+import { formatRiskPercentage } from '../../utils/riskCategorization';
+import { getRiskModel } from '../../utils/riskModels';
+
+interface OutcomeSwitchProps {
+  results: RiskResult[];
+  selectedModelId: RiskModelId;
+  onChange: (modelId: RiskModelId) => void;
+  className?: string;
+}
+
+/**
+ * OutcomeSwitch component lets the results switch between the 10-year risks of different
+ * outcomes, such as cardiovascular disease from the selected model and stroke
+ */
+export default function OutcomeSwitch({ results, selectedModelId, onChange, className = '' }: OutcomeSwitchProps) {
+  if (results.length < 2) {
+    return null;
+  }
+
+  return (
+    <div className={`inline-flex rounded-md shadow-sm ${className}`} role="group" aria-label="Risk outcome">
+      {results.map((result, index) => {
+        const riskModel = getRiskModel(result.modelId);
+        const isSelected = result.modelId === selectedModelId;
+
+        return (
+          <button
+            key={result.modelId}
+            type="button"
+            aria-pressed={isSelected}
+            title={riskModel.name}
+            onClick={() => onChange(result.modelId)}
+            className={`px-4 py-2 text-sm font-medium border border-gray-300 focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+              isSelected ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-gray-700 hover:bg-gray-50'
+            } ${index === 0 ? 'rounded-l-md' : '-ml-px'} ${index === results.length - 1 ? 'rounded-r-md' : ''}`}
+          >
+            {RISK_OUTCOME_LABELS[riskModel.outcome]}: {formatRiskPercentage(result.tenYearRisk)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
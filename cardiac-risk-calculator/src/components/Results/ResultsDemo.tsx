@@ -29,6 +29,7 @@ export default function ResultsDemo() {
   const sampleRiskResult: RiskResult = {
     tenYearRisk: 15.7,
     riskCategory: 'moderate',
+    riskEnhancers: ['familyHistory'],
     riskFactors: {
       age: 2.1,
       gender: 0,
@@ -36,7 +37,7 @@ export default function ResultsDemo() {
       bloodPressure: 0.8,
       smoking: 0.5,
       diabetes: 0,
-      familyHistory: 0.2,
+      familyHistory: 0,
     },
     comparisonData: {
       averageForAge: 12.5,
@@ -108,7 +109,8 @@ export default function ResultsDemo() {
       }
     ],
     calculatedAt: new Date(),
-    framinghamVersion: '2008',
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
   };
 
   return (
@@ -8,10 +8,13 @@ import {
   Title,
   Tooltip,
   Legend,
+  type ChartData,
   type ChartOptions,
 } from 'chart.js';
 import type { RiskResult, PatientData } from '../../types';
 import { getRiskCategoryColor } from '../../utils/riskCategorization';
+import { getRiskModel } from '../../utils/riskModels';
+import { RISK_OUTCOME_TITLES } from '../../utils/constants';
 
 // Register Chart.js components
 ChartJS.register(
@@ -26,21 +29,33 @@ ChartJS.register(
 interface RiskChartProps {
   riskResult: RiskResult;
   patientData?: PatientData;
+  scenarioRisk?: number;         // Projected 10-year risk from the treatment simulator
   className?: string;
 }
 
 /**
  * RiskChart component displays comparison data showing the patient's risk
- * compared to age/gender averages and ideal risk levels
+ * compared to age/gender averages and ideal risk levels, plus the patient's
+ * 30-year cardiovascular risk when the model projects one, the plausible range
+ * of the 10-year risk and the projected risk of the active treatment scenario
  */
-export default function RiskChart({ riskResult, className = '' }: Omit<RiskChartProps, 'patientData'>) {
-  const { tenYearRisk, riskCategory, comparisonData } = riskResult;
+export default function RiskChart({ riskResult, scenarioRisk, className = '' }: Omit<RiskChartProps, 'patientData'>) {
+  const { tenYearRisk, riskCategory, comparisonData, outcomes, riskRange } = riskResult;
   
   // Get color based on risk category
   const riskColor = getRiskCategoryColor(riskCategory);
+  const outcomeLabel = RISK_OUTCOME_TITLES[getRiskModel(riskResult.modelId).outcome];
   
-  // Chart data configuration
-  const data = {
+  // 30-year total CVD risk (PREVENT), when available
+  const thirtyYearRisk = outcomes?.find(
+    (outcome) => outcome.outcome === 'cvd' && outcome.horizonYears === 30
+  )?.risk;
+  const hasThirtyYearRisk = thirtyYearRisk !== undefined;
+  const hasScenarioRisk = scenarioRisk !== undefined;
+  const hasRiskRange = riskRange !== undefined;
+  
+  // Chart data configuration; the range bar floats between its lower and upper bound
+  const data: ChartData<'bar', Array<number | [number, number] | null>> = {
     labels: [
       'Your Risk',
       'Average for Your Age',
@@ -49,7 +64,7 @@ export default function RiskChart({ riskResult, className = '' }: Omit<RiskChart
     ],
     datasets: [
       {
-        label: '10-Year Cardiovascular Risk (%)',
+        label: `10-Year ${outcomeLabel} Risk (%)`,
         data: [
           tenYearRisk,
           comparisonData.averageForAge,
@@ -72,6 +87,45 @@ export default function RiskChart({ riskResult, className = '' }: Omit<RiskChart
         borderRadius: 4,
         borderSkipped: false,
       },
+      ...(hasRiskRange
+        ? [
+            {
+              label: 'Plausible Range (%)',
+              data: [[riskRange.lower, riskRange.upper] as [number, number], null, null, null],
+              backgroundColor: `${riskColor}40`, // Translucent category color for the floating range bar
+              borderColor: riskColor,
+              borderWidth: 1,
+              borderRadius: 4,
+              borderSkipped: false,
+            },
+          ]
+        : []),
+      ...(hasThirtyYearRisk
+        ? [
+            {
+              label: '30-Year Cardiovascular Risk (%)',
+              data: [thirtyYearRisk, null, null, null],
+              backgroundColor: '#93c5fd', // Light blue for the long-term projection
+              borderColor: '#3b82f6',
+              borderWidth: 2,
+              borderRadius: 4,
+              borderSkipped: false,
+            },
+          ]
+        : []),
+      ...(hasScenarioRisk
+        ? [
+            {
+              label: 'Treatment Scenario (%)',
+              data: [scenarioRisk, null, null, null],
+              backgroundColor: '#c4b5fd', // Light purple for the what-if projection
+              borderColor: '#8b5cf6',
+              borderWidth: 2,
+              borderRadius: 4,
+              borderSkipped: false,
+            },
+          ]
+        : []),
     ],
   };
 
@@ -81,7 +135,7 @@ export default function RiskChart({ riskResult, className = '' }: Omit<RiskChart
     maintainAspectRatio: false,
     plugins: {
       legend: {
-        display: false, // Hide default legend
+        display: hasThirtyYearRisk || hasScenarioRisk || hasRiskRange, // Only needed to tell the series apart
       },
       title: {
         display: true,
@@ -95,6 +149,10 @@ export default function RiskChart({ riskResult, className = '' }: Omit<RiskChart
       tooltip: {
         callbacks: {
           label: (context) => {
+            if (Array.isArray(context.raw)) {
+              const [lower, upper] = context.raw as [number, number];
+              return `Range: ${lower.toFixed(1)}% - ${upper.toFixed(1)}%`;
+            }
             const value = context.parsed.y;
             return `Risk: ${value.toFixed(1)}%`;
           },
@@ -106,7 +164,10 @@ export default function RiskChart({ riskResult, className = '' }: Omit<RiskChart
         beginAtZero: true,
         max: Math.max(
           tenYearRisk * 1.2, 
+          (riskRange?.upper ?? 0) * 1.2,
           comparisonData.averageForAge * 1.2, 
+          (thirtyYearRisk ?? 0) * 1.2,
+          (scenarioRisk ?? 0) * 1.2,
           20 // Minimum scale of 20%
         ),
         ticks: {
@@ -118,7 +179,7 @@ export default function RiskChart({ riskResult, className = '' }: Omit<RiskChart
         },
         title: {
           display: true,
-          text: '10-Year Risk (%)',
+          text: hasThirtyYearRisk || hasScenarioRisk ? 'Risk (%)' : '10-Year Risk (%)',
           color: '#4b5563',
           font: {
             weight: 'bold',
@@ -190,6 +251,30 @@ export default function RiskChart({ riskResult, className = '' }: Omit<RiskChart
               {tenYearRisk.toFixed(1)}%
             </span>
           </div>
+          {hasRiskRange && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Plausible Range:</span>
+              <span className="font-medium" style={{ color: riskColor }}>
+                {riskRange.lower.toFixed(1)}% - {riskRange.upper.toFixed(1)}%
+              </span>
+            </div>
+          )}
+          {hasThirtyYearRisk && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Your 30-Year Risk:</span>
+              <span className="font-medium text-blue-600">
+                {thirtyYearRisk.toFixed(1)}%
+              </span>
+            </div>
+          )}
+          {hasScenarioRisk && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">With Treatment:</span>
+              <span className="font-medium text-purple-600">
+                {scenarioRisk.toFixed(1)}%
+              </span>
+            </div>
+          )}
           <div className="flex justify-between">
             <span className="text-gray-600">Age Average:</span>
             <span className="font-medium text-gray-700">
@@ -223,7 +308,9 @@ export default function RiskChart({ riskResult, className = '' }: Omit<RiskChart
 
       {/* Accessibility information */}
       <div className="sr-only">
-        Risk comparison chart showing your risk of {tenYearRisk.toFixed(1)}% compared to 
+        Risk comparison chart showing your risk of {tenYearRisk.toFixed(1)}%
+        {hasThirtyYearRisk && ` (30-year risk ${thirtyYearRisk.toFixed(1)}%)`}
+        {hasScenarioRisk && ` (${scenarioRisk.toFixed(1)}% with treatment)`} compared to 
         age average of {comparisonData.averageForAge.toFixed(1)}%, 
         gender average of {comparisonData.averageForGender.toFixed(1)}%, 
         and ideal risk of {comparisonData.idealRisk.toFixed(1)}%.
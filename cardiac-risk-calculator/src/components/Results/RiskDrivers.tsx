@@ -0,0 +1,145 @@
+import { Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  type ChartOptions,
+} from 'chart.js';
+import type { RiskFactor, RiskResult } from '../../types';
+import { BODY_SIZE_RISK_FACTOR_LABEL, RISK_FACTOR_LABELS } from '../../utils/constants';
+import { getRiskModel } from '../../utils/riskModels';
+
+// Register Chart.js components
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip
+);
+
+interface RiskDriversProps {
+  riskResult: RiskResult;
+  className?: string;
+}
+
+/**
+ * RiskDrivers component shows how many percentage points each risk factor adds to
+ * (or removes from) the patient's 10-year risk as a horizontal bar chart
+ */
+export default function RiskDrivers({ riskResult, className = '' }: RiskDriversProps) {
+  const { riskFactors, referenceRisk } = riskResult;
+
+  // Results saved before attribution hold raw model terms and have no reference risk
+  if (referenceRisk === undefined) {
+    return null;
+  }
+
+  const isNonLaboratory = getRiskModel(riskResult.modelId).requiredInputs.includes('height');
+  const getFactorLabel = (factor: RiskFactor) =>
+    factor === 'cholesterol' && isNonLaboratory ? BODY_SIZE_RISK_FACTOR_LABEL : RISK_FACTOR_LABELS[factor];
+
+  const drivers = (Object.entries(riskFactors) as Array<[RiskFactor, number]>)
+    .filter(([, contribution]) => contribution !== 0)
+    .sort(([, a], [, b]) => b - a);
+
+  if (drivers.length === 0) {
+    return null;
+  }
+
+  const data = {
+    labels: drivers.map(([factor]) => getFactorLabel(factor)),
+    datasets: [
+      {
+        label: 'Contribution to 10-Year Risk (percentage points)',
+        data: drivers.map(([, contribution]) => contribution),
+        backgroundColor: drivers.map(([, contribution]) => (contribution > 0 ? '#fca5a5' : '#86efac')),
+        borderColor: drivers.map(([, contribution]) => (contribution > 0 ? '#ef4444' : '#22c55e')),
+        borderWidth: 2,
+        borderRadius: 4,
+        borderSkipped: false,
+      },
+    ],
+  };
+
+  const options: ChartOptions<'bar'> = {
+    indexAxis: 'y',
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context) => {
+            const value = context.parsed.x;
+            return `${value > 0 ? '+' : ''}${value.toFixed(1)} percentage points`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: {
+          callback: (value) => `${value}`,
+          color: '#6b7280',
+        },
+        grid: {
+          color: '#e5e7eb',
+        },
+        title: {
+          display: true,
+          text: 'Percentage Points',
+          color: '#4b5563',
+        },
+      },
+      y: {
+        ticks: {
+          color: '#374151',
+        },
+        grid: {
+          display: false,
+        },
+      },
+    },
+  };
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        What&apos;s Driving Your Risk
+      </h3>
+
+      <div className="mb-4" style={{ height: `${Math.max(drivers.length * 40, 120)}px` }}>
+        <Bar data={data} options={options} />
+      </div>
+
+      <ul className="grid grid-cols-2 gap-2 text-sm mb-4">
+        {drivers.map(([factor, contribution]) => (
+          <li key={factor} className="flex justify-between">
+            <span className="text-gray-600">{getFactorLabel(factor)}:</span>
+            <span className={`font-medium ${contribution > 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {contribution > 0 ? '+' : ''}{contribution.toFixed(1)}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-xs text-gray-500">
+        Each bar is the average change in your risk when that factor is set to an optimal
+        reference value, across every combination of your other factors. Together they add up
+        to your risk of {riskResult.tenYearRisk.toFixed(1)}% minus {referenceRisk.toFixed(1)}% for a
+        young woman with optimal risk factors.
+      </p>
+
+      {/* Accessibility information */}
+      <div className="sr-only">
+        Risk drivers: {drivers
+          .map(([factor, contribution]) => `${getFactorLabel(factor)} ${contribution.toFixed(1)} percentage points`)
+          .join(', ')}.
+      </div>
+    </div>
+  );
+}
@@ -7,8 +7,16 @@ import {
   Legend,
   type ChartOptions,
 } from 'chart.js';
-import type { RiskResult } from '../../types';
-import { getRiskCategoryColor, formatRiskPercentage } from '../../utils/riskCategorization';
+import type { RiskCategory, RiskOutcome, RiskResult } from '../../types';
+import {
+  getRiskCategoryColor,
+  getRiskCategoryLabel,
+  getRiskThresholdScheme,
+  formatRiskPercentage,
+  formatRiskTierRange,
+} from '../../utils/riskCategorization';
+import { getRiskModel } from '../../utils/riskModels';
+import { RISK_OUTCOME_TITLES } from '../../utils/constants';
 
 // Register Chart.js components
 ChartJS.register(ArcElement, Tooltip, Legend);
@@ -18,12 +26,24 @@ interface RiskGaugeProps {
   className?: string;
 }
 
+// Event behind each companion outcome's risk; every other model predicts a cardiovascular event
+const OUTCOME_EVENT_DESCRIPTIONS: Partial<Record<RiskOutcome, string>> = {
+  stroke: 'having a stroke',
+  heartFailure: 'developing heart failure',
+};
+const DEFAULT_EVENT_DESCRIPTION = 'experiencing a cardiovascular event (heart attack or stroke)';
+
 /**
  * RiskGauge component displays the cardiovascular risk as a visual gauge
  * using a doughnut chart with color-coded risk indicators
  */
 export default function RiskGauge({ riskResult, className = '' }: RiskGaugeProps) {
-  const { tenYearRisk, riskCategory } = riskResult;
+  const { tenYearRisk, riskCategory, riskRange, ageWarning } = riskResult;
+  const riskModel = getRiskModel(riskResult.modelId);
+  const thresholdScheme = getRiskThresholdScheme(riskModel.thresholdScheme);
+  const riskThresholds = riskResult.riskThresholds ?? thresholdScheme.cutOffs;
+  const isNonLaboratory = riskModel.requiredInputs.includes('height');
+  const outcomeTitle = RISK_OUTCOME_TITLES[riskModel.outcome];
   
   // Calculate the remaining percentage for the gauge
   const remainingRisk = 100 - tenYearRisk;
@@ -44,6 +64,20 @@ export default function RiskGauge({ riskResult, className = '' }: RiskGaugeProps
         circumference: 180, // Half circle
         rotation: 270, // Start from top
       },
+      ...(riskRange
+        ? [
+            {
+              // Inner ring marking the plausible range from measurement uncertainty
+              data: [riskRange.lower, riskRange.upper - riskRange.lower, 100 - riskRange.upper],
+              backgroundColor: ['transparent', `${riskColor}66`, 'transparent'],
+              borderColor: ['transparent', riskColor, 'transparent'],
+              borderWidth: 1,
+              weight: 0.4,
+              circumference: 180,
+              rotation: 270,
+            },
+          ]
+        : []),
     ],
   };
 
@@ -56,8 +90,13 @@ export default function RiskGauge({ riskResult, className = '' }: RiskGaugeProps
         display: false, // We'll create custom legend
       },
       tooltip: {
+        // The range ring only has a tooltip on the band itself
+        filter: (item) => item.datasetIndex === 0 || item.dataIndex === 1,
         callbacks: {
           label: (context) => {
+            if (context.datasetIndex === 1 && riskRange) {
+              return `Plausible Range: ${formatRiskPercentage(riskRange.lower)} - ${formatRiskPercentage(riskRange.upper)}`;
+            }
             const label = context.label || '';
             const value = context.parsed;
             return `${label}: ${value.toFixed(1)}%`;
@@ -72,25 +111,36 @@ export default function RiskGauge({ riskResult, className = '' }: RiskGaugeProps
     },
   };
 
-  // Get risk category display text
-  const getRiskCategoryText = (category: string) => {
-    switch (category) {
-      case 'low':
-        return 'Low Risk';
-      case 'moderate':
-        return 'Moderate Risk';
-      case 'high':
-        return 'High Risk';
-      default:
-        return 'Unknown Risk';
-    }
-  };
+  // Get risk category display text, using the guideline names of the model's threshold scheme
+  const getRiskCategoryText = (category: RiskCategory) =>
+    getRiskCategoryLabel(category, thresholdScheme);
+
+  // Category name without the trailing "Risk", for the threshold legend
+  const getShortCategoryText = (category: RiskCategory) =>
+    getRiskCategoryText(category).replace(/ Risk$/, '');
 
   return (
     <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
       <h3 className="text-lg font-semibold text-gray-900 mb-4 text-center">
-        10-Year Cardiovascular Risk
+        10-Year {outcomeTitle} Risk
       </h3>
+
+      {/* Extrapolated age warning */}
+      {ageWarning && (
+        <div role="alert" className="mb-4 rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+          <p className="font-semibold">Outside the validated age range</p>
+          <p className="mt-1">{ageWarning.message}</p>
+        </div>
+      )}
+
+      {/* Non-laboratory model label */}
+      {isNonLaboratory && (
+        <div className="flex justify-center mb-4">
+          <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-800 text-xs font-medium">
+            Non-laboratory estimate (BMI, no cholesterol)
+          </span>
+        </div>
+      )}
       
       {/* Gauge Chart Container */}
       <div className="relative h-48 mb-4">
@@ -104,6 +154,11 @@ export default function RiskGauge({ riskResult, className = '' }: RiskGaugeProps
           <div className="text-sm text-gray-600 mt-1">
             {getRiskCategoryText(riskCategory)}
           </div>
+          {riskRange && (
+            <div className="text-xs text-gray-500 mt-1">
+              Range {formatRiskPercentage(riskRange.lower)} - {formatRiskPercentage(riskRange.upper)}
+            </div>
+          )}
         </div>
       </div>
 
@@ -115,22 +170,38 @@ export default function RiskGauge({ riskResult, className = '' }: RiskGaugeProps
           aria-label={`${riskCategory} risk indicator`}
         />
         <span className="text-sm font-medium text-gray-700">
-          {getRiskCategoryText(riskCategory)} (&lt;10% Low, 10-20% Moderate, ≥20% High)
+          {getRiskCategoryText(riskCategory)} ({thresholdScheme.tiers
+            .map((tier, index) => `${formatRiskTierRange(index, riskThresholds)} ${getShortCategoryText(tier.category)}`)
+            .join(', ')})
         </span>
       </div>
 
       {/* Risk Interpretation */}
       <div className="text-center text-sm text-gray-600">
         <p>
-          This represents your estimated risk of experiencing a cardiovascular event 
-          (heart attack or stroke) within the next 10 years based on the Framingham Risk Score.
+          This represents your estimated risk of {OUTCOME_EVENT_DESCRIPTIONS[riskModel.outcome] ?? DEFAULT_EVENT_DESCRIPTION}{' '}
+          within the next 10 years based on the {riskModel.name}.
         </p>
+        {isNonLaboratory && (
+          <p className="mt-2">
+            This estimate uses body mass index in place of cholesterol. A lipid panel gives a more
+            precise result.
+          </p>
+        )}
+        {riskRange && (
+          <p className="mt-2">
+            Allowing for normal variation in {riskModel.requiredInputs.includes('totalCholesterol') ? 'blood pressure and cholesterol measurements' : 'blood pressure measurements'}, your risk
+            is plausibly between {formatRiskPercentage(riskRange.lower)} and {formatRiskPercentage(riskRange.upper)}.
+          </p>
+        )}
       </div>
 
       {/* Accessibility information */}
       <div className="sr-only">
-        Your 10-year cardiovascular risk is {formatRiskPercentage(tenYearRisk)}, 
+        Your 10-year {outcomeTitle.toLowerCase()} risk is {formatRiskPercentage(tenYearRisk)}, 
         which is categorized as {getRiskCategoryText(riskCategory)}.
+        {ageWarning && ` ${ageWarning.message}`}
+        {riskRange && ` The plausible range is ${formatRiskPercentage(riskRange.lower)} to ${formatRiskPercentage(riskRange.upper)}.`}
       </div>
     </div>
   );
@@ -0,0 +1,258 @@
+import type { PatientData, RiskResult, StatinIntensity, TreatmentScenario } from '../../types';
+import { Button } from '../UI';
+import {
+  BP_MEDICATION_SBP_REDUCTION,
+  SCENARIO_TARGET_SBP_RANGE,
+  STATIN_INTENSITY_LABELS,
+  STATIN_LDL_REDUCTION,
+} from '../../utils/constants';
+import {
+  describeTreatmentScenario,
+  hasTreatment,
+  isTreatmentSimulatorApplicable,
+  simulateTreatmentScenario,
+} from '../../utils/treatmentSimulator';
+import { formatRiskPercentage } from '../../utils/riskCategorization';
+
+interface TreatmentSimulatorProps {
+  riskResult: RiskResult;
+  patientData: PatientData;
+  scenario: TreatmentScenario;
+  onScenarioChange: (scenario: TreatmentScenario) => void;
+  savedScenarios?: TreatmentScenario[];
+  onSavedScenariosChange?: (scenarios: TreatmentScenario[]) => void;
+  className?: string;
+}
+
+const STATIN_OPTIONS = (Object.keys(STATIN_INTENSITY_LABELS) as StatinIntensity[]).map((intensity) => ({
+  value: intensity,
+  label: `${STATIN_INTENSITY_LABELS[intensity]} (LDL -${Math.round(STATIN_LDL_REDUCTION[intensity] * 100)}%)`,
+}));
+
+/**
+ * TreatmentSimulator component lets the patient and clinician try statin therapy,
+ * blood pressure lowering and smoking cessation, showing the projected Framingham
+ * 10-year risk, absolute risk reduction and number needed to treat. Scenarios can be
+ * saved with the profile for shared decision-making visits.
+ */
+export default function TreatmentSimulator({
+  riskResult,
+  patientData,
+  scenario,
+  onScenarioChange,
+  savedScenarios = [],
+  onSavedScenariosChange,
+  className = '',
+}: TreatmentSimulatorProps) {
+  if (!isTreatmentSimulatorApplicable(patientData, riskResult.modelId)) {
+    return null;
+  }
+
+  const result = simulateTreatmentScenario(patientData, scenario);
+  const currentSBP = Math.round(patientData.systolicBP);
+  const canLowerSBP = currentSBP > SCENARIO_TARGET_SBP_RANGE.min;
+  const isSaved = savedScenarios.some(
+    (saved) => describeTreatmentScenario(saved) === describeTreatmentScenario(scenario)
+  );
+
+  const updateScenario = (changes: Partial<TreatmentScenario>) => {
+    onScenarioChange({ ...scenario, ...changes });
+  };
+
+  const handleTargetSBPChange = (value: number) => {
+    updateScenario({ targetSystolicBP: value < currentSBP ? value : undefined });
+  };
+
+  const handleSaveScenario = () => {
+    onSavedScenariosChange?.([...savedScenarios, scenario]);
+  };
+
+  const handleRemoveScenario = (index: number) => {
+    onSavedScenariosChange?.(savedScenarios.filter((_, i) => i !== index));
+  };
+
+  const getNumberNeededToTreatText = (numberNeededToTreat?: number) =>
+    numberNeededToTreat !== undefined ? `${numberNeededToTreat}` : '—';
+
+  return (
+    <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+        What-If Treatment Simulator
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+        {/* Treatment Controls */}
+        <div className="space-y-4">
+          {canLowerSBP && (
+            <div>
+              <label htmlFor="scenario-target-sbp" className="block text-sm font-medium text-gray-700 mb-1">
+                Target systolic BP: {scenario.targetSystolicBP ?? currentSBP} mmHg
+              </label>
+              <input
+                id="scenario-target-sbp"
+                type="range"
+                min={SCENARIO_TARGET_SBP_RANGE.min}
+                max={currentSBP}
+                step={1}
+                value={scenario.targetSystolicBP ?? currentSBP}
+                onChange={(e) => handleTargetSBPChange(Number(e.target.value))}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="scenario-statin" className="block text-sm font-medium text-gray-700 mb-1">
+              Statin therapy
+            </label>
+            <select
+              id="scenario-statin"
+              value={scenario.statinIntensity ?? ''}
+              onChange={(e) =>
+                updateScenario({ statinIntensity: (e.target.value || undefined) as StatinIntensity | undefined })
+              }
+              className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">No statin</option>
+              {STATIN_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {patientData.smokingStatus === 'current' && (
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scenario.quitSmoking}
+                onChange={(e) => updateScenario({ quitSmoking: e.target.checked })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Quit smoking</span>
+            </label>
+          )}
+
+          {!patientData.onBPMedication && (
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scenario.startBPMedication}
+                onChange={(e) => updateScenario({ startBPMedication: e.target.checked })}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-700">Start blood pressure medication</span>
+            </label>
+          )}
+        </div>
+
+        {/* Projected Risk */}
+        <div className="bg-gray-50 rounded-lg p-4">
+          <table className="w-full text-sm">
+            <tbody>
+              <tr className="border-b border-gray-200">
+                <th scope="row" className="text-left font-normal text-gray-600 py-2">Current 10-year risk</th>
+                <td className="text-right font-semibold text-gray-900 py-2">
+                  {formatRiskPercentage(result.baselineRisk)}
+                </td>
+              </tr>
+              <tr className="border-b border-gray-200">
+                <th scope="row" className="text-left font-normal text-gray-600 py-2">With treatment</th>
+                <td className="text-right font-semibold text-purple-700 py-2">
+                  {formatRiskPercentage(result.projectedRisk)}
+                </td>
+              </tr>
+              <tr className="border-b border-gray-200">
+                <th scope="row" className="text-left font-normal text-gray-600 py-2">Absolute risk reduction</th>
+                <td className="text-right font-semibold text-gray-900 py-2">
+                  {result.absoluteRiskReduction.toFixed(1)} points
+                </td>
+              </tr>
+              <tr>
+                <th scope="row" className="text-left font-normal text-gray-600 py-2">Number needed to treat</th>
+                <td className="text-right font-semibold text-gray-900 py-2">
+                  {getNumberNeededToTreatText(result.numberNeededToTreat)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          {result.numberNeededToTreat !== undefined && (
+            <p className="text-xs text-gray-600 mt-2">
+              About {result.numberNeededToTreat} people like you would need this treatment for
+              10 years to prevent one cardiovascular event.
+            </p>
+          )}
+          {onSavedScenariosChange && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSaveScenario}
+              disabled={!hasTreatment(scenario) || isSaved}
+              className="mt-4"
+            >
+              Save Scenario
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Saved Scenarios */}
+      {savedScenarios.length > 0 && (
+        <div className="mb-4">
+          <h4 className="font-medium text-gray-900 mb-2">Saved Scenarios</h4>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-gray-600">
+                <th scope="col" className="text-left font-medium py-2">Scenario</th>
+                <th scope="col" className="text-right font-medium py-2">Risk</th>
+                <th scope="col" className="text-right font-medium py-2">ARR</th>
+                <th scope="col" className="text-right font-medium py-2">NNT</th>
+                <th scope="col" className="py-2"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody>
+              {savedScenarios.map((saved, index) => {
+                const savedResult = simulateTreatmentScenario(patientData, saved);
+                return (
+                  <tr key={index} className="border-b border-gray-100">
+                    <td className="text-gray-900 py-2">{describeTreatmentScenario(saved)}</td>
+                    <td className="text-right text-gray-900 py-2">{formatRiskPercentage(savedResult.projectedRisk)}</td>
+                    <td className="text-right text-gray-900 py-2">{savedResult.absoluteRiskReduction.toFixed(1)}</td>
+                    <td className="text-right text-gray-900 py-2">
+                      {getNumberNeededToTreatText(savedResult.numberNeededToTreat)}
+                    </td>
+                    <td className="text-right py-2 space-x-2 whitespace-nowrap">
+                      <button
+                        type="button"
+                        onClick={() => onScenarioChange(saved)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Show
+                      </button>
+                      {onSavedScenariosChange && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveScenario(index)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Projections recompute the Framingham Risk Score with the treated risk factors.
+        Statins lower total cholesterol by the expected LDL reduction and one blood pressure
+        medication lowers systolic BP by about {BP_MEDICATION_SBP_REDUCTION} mmHg. Saved scenarios are stored with your profile.
+      </p>
+    </div>
+  );
+}
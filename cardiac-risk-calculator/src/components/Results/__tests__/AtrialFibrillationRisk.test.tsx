@@ -0,0 +1,56 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import AtrialFibrillationRisk from '../AtrialFibrillationRisk';
+import type { PatientData } from '../../../types';
+
+describe('AtrialFibrillationRisk', () => {
+  const mockPatientData: PatientData = {
+    age: 65,
+    gender: 'male',
+    race: 'white',
+    height: 175,
+    weight: 80,
+    totalCholesterol: 200,
+    hdlCholesterol: 45,
+    cholesterolUnit: 'mg/dL',
+    systolicBP: 130,
+    diastolicBP: 80,
+    onBPMedication: false,
+    glucoseUnit: 'mg/dL',
+    smokingStatus: 'never',
+    hasDiabetes: false,
+    familyHistory: false,
+  };
+
+  it('shows the 5-year risk with screening advice', () => {
+    render(<AtrialFibrillationRisk patientData={mockPatientData} />);
+
+    expect(screen.getByText('5-Year Atrial Fibrillation Risk')).toBeInTheDocument();
+    expect(screen.getByText('2.6%')).toBeInTheDocument();
+    expect(screen.getByText('Intermediate Risk')).toBeInTheDocument();
+    expect(screen.getByText(/Check the pulse for an irregular rhythm/)).toBeInTheDocument();
+  });
+
+  it('does not give screening advice for a low risk', () => {
+    render(<AtrialFibrillationRisk patientData={{ ...mockPatientData, age: 50 }} />);
+
+    expect(screen.getByText('Low Risk')).toBeInTheDocument();
+    expect(screen.queryByText(/Check the pulse/)).not.toBeInTheDocument();
+  });
+
+  it('renders nothing for patients already diagnosed with atrial fibrillation', () => {
+    const { container } = render(
+      <AtrialFibrillationRisk patientData={{ ...mockPatientData, hasAtrialFibrillation: true }} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('renders nothing without height and weight', () => {
+    const { container } = render(
+      <AtrialFibrillationRisk patientData={{ ...mockPatientData, height: undefined, weight: undefined }} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
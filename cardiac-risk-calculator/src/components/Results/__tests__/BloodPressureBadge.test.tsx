@@ -0,0 +1,57 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import BloodPressureBadge from '../BloodPressureBadge';
+import { createSamplePatientData } from '../../../utils/framingham';
+import type { PatientData, RiskResult } from '../../../types';
+
+describe('BloodPressureBadge', () => {
+  const patientData: PatientData = { ...createSamplePatientData(), systolicBP: 134, diastolicBP: 78 };
+
+  const riskResult = (tenYearRisk: number): RiskResult => ({
+    tenYearRisk,
+    riskCategory: 'low',
+    riskFactors: {
+      age: 0,
+      gender: 0,
+      cholesterol: 0,
+      bloodPressure: 0,
+      smoking: 0,
+      diabetes: 0,
+      familyHistory: 0,
+    },
+    comparisonData: {
+      averageForAge: 5,
+      averageForGender: 5,
+      idealRisk: 2,
+    },
+    recommendations: [],
+    calculatedAt: new Date('2024-01-15T10:30:00Z'),
+    modelId: 'pce-2013',
+    modelVersion: '2013',
+  });
+
+  it('shows the reading and its category', () => {
+    render(<BloodPressureBadge riskResult={riskResult(6)} patientData={patientData} />);
+
+    expect(screen.getByText(/BP 134\/78 mmHg: Stage 1 Hypertension/)).toBeInTheDocument();
+  });
+
+  it('uses the 10-year risk to decide the stage 1 pathway', () => {
+    const { rerender } = render(<BloodPressureBadge riskResult={riskResult(6)} patientData={patientData} />);
+    expect(screen.getByTitle(/lifestyle changes first/)).toBeInTheDocument();
+
+    rerender(<BloodPressureBadge riskResult={riskResult(12)} patientData={patientData} />);
+    expect(screen.getByTitle(/plus blood pressure medication/)).toBeInTheDocument();
+  });
+
+  it('shows normal blood pressure', () => {
+    render(
+      <BloodPressureBadge
+        riskResult={riskResult(6)}
+        patientData={{ ...patientData, systolicBP: 115, diastolicBP: 75 }}
+      />
+    );
+
+    expect(screen.getByText(/BP 115\/75 mmHg: Normal/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,71 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import CacComparison from '../CacComparison';
+import type { PatientData, RiskResult } from '../../../types';
+
+describe('CacComparison', () => {
+  const mockRiskResult: RiskResult = {
+    tenYearRisk: 12.4,
+    riskCategory: 'moderate',
+    riskFactors: {
+      age: 0,
+      gender: 0,
+      cholesterol: 0,
+      bloodPressure: 0,
+      smoking: 0,
+      diabetes: 0,
+      familyHistory: 0,
+    },
+    comparisonData: {
+      averageForAge: 10,
+      averageForGender: 11,
+      idealRisk: 4,
+    },
+    recommendations: [],
+    calculatedAt: new Date('2024-01-01'),
+    modelId: 'pce-2013',
+    modelVersion: '2013',
+  };
+
+  const mockPatientData: PatientData = {
+    age: 65,
+    gender: 'male',
+    race: 'white',
+    totalCholesterol: 200,
+    hdlCholesterol: 50,
+    cholesterolUnit: 'mg/dL',
+    systolicBP: 130,
+    diastolicBP: 80,
+    onBPMedication: false,
+    glucoseUnit: 'mg/dL',
+    smokingStatus: 'never',
+    hasDiabetes: false,
+    familyHistory: false,
+    cacScore: 0,
+  };
+
+  it('compares the model category with the CAC-adjusted category', () => {
+    render(<CacComparison riskResult={mockRiskResult} patientData={mockPatientData} />);
+
+    expect(screen.getByText('Coronary Artery Calcium')).toBeInTheDocument();
+    expect(screen.getByText('Moderate Risk')).toBeInTheDocument();
+    expect(screen.getByText('Low Risk')).toBeInTheDocument();
+    expect(screen.getByText('Your calcium score moves you to a lower risk category')).toBeInTheDocument();
+  });
+
+  it('shows the MESA risk with and without CAC', () => {
+    render(<CacComparison riskResult={mockRiskResult} patientData={{ ...mockPatientData, cacScore: 100 }} />);
+
+    expect(screen.getByText('6.3%')).toBeInTheDocument();
+    expect(screen.getByText('8.2%')).toBeInTheDocument();
+    expect(screen.getByText('Your calcium score moves you to a higher risk category')).toBeInTheDocument();
+  });
+
+  it('renders nothing without a CAC score', () => {
+    const { container } = render(
+      <CacComparison riskResult={mockRiskResult} patientData={{ ...mockPatientData, cacScore: undefined }} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,36 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import CalculationSteps from '../CalculationSteps';
+import { calculateFraminghamRisk, createSamplePatientData } from '../../../utils/framingham';
+
+describe('CalculationSteps', () => {
+  const tracedResult = calculateFraminghamRisk(createSamplePatientData(), { includeTrace: true });
+
+  it('starts collapsed', () => {
+    render(<CalculationSteps riskResult={tracedResult} />);
+
+    const toggle = screen.getByRole('button', { name: /How This Was Calculated/ });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    expect(screen.queryByText('ln(Age)')).not.toBeInTheDocument();
+  });
+
+  it('shows the inputs, terms and risk equation when expanded', () => {
+    render(<CalculationSteps riskResult={tracedResult} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /How This Was Calculated/ }));
+
+    expect(screen.getByText('1. Inputs (standardized units)')).toBeInTheDocument();
+    expect(screen.getByText('ln(Age)')).toBeInTheDocument();
+    expect(screen.getByText('3.06117')).toBeInTheDocument();
+    expect(screen.getByText('23.9802')).toBeInTheDocument();
+    expect(screen.getByText('0.88431')).toBeInTheDocument();
+    expect(screen.getByText('Risk = 1 - S0 ^ exp(sum - mean)')).toBeInTheDocument();
+    expect(screen.getByText(`${tracedResult.trace!.risk.toFixed(2)}%`)).toBeInTheDocument();
+  });
+
+  it('renders nothing without a trace', () => {
+    const { container } = render(<CalculationSteps riskResult={{ ...tracedResult, trace: undefined }} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
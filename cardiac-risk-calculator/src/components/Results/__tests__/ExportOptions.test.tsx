@@ -70,7 +70,8 @@ describe('ExportOptions', () => {
       }
     ],
     calculatedAt: new Date('2024-01-15T10:30:00Z'),
-    framinghamVersion: '2008',
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
   };
 
   const mockPatientData: PatientData = {
@@ -345,4 +346,99 @@ describe('ExportOptions', () => {
     expect(writtenContent).toContain('risk-result high');
     expect(writtenContent).toContain('HIGH RISK');
   });
-});
\ No newline at end of file
+
+  it('includes heart age in the report when available', () => {
+    render(<ExportOptions riskResult={{ ...mockRiskResult, heartAge: 63 }} patientData={mockPatientData} />);
+    
+    fireEvent.click(screen.getByText('Print Report'));
+    
+    const writtenContent = mockPrintWindow.document.write.mock.calls[0][0];
+    expect(writtenContent).toContain('Heart Age:</strong> 63 years (actual age 55)');
+  });
+
+  it('includes the plausible risk range in the report when available', () => {
+    render(<ExportOptions riskResult={{ ...mockRiskResult, riskRange: { lower: 10.6, upper: 14.8 } }} />);
+
+    fireEvent.click(screen.getByText('Print Report'));
+
+    const writtenContent = mockPrintWindow.document.write.mock.calls[0][0];
+    expect(writtenContent).toContain('Plausible range: 10.6% - 14.8%');
+  });
+
+  it('includes the extrapolated age warning in the report', () => {
+    const ageWarning = {
+      field: 'age',
+      message: 'Age is outside the 30-79 year range this model was validated for. The risk is extrapolated and may be unreliable.',
+      value: 28,
+      code: 'BOUNDARY_VALUE',
+      severity: 'warning' as const,
+    };
+    render(<ExportOptions riskResult={{ ...mockRiskResult, ageWarning }} />);
+
+    fireEvent.click(screen.getByText('Print Report'));
+
+    const writtenContent = mockPrintWindow.document.write.mock.calls[0][0];
+    expect(writtenContent).toContain('Outside the Validated Age Range');
+    expect(writtenContent).toContain(ageWarning.message);
+  });
+
+  it('includes the blood pressure category when patient data is available', () => {
+    render(<ExportOptions riskResult={mockRiskResult} patientData={mockPatientData} />);
+
+    fireEvent.click(screen.getByText('Print Report'));
+
+    const writtenContent = mockPrintWindow.document.write.mock.calls[0][0];
+    expect(writtenContent).toContain('Blood Pressure: Stage 2 Hypertension</strong>');
+    expect(writtenContent).toContain('Reassess in 1 month');
+  });
+
+  it('includes the derived lipid profile with the LDL method', () => {
+    const lipidResult: RiskResult = {
+      ...mockRiskResult,
+      lipidProfile: { ldlCholesterol: 129, ldlMethod: 'martin-hopkins', nonHdlCholesterol: 155, triglycerides: 150 },
+    };
+
+    render(<ExportOptions riskResult={lipidResult} patientData={{ ...mockPatientData, triglycerides: 150 }} />);
+
+    fireEvent.click(screen.getByText('Print Report'));
+
+    const writtenContent = mockPrintWindow.document.write.mock.calls[0][0];
+    expect(writtenContent).toContain('Triglycerides:</strong> 150 mg/dL');
+    expect(writtenContent).toContain('LDL Cholesterol:</strong> 129 mg/dL (Martin-Hopkins)');
+    expect(writtenContent).toContain('Non-HDL Cholesterol:</strong> 155 mg/dL');
+  });
+
+  it('includes the calculation trace in detailed format only', async () => {
+    const tracedResult: RiskResult = {
+      ...mockRiskResult,
+      trace: {
+        inputs: [{ label: 'Age', value: 55, unit: 'years' }],
+        terms: [{ label: 'ln(Age)', value: Math.log(55), coefficient: 3.06117, product: 3.06117 * Math.log(55) }],
+        sum: 24.5,
+        meanOffset: 23.9802,
+        baselineSurvival: 0.88431,
+        formula: 'Risk = 1 - S0 ^ exp(sum - mean)',
+        risk: 15.73,
+      },
+    };
+
+    render(<ExportOptions riskResult={tracedResult} patientData={mockPatientData} />);
+
+    fireEvent.click(screen.getByText('Print Report'));
+    expect(mockPrintWindow.document.write.mock.calls[0][0]).not.toContain('How This Was Calculated');
+
+    fireEvent.click(screen.getByText('Export as PDF'));
+    await waitFor(() => {
+      expect(screen.getByText('Export Options')).toBeInTheDocument();
+    });
+    fireEvent.click(screen.getByDisplayValue('detailed'));
+    fireEvent.click(screen.getByText('Export PDF'));
+
+    const writtenContent = mockPrintWindow.document.write.mock.calls[1][0];
+    expect(writtenContent).toContain('How This Was Calculated');
+    expect(writtenContent).toContain('<td>ln(Age)</td>');
+    expect(writtenContent).toContain('<td>3.06117</td>');
+    expect(writtenContent).toContain('Mean sum (offset):</strong> 23.9802');
+    expect(writtenContent).toContain('Risk = 1 - S0 ^ exp(sum - mean):</strong> 15.73%');
+  });
+});
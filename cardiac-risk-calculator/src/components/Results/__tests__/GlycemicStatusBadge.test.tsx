@@ -0,0 +1,30 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import GlycemicStatusBadge from '../GlycemicStatusBadge';
+import { createSamplePatientData } from '../../../utils/framingham';
+import type { PatientData } from '../../../types';
+
+describe('GlycemicStatusBadge', () => {
+  const patientData: PatientData = createSamplePatientData();
+
+  it('renders nothing without lab results', () => {
+    const { container } = render(<GlycemicStatusBadge patientData={patientData} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows the ADA classification', () => {
+    render(<GlycemicStatusBadge patientData={{ ...patientData, hba1c: 6.1 }} />);
+
+    expect(screen.getByText(/Glycemic status: Prediabetes/)).toBeInTheDocument();
+    expect(screen.getByTitle('HbA1c 6.1%')).toBeInTheDocument();
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
+  it('flags diabetes-range results when diabetes was not selected', () => {
+    render(<GlycemicStatusBadge patientData={{ ...patientData, hasDiabetes: false, hba1c: 7.2 }} />);
+
+    expect(screen.getByText(/Glycemic status: Diabetes range/)).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('diabetes was not selected');
+  });
+});
@@ -0,0 +1,67 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import HeartAge from '../HeartAge';
+import type { PatientData, RiskResult } from '../../../types';
+
+describe('HeartAge', () => {
+  const mockRiskResult: RiskResult = {
+    tenYearRisk: 14.2,
+    riskCategory: 'moderate',
+    heartAge: 67,
+    riskFactors: {
+      age: 0,
+      gender: 0,
+      cholesterol: 0,
+      bloodPressure: 0,
+      smoking: 0,
+      diabetes: 0,
+      familyHistory: 0,
+    },
+    comparisonData: {
+      averageForAge: 9,
+      averageForGender: 12,
+      idealRisk: 2,
+    },
+    recommendations: [],
+    calculatedAt: new Date('2024-01-01'),
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
+  };
+
+  const mockPatientData: PatientData = {
+    age: 55,
+    gender: 'male',
+    totalCholesterol: 240,
+    hdlCholesterol: 40,
+    cholesterolUnit: 'mg/dL',
+    systolicBP: 150,
+    diastolicBP: 90,
+    onBPMedication: false,
+    glucoseUnit: 'mg/dL',
+    smokingStatus: 'current',
+    hasDiabetes: false,
+    familyHistory: false,
+  };
+
+  it('shows the heart age and how it compares with actual age', () => {
+    render(<HeartAge riskResult={mockRiskResult} patientData={mockPatientData} />);
+
+    expect(screen.getByText('Heart Age')).toBeInTheDocument();
+    expect(screen.getByText('67')).toBeInTheDocument();
+    expect(screen.getByText('12 years older than your actual age of 55')).toBeInTheDocument();
+  });
+
+  it('describes a heart age younger than actual age', () => {
+    render(<HeartAge riskResult={{ ...mockRiskResult, heartAge: 54 }} patientData={mockPatientData} />);
+
+    expect(screen.getByText('1 year younger than your actual age of 55')).toBeInTheDocument();
+  });
+
+  it('renders nothing when the model does not report heart age', () => {
+    const { container } = render(
+      <HeartAge riskResult={{ ...mockRiskResult, heartAge: undefined }} patientData={mockPatientData} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
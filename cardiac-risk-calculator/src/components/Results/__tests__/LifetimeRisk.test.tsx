@@ -0,0 +1,69 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import LifetimeRisk from '../LifetimeRisk';
+import type { PatientData, RiskResult } from '../../../types';
+
+describe('LifetimeRisk', () => {
+  const mockRiskResult: RiskResult = {
+    tenYearRisk: 3.1,
+    riskCategory: 'low',
+    riskFactors: {
+      age: 0,
+      gender: 0,
+      cholesterol: 0,
+      bloodPressure: 0,
+      smoking: 0,
+      diabetes: 0,
+      familyHistory: 0,
+    },
+    comparisonData: {
+      averageForAge: 4,
+      averageForGender: 5,
+      idealRisk: 1,
+    },
+    recommendations: [],
+    calculatedAt: new Date('2024-01-01'),
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
+  };
+
+  const mockPatientData: PatientData = {
+    age: 42,
+    gender: 'male',
+    totalCholesterol: 210,
+    hdlCholesterol: 50,
+    cholesterolUnit: 'mg/dL',
+    systolicBP: 125,
+    diastolicBP: 80,
+    onBPMedication: false,
+    glucoseUnit: 'mg/dL',
+    smokingStatus: 'current',
+    hasDiabetes: false,
+    familyHistory: false,
+  };
+
+  it('shows the lifetime risk with the optimal comparison', () => {
+    render(<LifetimeRisk riskResult={mockRiskResult} patientData={mockPatientData} />);
+
+    expect(screen.getByText('Lifetime Risk')).toBeInTheDocument();
+    expect(screen.getByText('50.4%')).toBeInTheDocument();
+    expect(screen.getByText('One major risk factor')).toBeInTheDocument();
+    expect(screen.getByText('Compared with 5.2% with all risk factors optimal')).toBeInTheDocument();
+  });
+
+  it('renders nothing from age 50', () => {
+    const { container } = render(
+      <LifetimeRisk riskResult={mockRiskResult} patientData={{ ...mockPatientData, age: 55 }} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('renders nothing when the 10-year risk is not low', () => {
+    const { container } = render(
+      <LifetimeRisk riskResult={{ ...mockRiskResult, riskCategory: 'moderate' }} patientData={mockPatientData} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,59 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import OutcomeRisks from '../OutcomeRisks';
+import type { RiskResult } from '../../../types';
+
+describe('OutcomeRisks', () => {
+  const mockRiskResult: RiskResult = {
+    tenYearRisk: 14.7,
+    riskCategory: 'moderate',
+    outcomes: [
+      { outcome: 'cvd', horizonYears: 10, risk: 14.7 },
+      { outcome: 'cvd', horizonYears: 30, risk: 53.0 },
+      { outcome: 'heartFailure', horizonYears: 10, risk: 8.3 },
+    ],
+    riskFactors: {
+      age: 0,
+      gender: 0,
+      cholesterol: 0,
+      bloodPressure: 0,
+      smoking: 0,
+      diabetes: 0,
+      familyHistory: 0,
+    },
+    comparisonData: {
+      averageForAge: 5,
+      averageForGender: 6,
+      idealRisk: 1,
+    },
+    recommendations: [],
+    calculatedAt: new Date('2024-01-01'),
+    modelId: 'prevent-2023',
+    modelVersion: '2023',
+  };
+
+  it('renders a row per outcome and a column per horizon', () => {
+    render(<OutcomeRisks riskResult={mockRiskResult} />);
+
+    expect(screen.getByText('Risk by Outcome')).toBeInTheDocument();
+    expect(screen.getByText('10-Year Risk')).toBeInTheDocument();
+    expect(screen.getByText('30-Year Risk')).toBeInTheDocument();
+    expect(screen.getByText('Total Cardiovascular Disease')).toBeInTheDocument();
+    expect(screen.getByText('Heart Failure')).toBeInTheDocument();
+    expect(screen.getByText('53.0%')).toBeInTheDocument();
+  });
+
+  it('shows a dash for horizons a model does not estimate for an outcome', () => {
+    render(<OutcomeRisks riskResult={mockRiskResult} />);
+
+    expect(screen.getByText('—')).toBeInTheDocument();
+  });
+
+  it('renders nothing for single-outcome results', () => {
+    const { container } = render(
+      <OutcomeRisks riskResult={{ ...mockRiskResult, outcomes: undefined }} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,56 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import OutcomeSwitch from '../OutcomeSwitch';
+import type { RiskResult } from '../../../types';
+
+const createResult = (overrides: Partial<RiskResult>): RiskResult => ({
+  tenYearRisk: 12.5,
+  riskCategory: 'intermediate',
+  riskFactors: {
+    age: 0,
+    gender: 0,
+    cholesterol: 0,
+    bloodPressure: 0,
+    smoking: 0,
+    diabetes: 0,
+    familyHistory: 0,
+  },
+  comparisonData: { averageForAge: 10, averageForGender: 10, idealRisk: 5 },
+  recommendations: [],
+  calculatedAt: new Date('2024-01-01T00:00:00Z'),
+  modelId: 'framingham-2008',
+  modelVersion: '2008',
+  ...overrides,
+});
+
+describe('OutcomeSwitch', () => {
+  const results = [
+    createResult({}),
+    createResult({ tenYearRisk: 6, riskCategory: 'low', modelId: 'framingham-stroke-1994', modelVersion: '1994' }),
+  ];
+
+  it('renders nothing with a single outcome', () => {
+    const { container } = render(
+      <OutcomeSwitch results={[results[0]]} selectedModelId="framingham-2008" onChange={vi.fn()} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('labels each outcome with its risk and marks the selected one', () => {
+    render(<OutcomeSwitch results={results} selectedModelId="framingham-2008" onChange={vi.fn()} />);
+
+    expect(screen.getByRole('group', { name: 'Risk outcome' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Total Cardiovascular Disease: 12.5%' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Stroke: 6.0%' })).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('reports the chosen outcome', () => {
+    const onChange = vi.fn();
+    render(<OutcomeSwitch results={results} selectedModelId="framingham-2008" onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stroke: 6.0%' }));
+
+    expect(onChange).toHaveBeenCalledWith('framingham-stroke-1994');
+  });
+});
@@ -64,7 +64,8 @@ describe('Recommendations', () => {
     },
     recommendations: mockRecommendations,
     calculatedAt: new Date('2024-01-01'),
-    framinghamVersion: '2008',
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
   };
 
   const mockEmptyRecommendations: RiskResult = {
@@ -47,7 +47,8 @@ describe('RiskChart', () => {
     },
     recommendations: [],
     calculatedAt: new Date('2024-01-01'),
-    framinghamVersion: '2008',
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
   };
 
   const mockLowRiskResult: RiskResult = {
@@ -253,4 +254,56 @@ describe('RiskChart', () => {
     expect(screen.getByText('8.5%')).toBeInTheDocument();
     expect(screen.getByText('3.8%')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('adds a 30-year series when the result includes a 30-year projection', () => {
+    const thirtyYearResult: RiskResult = {
+      ...mockRiskResult,
+      outcomes: [
+        { outcome: 'cvd', horizonYears: 10, risk: 12.5 },
+        { outcome: 'cvd', horizonYears: 30, risk: 34.2 },
+      ],
+    };
+
+    render(<RiskChart riskResult={thirtyYearResult} />);
+
+    const data = JSON.parse(screen.getByTestId('chart-data').textContent || '{}');
+    expect(data.datasets).toHaveLength(2);
+    expect(data.datasets[1].label).toBe('30-Year Cardiovascular Risk (%)');
+    expect(data.datasets[1].data[0]).toBe(34.2);
+    expect(screen.getByText('Your 30-Year Risk:')).toBeInTheDocument();
+    expect(screen.getByText('34.2%')).toBeInTheDocument();
+  });
+
+  it('shows only the 10-year series without a 30-year projection', () => {
+    render(<RiskChart riskResult={mockRiskResult} />);
+
+    const data = JSON.parse(screen.getByTestId('chart-data').textContent || '{}');
+    expect(data.datasets).toHaveLength(1);
+    expect(screen.queryByText('Your 30-Year Risk:')).not.toBeInTheDocument();
+  });
+
+  it('adds a treatment scenario series when a scenario risk is given', () => {
+    render(<RiskChart riskResult={mockRiskResult} scenarioRisk={8.4} />);
+
+    const data = JSON.parse(screen.getByTestId('chart-data').textContent || '{}');
+    expect(data.datasets).toHaveLength(2);
+    expect(data.datasets[1].label).toBe('Treatment Scenario (%)');
+    expect(data.datasets[1].data[0]).toBe(8.4);
+    expect(screen.getByText('With Treatment:')).toBeInTheDocument();
+    expect(screen.getByText('8.4%')).toBeInTheDocument();
+  });
+
+  it('adds a floating range bar when the result has a plausible range', () => {
+    render(<RiskChart riskResult={{ ...mockRiskResult, riskRange: { lower: 10.6, upper: 14.8 } }} />);
+
+    const data = JSON.parse(screen.getByTestId('chart-data').textContent || '{}');
+    expect(data.datasets).toHaveLength(2);
+    expect(data.datasets[1].label).toBe('Plausible Range (%)');
+    expect(data.datasets[1].data[0]).toEqual([10.6, 14.8]);
+    expect(screen.getByText('Plausible Range:')).toBeInTheDocument();
+    expect(screen.getByText('10.6% - 14.8%')).toBeInTheDocument();
+
+    const options = JSON.parse(screen.getByTestId('chart-options').textContent || '{}');
+    expect(options.plugins.legend.display).toBe(true);
+  });
+});
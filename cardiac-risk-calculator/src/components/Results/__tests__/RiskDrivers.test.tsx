@@ -0,0 +1,78 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import RiskDrivers from '../RiskDrivers';
+import type { RiskResult } from '../../../types';
+
+// Mock Chart.js to avoid canvas issues in tests
+vi.mock('react-chartjs-2', () => ({
+  Bar: ({ data, options }: { data: unknown; options: unknown }) => (
+    <div data-testid="risk-drivers-chart">
+      <div data-testid="chart-data">{JSON.stringify(data)}</div>
+      <div data-testid="chart-options">{JSON.stringify(options)}</div>
+    </div>
+  ),
+}));
+
+vi.mock('chart.js', () => ({
+  Chart: {
+    register: vi.fn(),
+  },
+  CategoryScale: {},
+  LinearScale: {},
+  BarElement: {},
+  Tooltip: {},
+}));
+
+describe('RiskDrivers', () => {
+  const mockRiskResult: RiskResult = {
+    tenYearRisk: 14.5,
+    riskCategory: 'moderate',
+    riskFactors: {
+      age: 7.8,
+      gender: 3.2,
+      cholesterol: -0.7,
+      bloodPressure: 1.4,
+      smoking: 0,
+      diabetes: 0,
+      familyHistory: 0,
+    },
+    referenceRisk: 2.8,
+    comparisonData: {
+      averageForAge: 12,
+      averageForGender: 11,
+      idealRisk: 4,
+    },
+    recommendations: [],
+    calculatedAt: new Date('2024-01-01'),
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
+  };
+
+  it('charts non-zero contributions from largest to smallest as horizontal bars', () => {
+    render(<RiskDrivers riskResult={mockRiskResult} />);
+
+    const data = JSON.parse(screen.getByTestId('chart-data').textContent || '{}');
+    const options = JSON.parse(screen.getByTestId('chart-options').textContent || '{}');
+
+    expect(screen.getByText("What's Driving Your Risk")).toBeInTheDocument();
+    expect(data.labels).toEqual(['Age', 'Sex', 'Blood pressure', 'Cholesterol']);
+    expect(data.datasets[0].data).toEqual([7.8, 3.2, 1.4, -0.7]);
+    expect(options.indexAxis).toBe('y');
+  });
+
+  it('lists each contribution with its sign', () => {
+    render(<RiskDrivers riskResult={mockRiskResult} />);
+
+    expect(screen.getByText('+7.8')).toBeInTheDocument();
+    expect(screen.getByText('-0.7')).toBeInTheDocument();
+    expect(screen.getByText(/minus 2.8% for a young woman/)).toBeInTheDocument();
+  });
+
+  it('renders nothing for results without attribution', () => {
+    const { container } = render(
+      <RiskDrivers riskResult={{ ...mockRiskResult, referenceRisk: undefined }} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -44,7 +44,8 @@ describe('RiskGauge', () => {
     },
     recommendations: [],
     calculatedAt: new Date('2024-01-01'),
-    framinghamVersion: '2008',
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
   };
 
   const mockModerateRiskResult: RiskResult = {
@@ -153,6 +154,48 @@ describe('RiskGauge', () => {
     expect(options.plugins.legend.display).toBe(false);
   });
 
+  it('shows the plausible range as a band on the gauge', () => {
+    render(<RiskGauge riskResult={{ ...mockModerateRiskResult, riskRange: { lower: 13.4, upper: 18.2 } }} />);
+
+    const data = JSON.parse(screen.getByTestId('chart-data').textContent || '{}');
+    expect(data.datasets).toHaveLength(2);
+    expect(data.datasets[0].data).toEqual([15.7, 84.3]);
+    expect(data.datasets[1].data[0]).toBe(13.4);
+    expect(data.datasets[1].data[1]).toBeCloseTo(4.8, 5);
+    expect(data.datasets[1].data[2]).toBeCloseTo(81.8, 5);
+
+    expect(screen.getByText('Range 13.4% - 18.2%')).toBeInTheDocument();
+    expect(screen.getByText(/plausibly between 13.4% and 18.2%/)).toBeInTheDocument();
+  });
+
+  it('shows no range band for results without a range', () => {
+    render(<RiskGauge riskResult={mockModerateRiskResult} />);
+
+    const data = JSON.parse(screen.getByTestId('chart-data').textContent || '{}');
+    expect(data.datasets).toHaveLength(1);
+    expect(screen.queryByText(/plausibly between/)).not.toBeInTheDocument();
+  });
+
+  it('warns prominently when the age was extrapolated', () => {
+    const ageWarning = {
+      field: 'age',
+      message: 'Age is outside the 30-79 year range this model was validated for. The risk is extrapolated and may be unreliable.',
+      value: 82,
+      code: 'BOUNDARY_VALUE',
+      severity: 'warning' as const,
+    };
+    render(<RiskGauge riskResult={{ ...mockModerateRiskResult, ageWarning }} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Outside the validated age range');
+    expect(screen.getByRole('alert')).toHaveTextContent(ageWarning.message);
+  });
+
+  it('shows no age warning for ages within the validated range', () => {
+    render(<RiskGauge riskResult={mockModerateRiskResult} />);
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+  });
+
   it('handles edge case of 0% risk', () => {
     const zeroRiskResult = { ...mockLowRiskResult, tenYearRisk: 0 };
     render(<RiskGauge riskResult={zeroRiskResult} />);
@@ -172,4 +215,36 @@ describe('RiskGauge', () => {
     
     expect(screen.getByText(/10% Low, 10-20% Moderate, ≥20% High/)).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('uses the model category names and thresholds for ESC results', () => {
+    const escResult: RiskResult = {
+      ...mockModerateRiskResult,
+      tenYearRisk: 6.2,
+      riskCategory: 'high',
+      riskThresholds: [5, 10],
+      modelId: 'score2-2021',
+      modelVersion: '2021',
+    };
+    render(<RiskGauge riskResult={escResult} />);
+
+    expect(screen.getAllByText('High Risk').length).toBeGreaterThan(0);
+    expect(screen.getByText(/5% Low to Moderate, 5-10% High, ≥10% Very High/)).toBeInTheDocument();
+  });
+
+  it('shows every tier of the ACC/AHA scheme for Pooled Cohort results', () => {
+    const pceResult: RiskResult = {
+      ...mockLowRiskResult,
+      tenYearRisk: 6.1,
+      riskCategory: 'borderline',
+      modelId: 'pce-2013',
+      modelVersion: '2013',
+    };
+    render(<RiskGauge riskResult={pceResult} />);
+
+    expect(screen.getAllByText('Borderline Risk').length).toBeGreaterThan(0);
+    expect(screen.getByText(/<5% Low, 5-7.5% Borderline, 7.5-20% Intermediate, ≥20% High/)).toBeInTheDocument();
+
+    const data = JSON.parse(screen.getByTestId('chart-data').textContent || '{}');
+    expect(data.datasets[0].backgroundColor[0]).toBe('#eab308'); // Yellow for borderline risk
+  });
+});
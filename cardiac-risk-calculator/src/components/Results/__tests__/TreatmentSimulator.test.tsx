@@ -0,0 +1,157 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import TreatmentSimulator from '../TreatmentSimulator';
+import { NO_TREATMENT_SCENARIO } from '../../../utils/treatmentSimulator';
+import type { PatientData, RiskResult, TreatmentScenario } from '../../../types';
+
+describe('TreatmentSimulator', () => {
+  const mockRiskResult: RiskResult = {
+    tenYearRisk: 29.2,
+    riskCategory: 'high',
+    riskFactors: {
+      age: 0,
+      gender: 0,
+      cholesterol: 0,
+      bloodPressure: 0,
+      smoking: 0,
+      diabetes: 0,
+      familyHistory: 0,
+    },
+    comparisonData: {
+      averageForAge: 12,
+      averageForGender: 14,
+      idealRisk: 4,
+    },
+    recommendations: [],
+    calculatedAt: new Date('2024-01-01'),
+    modelId: 'framingham-2008',
+    modelVersion: '2008',
+  };
+
+  const mockPatientData: PatientData = {
+    age: 55,
+    gender: 'male',
+    totalCholesterol: 200,
+    hdlCholesterol: 45,
+    cholesterolUnit: 'mg/dL',
+    systolicBP: 150,
+    diastolicBP: 90,
+    onBPMedication: false,
+    glucoseUnit: 'mg/dL',
+    smokingStatus: 'current',
+    hasDiabetes: false,
+    familyHistory: false,
+  };
+
+  const quitSmoking: TreatmentScenario = { ...NO_TREATMENT_SCENARIO, quitSmoking: true };
+
+  it('shows the projected risk, absolute risk reduction and number needed to treat', () => {
+    render(
+      <TreatmentSimulator
+        riskResult={mockRiskResult}
+        patientData={mockPatientData}
+        scenario={quitSmoking}
+        onScenarioChange={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('What-If Treatment Simulator')).toBeInTheDocument();
+    expect(screen.getByText('29.2%')).toBeInTheDocument();
+    expect(screen.getByText('16.4%')).toBeInTheDocument();
+    expect(screen.getByText('12.8 points')).toBeInTheDocument();
+    expect(screen.getByText('8')).toBeInTheDocument();
+  });
+
+  it('updates the scenario from the controls', () => {
+    const onScenarioChange = vi.fn();
+    render(
+      <TreatmentSimulator
+        riskResult={mockRiskResult}
+        patientData={mockPatientData}
+        scenario={NO_TREATMENT_SCENARIO}
+        onScenarioChange={onScenarioChange}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('Quit smoking'));
+    expect(onScenarioChange).toHaveBeenLastCalledWith({ ...NO_TREATMENT_SCENARIO, quitSmoking: true });
+
+    fireEvent.change(screen.getByLabelText('Statin therapy'), { target: { value: 'high' } });
+    expect(onScenarioChange).toHaveBeenLastCalledWith({ ...NO_TREATMENT_SCENARIO, statinIntensity: 'high' });
+
+    fireEvent.change(screen.getByLabelText(/Target systolic BP/), { target: { value: '125' } });
+    expect(onScenarioChange).toHaveBeenLastCalledWith({ ...NO_TREATMENT_SCENARIO, targetSystolicBP: 125 });
+  });
+
+  it('saves and lists scenarios', () => {
+    const onSavedScenariosChange = vi.fn();
+    const { rerender } = render(
+      <TreatmentSimulator
+        riskResult={mockRiskResult}
+        patientData={mockPatientData}
+        scenario={quitSmoking}
+        onScenarioChange={vi.fn()}
+        savedScenarios={[]}
+        onSavedScenariosChange={onSavedScenariosChange}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save Scenario' }));
+    expect(onSavedScenariosChange).toHaveBeenCalledWith([quitSmoking]);
+
+    rerender(
+      <TreatmentSimulator
+        riskResult={mockRiskResult}
+        patientData={mockPatientData}
+        scenario={quitSmoking}
+        onScenarioChange={vi.fn()}
+        savedScenarios={[quitSmoking]}
+        onSavedScenariosChange={onSavedScenariosChange}
+      />
+    );
+
+    expect(screen.getByText('Saved Scenarios')).toBeInTheDocument();
+    expect(screen.getByText('Quit smoking', { selector: 'td' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Save Scenario' })).toBeDisabled();
+  });
+
+  it('hides controls that do not apply to the patient', () => {
+    render(
+      <TreatmentSimulator
+        riskResult={mockRiskResult}
+        patientData={{ ...mockPatientData, smokingStatus: 'never', onBPMedication: true }}
+        scenario={NO_TREATMENT_SCENARIO}
+        onScenarioChange={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByLabelText('Quit smoking')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Start blood pressure medication')).not.toBeInTheDocument();
+  });
+
+  it('renders nothing when the Framingham inputs are out of range', () => {
+    const { container } = render(
+      <TreatmentSimulator
+        riskResult={mockRiskResult}
+        patientData={{ ...mockPatientData, age: 82 }}
+        scenario={NO_TREATMENT_SCENARIO}
+        onScenarioChange={vi.fn()}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('renders nothing for results from other models', () => {
+    const { container } = render(
+      <TreatmentSimulator
+        riskResult={{ ...mockRiskResult, modelId: 'pce-2013' }}
+        patientData={mockPatientData}
+        scenario={quitSmoking}
+        onScenarioChange={vi.fn()}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
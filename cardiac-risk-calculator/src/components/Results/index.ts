@@ -4,4 +4,16 @@ export { default as RiskGauge } from './RiskGauge';
 export { default as RiskChart } from './RiskChart';
 export { default as Recommendations } from './Recommendations';
 export { default as ResultsDemo } from './ResultsDemo';
-export { default as ExportOptions } from './ExportOptions';
\ No newline at end of file
+export { default as ExportOptions } from './ExportOptions';
+export { default as OutcomeRisks } from './OutcomeRisks';
+export { default as OutcomeSwitch } from './OutcomeSwitch';
+export { default as HeartAge } from './HeartAge';
+export { default as LifetimeRisk } from './LifetimeRisk';
+export { default as AtrialFibrillationRisk } from './AtrialFibrillationRisk';
+export { default as CacComparison } from './CacComparison';
+
+export { default as TreatmentSimulator } from './TreatmentSimulator';
+export { default as RiskDrivers } from './RiskDrivers';
+export { default as CalculationSteps } from './CalculationSteps';
+export { default as BloodPressureBadge } from './BloodPressureBadge';
+export { default as GlycemicStatusBadge } from './GlycemicStatusBadge';
@@ -1,6 +1,6 @@
 import { useCallback, useMemo } from 'react';
 import { useForm, type UseFormReturn } from 'react-hook-form';
-import type { PatientData, ValidationError } from '../types';
+import type { PatientData, RiskModel, ValidationError } from '../types';
 import { 
   validateField, 
   validatePatientData, 
@@ -10,8 +10,9 @@ import {
 
 /**
  * Custom hook for form validation with React Hook Form integration
+ * @param riskModel - Active risk model; supplies required inputs and input ranges
  */
-export const useFormValidation = <T extends Record<string, any> = PatientData>() => {
+export const useFormValidation = <T extends Record<string, any> = PatientData>(riskModel?: RiskModel) => {
   const defaultValues = {
     // Only set defaults for non-required fields
     cholesterolUnit: 'mg/dL',
@@ -19,6 +20,7 @@ export const useFormValidation = <T extends Record<string, any> = PatientData>()
     onBPMedication: false,
     hasDiabetes: false,
     familyHistory: false,
+    onStatin: false,
   };
 
   const form = useForm<T>({
@@ -30,13 +32,26 @@ export const useFormValidation = <T extends Record<string, any> = PatientData>()
   const { watch, formState: { errors, isValid }, setError, clearErrors } = form;
   const formData = watch();
 
+  /**
+   * Checks whether a validation result should stop submission; an extrapolated age only warns,
+   * and the form shows that warning beside the age field
+   */
+  const isBlockingError = useCallback((error: ValidationError): boolean => {
+    return !(
+      formData.extrapolateAge &&
+      error.field === 'age' &&
+      error.code === 'BOUNDARY_VALUE' &&
+      error.severity === 'warning'
+    );
+  }, [formData]);
+
   /**
    * Validates a single field and updates form errors
    */
   const validateSingleField = useCallback((fieldName: keyof T, value: any) => {
-    const validationError = validateField(fieldName as string, value, formData as Partial<PatientData>);
+    const validationError = validateField(fieldName as string, value, formData as Partial<PatientData>, riskModel);
     
-    if (validationError) {
+    if (validationError && isBlockingError(validationError)) {
       setError(fieldName as any, {
         type: 'validation',
         message: validationError.message,
@@ -46,13 +61,13 @@ export const useFormValidation = <T extends Record<string, any> = PatientData>()
       clearErrors(fieldName as any);
       return true;
     }
-  }, [formData, setError, clearErrors]);
+  }, [formData, riskModel, setError, clearErrors, isBlockingError]);
 
   /**
    * Validates all form data and updates form errors
    */
   const validateAllFields = useCallback(() => {
-    const validationErrors = validatePatientData(formData as Partial<PatientData>);
+    const validationErrors = validatePatientData(formData as Partial<PatientData>, riskModel).filter(isBlockingError);
     const groupedErrors = groupErrorsByField(validationErrors);
 
     // Clear all existing errors first
@@ -69,14 +84,14 @@ export const useFormValidation = <T extends Record<string, any> = PatientData>()
     });
 
     return validationErrors.length === 0;
-  }, [formData, setError, clearErrors]);
+  }, [formData, riskModel, setError, clearErrors, isBlockingError]);
 
   /**
    * Checks if form data is complete and valid for calculation
    */
   const isFormComplete = useMemo(() => {
-    return isPatientDataComplete(formData as Partial<PatientData>);
-  }, [formData]);
+    return isPatientDataComplete(formData as Partial<PatientData>, riskModel);
+  }, [formData, riskModel]);
 
   /**
    * Gets validation rules for a specific field (for React Hook Form register)
@@ -84,27 +99,33 @@ export const useFormValidation = <T extends Record<string, any> = PatientData>()
   const getFieldValidationRules = useCallback((fieldName: keyof T): any => {
     const baseRules: any = {
       validate: (value: any) => {
-        const validationError = validateField(fieldName as string, value, formData as Partial<PatientData>);
-        return validationError ? validationError.message : true;
+        const validationError = validateField(fieldName as string, value, formData as Partial<PatientData>, riskModel);
+        return validationError && isBlockingError(validationError) ? validationError.message : true;
       },
     };
 
     // Add field-specific rules
     switch (fieldName as string) {
-      case 'age':
+      case 'age': {
+        const ageRange = (formData.extrapolateAge && riskModel?.ageExtrapolationRange) ||
+          riskModel?.inputRanges.age ||
+          { min: 30, max: 79 };
         return {
           ...baseRules,
           required: 'Age is required',
-          min: { value: 30, message: 'Age must be at least 30 years' },
-          max: { value: 79, message: 'Age must be no more than 79 years' },
+          min: { value: ageRange.min, message: `Age must be at least ${ageRange.min} years` },
+          max: { value: ageRange.max, message: `Age must be no more than ${ageRange.max} years` },
           valueAsNumber: true,
         };
+      }
 
       case 'totalCholesterol':
       case 'hdlCholesterol':
         return {
           ...baseRules,
-          required: `${fieldName === 'totalCholesterol' ? 'Total' : 'HDL'} cholesterol is required`,
+          required: riskModel && !riskModel.requiredInputs.includes(fieldName as keyof PatientData)
+            ? false
+            : `${fieldName === 'totalCholesterol' ? 'Total' : 'HDL'} cholesterol is required`,
           valueAsNumber: true,
         };
 
@@ -132,22 +153,92 @@ export const useFormValidation = <T extends Record<string, any> = PatientData>()
           required: 'Gender is required',
         };
 
+      case 'race':
+        return {
+          ...baseRules,
+          required: riskModel?.requiredInputs.includes('race') ? 'Race is required' : false,
+        };
+
+      case 'riskRegion':
+        return {
+          ...baseRules,
+          required: riskModel?.requiredInputs.includes('riskRegion') ? 'Risk region is required' : false,
+        };
+
       case 'smokingStatus':
         return {
           ...baseRules,
           required: 'Smoking status is required',
         };
 
+      case 'egfr':
+      case 'bmi':
+        return {
+          ...baseRules,
+          required: riskModel?.requiredInputs.includes(fieldName as keyof PatientData)
+            ? `${fieldName === 'egfr' ? 'eGFR' : 'BMI'} is required`
+            : false,
+          valueAsNumber: true,
+        };
+
+      case 'height':
+      case 'weight':
+        return {
+          ...baseRules,
+          required: riskModel?.requiredInputs.includes(fieldName as keyof PatientData)
+            ? `${fieldName === 'height' ? 'Height' : 'Weight'} is required`
+            : false,
+          valueAsNumber: true,
+        };
+
+      case 'townsendScore':
+      case 'systolicBPVariability':
+      case 'ldlCholesterol':
+      case 'triglycerides':
+      case 'lipoproteinA':
+      case 'hsCRP':
+      case 'apolipoproteinB':
+      case 'ankleBrachialIndex':
+      case 'cacScore':
+        return {
+          ...baseRules,
+          valueAsNumber: true,
+        };
+
+      case 'smokingIntensity':
+        return {
+          ...baseRules,
+          required: riskModel?.optionalInputs.includes('smokingIntensity') && formData.smokingStatus === 'current'
+            ? 'Smoking intensity is required'
+            : false,
+        };
+
+      case 'diabetesType':
+        return {
+          ...baseRules,
+          required: riskModel?.optionalInputs.includes('diabetesType') && formData.hasDiabetes
+            ? 'Diabetes type is required'
+            : false,
+        };
+
       case 'bloodGlucose':
+      case 'hba1c':
         return {
           ...baseRules,
           valueAsNumber: true,
         };
 
+      case 'qrsDuration':
+        return {
+          ...baseRules,
+          required: riskModel?.requiredInputs.includes('qrsDuration') ? 'QRS duration is required' : false,
+          valueAsNumber: true,
+        };
+
       default:
         return baseRules;
     }
-  }, [formData]);
+  }, [formData, riskModel, isBlockingError]);
 
   /**
    * Custom validation for blood pressure consistency
@@ -4,11 +4,14 @@ export interface PatientData {
   // Demographics
   age: number;                    // 30-79 years
   gender: 'male' | 'female';
+  race?: 'white' | 'african-american' | 'chinese' | 'hispanic' | 'other'; // Required by the Pooled Cohort Equations; also used by MESA
+  riskRegion?: EscRiskRegion;    // ESC cardiovascular risk region, required by SCORE2
   
   // Cholesterol (with unit support)
   totalCholesterol: number;       // Value in current unit
   hdlCholesterol: number;         // Value in current unit
-  ldlCholesterol?: number;        // Optional, calculated if not provided
+  ldlCholesterol?: number;        // Optional, calculated from triglycerides if not provided
+  triglycerides?: number;         // Optional, in cholesterolUnit (converted with the triglyceride factor)
   cholesterolUnit: 'mg/dL' | 'mmol/L';
   
   // Blood Pressure (mmHg only)
@@ -19,19 +22,124 @@ export interface PatientData {
   // Blood Glucose (with unit support)
   bloodGlucose?: number;         // Optional parameter
   glucoseUnit: 'mg/dL' | 'mmol/L';
+  glucoseTestType?: GlucoseTestType; // Fasting unless stated
+  hba1c?: number;                // Glycated haemoglobin, in hba1cUnit
+  hba1cUnit?: HbA1cUnit;         // Percent (NGSP) unless stated
   
   // Risk Factors
   smokingStatus: 'never' | 'former' | 'current';
   hasDiabetes: boolean;
   familyHistory: boolean;
+  
+  // Kidney function, body size and treatment (used by the PREVENT equations)
+  egfr?: number;                 // mL/min/1.73m²
+  bmi?: number;                  // kg/m²
+  onStatin?: boolean;
+  
+  // Height and weight (used by the non-laboratory Framingham model in place of cholesterol)
+  height?: number;               // cm (metric) or inches (imperial)
+  weight?: number;               // kg (metric) or pounds (imperial)
+  bodyMeasurementUnit?: BodyMeasurementUnit;
+  
+  // UK population and clinical history (used by QRISK3)
+  ethnicity?: QriskEthnicity;
+  townsendScore?: number;        // Townsend deprivation score of the home postcode, -7 to 11
+  systolicBPVariability?: number; // Standard deviation of at least two recent systolic readings, mmHg
+  smokingIntensity?: SmokingIntensity; // Current smokers only
+  diabetesType?: 'type1' | 'type2';
+  hasAtrialFibrillation?: boolean;
+  hasChronicKidneyDisease?: boolean; // CKD stage 3-5
+  hasRheumatoidArthritis?: boolean;
+  hasLupus?: boolean;            // Systemic lupus erythematosus
+  hasMigraine?: boolean;
+  hasSevereMentalIllness?: boolean; // Schizophrenia, bipolar disorder or moderate/severe depression
+  onAtypicalAntipsychotics?: boolean;
+  onCorticosteroids?: boolean;   // Regular oral steroid tablets
+  hasErectileDysfunction?: boolean;
+  
+  // ACC/AHA 2018 risk-enhancing factors (reported alongside every model)
+  hasMetabolicSyndrome?: boolean;
+  hasInflammatoryDisease?: boolean; // Psoriasis, rheumatoid arthritis, lupus or HIV/AIDS
+  isSouthAsian?: boolean;
+  lipoproteinA?: number;         // mg/dL
+  hsCRP?: number;                // High-sensitivity C-reactive protein, mg/L
+  apolipoproteinB?: number;      // mg/dL
+  ankleBrachialIndex?: number;
+  
+  // Coronary artery calcium scan (used to reclassify risk with the MESA score)
+  cacScore?: number;             // Agatston units
+  
+  // Additional conditions (used by the Framingham Stroke Risk Profile, with hasAtrialFibrillation)
+  hasCardiovascularDisease?: boolean; // Prior heart attack, angina, claudication or heart failure
+  hasLeftVentricularHypertrophy?: boolean; // LVH on ECG
+  
+  // ECG and cardiac history (used by the heart failure model and CHARGE-AF)
+  qrsDuration?: number;          // QRS duration on a resting ECG, ms
+  hasPriorMyocardialInfarction?: boolean; // Previous heart attack
+  hasHeartFailure?: boolean;
+  
+  // Family history of high blood pressure (used by the Framingham hypertension risk score)
+  parentalHypertension?: ParentalHypertension;
+  
+  // Calculation preferences
+  extrapolateAge?: boolean;      // Let models with an ageExtrapolationRange calculate outside their validated ages
+}
+
+export type BodyMeasurementUnit = 'metric' | 'imperial';
+
+export type GlucoseTestType = 'fasting' | 'random';
+export type HbA1cUnit = '%' | 'mmol/mol';
+
+// QRISK3 self-assigned ethnic groups
+export type QriskEthnicity =
+  | 'white'
+  | 'indian'
+  | 'pakistani'
+  | 'bangladeshi'
+  | 'other-asian'
+  | 'black-caribbean'
+  | 'black-african'
+  | 'chinese'
+  | 'other';
+
+// Cigarettes per day: light <10, moderate 10-19, heavy 20+
+export type SmokingIntensity = 'light' | 'moderate' | 'heavy';
+
+// Number of parents with high blood pressure
+export type ParentalHypertension = 'none' | 'one' | 'both';
+
+// 95% range of a risk estimate from measurement uncertainty in its inputs
+export interface RiskRange {
+  lower: number;                 // Percentage (0-100)
+  upper: number;                 // Percentage (0-100)
+}
+
+// LDL cholesterol estimation equations
+export type LdlEstimationMethod = 'friedewald' | 'martin-hopkins' | 'sampson';
+
+export interface LipidProfile {
+  ldlCholesterol?: number;       // mg/dL; undefined when not measured and it cannot be estimated
+  ldlMethod?: 'measured' | LdlEstimationMethod;
+  nonHdlCholesterol: number;     // mg/dL
+  triglycerides?: number;        // mg/dL
 }
 
 export interface RiskResult {
   // Core Results
   tenYearRisk: number;           // Percentage (0-100)
-  riskCategory: 'low' | 'moderate' | 'high';
+  riskCategory: RiskCategory;
+  outcomes?: OutcomeRisk[];      // Every outcome and horizon the model estimates, when it estimates more than one
+  riskThresholds?: number[];     // Category cut-offs used, when the model's threshold scheme depends on age
+  heartAge?: number;             // Age of a person with optimal risk factors and the same risk, in years
+  riskEnhancers?: RiskEnhancer[]; // Risk-enhancing factors present; they shift recommendations, not the percentage
+  trace?: CalculationTrace;      // Step-by-step working, when requested with includeTrace
+  riskRange?: RiskRange;         // Plausible range of tenYearRisk given measurement uncertainty in BP and cholesterol
+  lipidProfile?: LipidProfile;   // Derived LDL and non-HDL cholesterol, with the LDL method used
+  ageWarning?: ValidationError;  // BOUNDARY_VALUE warning when the age was extrapolated outside the validated range
   
   // Detailed Analysis
+  // Percentage-point contribution of each factor to tenYearRisk from calculateRisk (Shapley
+  // attribution against a reference profile); models called directly return linear-predictor terms
   riskFactors: {
     age: number;
     gender: number;
@@ -41,6 +149,7 @@ export interface RiskResult {
     diabetes: number;
     familyHistory: number;
   };
+  referenceRisk?: number;        // Risk of the reference profile; riskFactors add up to tenYearRisk minus this
   
   // Comparison Data
   comparisonData: {
@@ -54,7 +163,203 @@ export interface RiskResult {
   
   // Metadata
   calculatedAt: Date;
-  framinghamVersion: string;
+  modelId: RiskModelId;          // Registry id of the model that produced this result
+  modelVersion: string;          // Published version of that model
+}
+
+// ESC risk regions used to recalibrate SCORE2
+export type EscRiskRegion = 'low' | 'moderate' | 'high' | 'very-high';
+
+// Named sets of risk categories and the cut-offs between them
+export type RiskThresholdSchemeId = 'atp-iii' | 'acc-aha-2018' | 'esc-2021';
+
+export interface RiskTier {
+  category: RiskCategory;
+  label: string;                 // Guideline name, e.g. 'Borderline Risk'
+  raisedByRiskEnhancers?: boolean; // Risk enhancers move results of 5% or more into the next tier
+}
+
+export interface RiskThresholdScheme {
+  id: RiskThresholdSchemeId;
+  name: string;
+  tiers: RiskTier[];             // Lowest to highest risk
+  cutOffs: number[];             // Upper bounds (exclusive) of every tier but the highest, in percent
+  ageBands?: Array<{ maxAge: number; cutOffs: number[] }>; // Age-specific cut-offs, when the guideline has them
+}
+
+// Outcome-specific risk estimates
+export type RiskOutcome = 'cvd' | 'ascvd' | 'heartFailure' | 'stroke';
+
+export interface OutcomeRisk {
+  outcome: RiskOutcome;
+  horizonYears: number;
+  risk: number;                  // Percentage (0-100)
+}
+
+// ACC/AHA 2018 risk-enhancing factors
+export type RiskEnhancer =
+  | 'familyHistory'
+  | 'highLdl'
+  | 'chronicKidneyDisease'
+  | 'metabolicSyndrome'
+  | 'inflammatoryDisease'
+  | 'southAsianAncestry'
+  | 'lipoproteinA'
+  | 'hsCRP'
+  | 'apolipoproteinB'
+  | 'lowAnkleBrachialIndex';
+
+// ACC/AHA 2017 blood pressure categories
+export type BloodPressureCategory = 'normal' | 'elevated' | 'stage-1' | 'stage-2' | 'crisis';
+
+export interface BloodPressureAssessment {
+  category: BloodPressureCategory;
+  drugTherapyRecommended: boolean; // Start or adjust BP-lowering medication
+  rationale: string;
+  followUp: string;
+}
+
+// ADA glycemic status from HbA1c and blood glucose
+export type GlycemicStatus = 'normal' | 'prediabetes' | 'diabetes';
+
+export interface GlycemicAssessment {
+  status: GlycemicStatus;
+  basis: string[];               // Tests that set the status, e.g. 'HbA1c 6.8%'
+  hba1cPercent?: number;
+  glucoseMgDl?: number;
+  diabetesStatusMismatch: boolean; // Diabetes-range results without a diabetes diagnosis
+}
+
+// Step-by-step working of a risk equation ("show your work")
+export interface CalculationTraceInput {
+  label: string;
+  value: number | string;        // After unit standardisation
+  unit?: string;
+}
+
+export interface CalculationTraceTerm {
+  label: string;                 // Variable as it enters the equation, e.g. 'ln(Age)'
+  value: number;                 // Transformed input: a natural log, product of logs or 0/1 indicator
+  coefficient: number;
+  product: number;               // coefficient * value
+}
+
+export interface CalculationTrace {
+  inputs: CalculationTraceInput[];
+  terms: CalculationTraceTerm[];
+  sum: number;                   // Sum of the term products
+  meanOffset: number;            // Mean sum of the derivation cohort, subtracted from the sum
+  baselineSurvival: number;      // 10-year survival at the mean sum
+  formula: string;               // Final transform from the sum to risk
+  risk: number;                  // Unrounded 10-year risk, percentage
+}
+
+export interface RiskCalculationOptions {
+  includeTrace?: boolean;        // Attach a CalculationTrace, for models that support it
+}
+
+export interface RecommendationOptions {
+  outcome?: RiskOutcome;         // Outcome the risk percentage estimates (total CVD unless stated)
+  ascvdRisk?: number;            // 10-year ASCVD risk, %, for models the statin guidelines apply to
+}
+
+// Factors attributed in RiskResult.riskFactors
+export type RiskFactor = keyof RiskResult['riskFactors'];
+
+// Change in risk category once a coronary artery calcium score is known
+export interface CacReclassification {
+  cacScore: number;              // Agatston units
+  baseCategory: RiskCategory;    // From the selected model
+  reclassifiedCategory: RiskCategory;
+  direction: 'down' | 'up' | 'unchanged';
+  mesaRisk?: number;             // MESA 10-year CHD risk with CAC, percentage (ages 45-85 only)
+  mesaRiskWithoutCac?: number;   // MESA 10-year CHD risk from risk factors alone
+}
+
+// What-if treatment scenario for shared decision-making
+export type StatinIntensity = 'low' | 'moderate' | 'high';
+
+export interface TreatmentScenario {
+  targetSystolicBP?: number;     // mmHg; unchanged when not set
+  statinIntensity?: StatinIntensity;
+  quitSmoking: boolean;
+  startBPMedication: boolean;
+}
+
+export interface TreatmentScenarioResult {
+  baselineRisk: number;          // Framingham 10-year risk without treatment, percentage
+  projectedRisk: number;         // Framingham 10-year risk with the scenario applied
+  absoluteRiskReduction: number; // Percentage points
+  numberNeededToTreat?: number;  // Over 10 years; only when the scenario lowers risk
+}
+
+// Statin eligibility decision support (ACC/AHA 2018 cholesterol guideline, USPSTF 2022)
+export type StatinRecommendation = 'indicated' | 'consider' | 'discuss' | 'not-indicated';
+
+export interface StatinDecision {
+  guideline: 'ACC/AHA 2018' | 'USPSTF 2022';
+  recommendation: StatinRecommendation;
+  intensity?: StatinIntensity;   // Suggested intensity, when a statin is indicated or to be considered
+  rule: string;                  // Guideline criterion that fired
+  classOfRecommendation?: string; // ACC/AHA class or USPSTF grade, e.g. 'Class I' or 'Grade B'
+}
+
+// Lloyd-Jones aggregate risk factor burden, from best to worst
+export type LifetimeRiskCategory =
+  | 'allOptimal'
+  | 'notOptimal'
+  | 'elevated'
+  | 'oneMajor'
+  | 'multipleMajor';
+
+export interface LifetimeRiskResult {
+  category: LifetimeRiskCategory;
+  lifetimeRisk: number;          // Percentage (0-100) of a CVD event by age 95
+  optimalRisk: number;           // Same sex with all risk factors optimal, for comparison
+}
+
+export interface AtrialFibrillationRiskResult {
+  fiveYearRisk: number;          // Percentage (0-100) of incident atrial fibrillation within 5 years
+  riskCategory: RiskCategory;    // Low, intermediate or high against CHARGE_AF_RISK_THRESHOLDS
+}
+
+export interface HypertensionRiskResult {
+  oneYearRisk: number;           // Percentage (0-100) developing hypertension within 1 year
+  twoYearRisk: number;           // Percentage (0-100) within 2 years
+  fourYearRisk: number;          // Percentage (0-100) within 4 years
+}
+
+// Risk model registry
+export type RiskModelId =
+  | 'framingham-2008'
+  | 'framingham-bmi-2008'
+  | 'framingham-stroke-1994'
+  | 'pcp-hf-2019'
+  | 'pce-2013'
+  | 'prevent-2023'
+  | 'score2-2021'
+  | 'score2-op-2021'
+  | 'qrisk3-2017';
+
+export interface RiskModelInputRange {
+  min: number;
+  max: number;
+  unit?: string;
+}
+
+export interface RiskModel {
+  id: RiskModelId;
+  name: string;
+  version: string;
+  description: string;
+  outcome: RiskOutcome;          // Event the 10-year risk refers to
+  requiredInputs: Array<keyof PatientData>;
+  optionalInputs: Array<keyof PatientData>;
+  inputRanges: Partial<Record<keyof PatientData, RiskModelInputRange>>;
+  thresholdScheme: RiskThresholdSchemeId; // Categories and cut-offs the model's results are reported with
+  ageExtrapolationRange?: RiskModelInputRange; // Ages the model extrapolates to when extrapolateAge is set
+  compute: (patientData: PatientData, options?: RiskCalculationOptions) => RiskResult;
+  computeUnmonitored: (patientData: PatientData) => RiskResult; // For reruns kept out of the 'risk-calculation' metric
 }
 
 export interface Recommendation {
@@ -77,6 +382,10 @@ export interface UnitConverter {
   cholesterolMgDlToMmolL(value: number): number;
   cholesterolMmolLToMgDl(value: number): number;
   
+  // Triglyceride conversions
+  triglyceridesMgDlToMmolL(value: number): number;
+  triglyceridesMmolLToMgDl(value: number): number;
+  
   // Glucose conversions
   glucoseMgDlToMmolL(value: number): number;
   glucoseMmolLToMgDl(value: number): number;
@@ -107,6 +416,238 @@ export interface FraminghamCoefficients {
   };
 }
 
+export interface FraminghamBmiCoefficientSet {
+  age: number;
+  bmi: number;
+  systolicBP: number;
+  systolicBPTreated: number;
+  smoking: number;
+  diabetes: number;
+  meanScore: number;
+  baselineSurvival: number;
+}
+
+export interface FraminghamBmiCoefficients {
+  male: FraminghamBmiCoefficientSet;
+  female: FraminghamBmiCoefficientSet;
+}
+
+// Systolic BP enters the stroke profile per mmHg above systolicBPReference
+export interface FraminghamStrokeCoefficientSet {
+  age: number;
+  systolicBP: number;
+  systolicBPTreated: number;
+  diabetes: number;
+  smoking: number;
+  cardiovascularDisease: number;
+  atrialFibrillation: number;
+  leftVentricularHypertrophy: number;
+  meanAge: number;
+  meanScore: number;
+  baselineSurvival: number;
+}
+
+export interface FraminghamStrokeCoefficients {
+  male: FraminghamStrokeCoefficientSet;
+  female: FraminghamStrokeCoefficientSet;
+}
+
+// Terms missing from an equation have a coefficient of 0; glucose is "treated" in patients with
+// diabetes
+export interface HeartFailureCoefficientSet {
+  lnAge: number;
+  lnAgeSquared: number;
+  lnTreatedSystolicBP: number;
+  lnAgeLnTreatedSystolicBP: number;
+  lnUntreatedSystolicBP: number;
+  lnAgeLnUntreatedSystolicBP: number;
+  smoking: number;
+  lnAgeSmoking: number;
+  lnTreatedGlucose: number;
+  lnUntreatedGlucose: number;
+  lnTotalCholesterol: number;
+  lnHdlCholesterol: number;
+  lnBmi: number;
+  lnAgeLnBmi: number;
+  lnQrsDuration: number;
+  meanScore: number;
+  baselineSurvival: number;
+}
+
+export interface HeartFailureCoefficients {
+  male: {
+    white: HeartFailureCoefficientSet;
+    africanAmerican: HeartFailureCoefficientSet;
+  };
+  female: {
+    white: HeartFailureCoefficientSet;
+    africanAmerican: HeartFailureCoefficientSet;
+  };
+}
+
+export interface PooledCohortCoefficientSet {
+  lnAge: number;
+  lnAgeSquared: number;
+  lnTotalCholesterol: number;
+  lnAgeLnTotalCholesterol: number;
+  lnHdlCholesterol: number;
+  lnAgeLnHdlCholesterol: number;
+  lnTreatedSystolicBP: number;
+  lnAgeLnTreatedSystolicBP: number;
+  lnUntreatedSystolicBP: number;
+  lnAgeLnUntreatedSystolicBP: number;
+  smoking: number;
+  lnAgeSmoking: number;
+  diabetes: number;
+  meanScore: number;
+  baselineSurvival: number;
+}
+
+export interface PooledCohortCoefficients {
+  male: {
+    white: PooledCohortCoefficientSet;
+    africanAmerican: PooledCohortCoefficientSet;
+  };
+  female: {
+    white: PooledCohortCoefficientSet;
+    africanAmerican: PooledCohortCoefficientSet;
+  };
+}
+
+export interface PreventCoefficientSet {
+  constant: number;
+  age: number;
+  ageSquared?: number;                 // 30-year equations only
+  nonHdlCholesterol?: number;          // CVD and ASCVD equations only
+  hdlCholesterol?: number;
+  systolicBPBelow110: number;
+  systolicBPAbove110: number;
+  diabetes: number;
+  smoking: number;
+  egfrBelow60: number;
+  egfrAbove60: number;
+  bmiBelow30?: number;                 // Heart failure equations only
+  bmiAbove30?: number;
+  bpTreatment: number;
+  statin?: number;
+  bpTreatmentSystolicBP: number;
+  statinNonHdlCholesterol?: number;
+  ageNonHdlCholesterol?: number;
+  ageHdlCholesterol?: number;
+  ageSystolicBP: number;
+  ageDiabetes: number;
+  ageSmoking: number;
+  ageBmi?: number;
+  ageEgfr: number;
+}
+
+export type PreventCoefficients = Record<
+  'male' | 'female',
+  Record<'cvd' | 'ascvd' | 'heartFailure', Record<10 | 30, PreventCoefficientSet>>
+>;
+
+export interface MesaCoefficientSet {
+  age: number;
+  male: number;
+  race: Record<'chinese' | 'african-american' | 'hispanic', number>; // White is the reference group
+  diabetes: number;
+  smoking: number;
+  totalCholesterol: number;       // mg/dL
+  hdlCholesterol: number;         // mg/dL
+  lipidLowering: number;
+  systolicBP: number;
+  bpTreatment: number;
+  familyHistory: number;
+  lnCacPlusOne?: number;          // ln(CAC + 1), with-CAC model only
+  baselineSurvival: number;       // 10-year
+}
+
+export interface Score2CoefficientSet {
+  age: number;
+  smoking: number;
+  systolicBP: number;
+  diabetes: number;
+  totalCholesterol: number;
+  hdlCholesterol: number;
+  ageSmoking: number;
+  ageSystolicBP: number;
+  ageDiabetes: number;
+  ageTotalCholesterol: number;
+  ageHdlCholesterol: number;
+  baselineSurvival: number;
+  meanLinearPredictor: number;   // 0 for SCORE2, whose predictors are already centred
+}
+
+export interface Score2Recalibration {
+  scale1: number;
+  scale2: number;
+}
+
+export type Score2RegionRecalibration = Record<
+  EscRiskRegion,
+  Record<'male' | 'female', Score2Recalibration>
+>;
+
+export interface Qrisk3CoefficientSet {
+  ethnicity: Record<QriskEthnicity, number>;
+  smoking: [number, number, number, number, number]; // Non, ex, light, moderate, heavy
+  agePowers: [number, number];                      // Fractional polynomial powers of age/10
+  centring: {
+    age1: number;
+    age2: number;
+    bmi1: number;
+    bmi2: number;
+    cholesterolRatio: number;
+    systolicBP: number;
+    systolicBPVariability: number;
+    townsend: number;
+  };
+  age1: number;
+  age2: number;
+  bmi1: number;
+  bmi2: number;
+  cholesterolRatio: number;
+  systolicBP: number;
+  systolicBPVariability: number;
+  townsend: number;
+  atrialFibrillation: number;
+  atypicalAntipsychotics: number;
+  corticosteroids: number;
+  erectileDysfunction: number;
+  migraine: number;
+  rheumatoidArthritis: number;
+  chronicKidneyDisease: number;
+  severeMentalIllness: number;
+  lupus: number;
+  treatedHypertension: number;
+  type1Diabetes: number;
+  type2Diabetes: number;
+  familyHistory: number;
+  age1Interactions: Qrisk3AgeInteractions;
+  age2Interactions: Qrisk3AgeInteractions;
+  baselineSurvival: number;      // 10-year survival
+}
+
+export interface Qrisk3AgeInteractions {
+  smoking: [number, number, number, number];        // Ex, light, moderate, heavy
+  atrialFibrillation: number;
+  corticosteroids: number;
+  erectileDysfunction: number;
+  migraine: number;
+  chronicKidneyDisease: number;
+  lupus: number;
+  treatedHypertension: number;
+  type1Diabetes: number;
+  type2Diabetes: number;
+  bmi1: number;
+  bmi2: number;
+  familyHistory: number;
+  systolicBP: number;
+  townsend: number;
+}
+
+export type Qrisk3Coefficients = Record<'male' | 'female', Qrisk3CoefficientSet>;
+
 export interface ValidationRules {
   age: { min: number; max: number; required: boolean };
   totalCholesterol: { 
@@ -150,7 +691,14 @@ export interface FormError extends Error {
   };
 }
 
-export type RiskCategory = 'low' | 'moderate' | 'high';
+export type RiskCategory =
+  | 'low'
+  | 'low-to-moderate'
+  | 'borderline'
+  | 'moderate'
+  | 'intermediate'
+  | 'high'
+  | 'very-high';
 
 export interface FormFieldProps {
   label: string;
@@ -184,6 +732,7 @@ export interface PatientProfile {
   name: string;
   patientData: PatientData;
   riskResult?: RiskResult;
+  scenarios?: TreatmentScenario[];
   createdAt: Date;
   updatedAt: Date;
 }
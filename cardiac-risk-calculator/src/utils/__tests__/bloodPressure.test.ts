@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessBloodPressure,
+  classifyBloodPressure,
+  getBloodPressureCategoryColor,
+  getBloodPressureCategoryLabel,
+} from '../bloodPressure';
+import { createSamplePatientData } from '../framingham';
+import type { PatientData } from '../../types';
+
+describe('Blood Pressure Classification', () => {
+  describe('classifyBloodPressure', () => {
+    it('should classify the ACC/AHA 2017 categories', () => {
+      expect(classifyBloodPressure(118, 78)).toBe('normal');
+      expect(classifyBloodPressure(120, 78)).toBe('elevated');
+      expect(classifyBloodPressure(129, 79)).toBe('elevated');
+      expect(classifyBloodPressure(130, 70)).toBe('stage-1');
+      expect(classifyBloodPressure(139, 89)).toBe('stage-1');
+      expect(classifyBloodPressure(140, 70)).toBe('stage-2');
+      expect(classifyBloodPressure(180, 120)).toBe('stage-2');
+      expect(classifyBloodPressure(181, 100)).toBe('crisis');
+      expect(classifyBloodPressure(150, 121)).toBe('crisis');
+    });
+
+    it('should use the higher category when systolic and diastolic disagree', () => {
+      expect(classifyBloodPressure(118, 80)).toBe('stage-1');
+      expect(classifyBloodPressure(125, 92)).toBe('stage-2');
+    });
+  });
+
+  describe('assessBloodPressure', () => {
+    const basePatient: PatientData = createSamplePatientData();
+    const stage1Patient: PatientData = { ...basePatient, systolicBP: 134, diastolicBP: 84 };
+
+    it('should start with lifestyle changes for stage 1 below 10% risk', () => {
+      const assessment = assessBloodPressure(stage1Patient, 8);
+
+      expect(assessment.category).toBe('stage-1');
+      expect(assessment.drugTherapyRecommended).toBe(false);
+      expect(assessment.followUp).toBe('Reassess in 3-6 months');
+    });
+
+    it('should recommend medication for stage 1 at 10% risk or more', () => {
+      const assessment = assessBloodPressure(stage1Patient, 10);
+
+      expect(assessment.drugTherapyRecommended).toBe(true);
+      expect(assessment.followUp).toBe('Reassess in 1 month');
+    });
+
+    it('should recommend medication for stage 1 with diabetes regardless of risk', () => {
+      expect(assessBloodPressure({ ...stage1Patient, hasDiabetes: true }, 4).drugTherapyRecommended).toBe(true);
+    });
+
+    it('should recommend adjusting treatment above target on medication', () => {
+      const assessment = assessBloodPressure({ ...stage1Patient, onBPMedication: true }, 4);
+
+      expect(assessment.drugTherapyRecommended).toBe(true);
+      expect(assessment.rationale).toContain('130/80');
+    });
+
+    it('should recommend medication for stage 2 at any risk', () => {
+      expect(assessBloodPressure(basePatient, 2).drugTherapyRecommended).toBe(true);
+    });
+
+    it('should not recommend medication for elevated or normal blood pressure', () => {
+      expect(assessBloodPressure({ ...basePatient, systolicBP: 125, diastolicBP: 75 }, 25).drugTherapyRecommended).toBe(false);
+      expect(assessBloodPressure({ ...basePatient, systolicBP: 115, diastolicBP: 75 }, 25).drugTherapyRecommended).toBe(false);
+    });
+  });
+
+  describe('display helpers', () => {
+    it('should return labels and colors for each category', () => {
+      expect(getBloodPressureCategoryLabel('stage-2')).toBe('Stage 2 Hypertension');
+      expect(getBloodPressureCategoryLabel('crisis')).toBe('Hypertensive Crisis');
+      expect(getBloodPressureCategoryColor('normal')).toBe('#22c55e');
+      expect(getBloodPressureCategoryColor('stage-2')).toBe('#ef4444');
+    });
+  });
+});
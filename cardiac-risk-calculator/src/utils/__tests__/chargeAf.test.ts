@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateChargeAfRisk,
+  categorizeAtrialFibrillationRisk,
+  isAtrialFibrillationRiskApplicable,
+  validateChargeAfInputs,
+} from '../chargeAf';
+import { createSamplePatientData } from '../framingham';
+import type { PatientData } from '../../types';
+
+describe('CHARGE-AF Risk', () => {
+  const basePatient: PatientData = {
+    ...createSamplePatientData(),
+    age: 65,
+    race: 'white',
+    height: 175,
+    weight: 80,
+    systolicBP: 130,
+    diastolicBP: 80,
+  };
+
+  describe('calculateChargeAfRisk', () => {
+    it('should calculate 5-year atrial fibrillation risk', () => {
+      expect(calculateChargeAfRisk(basePatient)).toEqual({ fiveYearRisk: 2.6, riskCategory: 'intermediate' });
+    });
+
+    it('should give a lower risk for non-White patients and younger patients', () => {
+      expect(calculateChargeAfRisk({ ...basePatient, race: 'black' }).fiveYearRisk).toBe(1.6);
+      expect(calculateChargeAfRisk({ ...basePatient, age: 50 }).fiveYearRisk).toBe(0.6);
+    });
+
+    it('should calculate a high risk with several risk factors', () => {
+      const result = calculateChargeAfRisk({
+        ...basePatient,
+        age: 78,
+        onBPMedication: true,
+        hasDiabetes: true,
+        hasHeartFailure: true,
+        smokingStatus: 'current',
+      });
+
+      expect(result).toEqual({ fiveYearRisk: 39.9, riskCategory: 'high' });
+    });
+
+    it('should increase risk with a previous heart attack', () => {
+      expect(calculateChargeAfRisk({ ...basePatient, hasPriorMyocardialInfarction: true }).fiveYearRisk)
+        .toBeGreaterThan(calculateChargeAfRisk(basePatient).fiveYearRisk);
+    });
+
+    it('should accept height and weight in imperial units', () => {
+      expect(calculateChargeAfRisk({ ...basePatient, height: 69, weight: 176, bodyMeasurementUnit: 'imperial' }).fiveYearRisk)
+        .toBe(2.6);
+    });
+
+    it('should throw without height and weight', () => {
+      expect(() => calculateChargeAfRisk({ ...basePatient, weight: undefined }))
+        .toThrow('CHARGE-AF risk calculation failed: Validation failed: Height and weight must be provided and greater than 0');
+    });
+  });
+
+  describe('categorizeAtrialFibrillationRisk', () => {
+    it('should use the 2.5% and 5% screening thresholds', () => {
+      expect(categorizeAtrialFibrillationRisk(2.4)).toBe('low');
+      expect(categorizeAtrialFibrillationRisk(2.5)).toBe('intermediate');
+      expect(categorizeAtrialFibrillationRisk(5)).toBe('high');
+    });
+  });
+
+  describe('isAtrialFibrillationRiskApplicable', () => {
+    it('should need race, height and weight and no AF diagnosis', () => {
+      expect(isAtrialFibrillationRiskApplicable(basePatient)).toBe(true);
+      expect(isAtrialFibrillationRiskApplicable({ ...basePatient, hasAtrialFibrillation: true })).toBe(false);
+      expect(isAtrialFibrillationRiskApplicable({ ...basePatient, race: undefined })).toBe(false);
+      expect(isAtrialFibrillationRiskApplicable({ ...basePatient, height: undefined })).toBe(false);
+      expect(isAtrialFibrillationRiskApplicable({ ...basePatient, age: 45 })).toBe(false);
+    });
+  });
+
+  describe('validateChargeAfInputs', () => {
+    it('should not require cholesterol', () => {
+      const patientData = { ...basePatient, totalCholesterol: undefined, hdlCholesterol: undefined };
+
+      expect(validateChargeAfInputs(patientData as unknown as PatientData)).toEqual([]);
+    });
+  });
+});
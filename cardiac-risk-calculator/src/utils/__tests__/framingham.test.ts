@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { 
   calculateFraminghamRisk, 
+  calculateHeartAge,
   validateFraminghamInputs, 
   createSamplePatientData 
 } from '../framingham';
@@ -29,7 +30,8 @@ describe('Framingham Risk Score Calculator', () => {
       expect(result.tenYearRisk).toBeGreaterThan(0);
       expect(result.tenYearRisk).toBeLessThan(100);
       expect(result.riskCategory).toMatch(/^(low|moderate|high)$/);
-      expect(result.framinghamVersion).toBe('2008');
+      expect(result.modelId).toBe('framingham-2008');
+      expect(result.modelVersion).toBe('2008');
       expect(result.calculatedAt).toBeInstanceOf(Date);
     });
 
@@ -54,7 +56,7 @@ describe('Framingham Risk Score Calculator', () => {
       expect(result.tenYearRisk).toBeGreaterThan(0);
       expect(result.tenYearRisk).toBeLessThan(100);
       expect(result.riskCategory).toMatch(/^(low|moderate|high)$/);
-      expect(result.framinghamVersion).toBe('2008');
+      expect(result.modelVersion).toBe('2008');
     });
 
     it('should handle cholesterol values in mmol/L', () => {
@@ -115,16 +117,17 @@ describe('Framingham Risk Score Calculator', () => {
       expect(medicatedResult.tenYearRisk).toBeGreaterThan(baseResult.tenYearRisk);
     });
 
-    it('should increase risk with family history', () => {
+    it('should report family history as a risk enhancer without changing the risk', () => {
       const basePatient: PatientData = createSamplePatientData();
       const familyHistoryPatient: PatientData = { ...basePatient, familyHistory: true };
 
       const baseResult = calculateFraminghamRisk(basePatient);
       const familyHistoryResult = calculateFraminghamRisk(familyHistoryPatient);
 
-      expect(familyHistoryResult.tenYearRisk).toBeGreaterThan(baseResult.tenYearRisk);
-      expect(familyHistoryResult.riskFactors.familyHistory).toBeGreaterThan(0);
-      expect(baseResult.riskFactors.familyHistory).toBe(0);
+      expect(familyHistoryResult.tenYearRisk).toBe(baseResult.tenYearRisk);
+      expect(familyHistoryResult.riskFactors.familyHistory).toBe(0);
+      expect(familyHistoryResult.riskEnhancers).toContain('familyHistory');
+      expect(baseResult.riskEnhancers).toEqual([]);
     });
 
     it('should categorize risk correctly', () => {
@@ -199,6 +202,14 @@ describe('Framingham Risk Score Calculator', () => {
       expect(oldResult.tenYearRisk).toBeGreaterThan(youngResult.tenYearRisk);
       expect(oldResult.tenYearRisk).toBeLessThan(100);
     });
+
+    it('should extrapolate the age term outside 30-79 when opted in', () => {
+      const youngSmoker: PatientData = { ...createSamplePatientData(), age: 28, smokingStatus: 'current' };
+
+      expect(() => calculateFraminghamRisk(youngSmoker)).toThrow('Age must be between 30 and 79 years');
+      expect(calculateFraminghamRisk({ ...youngSmoker, extrapolateAge: true }).tenYearRisk).toBe(3.7);
+      expect(calculateFraminghamRisk({ ...youngSmoker, age: 82, extrapolateAge: true }).tenYearRisk).toBe(64.1);
+    });
   });
 
   describe('validateFraminghamInputs', () => {
@@ -219,6 +230,12 @@ describe('Framingham Risk Score Calculator', () => {
       expect(oldErrors).toContain('Age must be between 30 and 79 years');
     });
 
+    it('should widen the age range to 20-90 for extrapolation', () => {
+      expect(validateFraminghamInputs({ ...createSamplePatientData(), age: 25, extrapolateAge: true })).toHaveLength(0);
+      expect(validateFraminghamInputs({ ...createSamplePatientData(), age: 95, extrapolateAge: true }))
+        .toContain('Age must be between 20 and 90 years');
+    });
+
     it('should validate gender', () => {
       const invalidPatient: PatientData = { 
         ...createSamplePatientData(), 
@@ -350,4 +367,110 @@ describe('Framingham Risk Score Calculator', () => {
       expect(result.riskCategory).toBe('low');
     });
   });
-});
\ No newline at end of file
+
+  describe('calculateHeartAge', () => {
+    const optimalPatient: PatientData = {
+      age: 50,
+      gender: 'male',
+      totalCholesterol: 180,
+      hdlCholesterol: 45,
+      cholesterolUnit: 'mg/dL',
+      systolicBP: 125,
+      diastolicBP: 80,
+      onBPMedication: false,
+      glucoseUnit: 'mg/dL',
+      smokingStatus: 'never',
+      hasDiabetes: false,
+      familyHistory: false,
+    };
+
+    it('should equal actual age for a patient with optimal risk factors', () => {
+      expect(calculateHeartAge(optimalPatient)).toBe(50);
+      expect(calculateHeartAge({ ...optimalPatient, gender: 'female', age: 62 })).toBe(62);
+    });
+
+    it('should exceed actual age when risk factors are above optimal', () => {
+      const heartAge = calculateHeartAge({
+        ...optimalPatient,
+        systolicBP: 150,
+        smokingStatus: 'current',
+      });
+
+      expect(heartAge).toBeGreaterThan(50);
+    });
+
+    it('should be below actual age when risk factors are better than optimal', () => {
+      expect(calculateHeartAge({ ...optimalPatient, hdlCholesterol: 70, systolicBP: 110 })).toBeLessThan(50);
+    });
+
+    it('should be limited to the published heart age range', () => {
+      expect(calculateHeartAge({
+        ...optimalPatient,
+        age: 75,
+        systolicBP: 190,
+        smokingStatus: 'current',
+        hasDiabetes: true,
+      })).toBe(80);
+    });
+
+    it('should be included in the Framingham result', () => {
+      expect(calculateFraminghamRisk(optimalPatient).heartAge).toBe(50);
+    });
+  });
+
+  describe('calculation trace', () => {
+    const samplePatient = createSamplePatientData();
+
+    it('should only include a trace when requested', () => {
+      expect(calculateFraminghamRisk(samplePatient).trace).toBeUndefined();
+      expect(calculateFraminghamRisk(samplePatient, { includeTrace: true }).trace).toBeDefined();
+    });
+
+    it('should record each term, the sum and the final transform', () => {
+      const result = calculateFraminghamRisk(samplePatient, { includeTrace: true });
+      const trace = result.trace!;
+
+      expect(trace.terms.map(term => term.label)).toEqual([
+        'ln(Age)',
+        'ln(Total cholesterol)',
+        'ln(HDL cholesterol)',
+        'ln(Untreated systolic BP)',
+        'Current smoker',
+        'Diabetes',
+      ]);
+      expect(trace.terms[0]).toEqual({
+        label: 'ln(Age)',
+        value: Math.log(55),
+        coefficient: 3.06117,
+        product: 3.06117 * Math.log(55),
+      });
+      expect(trace.sum).toBeCloseTo(trace.terms.reduce((sum, term) => sum + term.product, 0), 10);
+      expect(trace.meanOffset).toBe(23.9802);
+      expect(trace.baselineSurvival).toBe(0.88431);
+      expect(1 - Math.pow(trace.baselineSurvival, Math.exp(trace.sum - trace.meanOffset))).toBeCloseTo(trace.risk / 100, 10);
+      expect(Math.round(trace.risk * 10) / 10).toBe(result.tenYearRisk);
+    });
+
+    it('should show cholesterol standardized to mg/dL', () => {
+      const trace = calculateFraminghamRisk({
+        ...samplePatient,
+        totalCholesterol: 5.2,
+        hdlCholesterol: 1.2,
+        cholesterolUnit: 'mmol/L',
+      }, { includeTrace: true }).trace!;
+
+      expect(trace.inputs.find(input => input.label === 'Total cholesterol')).toEqual({
+        label: 'Total cholesterol',
+        value: 5.2 * 38.67,
+        unit: 'mg/dL',
+      });
+    });
+
+    it('should use the treated blood pressure coefficient for treated patients', () => {
+      const trace = calculateFraminghamRisk({ ...samplePatient, onBPMedication: true }, { includeTrace: true }).trace!;
+
+      expect(trace.terms[3].label).toBe('ln(Treated systolic BP)');
+      expect(trace.terms[3].coefficient).toBe(1.99881);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateFraminghamBmiRisk,
+  getPatientBmi,
+  validateFraminghamBmiInputs,
+  FRAMINGHAM_BMI_AGE_RANGE,
+} from '../framinghamBmi';
+import type { PatientData } from '../../types';
+
+// No lipid panel: the non-laboratory model runs on height and weight alone
+const basePatient = {
+  age: 55,
+  gender: 'male',
+  height: 175,
+  weight: 80,
+  bodyMeasurementUnit: 'metric',
+  cholesterolUnit: 'mg/dL',
+  systolicBP: 140,
+  diastolicBP: 90,
+  onBPMedication: false,
+  glucoseUnit: 'mg/dL',
+  smokingStatus: 'never',
+  hasDiabetes: false,
+  familyHistory: false,
+} as PatientData;
+
+describe('Non-laboratory Framingham Risk Score', () => {
+  describe('calculateFraminghamBmiRisk', () => {
+    it('should calculate 10-year risk from BMI instead of cholesterol', () => {
+      const result = calculateFraminghamBmiRisk(basePatient);
+
+      expect(result.tenYearRisk).toBe(15.1);
+      expect(result.riskCategory).toBe('moderate');
+      expect(result.heartAge).toBe(61);
+      expect(result.modelId).toBe('framingham-bmi-2008');
+    });
+
+    it('should calculate a high risk for a treated, diabetic female smoker', () => {
+      const result = calculateFraminghamBmiRisk({
+        ...basePatient,
+        age: 60,
+        gender: 'female',
+        height: 65,
+        weight: 180,
+        bodyMeasurementUnit: 'imperial',
+        systolicBP: 150,
+        onBPMedication: true,
+        smokingStatus: 'current',
+        hasDiabetes: true,
+      });
+
+      expect(result.tenYearRisk).toBe(54.8);
+      expect(result.riskCategory).toBe('high');
+      expect(result.heartAge).toBe(80);
+    });
+
+    it('should give the same risk in imperial units', () => {
+      const imperial = calculateFraminghamBmiRisk({
+        ...basePatient,
+        height: 175 / 2.54,
+        weight: 80 / 0.45359237,
+        bodyMeasurementUnit: 'imperial',
+      });
+
+      expect(imperial.tenYearRisk).toBe(calculateFraminghamBmiRisk(basePatient).tenYearRisk);
+    });
+
+    it('should increase risk with BMI', () => {
+      const lean = calculateFraminghamBmiRisk({ ...basePatient, weight: 65 });
+      const obese = calculateFraminghamBmiRisk({ ...basePatient, weight: 110 });
+
+      expect(obese.tenYearRisk).toBeGreaterThan(lean.tenYearRisk);
+    });
+
+    it('should show the BMI term in the calculation trace', () => {
+      const result = calculateFraminghamBmiRisk(basePatient, { includeTrace: true });
+
+      expect(result.trace?.terms.map(term => term.label)).toContain('ln(BMI)');
+      expect(result.trace?.inputs).toContainEqual({ label: 'BMI', value: 26.1, unit: 'kg/m²' });
+      expect(result.trace?.risk).toBeCloseTo(result.tenYearRisk, 1);
+    });
+
+    it('should throw for invalid inputs', () => {
+      expect(() => calculateFraminghamBmiRisk({ ...basePatient, weight: undefined }))
+        .toThrow('Non-laboratory Framingham risk calculation failed: Validation failed: Weight must be provided and greater than 0');
+    });
+  });
+
+  describe('getPatientBmi', () => {
+    it('should treat measurements without a unit as metric', () => {
+      expect(getPatientBmi({ ...basePatient, bodyMeasurementUnit: undefined })).toBeCloseTo(26.12, 2);
+    });
+  });
+
+  describe('validateFraminghamBmiInputs', () => {
+    it('should accept a patient without cholesterol', () => {
+      expect(validateFraminghamBmiInputs(basePatient)).toEqual([]);
+    });
+
+    it('should require height and weight', () => {
+      expect(validateFraminghamBmiInputs({ ...basePatient, height: undefined, weight: 0 })).toEqual([
+        'Height must be provided and greater than 0',
+        'Weight must be provided and greater than 0',
+      ]);
+    });
+
+    it('should limit age to the 30-74 derivation range', () => {
+      expect(FRAMINGHAM_BMI_AGE_RANGE).toEqual({ min: 30, max: 74 });
+      expect(validateFraminghamBmiInputs({ ...basePatient, age: 75 })).toContain('Age must be between 30 and 74 years');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateFraminghamStrokeRisk,
+  isStrokeRiskApplicable,
+  validateFraminghamStrokeInputs,
+  FRAMINGHAM_STROKE_AGE_RANGE,
+} from '../framinghamStroke';
+import { createSamplePatientData } from '../framingham';
+import type { PatientData } from '../../types';
+
+describe('Framingham Stroke Risk Profile', () => {
+  const basePatient: PatientData = {
+    ...createSamplePatientData(),
+    age: 65,
+    systolicBP: 140,
+    diastolicBP: 85,
+    onBPMedication: false,
+    smokingStatus: 'never',
+    hasDiabetes: false,
+  };
+
+  describe('calculateFraminghamStrokeRisk', () => {
+    it('should calculate 10-year stroke risk for a man', () => {
+      const result = calculateFraminghamStrokeRisk(basePatient);
+
+      expect(result.tenYearRisk).toBe(6);
+      expect(result.riskCategory).toBe('low');
+      expect(result.modelId).toBe('framingham-stroke-1994');
+      expect(result.heartAge).toBeUndefined();
+    });
+
+    it('should calculate 10-year stroke risk for a woman', () => {
+      expect(calculateFraminghamStrokeRisk({ ...basePatient, gender: 'female' }).tenYearRisk).toBe(4);
+    });
+
+    it('should increase risk with atrial fibrillation, LVH and prior cardiovascular disease', () => {
+      const baseRisk = calculateFraminghamStrokeRisk(basePatient).tenYearRisk;
+
+      expect(calculateFraminghamStrokeRisk({ ...basePatient, hasAtrialFibrillation: true }).tenYearRisk).toBe(10.7);
+      expect(calculateFraminghamStrokeRisk({ ...basePatient, hasLeftVentricularHypertrophy: true }).tenYearRisk).toBeGreaterThan(baseRisk);
+      expect(calculateFraminghamStrokeRisk({ ...basePatient, hasCardiovascularDisease: true }).tenYearRisk).toBeGreaterThan(baseRisk);
+    });
+
+    it('should calculate a high risk with several conditions', () => {
+      const result = calculateFraminghamStrokeRisk({
+        ...basePatient,
+        age: 72,
+        systolicBP: 150,
+        onBPMedication: true,
+        smokingStatus: 'current',
+        hasAtrialFibrillation: true,
+        hasLeftVentricularHypertrophy: true,
+      });
+
+      expect(result.tenYearRisk).toBe(67.8);
+      expect(result.riskCategory).toBe('high');
+    });
+
+    it('should ignore cholesterol', () => {
+      expect(calculateFraminghamStrokeRisk({ ...basePatient, totalCholesterol: 300 }).tenYearRisk)
+        .toBe(calculateFraminghamStrokeRisk(basePatient).tenYearRisk);
+    });
+
+    it('should compare with the cohort average and an optimal profile', () => {
+      expect(calculateFraminghamStrokeRisk(basePatient).comparisonData).toEqual({
+        averageForAge: 9.6,
+        averageForGender: 9.6,
+        idealRisk: 4.9,
+      });
+    });
+
+    it('should show each condition in the calculation trace', () => {
+      const result = calculateFraminghamStrokeRisk(basePatient, { includeTrace: true });
+
+      expect(result.trace?.terms.map(term => term.label)).toEqual([
+        'Age',
+        'Untreated systolic BP - 100',
+        'Diabetes',
+        'Current smoker',
+        'Cardiovascular disease',
+        'Atrial fibrillation',
+        'LVH on ECG',
+      ]);
+      expect(result.trace?.risk).toBeCloseTo(result.tenYearRisk, 1);
+    });
+
+    it('should throw outside the 55-84 age range', () => {
+      expect(() => calculateFraminghamStrokeRisk({ ...basePatient, age: 50 }))
+        .toThrow('Framingham stroke risk calculation failed: Validation failed: Age must be between 55 and 84 years');
+    });
+  });
+
+  describe('isStrokeRiskApplicable', () => {
+    it('should depend on the 55-84 derivation age range', () => {
+      expect(FRAMINGHAM_STROKE_AGE_RANGE).toEqual({ min: 55, max: 84 });
+      expect(isStrokeRiskApplicable(basePatient)).toBe(true);
+      expect(isStrokeRiskApplicable({ ...basePatient, age: 54 })).toBe(false);
+      expect(isStrokeRiskApplicable({ ...basePatient, age: 85 })).toBe(false);
+    });
+  });
+
+  describe('validateFraminghamStrokeInputs', () => {
+    it('should not require cholesterol', () => {
+      const patientData = { ...basePatient, totalCholesterol: undefined, hdlCholesterol: undefined };
+
+      expect(validateFraminghamStrokeInputs(patientData as unknown as PatientData)).toEqual([]);
+    });
+  });
+});
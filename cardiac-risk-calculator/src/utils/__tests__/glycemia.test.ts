@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessGlycemicStatus,
+  classifyGlucose,
+  classifyHbA1c,
+  getGlycemicStatusLabel,
+} from '../glycemia';
+import { createSamplePatientData } from '../framingham';
+import type { PatientData } from '../../types';
+
+describe('Glycemic Status', () => {
+  const basePatient: PatientData = { ...createSamplePatientData(), hasDiabetes: false };
+
+  describe('classifyHbA1c', () => {
+    it('should apply the ADA HbA1c thresholds', () => {
+      expect(classifyHbA1c(5.6)).toBe('normal');
+      expect(classifyHbA1c(5.7)).toBe('prediabetes');
+      expect(classifyHbA1c(6.4)).toBe('prediabetes');
+      expect(classifyHbA1c(6.5)).toBe('diabetes');
+    });
+  });
+
+  describe('classifyGlucose', () => {
+    it('should apply the ADA fasting glucose thresholds', () => {
+      expect(classifyGlucose(99, 'fasting')).toBe('normal');
+      expect(classifyGlucose(100, 'fasting')).toBe('prediabetes');
+      expect(classifyGlucose(126, 'fasting')).toBe('diabetes');
+    });
+
+    it('should only classify a random glucose in the diabetes range', () => {
+      expect(classifyGlucose(150, 'random')).toBeUndefined();
+      expect(classifyGlucose(200, 'random')).toBe('diabetes');
+    });
+  });
+
+  describe('assessGlycemicStatus', () => {
+    it('should return undefined without lab results', () => {
+      expect(assessGlycemicStatus(basePatient)).toBeUndefined();
+      expect(assessGlycemicStatus({ ...basePatient, bloodGlucose: 150, glucoseTestType: 'random' })).toBeUndefined();
+    });
+
+    it('should treat glucose as fasting unless stated', () => {
+      expect(assessGlycemicStatus({ ...basePatient, bloodGlucose: 110 })).toEqual({
+        status: 'prediabetes',
+        basis: ['Fasting glucose 110 mg/dL'],
+        hba1cPercent: undefined,
+        glucoseMgDl: 110,
+        diabetesStatusMismatch: false,
+      });
+    });
+
+    it('should use the higher category when the tests disagree', () => {
+      const assessment = assessGlycemicStatus({ ...basePatient, bloodGlucose: 95, hba1c: 6.0 });
+
+      expect(assessment?.status).toBe('prediabetes');
+      expect(assessment?.basis).toEqual(['HbA1c 6%']);
+    });
+
+    it('should convert HbA1c in mmol/mol', () => {
+      expect(assessGlycemicStatus({ ...basePatient, hba1c: 38, hba1cUnit: 'mmol/mol' })?.status).toBe('normal');
+      expect(assessGlycemicStatus({ ...basePatient, hba1c: 39, hba1cUnit: 'mmol/mol' })?.status).toBe('prediabetes');
+      expect(assessGlycemicStatus({ ...basePatient, hba1c: 48, hba1cUnit: 'mmol/mol' })?.status).toBe('diabetes');
+    });
+
+    it('should convert glucose in mmol/L', () => {
+      expect(assessGlycemicStatus({ ...basePatient, bloodGlucose: 7.0, glucoseUnit: 'mmol/L' })?.status).toBe('diabetes');
+    });
+
+    it('should flag diabetes-range results without a diabetes diagnosis', () => {
+      const assessment = assessGlycemicStatus({ ...basePatient, hba1c: 6.8, bloodGlucose: 130 });
+
+      expect(assessment?.diabetesStatusMismatch).toBe(true);
+      expect(assessment?.basis).toEqual(['HbA1c 6.8%', 'Fasting glucose 130 mg/dL']);
+      expect(assessGlycemicStatus({ ...basePatient, hba1c: 6.8, hasDiabetes: true })?.diabetesStatusMismatch).toBe(false);
+    });
+  });
+
+  describe('getGlycemicStatusLabel', () => {
+    it('should label each status', () => {
+      expect(getGlycemicStatusLabel('normal')).toBe('Normal');
+      expect(getGlycemicStatusLabel('prediabetes')).toBe('Prediabetes');
+      expect(getGlycemicStatusLabel('diabetes')).toBe('Diabetes range');
+    });
+  });
+});
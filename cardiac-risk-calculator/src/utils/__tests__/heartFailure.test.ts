@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateHeartFailureRisk,
+  getHeartFailureCoefficients,
+  isHeartFailureRiskApplicable,
+  validateHeartFailureInputs,
+} from '../heartFailure';
+import { HEART_FAILURE_COEFFICIENTS } from '../constants';
+import { calculateRisk } from '../riskModels';
+import type { PatientData } from '../../types';
+
+// Worked example: a 55-year-old non-smoker with untreated SBP 125 mmHg, fasting glucose 95 mg/dL
+// without diabetes, TC 200 mg/dL, HDL 50 mg/dL, BMI 27 kg/m² and QRS 95 ms. Every equation puts
+// this typical profile close to its published mean score, so the risk is close to 1 - S0(10).
+const workedExample: PatientData = {
+  age: 55,
+  gender: 'male',
+  race: 'white',
+  totalCholesterol: 200,
+  hdlCholesterol: 50,
+  cholesterolUnit: 'mg/dL',
+  systolicBP: 125,
+  diastolicBP: 80,
+  onBPMedication: false,
+  bloodGlucose: 95,
+  glucoseUnit: 'mg/dL',
+  bmi: 27,
+  qrsDuration: 95,
+  smokingStatus: 'never',
+  hasDiabetes: false,
+  familyHistory: false,
+};
+
+describe('Heart Failure Risk', () => {
+  describe('published equations', () => {
+    it.each([
+      { gender: 'male', race: 'white', sum: 171.61, risk: 1.4 },
+      { gender: 'female', race: 'white', sum: 99.87, risk: 0.8 },
+      { gender: 'male', race: 'african-american', sum: 28.64, risk: 1.6 },
+      { gender: 'female', race: 'african-american', sum: 234.31, risk: 1.1 },
+    ] as const)('should match the $race $gender example', ({ gender, race, sum, risk }) => {
+      const result = calculateHeartFailureRisk({ ...workedExample, gender, race }, { includeTrace: true });
+
+      expect(result.trace?.sum).toBeCloseTo(sum, 2);
+      expect(result.tenYearRisk).toBe(risk);
+    });
+
+    it('should expand the white male example term by term', () => {
+      const lnAge = Math.log(55);
+      const expectedSum =
+        41.94 * lnAge -
+        0.88 * lnAge * lnAge +
+        0.91 * Math.log(125) +
+        0.78 * Math.log(95) +
+        0.49 * Math.log(200) -
+        0.44 * Math.log(50) +
+        37.2 * Math.log(27) -
+        8.83 * lnAge * Math.log(27) +
+        0.63 * Math.log(95);
+
+      const result = calculateHeartFailureRisk(workedExample, { includeTrace: true });
+
+      expect(result.trace?.sum).toBeCloseTo(expectedSum, 10);
+      expect(result.trace?.risk).toBeCloseTo(100 * (1 - Math.pow(0.98752, Math.exp(expectedSum - 171.5))), 10);
+    });
+
+    it('should give the baseline risk at the mean score', () => {
+      expect(calculateHeartFailureRisk(workedExample).comparisonData.averageForGender).toBe(1.2);
+      expect(calculateHeartFailureRisk({ ...workedExample, gender: 'female', race: 'african-american' })
+        .comparisonData.averageForGender).toBe(0.7);
+    });
+  });
+
+  describe('calculateHeartFailureRisk', () => {
+    it('should tag the result with the model id', () => {
+      const result = calculateHeartFailureRisk(workedExample);
+
+      expect(result.riskCategory).toBe('low');
+      expect(result.modelId).toBe('pcp-hf-2019');
+    });
+
+    it('should calculate a high risk with several risk factors', () => {
+      const result = calculateHeartFailureRisk({
+        ...workedExample,
+        age: 72,
+        systolicBP: 160,
+        onBPMedication: true,
+        bloodGlucose: 140,
+        hasDiabetes: true,
+        bmi: 33,
+        smokingStatus: 'current',
+        qrsDuration: 130,
+      });
+
+      expect(result.tenYearRisk).toBe(55.1);
+      expect(result.riskCategory).toBe('high');
+    });
+
+    it('should use the treated glucose coefficient for patients with diabetes', () => {
+      const result = calculateHeartFailureRisk({ ...workedExample, hasDiabetes: true });
+
+      expect(result.riskFactors.diabetes).toBeCloseTo(0.9 * Math.log(95), 10);
+    });
+
+    it('should increase risk with a wider QRS', () => {
+      expect(calculateHeartFailureRisk({ ...workedExample, qrsDuration: 120 }).tenYearRisk).toBe(1.6);
+    });
+
+    it('should accept glucose and cholesterol in mmol/L and BMI from height and weight', () => {
+      expect(calculateHeartFailureRisk({
+        ...workedExample,
+        bloodGlucose: 95 / 18.018,
+        glucoseUnit: 'mmol/L',
+        totalCholesterol: 200 / 38.67,
+        hdlCholesterol: 50 / 38.67,
+        cholesterolUnit: 'mmol/L',
+      }).tenYearRisk).toBe(1.4);
+      expect(calculateHeartFailureRisk({ ...workedExample, bmi: undefined, height: 180, weight: 87.48 }).tenYearRisk).toBe(1.4);
+    });
+
+    it('should compare with a typical adult of the same age and an optimal profile', () => {
+      expect(calculateHeartFailureRisk(workedExample).comparisonData).toEqual({
+        averageForAge: 1.4,
+        averageForGender: 1.2,
+        idealRisk: 0.9,
+      });
+    });
+
+    it('should give heart failure recommendations', () => {
+      const titles = calculateHeartFailureRisk(workedExample).recommendations.map(r => r.title);
+
+      expect(titles).toContain('Heart Failure Prevention');
+      expect(titles).toContain('Know the Warning Signs of Heart Failure');
+    });
+
+    it('should show every term in the calculation trace', () => {
+      const result = calculateHeartFailureRisk(workedExample, { includeTrace: true });
+
+      expect(result.trace?.inputs.map(input => input.label)).toContain('QRS duration');
+      expect(result.trace?.terms).toHaveLength(12);
+      expect(result.trace?.risk).toBeCloseTo(result.tenYearRisk, 1);
+    });
+
+    it('should attribute the risk through the registry', () => {
+      const result = calculateRisk(workedExample, 'pcp-hf-2019');
+
+      expect(result.riskFactors.age).toBeGreaterThan(0);
+      expect(result.riskRange).toEqual({ lower: 1.3, upper: 1.5 });
+    });
+
+    it('should throw without a QRS duration', () => {
+      expect(() => calculateHeartFailureRisk({ ...workedExample, qrsDuration: undefined }))
+        .toThrow('Heart failure risk calculation failed: Validation failed: QRS duration must be provided and greater than 0');
+    });
+  });
+
+  describe('getHeartFailureCoefficients', () => {
+    it('should use the white equations for races other than Black', () => {
+      expect(getHeartFailureCoefficients({ ...workedExample, race: 'hispanic' }))
+        .toBe(HEART_FAILURE_COEFFICIENTS.male.white);
+      expect(getHeartFailureCoefficients({ ...workedExample, gender: 'female', race: 'african-american' }))
+        .toBe(HEART_FAILURE_COEFFICIENTS.female.africanAmerican);
+    });
+  });
+
+  describe('isHeartFailureRiskApplicable', () => {
+    it('should need a fasting glucose, a BMI and a QRS duration', () => {
+      expect(isHeartFailureRiskApplicable(workedExample)).toBe(true);
+      expect(isHeartFailureRiskApplicable({ ...workedExample, glucoseTestType: 'random' })).toBe(false);
+      expect(isHeartFailureRiskApplicable({ ...workedExample, bmi: undefined })).toBe(false);
+      expect(isHeartFailureRiskApplicable({ ...workedExample, qrsDuration: undefined })).toBe(false);
+      expect(isHeartFailureRiskApplicable({ ...workedExample, age: 80 })).toBe(false);
+    });
+  });
+
+  describe('validateHeartFailureInputs', () => {
+    it('should require cholesterol', () => {
+      const patientData = { ...workedExample, totalCholesterol: undefined, hdlCholesterol: undefined };
+
+      expect(validateHeartFailureInputs(patientData as unknown as PatientData)).toEqual([
+        'Total cholesterol must be provided and greater than 0',
+        'HDL cholesterol must be provided and greater than 0',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateHypertensionRisk,
+  isHypertensionRiskApplicable,
+  validateHypertensionRiskInputs,
+} from '../hypertensionRisk';
+import { createSamplePatientData } from '../framingham';
+import type { PatientData } from '../../types';
+
+describe('Hypertension Risk', () => {
+  const basePatient: PatientData = {
+    ...createSamplePatientData(),
+    age: 45,
+    systolicBP: 120,
+    diastolicBP: 80,
+    bmi: 25,
+  };
+
+  describe('calculateHypertensionRisk', () => {
+    it('should calculate 1-, 2- and 4-year hypertension risk for a man', () => {
+      expect(calculateHypertensionRisk(basePatient)).toEqual({
+        oneYearRisk: 1.8,
+        twoYearRisk: 4,
+        fourYearRisk: 8.6,
+      });
+    });
+
+    it('should calculate a higher risk for a woman', () => {
+      expect(calculateHypertensionRisk({ ...basePatient, gender: 'female' }).fourYearRisk).toBe(10.7);
+    });
+
+    it('should increase risk with each parent who has hypertension', () => {
+      expect(calculateHypertensionRisk({ ...basePatient, parentalHypertension: 'none' }).fourYearRisk).toBe(8.6);
+      expect(calculateHypertensionRisk({ ...basePatient, parentalHypertension: 'one' }).fourYearRisk).toBe(10.3);
+      expect(calculateHypertensionRisk({ ...basePatient, parentalHypertension: 'both' }).fourYearRisk).toBe(11.8);
+    });
+
+    it('should calculate a high risk with several risk factors', () => {
+      const result = calculateHypertensionRisk({
+        ...basePatient,
+        age: 60,
+        systolicBP: 136,
+        diastolicBP: 86,
+        bmi: 31,
+        smokingStatus: 'current',
+        parentalHypertension: 'both',
+      });
+
+      expect(result).toEqual({ oneYearRisk: 20.9, twoYearRisk: 40.4, fourYearRisk: 68 });
+    });
+
+    it('should use BMI from height and weight', () => {
+      expect(calculateHypertensionRisk({ ...basePatient, bmi: undefined, height: 180, weight: 81 }).fourYearRisk).toBe(8.6);
+    });
+
+    it('should throw for blood pressure of 140/90 or more', () => {
+      expect(() => calculateHypertensionRisk({ ...basePatient, diastolicBP: 90 }))
+        .toThrow('Hypertension risk calculation failed: Validation failed: Blood pressure must be below 140/90 mmHg');
+    });
+  });
+
+  describe('isHypertensionRiskApplicable', () => {
+    it('should need untreated blood pressure below 140/90, an age of 20-69 and a BMI', () => {
+      expect(isHypertensionRiskApplicable(basePatient)).toBe(true);
+      expect(isHypertensionRiskApplicable({ ...basePatient, systolicBP: 140 })).toBe(false);
+      expect(isHypertensionRiskApplicable({ ...basePatient, onBPMedication: true })).toBe(false);
+      expect(isHypertensionRiskApplicable({ ...basePatient, age: 70 })).toBe(false);
+      expect(isHypertensionRiskApplicable({ ...basePatient, bmi: undefined })).toBe(false);
+    });
+  });
+
+  describe('validateHypertensionRiskInputs', () => {
+    it('should not require cholesterol', () => {
+      const patientData = { ...basePatient, totalCholesterol: undefined, hdlCholesterol: undefined };
+
+      expect(validateHypertensionRiskInputs(patientData as unknown as PatientData)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateLifetimeRisk,
+  getLifetimeRiskCategory,
+  isLifetimeRiskApplicable,
+} from '../lifetimeRisk';
+import type { PatientData, RiskResult } from '../../types';
+
+const optimalPatient: PatientData = {
+  age: 40,
+  gender: 'male',
+  totalCholesterol: 170,
+  hdlCholesterol: 55,
+  cholesterolUnit: 'mg/dL',
+  systolicBP: 115,
+  diastolicBP: 75,
+  onBPMedication: false,
+  glucoseUnit: 'mg/dL',
+  smokingStatus: 'never',
+  hasDiabetes: false,
+  familyHistory: false,
+};
+
+const lowRiskResult = { riskCategory: 'low' } as RiskResult;
+
+describe('Lifetime Risk', () => {
+  describe('getLifetimeRiskCategory', () => {
+    it('should classify all optimal risk factors', () => {
+      expect(getLifetimeRiskCategory(optimalPatient)).toBe('allOptimal');
+    });
+
+    it('should classify a not optimal cholesterol or blood pressure', () => {
+      expect(getLifetimeRiskCategory({ ...optimalPatient, totalCholesterol: 190 })).toBe('notOptimal');
+      expect(getLifetimeRiskCategory({ ...optimalPatient, diastolicBP: 85 })).toBe('notOptimal');
+    });
+
+    it('should classify an elevated risk factor', () => {
+      expect(getLifetimeRiskCategory({ ...optimalPatient, totalCholesterol: 190, systolicBP: 145 })).toBe('elevated');
+    });
+
+    it('should count major risk factors', () => {
+      expect(getLifetimeRiskCategory({ ...optimalPatient, smokingStatus: 'current' })).toBe('oneMajor');
+      expect(getLifetimeRiskCategory({ ...optimalPatient, smokingStatus: 'current', hasDiabetes: true }))
+        .toBe('multipleMajor');
+    });
+
+    it('should count treatment as a major risk factor', () => {
+      expect(getLifetimeRiskCategory({ ...optimalPatient, onBPMedication: true })).toBe('oneMajor');
+      expect(getLifetimeRiskCategory({ ...optimalPatient, onStatin: true, totalCholesterol: 245 }))
+        .toBe('oneMajor');
+    });
+
+    it('should convert cholesterol in mmol/L before classifying', () => {
+      expect(getLifetimeRiskCategory({ ...optimalPatient, totalCholesterol: 6.5, cholesterolUnit: 'mmol/L' }))
+        .toBe('oneMajor');
+    });
+  });
+
+  describe('calculateLifetimeRisk', () => {
+    it('should return the published risks to age 95', () => {
+      expect(calculateLifetimeRisk(optimalPatient)).toEqual({
+        category: 'allOptimal',
+        lifetimeRisk: 5.2,
+        optimalRisk: 5.2,
+      });
+      expect(calculateLifetimeRisk({ ...optimalPatient, gender: 'female', smokingStatus: 'current', hasDiabetes: true }))
+        .toEqual({ category: 'multipleMajor', lifetimeRisk: 50.2, optimalRisk: 8.2 });
+    });
+  });
+
+  describe('isLifetimeRiskApplicable', () => {
+    it('should apply under age 50 with a low 10-year risk', () => {
+      expect(isLifetimeRiskApplicable(optimalPatient, lowRiskResult)).toBe(true);
+    });
+
+    it('should not apply from age 50 or with a higher 10-year risk', () => {
+      expect(isLifetimeRiskApplicable({ ...optimalPatient, age: 50 }, lowRiskResult)).toBe(false);
+      expect(isLifetimeRiskApplicable(optimalPatient, { riskCategory: 'moderate' } as RiskResult)).toBe(false);
+    });
+  });
+});
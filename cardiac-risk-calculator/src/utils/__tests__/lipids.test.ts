@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateFriedewaldLdl,
+  calculateLipidProfile,
+  calculateMartinHopkinsLdl,
+  calculateSampsonLdl,
+  estimateLdlCholesterol,
+  estimateLdlWithMethod,
+  isLdlEstimationValid,
+} from '../lipids';
+import { createSamplePatientData } from '../framingham';
+import type { PatientData } from '../../types';
+
+describe('Lipids', () => {
+  // Sample patient: total cholesterol 200 mg/dL, HDL 45 mg/dL
+  const basePatient: PatientData = { ...createSamplePatientData(), triglycerides: 150 };
+  const lipids = { totalCholesterol: 200, hdlCholesterol: 45, triglycerides: 150 };
+
+  describe('LDL equations', () => {
+    it('should calculate Friedewald LDL', () => {
+      expect(calculateFriedewaldLdl(lipids)).toBe(125);
+    });
+
+    it('should calculate Martin-Hopkins LDL with the stratum factor', () => {
+      // Non-HDL 155 mg/dL and triglycerides 147-154 mg/dL: factor 5.7
+      expect(calculateMartinHopkinsLdl(lipids)).toBeCloseTo(155 - 150 / 5.7, 6);
+      // Non-HDL below 100 mg/dL and triglycerides under 50 mg/dL: factor 3.5
+      expect(calculateMartinHopkinsLdl({ totalCholesterol: 140, hdlCholesterol: 60, triglycerides: 40 }))
+        .toBeCloseTo(80 - 40 / 3.5, 6);
+    });
+
+    it('should calculate Sampson/NIH LDL', () => {
+      expect(calculateSampsonLdl(lipids)).toBeCloseTo(128.2, 1);
+    });
+  });
+
+  describe('validity limits', () => {
+    it('should limit Friedewald and Martin-Hopkins to triglycerides below 400 mg/dL', () => {
+      expect(isLdlEstimationValid('friedewald', 399)).toBe(true);
+      expect(isLdlEstimationValid('friedewald', 400)).toBe(false);
+      expect(isLdlEstimationValid('martin-hopkins', 400)).toBe(false);
+    });
+
+    it('should limit Sampson to triglycerides below 800 mg/dL', () => {
+      expect(isLdlEstimationValid('sampson', 500)).toBe(true);
+      expect(isLdlEstimationValid('sampson', 800)).toBe(false);
+    });
+
+    it('should not estimate with an equation outside its limit', () => {
+      expect(estimateLdlWithMethod({ ...basePatient, triglycerides: 450 }, 'friedewald')).toBeUndefined();
+      expect(estimateLdlWithMethod({ ...basePatient, triglycerides: 450 }, 'sampson')).toBeDefined();
+    });
+
+    it('should not estimate without triglycerides', () => {
+      expect(estimateLdlWithMethod(createSamplePatientData(), 'friedewald')).toBeUndefined();
+    });
+  });
+
+  describe('calculateLipidProfile', () => {
+    it('should prefer Martin-Hopkins and derive non-HDL cholesterol', () => {
+      expect(calculateLipidProfile(basePatient)).toEqual({
+        ldlCholesterol: 129,
+        ldlMethod: 'martin-hopkins',
+        nonHdlCholesterol: 155,
+        triglycerides: 150,
+      });
+    });
+
+    it('should fall back to Sampson above 400 mg/dL triglycerides', () => {
+      const profile = calculateLipidProfile({ ...basePatient, triglycerides: 500 });
+
+      expect(profile.ldlMethod).toBe('sampson');
+      expect(profile.ldlCholesterol).toBe(76);
+    });
+
+    it('should leave LDL undefined when no equation is valid', () => {
+      expect(calculateLipidProfile({ ...basePatient, triglycerides: 900 })).toEqual({
+        nonHdlCholesterol: 155,
+        triglycerides: 900,
+      });
+    });
+
+    it('should use a requested equation', () => {
+      expect(calculateLipidProfile(basePatient, ['friedewald'])).toMatchObject({ ldlCholesterol: 125, ldlMethod: 'friedewald' });
+    });
+
+    it('should record a measured LDL', () => {
+      expect(calculateLipidProfile({ ...basePatient, ldlCholesterol: 140 })).toMatchObject({ ldlCholesterol: 140, ldlMethod: 'measured' });
+    });
+
+    it('should give the same profile in mmol/L', () => {
+      const mmolPatient: PatientData = {
+        ...basePatient,
+        totalCholesterol: 5.17,
+        hdlCholesterol: 1.16,
+        triglycerides: 1.69,
+        cholesterolUnit: 'mmol/L',
+      };
+
+      expect(calculateLipidProfile(mmolPatient)).toEqual(calculateLipidProfile(basePatient));
+    });
+  });
+
+  describe('estimateLdlCholesterol', () => {
+    it('should use triglycerides when available', () => {
+      expect(estimateLdlCholesterol(basePatient)).toBe(129);
+    });
+
+    it('should assume typical triglycerides otherwise', () => {
+      expect(estimateLdlCholesterol(createSamplePatientData())).toBe(125);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCacReclassification,
+  calculateMesaRisk,
+  hasCacScore,
+  MESA_AGE_RANGE,
+} from '../mesa';
+import type { PatientData, RiskResult } from '../../types';
+
+const basePatient: PatientData = {
+  age: 65,
+  gender: 'male',
+  race: 'white',
+  totalCholesterol: 200,
+  hdlCholesterol: 50,
+  cholesterolUnit: 'mg/dL',
+  systolicBP: 130,
+  diastolicBP: 80,
+  onBPMedication: false,
+  glucoseUnit: 'mg/dL',
+  smokingStatus: 'never',
+  hasDiabetes: false,
+  familyHistory: false,
+};
+
+const moderateResult = { riskCategory: 'moderate', modelId: 'pce-2013' } as RiskResult;
+
+describe('MESA Risk Score', () => {
+  describe('calculateMesaRisk', () => {
+    it('should calculate 10-year CHD risk without CAC', () => {
+      expect(calculateMesaRisk(basePatient, false)).toBe(6.3);
+    });
+
+    it('should calculate 10-year CHD risk with CAC', () => {
+      expect(calculateMesaRisk({ ...basePatient, cacScore: 0 }, true)).toBe(2.4);
+      expect(calculateMesaRisk({ ...basePatient, cacScore: 100 }, true)).toBe(8.2);
+    });
+
+    it('should apply race, treatment and risk factor terms', () => {
+      const patient: PatientData = {
+        ...basePatient,
+        age: 55,
+        gender: 'female',
+        race: 'african-american',
+        totalCholesterol: 220,
+        hdlCholesterol: 45,
+        systolicBP: 140,
+        onBPMedication: true,
+        smokingStatus: 'current',
+        hasDiabetes: true,
+        familyHistory: true,
+        cacScore: 300,
+      };
+
+      expect(calculateMesaRisk(patient, false)).toBe(11.5);
+      expect(calculateMesaRisk(patient, true)).toBe(26.5);
+    });
+
+    it('should give the same risk for cholesterol in mmol/L', () => {
+      const mmolPatient: PatientData = {
+        ...basePatient,
+        totalCholesterol: 200 / 38.67,
+        hdlCholesterol: 50 / 38.67,
+        cholesterolUnit: 'mmol/L',
+      };
+
+      expect(calculateMesaRisk(mmolPatient, false)).toBe(calculateMesaRisk(basePatient, false));
+    });
+
+    it('should reject ages outside the MESA range', () => {
+      expect(() => calculateMesaRisk({ ...basePatient, age: MESA_AGE_RANGE.min - 1 }, false)).toThrow('MESA risk requires age');
+    });
+
+    it('should require a CAC score for the CAC model', () => {
+      expect(() => calculateMesaRisk(basePatient, true)).toThrow('requires a CAC score');
+    });
+  });
+
+  describe('hasCacScore', () => {
+    it('should accept zero and reject blank values', () => {
+      expect(hasCacScore({ ...basePatient, cacScore: 0 })).toBe(true);
+      expect(hasCacScore(basePatient)).toBe(false);
+      expect(hasCacScore({ ...basePatient, cacScore: NaN })).toBe(false);
+    });
+  });
+
+  describe('calculateCacReclassification', () => {
+    it('should down-classify with a CAC score of zero', () => {
+      const result = calculateCacReclassification({ ...basePatient, cacScore: 0 }, moderateResult);
+
+      expect(result.reclassifiedCategory).toBe('low');
+      expect(result.direction).toBe('down');
+      expect(result.mesaRisk).toBe(2.4);
+      expect(result.mesaRiskWithoutCac).toBe(6.3);
+    });
+
+    it('should not down-classify smokers, diabetics or people with a family history', () => {
+      expect(calculateCacReclassification({ ...basePatient, cacScore: 0, smokingStatus: 'current' }, moderateResult).direction)
+        .toBe('unchanged');
+      expect(calculateCacReclassification({ ...basePatient, cacScore: 0, hasDiabetes: true }, moderateResult).direction)
+        .toBe('unchanged');
+      expect(calculateCacReclassification({ ...basePatient, cacScore: 0, familyHistory: true }, moderateResult).direction)
+        .toBe('unchanged');
+    });
+
+    it('should up-classify with a CAC score of 100 or more', () => {
+      const result = calculateCacReclassification({ ...basePatient, cacScore: 100 }, moderateResult);
+
+      expect(result.reclassifiedCategory).toBe('high');
+      expect(result.direction).toBe('up');
+    });
+
+    it('should leave the category unchanged for a positive score below 100', () => {
+      expect(calculateCacReclassification({ ...basePatient, cacScore: 20 }, moderateResult).direction).toBe('unchanged');
+      expect(calculateCacReclassification({ ...basePatient, age: 47, cacScore: 99 }, moderateResult).direction)
+        .toBe('unchanged');
+    });
+
+    it('should not move beyond the lowest or highest category', () => {
+      const low = calculateCacReclassification({ ...basePatient, cacScore: 0 }, { ...moderateResult, riskCategory: 'low' });
+      const high = calculateCacReclassification({ ...basePatient, cacScore: 400 }, { ...moderateResult, riskCategory: 'high' });
+
+      expect(low.reclassifiedCategory).toBe('low');
+      expect(low.direction).toBe('unchanged');
+      expect(high.reclassifiedCategory).toBe('high');
+    });
+
+    it('should omit MESA risks outside its age range', () => {
+      const result = calculateCacReclassification({ ...basePatient, age: 40, cacScore: 0 }, moderateResult);
+
+      expect(result.mesaRisk).toBeUndefined();
+      expect(result.direction).toBe('down');
+    });
+  });
+});
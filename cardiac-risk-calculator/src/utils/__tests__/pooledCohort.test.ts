@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePooledCohortRisk,
+  getPooledCohortCoefficients,
+  validatePooledCohortInputs,
+} from '../pooledCohort';
+import { POOLED_COHORT_COEFFICIENTS } from '../constants';
+import type { PatientData } from '../../types';
+
+// Worked example from the 2013 ACC/AHA risk assessment guideline (Goff et al., Table A):
+// 55 years, TC 213 mg/dL, HDL 50 mg/dL, untreated SBP 120 mmHg, non-smoker, no diabetes
+const workedExample: PatientData = {
+  age: 55,
+  gender: 'female',
+  race: 'white',
+  totalCholesterol: 213,
+  hdlCholesterol: 50,
+  cholesterolUnit: 'mg/dL',
+  systolicBP: 120,
+  diastolicBP: 80,
+  onBPMedication: false,
+  glucoseUnit: 'mg/dL',
+  smokingStatus: 'never',
+  hasDiabetes: false,
+  familyHistory: false,
+};
+
+const individualSum = (riskFactors: Record<string, number>) =>
+  Object.values(riskFactors).reduce((sum, term) => sum + term, 0);
+
+describe('Pooled Cohort Equations Calculator', () => {
+  describe('published worked examples', () => {
+    it.each([
+      { gender: 'female', race: 'white', sum: -29.67, risk: 2.1 },
+      { gender: 'female', race: 'african-american', sum: 86.16, risk: 3.0 },
+      { gender: 'male', race: 'white', sum: 60.69, risk: 5.3 },
+      { gender: 'male', race: 'african-american', sum: 18.97, risk: 6.1 },
+    ] as const)('should match the $race $gender example', ({ gender, race, sum, risk }) => {
+      const result = calculatePooledCohortRisk({ ...workedExample, gender, race });
+
+      expect(individualSum(result.riskFactors)).toBeCloseTo(sum, 1);
+      expect(Math.abs(result.tenYearRisk - risk)).toBeLessThan(0.15);
+    });
+  });
+
+  describe('calculatePooledCohortRisk', () => {
+    it('should tag the result with the model id and version', () => {
+      const result = calculatePooledCohortRisk(workedExample);
+
+      expect(result.modelId).toBe('pce-2013');
+      expect(result.modelVersion).toBe('2013');
+      expect(result.calculatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should give the same result for mmol/L cholesterol', () => {
+      const mgDl = calculatePooledCohortRisk(workedExample);
+      const mmolL = calculatePooledCohortRisk({
+        ...workedExample,
+        totalCholesterol: 213 / 38.67,
+        hdlCholesterol: 50 / 38.67,
+        cholesterolUnit: 'mmol/L',
+      });
+
+      expect(mmolL.tenYearRisk).toBeCloseTo(mgDl.tenYearRisk, 1);
+    });
+
+    it('should increase risk for current smokers only', () => {
+      const never = calculatePooledCohortRisk(workedExample);
+      const former = calculatePooledCohortRisk({ ...workedExample, smokingStatus: 'former' });
+      const current = calculatePooledCohortRisk({ ...workedExample, smokingStatus: 'current' });
+
+      expect(former.tenYearRisk).toBe(never.tenYearRisk);
+      expect(current.tenYearRisk).toBeGreaterThan(never.tenYearRisk);
+    });
+
+    it('should increase risk with treated blood pressure and diabetes', () => {
+      const baseline = calculatePooledCohortRisk(workedExample);
+      const treated = calculatePooledCohortRisk({ ...workedExample, onBPMedication: true });
+      const diabetic = calculatePooledCohortRisk({ ...workedExample, hasDiabetes: true });
+
+      expect(treated.tenYearRisk).toBeGreaterThan(baseline.tenYearRisk);
+      expect(diabetic.tenYearRisk).toBeGreaterThan(baseline.tenYearRisk);
+    });
+
+    it('should reject ages outside 40-79', () => {
+      expect(() => calculatePooledCohortRisk({ ...workedExample, age: 35 })).toThrow(
+        'Pooled Cohort risk calculation failed: Validation failed: Age must be between 40 and 79 years'
+      );
+      expect(() => calculatePooledCohortRisk({ ...workedExample, age: 80 })).toThrow();
+    });
+  });
+
+  describe('calculation trace', () => {
+    it('should record every term including the age interactions', () => {
+      const result = calculatePooledCohortRisk({ ...workedExample, smokingStatus: 'current' }, { includeTrace: true });
+      const trace = result.trace!;
+
+      expect(trace.terms).toHaveLength(11);
+      expect(trace.terms.map(term => term.label)).toContain('ln(Age) × Current smoker');
+      expect(trace.sum).toBeCloseTo(trace.terms.reduce((sum, term) => sum + term.product, 0), 10);
+      expect(trace.sum).toBeCloseTo(individualSum(result.riskFactors), 10);
+      expect(trace.meanOffset).toBe(POOLED_COHORT_COEFFICIENTS.female.white.meanScore);
+      expect(trace.baselineSurvival).toBe(POOLED_COHORT_COEFFICIENTS.female.white.baselineSurvival);
+      expect(Math.round(trace.risk * 10) / 10).toBe(result.tenYearRisk);
+    });
+
+    it('should name the equation used', () => {
+      const trace = calculatePooledCohortRisk({ ...workedExample, race: 'other' }, { includeTrace: true }).trace!;
+
+      expect(trace.inputs).toContainEqual({ label: 'Equation', value: 'White' });
+    });
+  });
+
+  describe('getPooledCohortCoefficients', () => {
+    it('should use the white equations for other races', () => {
+      expect(getPooledCohortCoefficients({ ...workedExample, race: 'other' })).toBe(
+        POOLED_COHORT_COEFFICIENTS.female.white
+      );
+      expect(getPooledCohortCoefficients({ ...workedExample, gender: 'male', race: 'african-american' })).toBe(
+        POOLED_COHORT_COEFFICIENTS.male.africanAmerican
+      );
+    });
+  });
+
+  describe('validatePooledCohortInputs', () => {
+    it('should accept complete data', () => {
+      expect(validatePooledCohortInputs(workedExample)).toEqual([]);
+    });
+
+    it('should require race', () => {
+      const errors = validatePooledCohortInputs({ ...workedExample, race: undefined });
+
+      expect(errors).toContain('Race must be specified as white, African American or other');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePreventRisk, validatePreventInputs } from '../prevent';
+import type { PatientData, RiskResult } from '../../types';
+
+// Reference case from the PREVENT publication's worked example:
+// 50-year-old woman, TC 200 mg/dL, HDL 45 mg/dL, treated SBP 160 mmHg, diabetes,
+// non-smoker, eGFR 90, BMI 35, no statin
+const referencePatient: PatientData = {
+  age: 50,
+  gender: 'female',
+  totalCholesterol: 200,
+  hdlCholesterol: 45,
+  cholesterolUnit: 'mg/dL',
+  systolicBP: 160,
+  diastolicBP: 90,
+  onBPMedication: true,
+  glucoseUnit: 'mg/dL',
+  smokingStatus: 'never',
+  hasDiabetes: true,
+  familyHistory: false,
+  egfr: 90,
+  bmi: 35,
+  onStatin: false,
+};
+
+const getRisk = (result: RiskResult, outcome: string, horizonYears: number) =>
+  result.outcomes?.find(o => o.outcome === outcome && o.horizonYears === horizonYears)?.risk;
+
+describe('PREVENT Equations Calculator', () => {
+  describe('calculatePreventRisk', () => {
+    it('should match the published reference values', () => {
+      const result = calculatePreventRisk(referencePatient);
+
+      expect(getRisk(result, 'cvd', 10)).toBeCloseTo(14.7, 1);
+      expect(getRisk(result, 'ascvd', 10)).toBeCloseTo(9.2, 1);
+      expect(getRisk(result, 'cvd', 30)).toBeCloseTo(53.0, 0);
+    });
+
+    it('should report every outcome at 10 and 30 years', () => {
+      const result = calculatePreventRisk(referencePatient);
+
+      expect(result.outcomes).toHaveLength(6);
+      for (const outcome of ['cvd', 'ascvd', 'heartFailure']) {
+        expect(getRisk(result, outcome, 30)).toBeGreaterThan(getRisk(result, outcome, 10)!);
+      }
+    });
+
+    it('should use 10-year total CVD as the primary risk', () => {
+      const result = calculatePreventRisk(referencePatient);
+
+      expect(result.tenYearRisk).toBe(getRisk(result, 'cvd', 10));
+      expect(result.modelId).toBe('prevent-2023');
+      expect(result.modelVersion).toBe('2023');
+    });
+
+    it('should give the same result for mmol/L cholesterol', () => {
+      const mgDl = calculatePreventRisk(referencePatient);
+      const mmolL = calculatePreventRisk({
+        ...referencePatient,
+        totalCholesterol: 200 * 0.02586,
+        hdlCholesterol: 45 * 0.02586,
+        cholesterolUnit: 'mmol/L',
+      });
+
+      expect(mmolL.outcomes).toEqual(mgDl.outcomes);
+    });
+
+    it('should raise heart failure risk with obesity and reduced kidney function', () => {
+      const baseline = calculatePreventRisk({ ...referencePatient, bmi: 25 });
+      const obese = calculatePreventRisk(referencePatient);
+      const ckd = calculatePreventRisk({ ...referencePatient, bmi: 25, egfr: 45 });
+
+      expect(getRisk(obese, 'heartFailure', 10)).toBeGreaterThan(getRisk(baseline, 'heartFailure', 10)!);
+      expect(getRisk(ckd, 'heartFailure', 10)).toBeGreaterThan(getRisk(baseline, 'heartFailure', 10)!);
+    });
+
+    it('should ignore race', () => {
+      const white = calculatePreventRisk({ ...referencePatient, race: 'white' });
+      const africanAmerican = calculatePreventRisk({ ...referencePatient, race: 'african-american' });
+
+      expect(white.outcomes).toEqual(africanAmerican.outcomes);
+    });
+
+    it('should reject missing eGFR', () => {
+      expect(() => calculatePreventRisk({ ...referencePatient, egfr: undefined })).toThrow(
+        'PREVENT risk calculation failed: Validation failed: eGFR must be provided and greater than 0'
+      );
+    });
+  });
+
+  describe('validatePreventInputs', () => {
+    it('should accept complete data', () => {
+      expect(validatePreventInputs(referencePatient)).toEqual([]);
+    });
+
+    it('should enforce the 30-79 age window', () => {
+      expect(validatePreventInputs({ ...referencePatient, age: 29 })).toContain('Age must be between 30 and 79 years');
+      expect(validatePreventInputs({ ...referencePatient, age: 30 })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest';
+import { calculateQrisk3Risk, validateQrisk3Inputs, QRISK3_AGE_RANGE } from '../qrisk3';
+import type { PatientData } from '../../types';
+
+const basePatient: PatientData = {
+  age: 64,
+  gender: 'female',
+  ethnicity: 'white',
+  totalCholesterol: 200,
+  hdlCholesterol: 50,
+  cholesterolUnit: 'mg/dL',
+  systolicBP: 130,
+  diastolicBP: 80,
+  systolicBPVariability: 0,
+  townsendScore: 0,
+  onBPMedication: false,
+  glucoseUnit: 'mg/dL',
+  smokingStatus: 'never',
+  hasDiabetes: false,
+  familyHistory: false,
+  bmi: 25,
+};
+
+// Reference vectors computed with the QRISK3-2017 open-source algorithm, rounded to 1 decimal place
+const referenceVectors: Array<{ description: string; patientData: PatientData; expectedRisk: number }> = [
+  {
+    description: 'white female, 64, no risk conditions',
+    patientData: basePatient,
+    expectedRisk: 7.5,
+  },
+  {
+    description: 'white male, 64, no risk conditions',
+    patientData: { ...basePatient, gender: 'male' },
+    expectedRisk: 11.7,
+  },
+  {
+    description: 'white female, 60, atrial fibrillation',
+    patientData: { ...basePatient, age: 60, bmi: 27, systolicBP: 135, hasAtrialFibrillation: true },
+    expectedRisk: 14.1,
+  },
+  {
+    description: 'Pakistani female, 45, type 1 diabetes, light smoker, family history',
+    patientData: {
+      ...basePatient,
+      age: 45,
+      ethnicity: 'pakistani',
+      totalCholesterol: 180,
+      hdlCholesterol: 40,
+      systolicBP: 125,
+      systolicBPVariability: undefined,
+      townsendScore: 1.5,
+      smokingStatus: 'current',
+      smokingIntensity: 'light',
+      hasDiabetes: true,
+      diabetesType: 'type1',
+      familyHistory: true,
+      bmi: 24,
+    },
+    expectedRisk: 34.8,
+  },
+  {
+    description: 'Indian male, 50, type 2 diabetes, treated hypertension, erectile dysfunction, moderate smoker',
+    patientData: {
+      ...basePatient,
+      age: 50,
+      gender: 'male',
+      ethnicity: 'indian',
+      totalCholesterol: 250,
+      hdlCholesterol: 50,
+      systolicBP: 140,
+      systolicBPVariability: undefined,
+      onBPMedication: true,
+      smokingStatus: 'current',
+      smokingIntensity: 'moderate',
+      hasDiabetes: true,
+      diabetesType: 'type2',
+      hasErectileDysfunction: true,
+      bmi: 30,
+    },
+    expectedRisk: 40.3,
+  },
+  {
+    description: 'Black African male, 45, rheumatoid arthritis, severe mental illness, ex-smoker',
+    patientData: {
+      ...basePatient,
+      age: 45,
+      gender: 'male',
+      ethnicity: 'black-african',
+      totalCholesterol: 190,
+      hdlCholesterol: 50,
+      systolicBP: 128,
+      systolicBPVariability: 6,
+      townsendScore: -2,
+      smokingStatus: 'former',
+      hasRheumatoidArthritis: true,
+      hasSevereMentalIllness: true,
+      bmi: 26,
+    },
+    expectedRisk: 2.7,
+  },
+];
+
+describe('QRISK3 Calculator', () => {
+  describe('reference test vectors', () => {
+    referenceVectors.forEach(({ description, patientData, expectedRisk }) => {
+      it(`should calculate ${expectedRisk}% for a ${description}`, () => {
+        expect(calculateQrisk3Risk(patientData).tenYearRisk).toBe(expectedRisk);
+      });
+    });
+  });
+
+  describe('calculateQrisk3Risk', () => {
+    it('should tag the result with the model id and version', () => {
+      const result = calculateQrisk3Risk(basePatient);
+
+      expect(result.modelId).toBe('qrisk3-2017');
+      expect(result.modelVersion).toBe('2017');
+    });
+
+    it('should give the same risk for cholesterol in mg/dL and mmol/L', () => {
+      const mgDl = calculateQrisk3Risk(basePatient);
+      const mmolL = calculateQrisk3Risk({
+        ...basePatient,
+        totalCholesterol: 5.2,
+        hdlCholesterol: 1.3,
+        cholesterolUnit: 'mmol/L',
+      });
+
+      expect(mmolL.tenYearRisk).toBe(mgDl.tenYearRisk);
+    });
+
+    it('should treat a missing ethnicity as white or not stated', () => {
+      const notStated = calculateQrisk3Risk({ ...basePatient, ethnicity: undefined });
+
+      expect(notStated.tenYearRisk).toBe(calculateQrisk3Risk(basePatient).tenYearRisk);
+    });
+
+    it('should increase risk with each smoking category', () => {
+      const risks = [
+        calculateQrisk3Risk(basePatient),
+        calculateQrisk3Risk({ ...basePatient, smokingStatus: 'former' }),
+        calculateQrisk3Risk({ ...basePatient, smokingStatus: 'current', smokingIntensity: 'light' }),
+        calculateQrisk3Risk({ ...basePatient, smokingStatus: 'current', smokingIntensity: 'moderate' }),
+        calculateQrisk3Risk({ ...basePatient, smokingStatus: 'current', smokingIntensity: 'heavy' }),
+      ].map(result => result.tenYearRisk);
+
+      expect(risks).toEqual([...risks].sort((a, b) => a - b));
+      expect(risks[4]).toBeGreaterThan(risks[0]);
+    });
+
+    it('should weight type 1 diabetes more heavily than type 2', () => {
+      const type1 = calculateQrisk3Risk({ ...basePatient, hasDiabetes: true, diabetesType: 'type1' });
+      const type2 = calculateQrisk3Risk({ ...basePatient, hasDiabetes: true, diabetesType: 'type2' });
+
+      expect(type2.tenYearRisk).toBeGreaterThan(calculateQrisk3Risk(basePatient).tenYearRisk);
+      expect(type1.tenYearRisk).toBeGreaterThan(type2.tenYearRisk);
+    });
+
+    it('should increase risk for each clinical condition', () => {
+      const baseline = calculateQrisk3Risk(basePatient).tenYearRisk;
+      const conditions: Array<keyof PatientData> = [
+        'hasAtrialFibrillation',
+        'hasChronicKidneyDisease',
+        'hasRheumatoidArthritis',
+        'hasLupus',
+        'hasMigraine',
+        'hasSevereMentalIllness',
+        'onAtypicalAntipsychotics',
+        'onCorticosteroids',
+      ];
+
+      conditions.forEach(condition => {
+        expect(calculateQrisk3Risk({ ...basePatient, [condition]: true }).tenYearRisk).toBeGreaterThan(baseline);
+      });
+    });
+
+    it('should ignore erectile dysfunction for women', () => {
+      const withFlag = calculateQrisk3Risk({ ...basePatient, hasErectileDysfunction: true });
+
+      expect(withFlag.tenYearRisk).toBe(calculateQrisk3Risk(basePatient).tenYearRisk);
+    });
+
+    it('should reject ages outside the QRISK3 range', () => {
+      expect(() => calculateQrisk3Risk({ ...basePatient, age: QRISK3_AGE_RANGE.min - 1 }))
+        .toThrow('QRISK3 risk calculation failed');
+      expect(() => calculateQrisk3Risk({ ...basePatient, age: QRISK3_AGE_RANGE.max + 1 }))
+        .toThrow('QRISK3 risk calculation failed');
+    });
+  });
+
+  describe('validateQrisk3Inputs', () => {
+    it('should accept complete data', () => {
+      expect(validateQrisk3Inputs(basePatient)).toEqual([]);
+    });
+
+    it('should require BMI', () => {
+      expect(validateQrisk3Inputs({ ...basePatient, bmi: undefined })).toContain(
+        'BMI must be provided and greater than 0'
+      );
+    });
+
+    it('should require smoking intensity for current smokers', () => {
+      expect(validateQrisk3Inputs({ ...basePatient, smokingStatus: 'current' })).toContain(
+        'Smoking intensity must be specified for current smokers'
+      );
+    });
+
+    it('should require the diabetes type when diabetic', () => {
+      expect(validateQrisk3Inputs({ ...basePatient, hasDiabetes: true })).toContain(
+        'Diabetes type must be specified'
+      );
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRiskAttribution } from '../riskAttribution';
+import { createSamplePatientData } from '../framingham';
+import { FRAMINGHAM_2008_MODEL, getRiskModel } from '../riskModels';
+import { performanceMonitor } from '../performance';
+import type { PatientData, RiskModel } from '../../types';
+
+describe('Risk Attribution', () => {
+  const basePatient: PatientData = createSamplePatientData();
+
+  const sumContributions = (riskFactors: Record<string, number>) =>
+    Object.values(riskFactors).reduce((sum, contribution) => sum + contribution, 0);
+
+  it('should attribute Framingham risk in percentage points', () => {
+    const { riskFactors, referenceRisk } = calculateRiskAttribution(basePatient, FRAMINGHAM_2008_MODEL);
+
+    expect(riskFactors).toEqual({
+      age: 7.8,
+      gender: 3.2,
+      cholesterol: 0.7,
+      bloodPressure: 1.4,
+      smoking: 0,
+      diabetes: 0,
+      familyHistory: 0,
+    });
+    expect(referenceRisk).toBe(1.3);
+  });
+
+  it('should add up to the risk minus the reference risk', () => {
+    const patient: PatientData = {
+      ...basePatient,
+      smokingStatus: 'current',
+      systolicBP: 150,
+      hasDiabetes: true,
+    };
+    const risk = FRAMINGHAM_2008_MODEL.compute(patient).tenYearRisk;
+    const { riskFactors, referenceRisk } = calculateRiskAttribution(patient, FRAMINGHAM_2008_MODEL);
+
+    expect(sumContributions(riskFactors) + referenceRisk).toBeCloseTo(risk, 0);
+    expect(riskFactors.smoking).toBeGreaterThan(0);
+    expect(riskFactors.diabetes).toBeGreaterThan(0);
+  });
+
+  it('should give protective factors a negative contribution', () => {
+    const { riskFactors } = calculateRiskAttribution(
+      { ...basePatient, totalCholesterol: 150, hdlCholesterol: 70 },
+      FRAMINGHAM_2008_MODEL
+    );
+
+    expect(riskFactors.cholesterol).toBeLessThan(0);
+  });
+
+  it('should give the same attribution for cholesterol in mmol/L', () => {
+    const mmolPatient: PatientData = {
+      ...basePatient,
+      totalCholesterol: 200 / 38.67,
+      hdlCholesterol: 45 / 38.67,
+      cholesterolUnit: 'mmol/L',
+    };
+
+    expect(calculateRiskAttribution(mmolPatient, FRAMINGHAM_2008_MODEL).riskFactors)
+      .toEqual(calculateRiskAttribution(basePatient, FRAMINGHAM_2008_MODEL).riskFactors);
+  });
+
+  it('should reset age to the youngest age the model accepts', () => {
+    const scoreModel = getRiskModel('score2-op-2021');
+    const olderPatient: PatientData = { ...basePatient, age: 75, riskRegion: 'moderate' };
+    const { referenceRisk } = calculateRiskAttribution(olderPatient, scoreModel);
+
+    expect(referenceRisk).toBe(scoreModel.compute({
+      ...olderPatient,
+      age: 70,
+      gender: 'female',
+      totalCholesterol: 180,
+      hdlCholesterol: 45,
+      systolicBP: 125,
+      diastolicBP: 80,
+    }).tenYearRisk);
+  });
+
+  it('should only rerun the model for factors that differ from the reference', () => {
+    let calls = 0;
+    const countingModel: RiskModel = {
+      ...FRAMINGHAM_2008_MODEL,
+      computeUnmonitored: (patientData) => {
+        calls++;
+        return FRAMINGHAM_2008_MODEL.computeUnmonitored(patientData);
+      },
+    };
+
+    calculateRiskAttribution(basePatient, countingModel);
+
+    // Age, sex, cholesterol and blood pressure differ: 2^4 combinations
+    expect(calls).toBe(16);
+  });
+
+  it('should keep the reruns out of the risk calculation metric', () => {
+    performanceMonitor.clear();
+
+    calculateRiskAttribution(basePatient, FRAMINGHAM_2008_MODEL);
+
+    expect(performanceMonitor.getStats('risk-calculation')).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   categorizeRisk,
+  generateHeartFailureRecommendations,
   generateRecommendations,
   getRiskCategoryColor,
   getRiskCategoryDescription,
@@ -8,6 +9,9 @@ import {
   formatRiskPercentage,
   getPriorityIcon,
   getCategoryIcon,
+  getRiskCategoryLabel,
+  getRiskCutOffs,
+  getRiskThresholdScheme,
 } from '../riskCategorization';
 import { createSamplePatientData } from '../framingham';
 import type { PatientData } from '../../types';
@@ -39,6 +43,38 @@ describe('Risk Categorization and Recommendation Engine', () => {
       expect(categorizeRisk(19.99)).toBe('moderate');
       expect(categorizeRisk(20.01)).toBe('high');
     });
+
+    it('should apply age-specific thresholds', () => {
+      const escScheme = getRiskThresholdScheme('esc-2021');
+      expect(categorizeRisk(4.9, escScheme, 55)).toBe('low-to-moderate');
+      expect(categorizeRisk(5, escScheme, 55)).toBe('high');
+      expect(categorizeRisk(10, escScheme, 55)).toBe('very-high');
+      expect(categorizeRisk(7.5, escScheme, 45)).toBe('very-high');
+    });
+
+    it('should categorize with the four ACC/AHA tiers', () => {
+      const accAhaScheme = getRiskThresholdScheme('acc-aha-2018');
+      expect(categorizeRisk(4.9, accAhaScheme)).toBe('low');
+      expect(categorizeRisk(5, accAhaScheme)).toBe('borderline');
+      expect(categorizeRisk(7.4, accAhaScheme)).toBe('borderline');
+      expect(categorizeRisk(7.5, accAhaScheme)).toBe('intermediate');
+      expect(categorizeRisk(19.9, accAhaScheme)).toBe('intermediate');
+      expect(categorizeRisk(20, accAhaScheme)).toBe('high');
+    });
+  });
+
+  describe('getRiskCutOffs', () => {
+    it('should return the ESC age-specific thresholds', () => {
+      const escScheme = getRiskThresholdScheme('esc-2021');
+      expect(getRiskCutOffs(escScheme, 45)).toEqual([2.5, 7.5]);
+      expect(getRiskCutOffs(escScheme, 50)).toEqual([5, 10]);
+      expect(getRiskCutOffs(escScheme, 69)).toEqual([5, 10]);
+      expect(getRiskCutOffs(escScheme, 70)).toEqual([7.5, 15]);
+    });
+
+    it('should ignore age for schemes without age bands', () => {
+      expect(getRiskCutOffs(getRiskThresholdScheme('acc-aha-2018'), 70)).toEqual([5, 7.5, 20]);
+    });
   });
 
   describe('generateRecommendations', () => {
@@ -53,8 +89,8 @@ describe('Risk Categorization and Recommendation Engine', () => {
         // Use a patient with normal blood pressure to avoid extra recommendations
         const normalPatient: PatientData = {
           ...basePatient,
-          systolicBP: 120,
-          diastolicBP: 80
+          systolicBP: 118,
+          diastolicBP: 78
         };
         const recommendations = generateRecommendations('low', 5, normalPatient);
         
@@ -68,8 +104,8 @@ describe('Risk Categorization and Recommendation Engine', () => {
       it('should include risk percentage in description', () => {
         const normalPatient: PatientData = {
           ...basePatient,
-          systolicBP: 120,
-          diastolicBP: 80
+          systolicBP: 118,
+          diastolicBP: 78
         };
         const recommendations = generateRecommendations('low', 7.5, normalPatient);
         
@@ -106,6 +142,16 @@ describe('Risk Categorization and Recommendation Engine', () => {
         expect(medicalRec?.title).toContain('Immediate Medical Consultation');
         expect(medicalRec?.priority).toBe('high');
       });
+
+      it('should give the ESC high and very high tiers the high risk recommendations', () => {
+        const escScheme = getRiskThresholdScheme('esc-2021');
+
+        for (const category of ['high', 'very-high'] as const) {
+          const medicalRec = generateRecommendations(category, 8, basePatient, escScheme)
+            .find(r => r.category === 'medical');
+          expect(medicalRec?.title).toContain('Immediate Medical Consultation');
+        }
+      });
     });
 
     describe('personalized recommendations', () => {
@@ -151,6 +197,37 @@ describe('Risk Categorization and Recommendation Engine', () => {
         expect(bpRec?.description).toContain('150/95');
       });
 
+      it('should decide stage 1 drug therapy by 10-year risk', () => {
+        const stage1Patient: PatientData = { ...basePatient, systolicBP: 134, diastolicBP: 78 };
+
+        const lowRiskRec = generateRecommendations('low', 6, stage1Patient)
+          .find(r => r.title === 'Blood Pressure Management - Stage 1 Hypertension');
+        expect(lowRiskRec?.priority).toBe('medium');
+        expect(lowRiskRec?.actionItems).toContain('Reassess in 3-6 months');
+        expect(lowRiskRec?.actionItems.some(item => item.includes('medication'))).toBe(false);
+
+        const highRiskRec = generateRecommendations('moderate', 12, stage1Patient)
+          .find(r => r.title === 'Blood Pressure Management - Stage 1 Hypertension');
+        expect(highRiskRec?.priority).toBe('high');
+        expect(highRiskRec?.actionItems).toContain('Discuss starting blood pressure medication with your doctor');
+      });
+
+      it('should flag a hypertensive crisis', () => {
+        const crisisPatient: PatientData = { ...basePatient, systolicBP: 185, diastolicBP: 100 };
+        const recommendations = generateRecommendations('moderate', 15, crisisPatient);
+
+        const crisisRec = recommendations.find(r => r.title === 'Blood Pressure Management - Hypertensive Crisis');
+        expect(crisisRec?.priority).toBe('high');
+        expect(crisisRec?.actionItems[0]).toContain('Seek medical care today');
+      });
+
+      it('should not add blood pressure recommendations for normal blood pressure', () => {
+        const normalPatient: PatientData = { ...basePatient, systolicBP: 115, diastolicBP: 75 };
+        const recommendations = generateRecommendations('moderate', 15, normalPatient);
+
+        expect(recommendations.some(r => r.title.includes('Blood Pressure Management'))).toBe(false);
+      });
+
       it('should add cholesterol recommendations for patients with high cholesterol', () => {
         const highCholPatient: PatientData = { 
           ...basePatient, 
@@ -196,6 +273,194 @@ describe('Risk Categorization and Recommendation Engine', () => {
       });
     });
 
+    describe('ACC/AHA tiers', () => {
+      it('should give borderline recommendations for borderline risk', () => {
+        const recommendations = generateRecommendations(
+          'borderline',
+          6,
+          basePatient,
+          getRiskThresholdScheme('acc-aha-2018')
+        );
+
+        expect(recommendations.some(r => r.title === 'Discuss Your Borderline Risk')).toBe(true);
+        expect(recommendations.some(r => r.title === 'Strengthen Healthy Habits')).toBe(true);
+      });
+
+      it('should give consultation recommendations for intermediate risk', () => {
+        const recommendations = generateRecommendations(
+          'intermediate',
+          12,
+          basePatient,
+          getRiskThresholdScheme('acc-aha-2018')
+        );
+
+        const consultation = recommendations.find(r => r.title === 'Medical Consultation Recommended');
+        expect(consultation?.description).toContain('which is in the intermediate range');
+      });
+    });
+
+    describe('risk enhancers', () => {
+      it('should raise a borderline low result with enhancers to the moderate tier', () => {
+        const enhancedPatient: PatientData = { ...basePatient, familyHistory: true, lipoproteinA: 60 };
+        const recommendations = generateRecommendations('low', 6, enhancedPatient);
+
+        expect(recommendations.some(r => r.title === 'Medical Consultation Recommended')).toBe(true);
+        expect(recommendations.some(r => r.title === 'Maintain Healthy Lifestyle')).toBe(false);
+
+        const enhancerRec = recommendations.find(r => r.title === 'Risk-Enhancing Factors');
+        expect(enhancerRec?.description).toContain('Family history of premature heart disease');
+        expect(enhancerRec?.description).toContain('Lipoprotein(a)');
+      });
+
+      it('should keep the low tier below borderline risk', () => {
+        const enhancedPatient: PatientData = { ...basePatient, familyHistory: true };
+        const recommendations = generateRecommendations('low', 3, enhancedPatient);
+
+        expect(recommendations.some(r => r.title === 'Maintain Healthy Lifestyle')).toBe(true);
+        expect(recommendations.some(r => r.title === 'Risk-Enhancing Factors')).toBe(true);
+      });
+
+      it('should raise an ACC/AHA borderline result with enhancers to the intermediate tier', () => {
+        const enhancedPatient: PatientData = { ...basePatient, familyHistory: true };
+        const recommendations = generateRecommendations(
+          'borderline',
+          6,
+          enhancedPatient,
+          getRiskThresholdScheme('acc-aha-2018')
+        );
+
+        const consultation = recommendations.find(r => r.title === 'Medical Consultation Recommended');
+        expect(consultation?.description).toContain('which is borderline, but risk-enhancing factors place you in the intermediate range');
+      });
+
+      it('should not add an enhancer recommendation when none are present', () => {
+        const recommendations = generateRecommendations('low', 6, basePatient);
+
+        expect(recommendations.some(r => r.title === 'Risk-Enhancing Factors')).toBe(false);
+        expect(recommendations.some(r => r.title === 'Maintain Healthy Lifestyle')).toBe(true);
+      });
+    });
+
+    describe('statin therapy', () => {
+      it('should cite both guidelines when a statin is indicated', () => {
+        const recommendations = generateRecommendations('moderate', 15, basePatient, undefined, { ascvdRisk: 15 });
+        const statinRec = recommendations.find(r => r.title === 'Statin Therapy');
+
+        expect(statinRec?.priority).toBe('high');
+        expect(statinRec?.actionItems).toEqual([
+          'Statin indicated (moderate intensity): 10-year risk 7.5% to <20% (ACC/AHA 2018, Class I)',
+          'Statin indicated (moderate intensity): At least one CVD risk factor and 10-year risk ≥10% (USPSTF 2022, Grade B)',
+        ]);
+      });
+
+      it('should not add a statin recommendation when neither guideline favors one', () => {
+        const recommendations = generateRecommendations('low', 3, basePatient, undefined, { ascvdRisk: 3 });
+
+        expect(recommendations.some(r => r.title === 'Statin Therapy')).toBe(false);
+      });
+
+      it('should replace the generic statin action items', () => {
+        const highCholPatient: PatientData = { ...basePatient, totalCholesterol: 260, familyHistory: true };
+        const recommendations = generateRecommendations('high', 25, highCholPatient, undefined, { ascvdRisk: 25 });
+        const otherItems = recommendations
+          .filter(r => r.title !== 'Statin Therapy')
+          .flatMap(r => r.actionItems);
+
+        expect(otherItems.some(item => item.toLowerCase().includes('statin'))).toBe(false);
+      });
+
+      it('should ask for a lipid panel instead when risk was estimated without one', () => {
+        const nonLabPatient = { ...basePatient, totalCholesterol: undefined, hdlCholesterol: undefined };
+        const recommendations = generateRecommendations('moderate', 15, nonLabPatient as PatientData);
+
+        expect(recommendations.some(r => r.title === 'Statin Therapy')).toBe(false);
+        expect(recommendations.find(r => r.title === 'Cholesterol Testing')?.actionItems[0]).toContain('lipid panel');
+      });
+
+      it('should not apply the guideline thresholds to models without an ASCVD risk', () => {
+        const recommendations = generateRecommendations('moderate', 15, basePatient);
+        const statinRec = recommendations.find(r => r.title === 'Statin Therapy');
+
+        expect(statinRec?.priority).toBe('medium');
+        expect(statinRec?.description).toContain('estimates total cardiovascular disease risk');
+        expect(statinRec?.actionItems.some(item => item.includes('Statin indicated'))).toBe(false);
+      });
+
+      it('should describe a stroke risk as a stroke risk', () => {
+        const recommendations = generateRecommendations('moderate', 15, basePatient, undefined, { outcome: 'stroke' });
+
+        expect(recommendations.find(r => r.title === 'Medical Consultation Recommended')?.description)
+          .toContain('Your 10-year stroke risk is 15.0%');
+        expect(recommendations.find(r => r.title === 'Statin Therapy')?.description).toContain('estimates stroke risk');
+      });
+    });
+
+    describe('glycemic status recommendations', () => {
+      it('should add a prediabetes recommendation for an HbA1c of 5.7-6.4%', () => {
+        const recommendations = generateRecommendations('low', 5, { ...basePatient, hba1c: 6.0 });
+        const prediabetes = recommendations.find(r => r.title === 'Prediabetes');
+
+        expect(prediabetes?.category).toBe('lifestyle');
+        expect(prediabetes?.description).toContain('HbA1c 6%');
+      });
+
+      it('should flag diabetes-range results when diabetes was not selected', () => {
+        const recommendations = generateRecommendations('low', 5, { ...basePatient, bloodGlucose: 140 });
+
+        expect(recommendations.find(r => r.title === 'Possible Undiagnosed Diabetes')?.priority).toBe('high');
+        expect(recommendations.some(r => r.title === 'Prediabetes')).toBe(false);
+      });
+
+      it('should not add either for normal results or a diabetes diagnosis', () => {
+        const titles = (patientData: PatientData) =>
+          generateRecommendations('low', 5, patientData).map(r => r.title);
+
+        expect(titles({ ...basePatient, hba1c: 5.2 })).not.toContain('Prediabetes');
+        expect(titles({ ...basePatient, hasDiabetes: true, hba1c: 7.5 })).not.toContain('Possible Undiagnosed Diabetes');
+      });
+    });
+
+    describe('hypertension prevention recommendations', () => {
+      const normotensivePatient = (): PatientData => ({
+        ...basePatient,
+        age: 45,
+        systolicBP: 120,
+        diastolicBP: 80,
+        bmi: 25,
+      });
+
+      it('should give the 1-, 2- and 4-year hypertension risk for untreated blood pressure below 140/90', () => {
+        const recommendations = generateRecommendations('low', 5, normotensivePatient());
+        const prevention = recommendations.find(r => r.title === 'Preventing High Blood Pressure');
+
+        expect(prevention?.priority).toBe('low');
+        expect(prevention?.description).toContain('1.8% within 1 year, 4.0% within 2 years and 8.6% within 4 years');
+        expect(prevention?.actionItems[0]).toBe('Recheck your blood pressure at least every 2 years');
+      });
+
+      it('should raise the priority when the 4-year risk is 20% or more', () => {
+        const recommendations = generateRecommendations('low', 5, {
+          ...normotensivePatient(),
+          systolicBP: 136,
+          diastolicBP: 86,
+          smokingStatus: 'current',
+        });
+        const prevention = recommendations.find(r => r.title === 'Preventing High Blood Pressure');
+
+        expect(prevention?.priority).toBe('medium');
+        expect(prevention?.actionItems).toContain('Quit smoking');
+      });
+
+      it('should not apply to hypertensive or treated patients, or without a BMI', () => {
+        const titles = (patientData: PatientData) =>
+          generateRecommendations('low', 5, patientData).map(r => r.title);
+
+        expect(titles({ ...normotensivePatient(), systolicBP: 145 })).not.toContain('Preventing High Blood Pressure');
+        expect(titles({ ...normotensivePatient(), onBPMedication: true })).not.toContain('Preventing High Blood Pressure');
+        expect(titles({ ...normotensivePatient(), bmi: undefined })).not.toContain('Preventing High Blood Pressure');
+      });
+    });
+
     describe('recommendation sorting', () => {
       it('should sort recommendations by priority (high first)', () => {
         const highRiskPatient: PatientData = { 
@@ -245,12 +510,63 @@ describe('Risk Categorization and Recommendation Engine', () => {
     });
   });
 
+  describe('generateHeartFailureRecommendations', () => {
+    const basePatient: PatientData = {
+      ...createSamplePatientData(),
+      systolicBP: 120,
+      diastolicBP: 78,
+      bloodGlucose: 95,
+      bmi: 24,
+    };
+    const titles = (patientData: PatientData) =>
+      generateHeartFailureRecommendations('low', 3, patientData).map(r => r.title);
+
+    it('should give a recommendation for each risk category', () => {
+      expect(generateHeartFailureRecommendations('low', 3, basePatient)[0].title).toBe('Heart Failure Prevention');
+      expect(generateHeartFailureRecommendations('moderate', 15, basePatient)[0].title).toBe('Elevated Heart Failure Risk');
+
+      const high = generateHeartFailureRecommendations('high', 25, basePatient)[0];
+      expect(high.title).toBe('High Heart Failure Risk');
+      expect(high.priority).toBe('high');
+      expect(high.actionItems.some(item => item.includes('NT-proBNP'))).toBe(true);
+    });
+
+    it('should always list the warning signs of heart failure', () => {
+      expect(titles(basePatient)).toEqual(['Heart Failure Prevention', 'Know the Warning Signs of Heart Failure']);
+    });
+
+    it('should address blood pressure, diabetes and obesity', () => {
+      expect(titles({ ...basePatient, systolicBP: 145 })).toContain('Blood Pressure Control to Prevent Heart Failure');
+      expect(titles({ ...basePatient, hasDiabetes: true })).toContain('Diabetes and Heart Failure');
+      expect(titles({ ...basePatient, bloodGlucose: 130 })).toContain('Diabetes and Heart Failure');
+      expect(titles({ ...basePatient, bmi: undefined, height: 170, weight: 95 })).toContain('Weight Management');
+    });
+
+    it('should address smoking, a previous heart attack and a wide QRS', () => {
+      const recommendations = generateHeartFailureRecommendations('high', 25, {
+        ...basePatient,
+        smokingStatus: 'current',
+        hasPriorMyocardialInfarction: true,
+        qrsDuration: 130,
+      });
+
+      expect(recommendations.map(r => r.title)).toEqual(expect.arrayContaining([
+        'Smoking Cessation',
+        'Heart Failure Prevention After a Heart Attack',
+        'Prolonged QRS Duration',
+      ]));
+      expect(recommendations[recommendations.length - 1].priority).toBe('low');
+    });
+  });
+
   describe('utility functions', () => {
     describe('getRiskCategoryColor', () => {
       it('should return correct colors for each category', () => {
         expect(getRiskCategoryColor('low')).toBe('#22c55e');
         expect(getRiskCategoryColor('moderate')).toBe('#f59e0b');
         expect(getRiskCategoryColor('high')).toBe('#ef4444');
+        expect(getRiskCategoryColor('borderline')).toBe('#eab308');
+        expect(getRiskCategoryColor('intermediate')).toBe('#f97316');
       });
 
       it('should return default color for unknown category', () => {
@@ -268,6 +584,24 @@ describe('Risk Categorization and Recommendation Engine', () => {
       it('should return default description for unknown category', () => {
         expect(getRiskCategoryDescription('unknown' as any)).toBe('Unknown Risk');
       });
+
+      it('should describe the tiers of other schemes', () => {
+        const accAhaScheme = getRiskThresholdScheme('acc-aha-2018');
+        expect(getRiskCategoryDescription('borderline', accAhaScheme)).toBe('Borderline Risk (5-7.5%)');
+        expect(getRiskCategoryDescription('intermediate', accAhaScheme)).toBe('Intermediate Risk (7.5-20%)');
+
+        const escScheme = getRiskThresholdScheme('esc-2021');
+        expect(getRiskCategoryDescription('very-high', escScheme, [2.5, 7.5])).toBe('Very High Risk (≥7.5%)');
+      });
+    });
+
+    describe('getRiskCategoryLabel', () => {
+      it('should use the scheme names and fall back to the general names', () => {
+        const escScheme = getRiskThresholdScheme('esc-2021');
+        expect(getRiskCategoryLabel('high', escScheme)).toBe('High Risk');
+        expect(getRiskCategoryLabel('borderline', escScheme)).toBe('Borderline Risk');
+        expect(getRiskCategoryLabel('moderate')).toBe('Moderate Risk');
+      });
     });
 
     describe('isValidRiskPercentage', () => {
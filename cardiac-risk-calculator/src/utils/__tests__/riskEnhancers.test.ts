@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { getRecommendationTier, identifyRiskEnhancers } from '../riskEnhancers';
+import { createSamplePatientData } from '../framingham';
+import { RISK_THRESHOLD_SCHEMES } from '../constants';
+import type { PatientData } from '../../types';
+
+describe('Risk Enhancers', () => {
+  const basePatient: PatientData = createSamplePatientData();
+
+  describe('identifyRiskEnhancers', () => {
+    it('should find no enhancers in the sample patient', () => {
+      expect(identifyRiskEnhancers(basePatient)).toEqual([]);
+    });
+
+    it('should identify every enhancer at its guideline cut-off', () => {
+      const enhancedPatient: PatientData = {
+        ...basePatient,
+        familyHistory: true,
+        ldlCholesterol: 160,
+        hasChronicKidneyDisease: true,
+        hasMetabolicSyndrome: true,
+        hasInflammatoryDisease: true,
+        isSouthAsian: true,
+        lipoproteinA: 50,
+        hsCRP: 2,
+        apolipoproteinB: 130,
+        ankleBrachialIndex: 0.89,
+      };
+
+      expect(identifyRiskEnhancers(enhancedPatient)).toEqual([
+        'familyHistory',
+        'highLdl',
+        'chronicKidneyDisease',
+        'metabolicSyndrome',
+        'inflammatoryDisease',
+        'southAsianAncestry',
+        'lipoproteinA',
+        'hsCRP',
+        'apolipoproteinB',
+        'lowAnkleBrachialIndex',
+      ]);
+    });
+
+    it('should ignore values on the normal side of each cut-off', () => {
+      expect(identifyRiskEnhancers({
+        ...basePatient,
+        ldlCholesterol: 159,
+        lipoproteinA: 49,
+        hsCRP: 1.9,
+        apolipoproteinB: 129,
+        ankleBrachialIndex: 0.9,
+      })).toEqual([]);
+    });
+
+    it('should convert LDL in mmol/L', () => {
+      expect(identifyRiskEnhancers({ ...basePatient, cholesterolUnit: 'mmol/L', ldlCholesterol: 4.2 }))
+        .toContain('highLdl');
+    });
+
+    it('should derive enhancers from eGFR, QRISK3 conditions and ethnicity', () => {
+      expect(identifyRiskEnhancers({
+        ...basePatient,
+        egfr: 55,
+        hasRheumatoidArthritis: true,
+        ethnicity: 'bangladeshi',
+      })).toEqual(['chronicKidneyDisease', 'inflammatoryDisease', 'southAsianAncestry']);
+    });
+  });
+
+  describe('getRecommendationTier', () => {
+    it('should raise borderline low risk with enhancers to moderate', () => {
+      expect(getRecommendationTier('low', 5, ['familyHistory'])).toBe('moderate');
+    });
+
+    it('should keep the tier without enhancers or below borderline risk', () => {
+      expect(getRecommendationTier('low', 8, [])).toBe('low');
+      expect(getRecommendationTier('low', 4.9, ['familyHistory'])).toBe('low');
+    });
+
+    it('should not raise moderate or high results', () => {
+      expect(getRecommendationTier('moderate', 15, ['hsCRP'])).toBe('moderate');
+      expect(getRecommendationTier('high', 25, ['hsCRP'])).toBe('high');
+    });
+
+    it('should raise ACC/AHA borderline risk with enhancers to intermediate', () => {
+      const scheme = RISK_THRESHOLD_SCHEMES['acc-aha-2018'];
+
+      expect(getRecommendationTier('borderline', 6, ['lipoproteinA'], scheme)).toBe('intermediate');
+      expect(getRecommendationTier('low', 4, ['lipoproteinA'], scheme)).toBe('low');
+      expect(getRecommendationTier('intermediate', 12, ['lipoproteinA'], scheme)).toBe('intermediate');
+    });
+  });
+});
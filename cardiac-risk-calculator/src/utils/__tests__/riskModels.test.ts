@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RISK_MODEL_ID,
+  HEART_FAILURE_RISK_MODEL_ID,
+  FRAMINGHAM_2008_MODEL,
+  NON_LABORATORY_RISK_MODEL_ID,
+  STROKE_RISK_MODEL_ID,
+  calculateRisk,
+  getCardiovascularRiskModels,
+  getDefaultRiskModel,
+  getRiskModel,
+  getRiskModels,
+  isRegisteredRiskModel,
+  registerRiskModel,
+} from '../riskModels';
+import { createSamplePatientData } from '../framingham';
+import { performanceMonitor } from '../performance';
+import type { PatientData, RiskModelId } from '../../types';
+
+describe('Risk Model Registry', () => {
+  it('should register the Framingham model as the default', () => {
+    expect(DEFAULT_RISK_MODEL_ID).toBe('framingham-2008');
+    expect(getDefaultRiskModel()).toBe(FRAMINGHAM_2008_MODEL);
+    expect(getRiskModels()).toContain(FRAMINGHAM_2008_MODEL);
+  });
+
+  it('should look up models by id', () => {
+    const model = getRiskModel('framingham-2008');
+
+    expect(model.name).toBe('Framingham Risk Score');
+    expect(model.requiredInputs).toContain('age');
+    expect(model.inputRanges.age).toEqual({ min: 30, max: 79, unit: 'years' });
+  });
+
+  it('should throw for unknown model ids', () => {
+    expect(() => getRiskModel('unknown' as RiskModelId)).toThrow('Unknown risk model: unknown');
+  });
+
+  it('should reject duplicate registrations', () => {
+    expect(() => registerRiskModel(FRAMINGHAM_2008_MODEL)).toThrow(
+      'Risk model already registered: framingham-2008'
+    );
+  });
+
+  it('should recognise registered model ids', () => {
+    expect(isRegisteredRiskModel('framingham-2008')).toBe(true);
+    expect(isRegisteredRiskModel('unknown')).toBe(false);
+    expect(isRegisteredRiskModel(undefined)).toBe(false);
+  });
+
+  it('should register the Pooled Cohort Equations with their 40-79 age window', () => {
+    const model = getRiskModel('pce-2013');
+
+    expect(model.requiredInputs).toContain('race');
+    expect(model.inputRanges.age).toEqual({ min: 40, max: 79, unit: 'years' });
+  });
+
+  it('should register the non-laboratory Framingham model without cholesterol inputs', () => {
+    const model = getRiskModel(NON_LABORATORY_RISK_MODEL_ID);
+
+    expect(model.id).toBe('framingham-bmi-2008');
+    expect(model.name).toContain('non-laboratory');
+    expect(model.requiredInputs).toEqual(expect.arrayContaining(['height', 'weight']));
+    expect(model.requiredInputs).not.toContain('totalCholesterol');
+    expect(model.requiredInputs).not.toContain('hdlCholesterol');
+  });
+
+  it('should register the stroke profile as a separate outcome', () => {
+    const model = getRiskModel(STROKE_RISK_MODEL_ID);
+
+    expect(model.id).toBe('framingham-stroke-1994');
+    expect(model.outcome).toBe('stroke');
+    expect(model.inputRanges.age).toEqual({ min: 55, max: 84, unit: 'years' });
+    expect(getRiskModels()).toContain(model);
+    expect(getCardiovascularRiskModels()).not.toContain(model);
+    expect(getCardiovascularRiskModels().every(m => m.outcome !== 'stroke')).toBe(true);
+  });
+
+  it('should register the heart failure model as a separate outcome', () => {
+    const model = getRiskModel(HEART_FAILURE_RISK_MODEL_ID);
+
+    expect(model.id).toBe('pcp-hf-2019');
+    expect(model.outcome).toBe('heartFailure');
+    expect(model.requiredInputs).toEqual(expect.arrayContaining(['bloodGlucose', 'bmi']));
+    expect(getCardiovascularRiskModels()).not.toContain(model);
+  });
+
+  it('should calculate stroke risk through the registry', () => {
+    const result = calculateRisk({ ...createSamplePatientData(), age: 65 }, STROKE_RISK_MODEL_ID);
+
+    expect(result.modelId).toBe('framingham-stroke-1994');
+    expect(result.referenceRisk).toBe(1.6);
+    expect(result.riskFactors.cholesterol).toBe(0);
+  });
+
+  it('should tag calculated results with the model that produced them', () => {
+    const result = calculateRisk(createSamplePatientData());
+
+    expect(result.modelId).toBe('framingham-2008');
+    expect(result.modelVersion).toBe(FRAMINGHAM_2008_MODEL.version);
+    expect(result.tenYearRisk).toBeGreaterThan(0);
+  });
+
+  it('should run the selected model', () => {
+    const result = calculateRisk({ ...createSamplePatientData(), race: 'white' }, 'pce-2013');
+
+    expect(result.modelId).toBe('pce-2013');
+  });
+
+  it('should report risk factors as percentage-point contributions', () => {
+    const result = calculateRisk(createSamplePatientData());
+    const total = Object.values(result.riskFactors).reduce((sum, contribution) => sum + contribution, 0);
+
+    expect(result.referenceRisk).toBeDefined();
+    expect(total + result.referenceRisk!).toBeCloseTo(result.tenYearRisk, 0);
+  });
+
+  it('should categorize with the threshold scheme of the model', () => {
+    const result = calculateRisk({ ...createSamplePatientData(), race: 'white' }, 'pce-2013');
+
+    expect(getRiskModel('pce-2013').thresholdScheme).toBe('acc-aha-2018');
+    expect(result.tenYearRisk).toBe(7.1);
+    expect(result.riskCategory).toBe('borderline');
+  });
+
+  it('should include the plausible range of the risk', () => {
+    const result = calculateRisk(createSamplePatientData());
+
+    expect(result.riskRange).toEqual({ lower: 12.4, upper: 16.9 });
+  });
+
+  it('should record one risk calculation metric per calculation', () => {
+    performanceMonitor.clear();
+
+    calculateRisk(createSamplePatientData());
+
+    expect(performanceMonitor.getStats('risk-calculation')?.count).toBe(1);
+  });
+
+  it('should record the derived lipid profile', () => {
+    const result = calculateRisk({ ...createSamplePatientData(), triglycerides: 150 });
+
+    expect(result.lipidProfile).toEqual({
+      ldlCholesterol: 129,
+      ldlMethod: 'martin-hopkins',
+      nonHdlCholesterol: 155,
+      triglycerides: 150,
+    });
+  });
+
+  it('should warn when the age is extrapolated outside the validated range', () => {
+    const result = calculateRisk({ ...createSamplePatientData(), age: 82, extrapolateAge: true });
+
+    expect(result.ageWarning).toEqual({
+      field: 'age',
+      message: 'Age is outside the 30-79 year range this model was validated for. The risk is extrapolated and may be unreliable.',
+      value: 82,
+      code: 'BOUNDARY_VALUE',
+      severity: 'warning',
+    });
+    expect(calculateRisk({ ...createSamplePatientData(), extrapolateAge: true }).ageWarning).toBeUndefined();
+  });
+
+  describe('non-laboratory model', () => {
+    const sample = { ...createSamplePatientData(), totalCholesterol: undefined, hdlCholesterol: undefined };
+    const patientData = { ...sample, height: 175, weight: 80, bodyMeasurementUnit: 'metric' } as PatientData;
+
+    it('should calculate risk without a lipid profile', () => {
+      const result = calculateRisk(patientData, NON_LABORATORY_RISK_MODEL_ID);
+
+      expect(result.modelId).toBe('framingham-bmi-2008');
+      expect(result.tenYearRisk).toBe(15.1);
+      expect(result.lipidProfile).toBeUndefined();
+    });
+
+    it('should vary only blood pressure for the plausible range', () => {
+      const result = calculateRisk(patientData, NON_LABORATORY_RISK_MODEL_ID);
+
+      expect(result.riskRange!.lower).toBeLessThan(result.tenYearRisk);
+      expect(result.riskRange!.upper).toBeGreaterThan(result.tenYearRisk);
+    });
+
+    it('should attribute BMI in place of cholesterol', () => {
+      const result = calculateRisk(patientData, NON_LABORATORY_RISK_MODEL_ID);
+      const total = Object.values(result.riskFactors).reduce((sum, contribution) => sum + contribution, 0);
+
+      expect(result.riskFactors.cholesterol).toBeGreaterThan(0);
+      expect(total + result.referenceRisk!).toBeCloseTo(result.tenYearRisk, 0);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { calculateRiskRange } from '../riskUncertainty';
+import { createSamplePatientData } from '../framingham';
+import { FRAMINGHAM_2008_MODEL } from '../riskModels';
+import { performanceMonitor } from '../performance';
+import type { PatientData, RiskModel } from '../../types';
+
+describe('Risk Uncertainty', () => {
+  const basePatient: PatientData = createSamplePatientData();
+
+  it('should give a plausible range around the Framingham risk', () => {
+    expect(FRAMINGHAM_2008_MODEL.compute(basePatient).tenYearRisk).toBe(14.5);
+    expect(calculateRiskRange(basePatient, FRAMINGHAM_2008_MODEL)).toEqual({ lower: 12.4, upper: 16.9 });
+  });
+
+  it('should be wider above the risk than below it', () => {
+    const smoker: PatientData = { ...basePatient, smokingStatus: 'current', systolicBP: 150 };
+    const risk = FRAMINGHAM_2008_MODEL.compute(smoker).tenYearRisk;
+    const { lower, upper } = calculateRiskRange(smoker, FRAMINGHAM_2008_MODEL);
+
+    expect(lower).toBeLessThan(risk);
+    expect(upper - risk).toBeGreaterThan(risk - lower);
+  });
+
+  it('should give the same range for cholesterol in mmol/L', () => {
+    const mmolPatient: PatientData = {
+      ...basePatient,
+      totalCholesterol: 200 / 38.67,
+      hdlCholesterol: 45 / 38.67,
+      cholesterolUnit: 'mmol/L',
+    };
+
+    expect(calculateRiskRange(mmolPatient, FRAMINGHAM_2008_MODEL))
+      .toEqual(calculateRiskRange(basePatient, FRAMINGHAM_2008_MODEL));
+  });
+
+  it('should keep perturbed measurements inside the model input ranges', () => {
+    const systolicReadings: number[] = [];
+    const narrowModel: RiskModel = {
+      ...FRAMINGHAM_2008_MODEL,
+      inputRanges: {
+        ...FRAMINGHAM_2008_MODEL.inputRanges,
+        systolicBP: { min: 90, max: 140, unit: 'mmHg' },
+      },
+      computeUnmonitored: (patientData) => {
+        systolicReadings.push(patientData.systolicBP);
+        return FRAMINGHAM_2008_MODEL.computeUnmonitored(patientData);
+      },
+    };
+
+    const { lower, upper } = calculateRiskRange(basePatient, narrowModel);
+
+    expect(Math.max(...systolicReadings)).toBe(140);
+    expect(Math.min(...systolicReadings)).toBe(135);
+    expect(lower).toBeLessThan(upper);
+  });
+
+  it('should keep perturbed HDL cholesterol below total cholesterol', () => {
+    const lipidPairs: Array<[number, number]> = [];
+    const recordingModel: RiskModel = {
+      ...FRAMINGHAM_2008_MODEL,
+      computeUnmonitored: (patientData) => {
+        lipidPairs.push([patientData.totalCholesterol, patientData.hdlCholesterol]);
+        return FRAMINGHAM_2008_MODEL.computeUnmonitored(patientData);
+      },
+    };
+    const narrowGapPatient: PatientData = { ...basePatient, totalCholesterol: 101, hdlCholesterol: 100 };
+
+    expect(() => calculateRiskRange(narrowGapPatient, recordingModel)).not.toThrow();
+    expect(lipidPairs.every(([total, hdl]) => hdl < total)).toBe(true);
+  });
+
+  it('should rerun the model either side of each measurement', () => {
+    let calls = 0;
+    const countingModel: RiskModel = {
+      ...FRAMINGHAM_2008_MODEL,
+      computeUnmonitored: (patientData) => {
+        calls++;
+        return FRAMINGHAM_2008_MODEL.computeUnmonitored(patientData);
+      },
+    };
+
+    calculateRiskRange(basePatient, countingModel);
+
+    // The risk itself, then SBP, total cholesterol and HDL one standard deviation down and up
+    expect(calls).toBe(7);
+  });
+
+  it('should keep the reruns out of the risk calculation metric', () => {
+    performanceMonitor.clear();
+
+    calculateRiskRange(basePatient, FRAMINGHAM_2008_MODEL);
+
+    expect(performanceMonitor.getStats('risk-calculation')).toBeNull();
+  });
+});
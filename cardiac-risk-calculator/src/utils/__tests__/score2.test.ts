@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { calculateScore2Risk, calculateScore2OpRisk, validateScore2Inputs, SCORE2_AGE_RANGE } from '../score2';
+import type { PatientData } from '../../types';
+
+const patient: PatientData = {
+  age: 52,
+  gender: 'male',
+  riskRegion: 'moderate',
+  totalCholesterol: 5.8,
+  hdlCholesterol: 1.3,
+  cholesterolUnit: 'mmol/L',
+  systolicBP: 150,
+  diastolicBP: 90,
+  onBPMedication: false,
+  glucoseUnit: 'mmol/L',
+  smokingStatus: 'current',
+  hasDiabetes: false,
+  familyHistory: false,
+};
+
+const olderPatient: PatientData = { ...patient, age: 77, smokingStatus: 'never' };
+
+describe('SCORE2 / SCORE2-OP Calculator', () => {
+  describe('calculateScore2Risk', () => {
+    it('should tag the result with the model id and version', () => {
+      const result = calculateScore2Risk(patient);
+
+      expect(result.modelId).toBe('score2-2021');
+      expect(result.modelVersion).toBe('2021');
+    });
+
+    it('should increase risk from low to very high risk regions', () => {
+      const risks = (['low', 'moderate', 'high', 'very-high'] as const).map(
+        riskRegion => calculateScore2Risk({ ...patient, riskRegion }).tenYearRisk
+      );
+
+      expect(risks).toEqual([...risks].sort((a, b) => a - b));
+      expect(risks[3]).toBeGreaterThan(risks[0]);
+    });
+
+    it('should accept cholesterol in mg/dL', () => {
+      const mmolL = calculateScore2Risk(patient);
+      const mgDl = calculateScore2Risk({
+        ...patient,
+        totalCholesterol: 224,
+        hdlCholesterol: 50,
+        cholesterolUnit: 'mg/dL',
+      });
+
+      expect(mgDl.tenYearRisk).toBeCloseTo(mmolL.tenYearRisk, 0);
+    });
+
+    it('should increase risk with smoking, diabetes and blood pressure', () => {
+      const baseline = calculateScore2Risk({ ...patient, smokingStatus: 'never' });
+
+      expect(calculateScore2Risk(patient).tenYearRisk).toBeGreaterThan(baseline.tenYearRisk);
+      expect(calculateScore2Risk({ ...patient, smokingStatus: 'never', hasDiabetes: true }).tenYearRisk)
+        .toBeGreaterThan(baseline.tenYearRisk);
+      expect(calculateScore2Risk({ ...patient, smokingStatus: 'never', systolicBP: 170 }).tenYearRisk)
+        .toBeGreaterThan(baseline.tenYearRisk);
+    });
+
+    it('should categorize with the ESC thresholds for the patient age', () => {
+      const result = calculateScore2Risk({ ...patient, age: 45, smokingStatus: 'never', systolicBP: 120 });
+
+      expect(result.riskThresholds).toEqual([2.5, 7.5]);
+      expect(result.riskCategory).toBe(
+        result.tenYearRisk < 2.5 ? 'low-to-moderate' : result.tenYearRisk < 7.5 ? 'high' : 'very-high'
+      );
+    });
+
+    it('should reject patients aged 70 or over', () => {
+      expect(() => calculateScore2Risk(olderPatient)).toThrow(
+        'SCORE2 risk calculation failed: Validation failed: Age must be between 40 and 69 years'
+      );
+    });
+  });
+
+  describe('calculateScore2OpRisk', () => {
+    it('should calculate risk for patients aged 70 and over', () => {
+      const result = calculateScore2OpRisk(olderPatient);
+
+      expect(result.modelId).toBe('score2-op-2021');
+      expect(result.tenYearRisk).toBeGreaterThan(0);
+      expect(result.riskThresholds).toEqual([7.5, 15]);
+    });
+
+    it('should reject patients younger than 70', () => {
+      expect(() => calculateScore2OpRisk(patient)).toThrow('Age must be between 70 and 89 years');
+    });
+  });
+
+  describe('validateScore2Inputs', () => {
+    it('should require a risk region', () => {
+      expect(validateScore2Inputs({ ...patient, riskRegion: undefined }, SCORE2_AGE_RANGE)).toContain(
+        'ESC risk region must be specified'
+      );
+    });
+  });
+});
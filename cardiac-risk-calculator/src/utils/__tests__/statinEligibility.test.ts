@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessAccAhaStatinEligibility,
+  assessStatinEligibility,
+  assessUspstfStatinEligibility,
+  describeStatinDecision,
+  formatStatinDecision,
+} from '../statinEligibility';
+import { createSamplePatientData } from '../framingham';
+import type { PatientData } from '../../types';
+
+describe('Statin Eligibility', () => {
+  // Sample patient: 55-year-old man, estimated LDL 125 mg/dL, BP 140/90
+  const basePatient: PatientData = createSamplePatientData();
+
+  describe('assessAccAhaStatinEligibility', () => {
+    it('should indicate a high-intensity statin for LDL of 190 mg/dL or more', () => {
+      const decision = assessAccAhaStatinEligibility({ ...basePatient, age: 30, totalCholesterol: 270, ldlCholesterol: 195 }, 1);
+
+      expect(decision).toMatchObject({ recommendation: 'indicated', intensity: 'high', classOfRecommendation: 'Class I' });
+      expect(decision.rule).toContain('≥190 mg/dL');
+    });
+
+    it('should use an estimated LDL when none was measured', () => {
+      const decision = assessAccAhaStatinEligibility({ ...basePatient, totalCholesterol: 280, hdlCholesterol: 50 }, 3);
+
+      expect(decision.recommendation).toBe('indicated');
+      expect(decision.intensity).toBe('high');
+    });
+
+    it('should indicate a moderate-intensity statin for diabetes at 40-75', () => {
+      const decision = assessAccAhaStatinEligibility({ ...basePatient, hasDiabetes: true }, 4);
+
+      expect(decision).toMatchObject({ recommendation: 'indicated', intensity: 'moderate', classOfRecommendation: 'Class I' });
+    });
+
+    it('should favor a high-intensity statin for diabetes with risk of 20% or more', () => {
+      const decision = assessAccAhaStatinEligibility({ ...basePatient, hasDiabetes: true }, 22);
+
+      expect(decision).toMatchObject({ recommendation: 'indicated', intensity: 'high', classOfRecommendation: 'Class IIa' });
+    });
+
+    it('should follow the risk tiers at 40-75', () => {
+      expect(assessAccAhaStatinEligibility(basePatient, 25)).toMatchObject({ recommendation: 'indicated', intensity: 'high' });
+      expect(assessAccAhaStatinEligibility(basePatient, 7.5)).toMatchObject({ recommendation: 'indicated', intensity: 'moderate' });
+      expect(assessAccAhaStatinEligibility(basePatient, 6).recommendation).toBe('not-indicated');
+      expect(assessAccAhaStatinEligibility(basePatient, 4).rule).toBe('10-year risk below 5%');
+    });
+
+    it('should consider a statin at borderline risk with risk enhancers', () => {
+      const decision = assessAccAhaStatinEligibility({ ...basePatient, familyHistory: true }, 6);
+
+      expect(decision).toMatchObject({ recommendation: 'consider', intensity: 'moderate', classOfRecommendation: 'Class IIb' });
+    });
+
+    it('should not indicate a statin with LDL below 70 mg/dL', () => {
+      const decision = assessAccAhaStatinEligibility({ ...basePatient, ldlCholesterol: 65 }, 12);
+
+      expect(decision.recommendation).toBe('not-indicated');
+    });
+
+    it('should leave the decision to discussion over 75', () => {
+      const decision = assessAccAhaStatinEligibility({ ...basePatient, age: 78 }, 30);
+
+      expect(decision).toMatchObject({ recommendation: 'discuss', classOfRecommendation: 'Class IIb' });
+    });
+
+    it('should discuss a statin for young adults with a family history', () => {
+      expect(assessAccAhaStatinEligibility({ ...basePatient, age: 35, familyHistory: true }, 1).recommendation).toBe('discuss');
+      expect(assessAccAhaStatinEligibility({ ...basePatient, age: 35 }, 1).recommendation).toBe('not-indicated');
+    });
+  });
+
+  describe('assessUspstfStatinEligibility', () => {
+    it('should give a Grade B recommendation at 10% risk with a risk factor', () => {
+      const decision = assessUspstfStatinEligibility(basePatient, 12);
+
+      expect(decision).toMatchObject({ recommendation: 'indicated', intensity: 'moderate', classOfRecommendation: 'Grade B' });
+    });
+
+    it('should give a Grade C recommendation at 7.5% to 10% risk', () => {
+      expect(assessUspstfStatinEligibility(basePatient, 8).classOfRecommendation).toBe('Grade C');
+      expect(assessUspstfStatinEligibility(basePatient, 8).recommendation).toBe('consider');
+    });
+
+    it('should require a CVD risk factor', () => {
+      const healthyPatient: PatientData = { ...basePatient, systolicBP: 118, diastolicBP: 75, hdlCholesterol: 60 };
+
+      expect(assessUspstfStatinEligibility(healthyPatient, 12).recommendation).toBe('not-indicated');
+    });
+
+    it('should find the evidence insufficient over 75', () => {
+      expect(assessUspstfStatinEligibility({ ...basePatient, age: 78 }, 30).classOfRecommendation).toBe('Grade I');
+    });
+
+    it('should not apply under 40', () => {
+      expect(assessUspstfStatinEligibility({ ...basePatient, age: 35 }, 12).recommendation).toBe('not-indicated');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should return the ACC/AHA decision followed by the USPSTF decision', () => {
+      expect(assessStatinEligibility(basePatient, 12).map(decision => decision.guideline))
+        .toEqual(['ACC/AHA 2018', 'USPSTF 2022']);
+    });
+
+    it('should format the decision with its intensity', () => {
+      expect(formatStatinDecision(assessAccAhaStatinEligibility(basePatient, 12))).toBe('Statin indicated (moderate intensity)');
+      expect(formatStatinDecision(assessAccAhaStatinEligibility(basePatient, 3))).toBe('Statin not indicated');
+    });
+
+    it('should cite the rule and class of recommendation', () => {
+      expect(describeStatinDecision(assessAccAhaStatinEligibility(basePatient, 12)))
+        .toBe('Statin indicated (moderate intensity): 10-year risk 7.5% to <20% (ACC/AHA 2018, Class I)');
+      expect(describeStatinDecision(assessAccAhaStatinEligibility(basePatient, 3)))
+        .toBe('Statin not indicated: 10-year risk below 5% (ACC/AHA 2018)');
+    });
+  });
+});
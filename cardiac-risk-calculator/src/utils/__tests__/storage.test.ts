@@ -109,7 +109,8 @@ const sampleRiskResult: RiskResult = {
   },
   recommendations: [],
   calculatedAt: new Date(),
-  framinghamVersion: '1.0'
+  modelId: 'framingham-2008',
+  modelVersion: '2008'
 };
 
 const sampleProfile: PatientProfile = {
@@ -226,6 +227,55 @@ describe('Storage Utilities', () => {
       expect(loadedProfile?.patientData.age).toBe(45);
     });
 
+    it('should migrate risk results saved before the model registry', async () => {
+      const legacyRiskResult: Record<string, unknown> = { ...sampleRiskResult, framinghamVersion: '2008' };
+      delete legacyRiskResult.modelId;
+      delete legacyRiskResult.modelVersion;
+      setupDecryptMock({
+        ...sampleProfile,
+        riskResult: legacyRiskResult,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z'
+      });
+
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({
+        data: 'encrypted',
+        iv: 'iv',
+        salt: 'salt'
+      }));
+
+      const loadedProfile = await loadPatientProfile('test-profile-1');
+
+      expect(loadedProfile?.riskResult?.modelId).toBe('framingham-2008');
+      expect(loadedProfile?.riskResult?.modelVersion).toBe('2008');
+      expect(loadedProfile?.riskResult).not.toHaveProperty('framinghamVersion');
+      expect(loadedProfile?.riskResult?.calculatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should migrate risk thresholds saved before threshold schemes', async () => {
+      setupDecryptMock({
+        ...sampleProfile,
+        riskResult: {
+          ...sampleRiskResult,
+          modelId: 'score2-2021',
+          modelVersion: '2021',
+          riskThresholds: { LOW: 5, MODERATE: 10 },
+        },
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z'
+      });
+
+      localStorageMock.getItem.mockReturnValue(JSON.stringify({
+        data: 'encrypted',
+        iv: 'iv',
+        salt: 'salt'
+      }));
+
+      const loadedProfile = await loadPatientProfile('test-profile-1');
+
+      expect(loadedProfile?.riskResult?.riskThresholds).toEqual([5, 10]);
+    });
+
     it('should return null for non-existent profile', async () => {
       const result = await loadPatientProfile('non-existent');
       expect(result).toBeNull();
@@ -474,6 +524,16 @@ describe('Storage Utilities', () => {
       expect(validateProfileData(invalidProfile)).toBe(false);
     });
 
+    it('should accept height and weight in place of cholesterol', () => {
+      const patientData = { ...sampleProfile.patientData, totalCholesterol: undefined, hdlCholesterol: undefined };
+
+      expect(validateProfileData({
+        ...sampleProfile,
+        patientData: { ...patientData, height: 69, weight: 176, bodyMeasurementUnit: 'imperial' },
+      })).toBe(true);
+      expect(validateProfileData({ ...sampleProfile, patientData })).toBe(false);
+    });
+
     it('should validate profile with string dates', () => {
       const profileWithStringDates = {
         ...sampleProfile,
@@ -508,6 +568,34 @@ describe('Storage Utilities', () => {
       expect(validateProfileData(invalidProfile)).toBe(false);
     });
 
+    it('should reject profile with an unknown risk model', () => {
+      const invalidProfile = {
+        ...sampleProfile,
+        riskResult: {
+          ...sampleRiskResult,
+          modelId: 'unknown-model'
+        }
+      };
+
+      expect(validateProfileData(invalidProfile)).toBe(false);
+    });
+
+    it('should validate saved treatment scenarios', () => {
+      const profileWithScenarios = {
+        ...sampleProfile,
+        scenarios: [
+          { statinIntensity: 'high', quitSmoking: false, startBPMedication: false },
+          { targetSystolicBP: 120, quitSmoking: true, startBPMedication: true },
+        ]
+      };
+
+      expect(validateProfileData(profileWithScenarios)).toBe(true);
+      expect(validateProfileData({
+        ...sampleProfile,
+        scenarios: [{ statinIntensity: 'maximal', quitSmoking: false, startBPMedication: false }]
+      })).toBe(false);
+    });
+
     it('should reject profile with invalid smoking status', () => {
       const invalidProfile = {
         ...sampleProfile,
@@ -516,9 +604,32 @@ describe('Storage Utilities', () => {
           smokingStatus: 'invalid'
         }
       };
-      
+
       expect(validateProfileData(invalidProfile)).toBe(false);
     });
+
+    it('should validate QRISK3 fields when present', () => {
+      const qriskProfile = {
+        ...sampleProfile,
+        patientData: {
+          ...sampleProfile.patientData,
+          ethnicity: 'bangladeshi',
+          townsendScore: -1.5,
+          diabetesType: 'type2',
+          hasMigraine: true
+        }
+      };
+
+      expect(validateProfileData(qriskProfile)).toBe(true);
+      expect(validateProfileData({
+        ...qriskProfile,
+        patientData: { ...qriskProfile.patientData, ethnicity: 'unknown' }
+      })).toBe(false);
+      expect(validateProfileData({
+        ...qriskProfile,
+        patientData: { ...qriskProfile.patientData, hasMigraine: 'yes' }
+      })).toBe(false);
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTreatmentScenario,
+  describeTreatmentScenario,
+  hasTreatment,
+  isTreatmentSimulatorApplicable,
+  NO_TREATMENT_SCENARIO,
+  simulateTreatmentScenario,
+} from '../treatmentSimulator';
+import { createSamplePatientData } from '../framingham';
+import type { PatientData, TreatmentScenario } from '../../types';
+
+describe('Treatment Simulator', () => {
+  const smoker: PatientData = {
+    ...createSamplePatientData(),
+    smokingStatus: 'current',
+    systolicBP: 150,
+  };
+
+  describe('applyTreatmentScenario', () => {
+    it('should lower total cholesterol by the estimated LDL reduction', () => {
+      // Friedewald LDL with assumed triglycerides: 200 - 45 - 30 = 125 mg/dL
+      const treated = applyTreatmentScenario(smoker, { ...NO_TREATMENT_SCENARIO, statinIntensity: 'high' });
+
+      expect(treated.totalCholesterol).toBe(137.5);
+      expect(treated.hdlCholesterol).toBe(45);
+    });
+
+    it('should use a measured LDL and keep the cholesterol unit', () => {
+      const mmolPatient: PatientData = {
+        ...smoker,
+        totalCholesterol: 5.2,
+        hdlCholesterol: 1.2,
+        ldlCholesterol: 3.0,
+        cholesterolUnit: 'mmol/L',
+      };
+      const treated = applyTreatmentScenario(mmolPatient, { ...NO_TREATMENT_SCENARIO, statinIntensity: 'moderate' });
+
+      expect(treated.totalCholesterol).toBeCloseTo(4.0, 5);
+      expect(treated.ldlCholesterol).toBeCloseTo(1.8, 5);
+    });
+
+    it('should apply the lower of the medication effect and the target SBP', () => {
+      expect(applyTreatmentScenario(smoker, { ...NO_TREATMENT_SCENARIO, startBPMedication: true }).systolicBP).toBe(141);
+      expect(applyTreatmentScenario(smoker, { ...NO_TREATMENT_SCENARIO, startBPMedication: true, targetSystolicBP: 120 }).systolicBP)
+        .toBe(120);
+      expect(applyTreatmentScenario(smoker, { ...NO_TREATMENT_SCENARIO, startBPMedication: true, targetSystolicBP: 145 }).systolicBP)
+        .toBe(141);
+    });
+
+    it('should keep the treatment flag and diastolic BP below the projected SBP', () => {
+      const treated = applyTreatmentScenario(
+        { ...smoker, diastolicBP: 95 },
+        { ...NO_TREATMENT_SCENARIO, startBPMedication: true, targetSystolicBP: 110 }
+      );
+
+      expect(treated.onBPMedication).toBe(false);
+      expect(treated.diastolicBP).toBe(95);
+      expect(applyTreatmentScenario({ ...smoker, systolicBP: 120, diastolicBP: 115 }, {
+        ...NO_TREATMENT_SCENARIO,
+        targetSystolicBP: 110,
+      }).diastolicBP).toBe(109);
+    });
+
+    it('should not lower SBP for patients already on BP medication', () => {
+      const treated = applyTreatmentScenario({ ...smoker, onBPMedication: true }, { ...NO_TREATMENT_SCENARIO, startBPMedication: true });
+      expect(treated.systolicBP).toBe(150);
+    });
+
+    it('should make current smokers former smokers', () => {
+      expect(applyTreatmentScenario(smoker, { ...NO_TREATMENT_SCENARIO, quitSmoking: true }).smokingStatus).toBe('former');
+      expect(applyTreatmentScenario({ ...smoker, smokingStatus: 'never' }, { ...NO_TREATMENT_SCENARIO, quitSmoking: true }).smokingStatus)
+        .toBe('never');
+    });
+  });
+
+  describe('simulateTreatmentScenario', () => {
+    it('should leave the risk unchanged without treatment', () => {
+      const result = simulateTreatmentScenario(smoker, NO_TREATMENT_SCENARIO);
+
+      expect(result.projectedRisk).toBe(result.baselineRisk);
+      expect(result.absoluteRiskReduction).toBe(0);
+      expect(result.numberNeededToTreat).toBeUndefined();
+    });
+
+    it('should calculate absolute risk reduction and number needed to treat', () => {
+      const result = simulateTreatmentScenario(smoker, { ...NO_TREATMENT_SCENARIO, quitSmoking: true });
+
+      expect(result.baselineRisk).toBe(29.2);
+      expect(result.projectedRisk).toBe(16.4);
+      expect(result.absoluteRiskReduction).toBe(12.8);
+      expect(result.numberNeededToTreat).toBe(8);
+    });
+
+    it('should combine treatments', () => {
+      const scenario: TreatmentScenario = {
+        targetSystolicBP: 120,
+        statinIntensity: 'high',
+        quitSmoking: true,
+        startBPMedication: true,
+      };
+      const result = simulateTreatmentScenario(smoker, scenario);
+
+      expect(result.projectedRisk).toBe(7.4);
+      expect(result.absoluteRiskReduction).toBe(21.8);
+      expect(result.numberNeededToTreat).toBe(5);
+    });
+
+    it('should lower risk more with higher statin intensity', () => {
+      const moderate = simulateTreatmentScenario(smoker, { ...NO_TREATMENT_SCENARIO, statinIntensity: 'moderate' });
+      const high = simulateTreatmentScenario(smoker, { ...NO_TREATMENT_SCENARIO, statinIntensity: 'high' });
+
+      expect(high.projectedRisk).toBeLessThan(moderate.projectedRisk);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should detect scenarios that change a risk factor', () => {
+      expect(hasTreatment(NO_TREATMENT_SCENARIO)).toBe(false);
+      expect(hasTreatment({ ...NO_TREATMENT_SCENARIO, targetSystolicBP: 130 })).toBe(true);
+    });
+
+    it('should only apply to patients with valid Framingham inputs', () => {
+      expect(isTreatmentSimulatorApplicable(smoker, 'framingham-2008')).toBe(true);
+      expect(isTreatmentSimulatorApplicable({ ...smoker, age: 82 }, 'framingham-2008')).toBe(false);
+    });
+
+    it('should only apply to Framingham results', () => {
+      expect(isTreatmentSimulatorApplicable(smoker, 'pce-2013')).toBe(false);
+      expect(isTreatmentSimulatorApplicable(smoker, 'score2-2021')).toBe(false);
+    });
+
+    it('should describe scenarios', () => {
+      expect(describeTreatmentScenario(NO_TREATMENT_SCENARIO)).toBe('No treatment');
+      expect(describeTreatmentScenario({
+        targetSystolicBP: 120,
+        statinIntensity: 'high',
+        quitSmoking: true,
+        startBPMedication: true,
+      })).toBe('High-intensity statin, Start BP medication, Target SBP 120 mmHg, Quit smoking');
+    });
+  });
+});
@@ -12,10 +12,21 @@ import {
   convertGlucoseToMgDl,
   convertCholesterolFromMgDl,
   convertGlucoseFromMgDl,
+  convertTriglyceridesToMgDl,
+  convertTriglyceridesFromMgDl,
   getDecimalPlaces,
   formatValueForDisplay,
   CONVERSION_REFERENCE,
+  calculateBmi,
+  getBmi,
+  convertHbA1cFromPercent,
+  convertHbA1cToPercent,
+  convertHeightFromCm,
+  convertHeightToCm,
+  convertWeightFromKg,
+  convertWeightToKg,
 } from '../unitConverter';
+import { createSamplePatientData } from '../framingham';
 
 describe('UnitConverter', () => {
   describe('UnitConverterImpl class', () => {
@@ -77,6 +88,20 @@ describe('UnitConverter', () => {
       });
     });
 
+    describe('triglyceride conversions', () => {
+      it('should convert triglycerides between mg/dL and mmol/L correctly', () => {
+        expect(converter.triglyceridesMgDlToMmolL(150)).toBeCloseTo(1.69, 2);
+        expect(converter.triglyceridesMgDlToMmolL(400)).toBeCloseTo(4.52, 2);
+        expect(converter.triglyceridesMmolLToMgDl(1.69)).toBe(150);
+        expect(converter.triglyceridesMmolLToMgDl(4.52)).toBe(400);
+      });
+
+      it('should throw error for invalid triglyceride values', () => {
+        expect(() => converter.triglyceridesMgDlToMmolL(NaN)).toThrow();
+        expect(() => converter.triglyceridesMmolLToMgDl(Infinity)).toThrow();
+      });
+    });
+
     describe('validation methods', () => {
       it('should validate cholesterol ranges correctly', () => {
         // Valid ranges
@@ -141,6 +166,40 @@ describe('UnitConverter', () => {
       });
     });
 
+    describe('height and weight functions', () => {
+      it('should convert between imperial and metric measurements', () => {
+        expect(convertHeightToCm(70, 'imperial')).toBeCloseTo(177.8, 1);
+        expect(convertHeightFromCm(177.8, 'imperial')).toBeCloseTo(70, 6);
+        expect(convertWeightToKg(176, 'imperial')).toBeCloseTo(79.83, 2);
+        expect(convertWeightFromKg(79.83, 'imperial')).toBeCloseTo(176, 1);
+      });
+
+      it('should leave metric measurements unchanged', () => {
+        expect(convertHeightToCm(175, 'metric')).toBe(175);
+        expect(convertWeightToKg(80, 'metric')).toBe(80);
+      });
+
+      it('should calculate BMI in either unit system', () => {
+        expect(calculateBmi(175, 80, 'metric')).toBeCloseTo(26.12, 2);
+        expect(calculateBmi(70, 176, 'imperial')).toBeCloseTo(25.25, 2);
+      });
+
+      it('should prefer the entered BMI to height and weight', () => {
+        const patientData = createSamplePatientData();
+
+        expect(getBmi({ ...patientData, bmi: 27, height: 170, weight: 95 })).toBe(27);
+        expect(getBmi({ ...patientData, height: 200, weight: 100 })).toBe(25);
+        expect(getBmi({ ...patientData, height: 70, weight: 176, bodyMeasurementUnit: 'imperial' })).toBeCloseTo(25.25, 2);
+        expect(getBmi(patientData)).toBeUndefined();
+      });
+
+      it('should convert HbA1c between percent and mmol/mol', () => {
+        expect(convertHbA1cFromPercent(6.5, 'mmol/mol')).toBeCloseTo(47.5, 1);
+        expect(convertHbA1cToPercent(48, 'mmol/mol')).toBeCloseTo(6.54, 2);
+        expect(convertHbA1cToPercent(6.5, '%')).toBe(6.5);
+      });
+    });
+
     describe('smart conversion functions', () => {
       it('should convert cholesterol to mg/dL from any unit', () => {
         expect(convertCholesterolToMgDl(200, 'mg/dL')).toBe(200);
@@ -161,6 +220,12 @@ describe('UnitConverter', () => {
         expect(convertGlucoseFromMgDl(100, 'mg/dL')).toBe(100);
         expect(convertGlucoseFromMgDl(100, 'mmol/L')).toBeCloseTo(5.6, 1);
       });
+
+      it('should convert triglycerides to and from mg/dL', () => {
+        expect(convertTriglyceridesToMgDl(150, 'mg/dL')).toBe(150);
+        expect(convertTriglyceridesToMgDl(2.26, 'mmol/L')).toBe(200);
+        expect(convertTriglyceridesFromMgDl(200, 'mmol/L')).toBeCloseTo(2.26, 2);
+      });
     });
 
     describe('formatting functions', () => {
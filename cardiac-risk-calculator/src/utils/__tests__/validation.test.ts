@@ -11,7 +11,9 @@ import {
   getFieldDisplayName,
   formatValidationErrors,
   groupErrorsByField,
+  validateModelInput,
 } from '../validation';
+import { getRiskModel } from '../riskModels';
 import type { PatientData, ValidationError } from '../../types';
 
 describe('Validation Utilities', () => {
@@ -41,6 +43,18 @@ describe('Validation Utilities', () => {
       expect(validateAge(undefined as any)).not.toBeNull();
       expect(validateAge(null as any)).not.toBeNull();
     });
+
+    it('should only warn about ages inside the extrapolation range', () => {
+      const range = { min: 30, max: 79 };
+      const extrapolationRange = { min: 20, max: 90 };
+
+      expect(validateAge(28, range, extrapolationRange)).toMatchObject({ code: 'BOUNDARY_VALUE', severity: 'warning' });
+      expect(validateAge(50, range, extrapolationRange)).toBeNull();
+      expect(validateAge(95, range, extrapolationRange)).toMatchObject({
+        message: 'Age must be between 20 and 90 years for an extrapolated risk calculation',
+        severity: 'error',
+      });
+    });
   });
 
   describe('validateCholesterol', () => {
@@ -269,6 +283,126 @@ describe('Validation Utilities', () => {
       const errors = validatePatientData(invalidData);
       expect(errors.length).toBeGreaterThan(1);
     });
+
+    it('should require race for the Pooled Cohort Equations', () => {
+      const model = getRiskModel('pce-2013');
+      expect(validatePatientData(validPatientData, model).some(error => error.field === 'race')).toBe(true);
+      expect(validatePatientData({ ...validPatientData, race: 'other' }, model)).toHaveLength(0);
+    });
+
+    it('should require eGFR and BMI for the PREVENT equations', () => {
+      const model = getRiskModel('prevent-2023');
+      const errors = validatePatientData(validPatientData, model);
+      expect(errors.some(error => error.field === 'egfr')).toBe(true);
+      expect(errors.some(error => error.field === 'bmi')).toBe(true);
+      expect(validatePatientData({ ...validPatientData, egfr: 90, bmi: 27 }, model)).toHaveLength(0);
+    });
+
+    it('should require smoking intensity and diabetes type for QRISK3', () => {
+      const model = getRiskModel('qrisk3-2017');
+      const data = { ...validPatientData, bmi: 27, smokingStatus: 'current' as const, hasDiabetes: true };
+      const errors = validatePatientData(data, model);
+      expect(errors.some(error => error.field === 'smokingIntensity')).toBe(true);
+      expect(errors.some(error => error.field === 'diabetesType')).toBe(true);
+      expect(
+        validatePatientData({ ...data, smokingIntensity: 'light', diabetesType: 'type2' }, model)
+          .filter(error => error.severity === 'error')
+      ).toHaveLength(0);
+    });
+
+    it('should validate height and weight instead of cholesterol for the non-laboratory model', () => {
+      const model = getRiskModel('framingham-bmi-2008');
+      const data = { ...validPatientData, totalCholesterol: undefined, hdlCholesterol: undefined } as unknown as PatientData;
+
+      expect(validatePatientData({ ...data, height: 175, weight: 80 }, model)).toHaveLength(0);
+      expect(validatePatientData({ ...data, height: 69, weight: 176, bodyMeasurementUnit: 'imperial' }, model)).toHaveLength(0);
+
+      const errors = validatePatientData({ ...data, height: 69, weight: 80 }, model);
+      expect(errors.map(error => error.field)).toEqual(['height']);
+      expect(errors[0].message).toBe('Height must be between 120 and 220 cm for accurate risk calculation');
+    });
+
+    it('should raise a BOUNDARY_VALUE warning instead of an error for an extrapolated age', () => {
+      const model = getRiskModel('framingham-2008');
+      const errors = validatePatientData({ ...validPatientData, age: 25, extrapolateAge: true }, model);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ field: 'age', code: 'BOUNDARY_VALUE', severity: 'warning' });
+      expect(errors[0].message).toContain('outside the 30-79 year range');
+      // Models without an extrapolation range keep rejecting the age
+      expect(validatePatientData({ ...validPatientData, age: 25, extrapolateAge: true }, getRiskModel('pce-2013'))
+        .find(error => error.field === 'age')?.severity).toBe('error');
+    });
+
+    it('should check optional height and weight when entered for other models', () => {
+      expect(validatePatientData(validPatientData)).toHaveLength(0);
+      expect(validatePatientData({ ...validPatientData, height: 175, weight: 80 })).toHaveLength(0);
+      expect(validatePatientData({ ...validPatientData, height: 175, weight: 20 }).map(error => error.field)).toEqual(['weight']);
+    });
+
+    it('should check HbA1c against the range for its unit', () => {
+      expect(validatePatientData({ ...validPatientData, hba1c: 5.4 })).toHaveLength(0);
+      expect(validatePatientData({ ...validPatientData, hba1c: 36, hba1cUnit: 'mmol/mol' })).toHaveLength(0);
+      expect(validatePatientData({ ...validPatientData, hba1c: 2 }).map(error => error.field)).toEqual(['hba1c']);
+    });
+
+    it('should check QRS duration against a plausible range', () => {
+      expect(validatePatientData({ ...validPatientData, qrsDuration: 96 })).toHaveLength(0);
+      expect(validatePatientData({ ...validPatientData, qrsDuration: 20 }).map(error => error.field))
+        .toEqual(['qrsDuration']);
+    });
+
+    it('should require QRS duration for the heart failure model', () => {
+      const errors = validatePatientData(
+        { ...validPatientData, race: 'white', bmi: 27, bloodGlucose: 95 },
+        getRiskModel('pcp-hf-2019')
+      );
+
+      expect(errors.map(error => error.field)).toEqual(['qrsDuration']);
+    });
+
+    it('should warn when lab results are in the diabetes range but diabetes is not selected', () => {
+      const errors = validatePatientData({ ...validPatientData, hasDiabetes: false, hba1c: 6.8 });
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ field: 'hasDiabetes', code: 'MEDICAL_INCONSISTENCY', severity: 'warning' });
+      expect(errors[0].message).toContain('HbA1c 6.8% is in the diabetes range');
+
+      expect(validatePatientData({ ...validPatientData, hasDiabetes: false, bloodGlucose: 180, glucoseTestType: 'random' })).toHaveLength(0);
+    });
+
+    it('should check the optional risk-enhancer measurements against plausible ranges', () => {
+      expect(validatePatientData({ ...validPatientData, lipoproteinA: 60, hsCRP: 0, ankleBrachialIndex: 0.85 })).toHaveLength(0);
+
+      const errors = validatePatientData({ ...validPatientData, apolipoproteinB: 500, ldlCholesterol: 5 });
+      expect(errors.some(error => error.field === 'apolipoproteinB')).toBe(true);
+      expect(errors.some(error => error.field === 'ldlCholesterol')).toBe(true);
+    });
+  });
+
+  describe('validateModelInput', () => {
+    const range = { min: 15, max: 140, unit: 'mL/min/1.73m²' };
+
+    it('should accept values within the model range', () => {
+      expect(validateModelInput(90, 'egfr', range)).toBeNull();
+    });
+
+    it('should only require values the model requires', () => {
+      expect(validateModelInput(undefined, 'egfr', range)?.code).toBe('REQUIRED_FIELD');
+      expect(validateModelInput(undefined, 'egfr', range, false)).toBeNull();
+    });
+
+    it('should warn just outside the range and reject values far outside it', () => {
+      expect(validateModelInput(13, 'egfr', range)?.severity).toBe('warning');
+      expect(validateModelInput(5, 'egfr', range)?.severity).toBe('error');
+      expect(validateModelInput(0, 'egfr', range)?.code).toBe('NEGATIVE_VALUE');
+    });
+
+    it('should accept zero and negative values when the range allows them', () => {
+      expect(validateModelInput(-3.2, 'townsendScore', { min: -7, max: 11 })).toBeNull();
+      expect(validateModelInput(0, 'systolicBPVariability', { min: 0, max: 40, unit: 'mmHg' })).toBeNull();
+      expect(validateModelInput(-9, 'townsendScore', { min: -7, max: 11 })?.code).toBe('BOUNDARY_VALUE');
+    });
   });
 
   describe('validateField', () => {
@@ -0,0 +1,126 @@
+import type { BloodPressureAssessment, BloodPressureCategory, PatientData } from '../types';
+import { BLOOD_PRESSURE_CATEGORY_LABELS, BLOOD_PRESSURE_THRESHOLDS } from './constants';
+
+/**
+ * Blood Pressure Classification
+ * Classifies blood pressure per the ACC/AHA 2017 hypertension guideline and applies its
+ * treatment pathway, where the 10-year ASCVD risk decides drug therapy for stage 1 hypertension.
+ */
+
+/**
+ * Classifies a blood pressure reading
+ * When systolic and diastolic fall in different categories, the higher category applies
+ * @param systolicBP - Systolic blood pressure in mmHg
+ * @param diastolicBP - Diastolic blood pressure in mmHg
+ */
+export function classifyBloodPressure(systolicBP: number, diastolicBP: number): BloodPressureCategory {
+  if (systolicBP > BLOOD_PRESSURE_THRESHOLDS.CRISIS_SYSTOLIC || diastolicBP > BLOOD_PRESSURE_THRESHOLDS.CRISIS_DIASTOLIC) {
+    return 'crisis';
+  }
+  if (systolicBP >= BLOOD_PRESSURE_THRESHOLDS.STAGE_2_SYSTOLIC || diastolicBP >= BLOOD_PRESSURE_THRESHOLDS.STAGE_2_DIASTOLIC) {
+    return 'stage-2';
+  }
+  if (systolicBP >= BLOOD_PRESSURE_THRESHOLDS.STAGE_1_SYSTOLIC || diastolicBP >= BLOOD_PRESSURE_THRESHOLDS.STAGE_1_DIASTOLIC) {
+    return 'stage-1';
+  }
+  if (systolicBP >= BLOOD_PRESSURE_THRESHOLDS.ELEVATED_SYSTOLIC) {
+    return 'elevated';
+  }
+  return 'normal';
+}
+
+/**
+ * Applies the ACC/AHA 2017 treatment pathway to the patient's blood pressure
+ * @param patientData - Patient data
+ * @param riskPercentage - 10-year risk percentage from the selected model
+ */
+export function assessBloodPressure(patientData: PatientData, riskPercentage: number): BloodPressureAssessment {
+  const category = classifyBloodPressure(patientData.systolicBP, patientData.diastolicBP);
+  const isHighRisk = riskPercentage >= BLOOD_PRESSURE_THRESHOLDS.DRUG_THERAPY_MIN_RISK || patientData.hasDiabetes;
+
+  switch (category) {
+    case 'crisis':
+      return {
+        category,
+        drugTherapyRecommended: true,
+        rationale: 'Blood pressure above 180/120 mmHg needs prompt medical evaluation',
+        followUp: 'Seek medical care today, or call emergency services if you have chest pain, shortness of breath, weakness or vision changes',
+      };
+    case 'stage-2':
+      return {
+        category,
+        drugTherapyRecommended: true,
+        rationale: patientData.onBPMedication
+          ? 'Stage 2 hypertension on treatment: medication should be adjusted to reach below 130/80 mmHg'
+          : 'Stage 2 hypertension: lifestyle changes plus blood pressure medication, often two drugs of different classes',
+        followUp: 'Reassess in 1 month',
+      };
+    case 'stage-1':
+      if (patientData.onBPMedication) {
+        return {
+          category,
+          drugTherapyRecommended: true,
+          rationale: 'Stage 1 hypertension on treatment: medication should be adjusted to reach below 130/80 mmHg',
+          followUp: 'Reassess in 1 month',
+        };
+      }
+      return isHighRisk
+        ? {
+            category,
+            drugTherapyRecommended: true,
+            rationale: patientData.hasDiabetes
+              ? 'Stage 1 hypertension with diabetes: lifestyle changes plus blood pressure medication'
+              : `Stage 1 hypertension with 10-year risk of ${BLOOD_PRESSURE_THRESHOLDS.DRUG_THERAPY_MIN_RISK}% or more: lifestyle changes plus blood pressure medication`,
+            followUp: 'Reassess in 1 month',
+          }
+        : {
+            category,
+            drugTherapyRecommended: false,
+            rationale: `Stage 1 hypertension with 10-year risk below ${BLOOD_PRESSURE_THRESHOLDS.DRUG_THERAPY_MIN_RISK}%: lifestyle changes first`,
+            followUp: 'Reassess in 3-6 months',
+          };
+    case 'elevated':
+      return {
+        category,
+        drugTherapyRecommended: false,
+        rationale: 'Elevated blood pressure: lifestyle changes to prevent hypertension',
+        followUp: 'Reassess in 3-6 months',
+      };
+    case 'normal':
+      return {
+        category,
+        drugTherapyRecommended: false,
+        rationale: 'Normal blood pressure: keep up a heart-healthy lifestyle',
+        followUp: 'Reassess every year',
+      };
+  }
+}
+
+/**
+ * Gets the display label for a blood pressure category
+ */
+export function getBloodPressureCategoryLabel(category: BloodPressureCategory): string {
+  return BLOOD_PRESSURE_CATEGORY_LABELS[category];
+}
+
+/**
+ * Gets blood pressure category color for UI display
+ * @param category - Blood pressure category
+ * @returns Color code for UI styling
+ */
+export function getBloodPressureCategoryColor(category: BloodPressureCategory): string {
+  switch (category) {
+    case 'normal':
+      return '#22c55e'; // Green
+    case 'elevated':
+      return '#eab308'; // Yellow
+    case 'stage-1':
+      return '#f97316'; // Orange
+    case 'stage-2':
+      return '#ef4444'; // Red
+    case 'crisis':
+      return '#991b1b'; // Dark red
+    default:
+      return '#6b7280'; // Gray
+  }
+}
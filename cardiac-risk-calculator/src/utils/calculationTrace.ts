@@ -0,0 +1,35 @@
+import type { CalculationTraceTerm } from '../types';
+
+/**
+ * Calculation trace helpers
+ * Shared building blocks for the step-by-step working that Cox-model calculators
+ * attach to their results when asked to show their work.
+ */
+
+// Final transform of the Framingham and Pooled Cohort proportional hazards models
+export const COX_RISK_FORMULA = 'Risk = 1 - S0 ^ exp(sum - mean)';
+
+/**
+ * Builds one term of the linear predictor
+ * @param label - Variable as it enters the equation, e.g. 'ln(Age)'
+ * @param value - Transformed input
+ * @param coefficient - Model coefficient for the variable
+ */
+export function createTraceTerm(label: string, value: number, coefficient: number): CalculationTraceTerm {
+  return { label, value, coefficient, product: coefficient * value };
+}
+
+/**
+ * Converts a yes/no risk factor to its 0/1 indicator value
+ */
+export function indicator(present: boolean | undefined): number {
+  return present ? 1 : 0;
+}
+
+/**
+ * Formats a trace value for display: inputs to 1 decimal place, equation values to 4
+ */
+export function formatTraceValue(value: number | string, decimals = 4): string {
+  if (typeof value === 'string') return value;
+  return Number.isInteger(value) ? `${value}` : value.toFixed(decimals);
+}
@@ -0,0 +1,101 @@
+import type { AtrialFibrillationRiskResult, PatientData, RiskCategory } from '../types';
+import { CHARGE_AF_COEFFICIENTS, CHARGE_AF_RISK_THRESHOLDS } from './constants';
+import { convertHeightToCm, convertWeightToKg } from './unitConverter';
+
+/**
+ * CHARGE-AF (Alonso et al., JAHA 2013)
+ * Estimates the 5-year risk of developing atrial fibrillation from routinely collected
+ * measurements, to pick out patients who would benefit most from screening for AF. It reuses
+ * the demographics, height, weight and blood pressure entered for the cardiovascular models.
+ */
+
+export const CHARGE_AF_AGE_RANGE = { min: 46, max: 94 };
+
+/**
+ * Checks whether CHARGE-AF can be calculated: the patient has no AF diagnosis, an age of 46-94,
+ * a race, and height and weight
+ */
+export function isAtrialFibrillationRiskApplicable(patientData: PatientData): boolean {
+  return !patientData.hasAtrialFibrillation && validateChargeAfInputs(patientData).length === 0;
+}
+
+/**
+ * Calculates the 5-year risk of atrial fibrillation
+ * @param patientData - Patient data with race, height and weight
+ * @returns 5-year risk rounded to 1 decimal place, with its screening category
+ */
+export function calculateChargeAfRisk(patientData: PatientData): AtrialFibrillationRiskResult {
+  try {
+    const validationErrors = validateChargeAfInputs(patientData);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const c = CHARGE_AF_COEFFICIENTS;
+    const unit = patientData.bodyMeasurementUnit ?? 'metric';
+    const totalScore =
+      c.age * (patientData.age / 5) +
+      (patientData.race === 'white' ? c.whiteRace : 0) +
+      c.height * (convertHeightToCm(patientData.height!, unit) / 10) +
+      c.weight * (convertWeightToKg(patientData.weight!, unit) / 15) +
+      c.systolicBP * (patientData.systolicBP / 20) +
+      c.diastolicBP * (patientData.diastolicBP / 10) +
+      (patientData.smokingStatus === 'current' ? c.smoking : 0) +
+      (patientData.onBPMedication ? c.bpMedication : 0) +
+      (patientData.hasDiabetes ? c.diabetes : 0) +
+      (patientData.hasHeartFailure ? c.heartFailure : 0) +
+      (patientData.hasPriorMyocardialInfarction ? c.myocardialInfarction : 0);
+
+    const fiveYearRisk = 100 * (1 - Math.pow(c.baselineSurvival, Math.exp(totalScore - c.meanScore)));
+    if (!isFinite(fiveYearRisk) || fiveYearRisk < 0 || fiveYearRisk > 100) {
+      throw new Error(`Invalid risk percentage calculated: ${fiveYearRisk}`);
+    }
+
+    return {
+      fiveYearRisk: Math.round(fiveYearRisk * 10) / 10, // Round to 1 decimal place
+      riskCategory: categorizeAtrialFibrillationRisk(fiveYearRisk),
+    };
+  } catch (error) {
+    throw new Error(`CHARGE-AF risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Categorizes a 5-year AF risk as low (<2.5%), intermediate (2.5-5%) or high (5% or more)
+ */
+export function categorizeAtrialFibrillationRisk(fiveYearRisk: number): RiskCategory {
+  const [intermediate, high] = CHARGE_AF_RISK_THRESHOLDS;
+
+  if (fiveYearRisk >= high) return 'high';
+  if (fiveYearRisk >= intermediate) return 'intermediate';
+  return 'low';
+}
+
+/**
+ * Validates that patient data contains all required fields for CHARGE-AF
+ */
+export function validateChargeAfInputs(patientData: PatientData): string[] {
+  const errors: string[] = [];
+
+  if (
+    !patientData.age ||
+    patientData.age < CHARGE_AF_AGE_RANGE.min ||
+    patientData.age > CHARGE_AF_AGE_RANGE.max
+  ) {
+    errors.push(`Age must be between ${CHARGE_AF_AGE_RANGE.min} and ${CHARGE_AF_AGE_RANGE.max} years`);
+  }
+
+  if (!patientData.race) {
+    errors.push('Race must be specified');
+  }
+
+  if (!patientData.height || patientData.height <= 0 || !patientData.weight || patientData.weight <= 0) {
+    errors.push('Height and weight must be provided and greater than 0');
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0 || !patientData.diastolicBP || patientData.diastolicBP <= 0) {
+    errors.push('Blood pressure must be provided and greater than 0');
+  }
+
+  return errors;
+}
@@ -1,4 +1,31 @@
-import type { ValidationRules, FraminghamCoefficients } from '../types';
+import type {
+  BloodPressureCategory,
+  BodyMeasurementUnit,
+  LdlEstimationMethod,
+  ValidationRules,
+  FraminghamCoefficients,
+  FraminghamBmiCoefficients,
+  FraminghamStrokeCoefficients,
+  GlycemicStatus,
+  HbA1cUnit,
+  HeartFailureCoefficients,
+  LifetimeRiskCategory,
+  MesaCoefficientSet,
+  PooledCohortCoefficients,
+  PreventCoefficients,
+  Qrisk3Coefficients,
+  RiskEnhancer,
+  RiskFactor,
+  RiskModelInputRange,
+  RiskOutcome,
+  RiskCategory,
+  RiskThresholdScheme,
+  RiskThresholdSchemeId,
+  Score2CoefficientSet,
+  Score2RegionRecalibration,
+  StatinIntensity,
+  StatinRecommendation,
+} from '../types';
 
 // Medical validation ranges
 export const VALIDATION_RULES: ValidationRules = {
@@ -17,6 +44,10 @@ export const VALIDATION_RULES: ValidationRules = {
   diastolicBP: { min: 40, max: 120, required: true },
 };
 
+// Ages the Framingham 2008 models extrapolate their ln(age) term to when the user opts in;
+// ages outside the validated range then give a BOUNDARY_VALUE warning instead of an error
+export const FRAMINGHAM_AGE_EXTRAPOLATION_RANGE: RiskModelInputRange = { min: 20, max: 90, unit: 'years' };
+
 // Framingham Risk Score coefficients
 export const FRAMINGHAM_COEFFICIENTS: FraminghamCoefficients = {
   male: {
@@ -39,34 +70,1333 @@ export const FRAMINGHAM_COEFFICIENTS: FraminghamCoefficients = {
   },
 };
 
+// Framingham 2008 office-based (non-laboratory) model coefficients: BMI replaces total and
+// HDL cholesterol (D'Agostino et al., Circulation 2008)
+export const FRAMINGHAM_BMI_COEFFICIENTS: FraminghamBmiCoefficients = {
+  male: {
+    age: 3.11296,
+    bmi: 0.79277,
+    systolicBP: 1.85508,
+    systolicBPTreated: 1.92672,
+    smoking: 0.70953,
+    diabetes: 0.53160,
+    meanScore: 23.9388,
+    baselineSurvival: 0.88431,
+  },
+  female: {
+    age: 2.72107,
+    bmi: 0.51125,
+    systolicBP: 2.81291,
+    systolicBPTreated: 2.88267,
+    smoking: 0.61868,
+    diabetes: 0.77763,
+    meanScore: 26.0145,
+    baselineSurvival: 0.94833,
+  },
+};
+
+// Framingham Stroke Risk Profile coefficients, revised for antihypertensive treatment
+// (D'Agostino et al., Stroke 1994); means are at the cohort mean age
+export const FRAMINGHAM_STROKE_COEFFICIENTS: FraminghamStrokeCoefficients = {
+  male: {
+    age: 0.0505,
+    systolicBP: 0.0140,
+    systolicBPTreated: 0.0230,
+    diabetes: 0.3263,
+    smoking: 0.5147,
+    cardiovascularDisease: 0.5195,
+    atrialFibrillation: 0.6061,
+    leftVentricularHypertrophy: 0.8421,
+    meanAge: 65,
+    meanScore: 4.3274,
+    baselineSurvival: 0.9044,
+  },
+  female: {
+    age: 0.0657,
+    systolicBP: 0.0197,
+    systolicBPTreated: 0.0290,
+    diabetes: 0.5442,
+    smoking: 0.5296,
+    cardiovascularDisease: 0.4326,
+    atrialFibrillation: 1.1237,
+    leftVentricularHypertrophy: 0.8881,
+    meanAge: 65,
+    meanScore: 5.5523,
+    baselineSurvival: 0.9353,
+  },
+};
+
+// Systolic BP (mmHg) from which the stroke profile adds risk
+export const FRAMINGHAM_STROKE_SBP_REFERENCE = 100;
+
+// Pooled Cohort Equations to Prevent Heart Failure (PCP-HF; Khan et al., JAMA Cardiol 2020);
+// natural logs of age (years), systolic BP (mmHg), fasting glucose, total and HDL cholesterol
+// (mg/dL), BMI (kg/m²) and QRS duration (ms)
+export const HEART_FAILURE_COEFFICIENTS: HeartFailureCoefficients = {
+  male: {
+    white: {
+      lnAge: 41.94,
+      lnAgeSquared: -0.88,
+      lnTreatedSystolicBP: 1.03,
+      lnAgeLnTreatedSystolicBP: 0,
+      lnUntreatedSystolicBP: 0.91,
+      lnAgeLnUntreatedSystolicBP: 0,
+      smoking: 0.74,
+      lnAgeSmoking: 0,
+      lnTreatedGlucose: 0.90,
+      lnUntreatedGlucose: 0.78,
+      lnTotalCholesterol: 0.49,
+      lnHdlCholesterol: -0.44,
+      lnBmi: 37.2,
+      lnAgeLnBmi: -8.83,
+      lnQrsDuration: 0.63,
+      meanScore: 171.5,
+      baselineSurvival: 0.98752,
+    },
+    africanAmerican: {
+      lnAge: 2.88,
+      lnAgeSquared: 0,
+      lnTreatedSystolicBP: 2.31,
+      lnAgeLnTreatedSystolicBP: 0,
+      lnUntreatedSystolicBP: 2.17,
+      lnAgeLnUntreatedSystolicBP: 0,
+      smoking: 1.66,
+      lnAgeSmoking: 0,
+      lnTreatedGlucose: 0.64,
+      lnUntreatedGlucose: 0.58,
+      lnTotalCholesterol: 0,
+      lnHdlCholesterol: -0.81,
+      lnBmi: 1.16,
+      lnAgeLnBmi: 0,
+      lnQrsDuration: 0.73,
+      meanScore: 28.73,
+      baselineSurvival: 0.98295,
+    },
+  },
+  female: {
+    white: {
+      lnAge: 20.55,
+      lnAgeSquared: 0,
+      lnTreatedSystolicBP: 12.95,
+      lnAgeLnTreatedSystolicBP: -2.96,
+      lnUntreatedSystolicBP: 11.86,
+      lnAgeLnUntreatedSystolicBP: -2.73,
+      smoking: 11.02,
+      lnAgeSmoking: -2.50,
+      lnTreatedGlucose: 1.04,
+      lnUntreatedGlucose: 0.91,
+      lnTotalCholesterol: 0,
+      lnHdlCholesterol: -0.07,
+      lnBmi: 1.33,
+      lnAgeLnBmi: 0,
+      lnQrsDuration: 1.06,
+      meanScore: 99.73,
+      baselineSurvival: 0.99348,
+    },
+    africanAmerican: {
+      lnAge: 51.75,
+      lnAgeSquared: 0,
+      lnTreatedSystolicBP: 29.0,
+      lnAgeLnTreatedSystolicBP: -6.59,
+      lnUntreatedSystolicBP: 28.18,
+      lnAgeLnUntreatedSystolicBP: -6.42,
+      smoking: 0.76,
+      lnAgeSmoking: 0,
+      lnTreatedGlucose: 0.97,
+      lnUntreatedGlucose: 0.80,
+      lnTotalCholesterol: 0.32,
+      lnHdlCholesterol: 0,
+      lnBmi: 21.24,
+      lnAgeLnBmi: -5.0,
+      lnQrsDuration: 1.27,
+      meanScore: 233.9,
+      baselineSurvival: 0.99260,
+    },
+  },
+};
+
+// CHARGE-AF 5-year atrial fibrillation model (Alonso et al., JAHA 2013); coefficients apply per
+// the unit in the comment, and the model has a single equation for both sexes
+export const CHARGE_AF_COEFFICIENTS = {
+  age: 0.508,                    // per 5 years
+  whiteRace: 0.465,
+  height: 0.248,                 // per 10 cm
+  weight: 0.115,                 // per 15 kg
+  systolicBP: 0.197,             // per 20 mmHg
+  diastolicBP: -0.101,           // per 10 mmHg
+  smoking: 0.359,
+  bpMedication: 0.349,
+  diabetes: 0.237,
+  heartFailure: 0.701,
+  myocardialInfarction: 0.496,
+  meanScore: 12.58156,
+  baselineSurvival: 0.9718412736,
+};
+
+// 5-year risk cut-offs (%) between low, intermediate and high AF risk
+export const CHARGE_AF_RISK_THRESHOLDS = [2.5, 5];
+
+// Framingham hypertension risk score (Parikh et al., Ann Intern Med 2008); a Weibull model where
+// risk = 1 - exp(-exp((ln(years) - (intercept + score)) / scale)), so negative terms raise risk
+export const FRAMINGHAM_HYPERTENSION_COEFFICIENTS = {
+  intercept: 22.94954,
+  age: -0.15641,
+  female: -0.20293,
+  systolicBP: -0.05933,
+  diastolicBP: -0.12847,
+  bmi: -0.03388,
+  smoking: -0.19073,
+  oneParentHypertension: -0.16612,
+  bothParentsHypertension: -0.29433,
+  ageDiastolicBP: 0.00162,
+  scale: 0.87692,
+};
+
+// Optimal profile for the heart failure model's ideal risk, with FRAMINGHAM_OPTIMAL_RISK_FACTORS
+// cholesterol and FRAMINGHAM_OPTIMAL_BMI
+export const HEART_FAILURE_OPTIMAL_RISK_FACTORS = {
+  systolicBP: 115,
+  glucose: 90,                   // mg/dL
+  qrsDuration: 90,
+};
+
+// Typical adult profile for the heart failure model's average risk at the patient's age
+export const HEART_FAILURE_AVERAGE_RISK_FACTORS = {
+  systolicBP: 125,
+  glucose: 95,                   // mg/dL
+  totalCholesterol: 200,         // mg/dL
+  hdlCholesterol: 50,            // mg/dL
+  bmi: 27,
+  qrsDuration: 95,
+};
+
+// ACC/AHA 2013 Pooled Cohort Equations coefficients (Goff et al., Circulation 2014)
+export const POOLED_COHORT_COEFFICIENTS: PooledCohortCoefficients = {
+  male: {
+    white: {
+      lnAge: 12.344,
+      lnAgeSquared: 0,
+      lnTotalCholesterol: 11.853,
+      lnAgeLnTotalCholesterol: -2.664,
+      lnHdlCholesterol: -7.990,
+      lnAgeLnHdlCholesterol: 1.769,
+      lnTreatedSystolicBP: 1.797,
+      lnAgeLnTreatedSystolicBP: 0,
+      lnUntreatedSystolicBP: 1.764,
+      lnAgeLnUntreatedSystolicBP: 0,
+      smoking: 7.837,
+      lnAgeSmoking: -1.795,
+      diabetes: 0.658,
+      meanScore: 61.18,
+      baselineSurvival: 0.9144,
+    },
+    africanAmerican: {
+      lnAge: 2.469,
+      lnAgeSquared: 0,
+      lnTotalCholesterol: 0.302,
+      lnAgeLnTotalCholesterol: 0,
+      lnHdlCholesterol: -0.307,
+      lnAgeLnHdlCholesterol: 0,
+      lnTreatedSystolicBP: 1.916,
+      lnAgeLnTreatedSystolicBP: 0,
+      lnUntreatedSystolicBP: 1.809,
+      lnAgeLnUntreatedSystolicBP: 0,
+      smoking: 0.549,
+      lnAgeSmoking: 0,
+      diabetes: 0.645,
+      meanScore: 19.54,
+      baselineSurvival: 0.8954,
+    },
+  },
+  female: {
+    white: {
+      lnAge: -29.799,
+      lnAgeSquared: 4.884,
+      lnTotalCholesterol: 13.540,
+      lnAgeLnTotalCholesterol: -3.114,
+      lnHdlCholesterol: -13.578,
+      lnAgeLnHdlCholesterol: 3.149,
+      lnTreatedSystolicBP: 2.019,
+      lnAgeLnTreatedSystolicBP: 0,
+      lnUntreatedSystolicBP: 1.957,
+      lnAgeLnUntreatedSystolicBP: 0,
+      smoking: 7.574,
+      lnAgeSmoking: -1.665,
+      diabetes: 0.661,
+      meanScore: -29.18,
+      baselineSurvival: 0.9665,
+    },
+    africanAmerican: {
+      lnAge: 17.114,
+      lnAgeSquared: 0,
+      lnTotalCholesterol: 0.940,
+      lnAgeLnTotalCholesterol: 0,
+      lnHdlCholesterol: -18.920,
+      lnAgeLnHdlCholesterol: 4.475,
+      lnTreatedSystolicBP: 29.291,
+      lnAgeLnTreatedSystolicBP: -6.432,
+      lnUntreatedSystolicBP: 27.820,
+      lnAgeLnUntreatedSystolicBP: -6.087,
+      smoking: 0.691,
+      lnAgeSmoking: 0,
+      diabetes: 0.874,
+      meanScore: 86.61,
+      baselineSurvival: 0.9533,
+    },
+  },
+};
+
+// AHA PREVENT base equations (Khan et al., Circulation 2024), log-odds coefficients
+export const PREVENT_COEFFICIENTS: PreventCoefficients = {
+  female: {
+    cvd: {
+      10: {
+        constant: -3.307728,
+        age: 0.7939329,
+        nonHdlCholesterol: 0.0305239,
+        hdlCholesterol: -0.1606857,
+        systolicBPBelow110: -0.2394003,
+        systolicBPAbove110: 0.360078,
+        diabetes: 0.8667604,
+        smoking: 0.5360739,
+        egfrBelow60: 0.6045917,
+        egfrAbove60: 0.0433769,
+        bpTreatment: 0.3151672,
+        statin: -0.1477655,
+        bpTreatmentSystolicBP: -0.0663612,
+        statinNonHdlCholesterol: 0.1197879,
+        ageNonHdlCholesterol: -0.0819715,
+        ageHdlCholesterol: 0.0306769,
+        ageSystolicBP: -0.0946348,
+        ageDiabetes: -0.27057,
+        ageSmoking: -0.078715,
+        ageEgfr: -0.1637806,
+      },
+      30: {
+        constant: -1.318827,
+        age: 0.5503079,
+        ageSquared: -0.0928369,
+        nonHdlCholesterol: 0.0409794,
+        hdlCholesterol: -0.1663306,
+        systolicBPBelow110: -0.1628654,
+        systolicBPAbove110: 0.3299505,
+        diabetes: 0.6793894,
+        smoking: 0.3196112,
+        egfrBelow60: 0.1857101,
+        egfrAbove60: 0.0553528,
+        bpTreatment: 0.2894,
+        statin: -0.075688,
+        bpTreatmentSystolicBP: -0.056367,
+        statinNonHdlCholesterol: 0.1071019,
+        ageNonHdlCholesterol: -0.0751438,
+        ageHdlCholesterol: 0.0301786,
+        ageSystolicBP: -0.0998776,
+        ageDiabetes: -0.3206166,
+        ageSmoking: -0.1607862,
+        ageEgfr: -0.1450788,
+      },
+    },
+    ascvd: {
+      10: {
+        constant: -3.819975,
+        age: 0.719883,
+        nonHdlCholesterol: 0.1176967,
+        hdlCholesterol: -0.151185,
+        systolicBPBelow110: -0.0835358,
+        systolicBPAbove110: 0.3592852,
+        diabetes: 0.8348585,
+        smoking: 0.4831078,
+        egfrBelow60: 0.4864619,
+        egfrAbove60: 0.0397779,
+        bpTreatment: 0.2265309,
+        statin: -0.0592374,
+        bpTreatmentSystolicBP: -0.0395762,
+        statinNonHdlCholesterol: 0.0844423,
+        ageNonHdlCholesterol: -0.0567839,
+        ageHdlCholesterol: 0.0325692,
+        ageSystolicBP: -0.1035985,
+        ageDiabetes: -0.2417542,
+        ageSmoking: -0.0791142,
+        ageEgfr: -0.1671492,
+      },
+      30: {
+        constant: -1.974074,
+        age: 0.4669202,
+        ageSquared: -0.0893118,
+        nonHdlCholesterol: 0.1256901,
+        hdlCholesterol: -0.1542255,
+        systolicBPBelow110: -0.0018093,
+        systolicBPAbove110: 0.322949,
+        diabetes: 0.6296707,
+        smoking: 0.268292,
+        egfrBelow60: 0.100106,
+        egfrAbove60: 0.0499663,
+        bpTreatment: 0.1875292,
+        statin: 0.0152476,
+        bpTreatmentSystolicBP: -0.0276123,
+        statinNonHdlCholesterol: 0.0736147,
+        ageNonHdlCholesterol: -0.0521962,
+        ageHdlCholesterol: 0.0316918,
+        ageSystolicBP: -0.1046101,
+        ageDiabetes: -0.2727793,
+        ageSmoking: -0.1530907,
+        ageEgfr: -0.1299149,
+      },
+    },
+    heartFailure: {
+      10: {
+        constant: -4.310409,
+        age: 0.8998235,
+        systolicBPBelow110: -0.4559771,
+        systolicBPAbove110: 0.3576505,
+        diabetes: 1.038346,
+        smoking: 0.583916,
+        bmiBelow30: -0.0072294,
+        bmiAbove30: 0.2997706,
+        egfrBelow60: 0.7451638,
+        egfrAbove60: 0.0710928,
+        bpTreatment: 0.3824815,
+        bpTreatmentSystolicBP: -0.0984407,
+        ageSystolicBP: -0.0946663,
+        ageDiabetes: -0.3581041,
+        ageSmoking: -0.1159453,
+        ageBmi: -0.003878,
+        ageEgfr: -0.1884289,
+      },
+      30: {
+        constant: -2.205379,
+        age: 0.6254374,
+        ageSquared: -0.0983038,
+        systolicBPBelow110: -0.3919241,
+        systolicBPAbove110: 0.3142295,
+        diabetes: 0.8330787,
+        smoking: 0.3438651,
+        bmiBelow30: 0.0594874,
+        bmiAbove30: 0.2525536,
+        egfrBelow60: 0.2981642,
+        egfrAbove60: 0.0667159,
+        bpTreatment: 0.333921,
+        bpTreatmentSystolicBP: -0.0893177,
+        ageSystolicBP: -0.0974299,
+        ageDiabetes: -0.3233131,
+        ageSmoking: -0.1557873,
+        ageBmi: -0.0404855,
+        ageEgfr: -0.1465034,
+      },
+    },
+  },
+  male: {
+    cvd: {
+      10: {
+        constant: -3.031168,
+        age: 0.7688528,
+        nonHdlCholesterol: 0.0736174,
+        hdlCholesterol: -0.0954431,
+        systolicBPBelow110: -0.4347345,
+        systolicBPAbove110: 0.3362658,
+        diabetes: 0.7692857,
+        smoking: 0.4386871,
+        egfrBelow60: 0.5378979,
+        egfrAbove60: 0.0164827,
+        bpTreatment: 0.288879,
+        statin: -0.1337349,
+        bpTreatmentSystolicBP: -0.0475924,
+        statinNonHdlCholesterol: 0.150273,
+        ageNonHdlCholesterol: -0.0517874,
+        ageHdlCholesterol: 0.0191169,
+        ageSystolicBP: -0.1049477,
+        ageDiabetes: -0.2251948,
+        ageSmoking: -0.0895067,
+        ageEgfr: -0.1543702,
+      },
+      30: {
+        constant: -1.148204,
+        age: 0.4627309,
+        ageSquared: -0.0984281,
+        nonHdlCholesterol: 0.0836088,
+        hdlCholesterol: -0.1029824,
+        systolicBPBelow110: -0.2140352,
+        systolicBPAbove110: 0.2904325,
+        diabetes: 0.5331276,
+        smoking: 0.2141914,
+        egfrBelow60: 0.1155556,
+        egfrAbove60: 0.0603775,
+        bpTreatment: 0.232714,
+        statin: -0.0272112,
+        bpTreatmentSystolicBP: -0.0384488,
+        statinNonHdlCholesterol: 0.134192,
+        ageNonHdlCholesterol: -0.0511759,
+        ageHdlCholesterol: 0.0165865,
+        ageSystolicBP: -0.1101437,
+        ageDiabetes: -0.2585943,
+        ageSmoking: -0.1566406,
+        ageEgfr: -0.1166776,
+      },
+    },
+    ascvd: {
+      10: {
+        constant: -3.500655,
+        age: 0.7099847,
+        nonHdlCholesterol: 0.1658663,
+        hdlCholesterol: -0.1144285,
+        systolicBPBelow110: -0.2837212,
+        systolicBPAbove110: 0.3239977,
+        diabetes: 0.7189597,
+        smoking: 0.3956973,
+        egfrBelow60: 0.3690075,
+        egfrAbove60: 0.0203619,
+        bpTreatment: 0.2036522,
+        statin: -0.0865581,
+        bpTreatmentSystolicBP: -0.0322916,
+        statinNonHdlCholesterol: 0.114563,
+        ageNonHdlCholesterol: -0.0300005,
+        ageHdlCholesterol: 0.0232747,
+        ageSystolicBP: -0.0927024,
+        ageDiabetes: -0.2018525,
+        ageSmoking: -0.0970527,
+        ageEgfr: -0.1217081,
+      },
+      30: {
+        constant: -1.736444,
+        age: 0.3994099,
+        ageSquared: -0.0937484,
+        nonHdlCholesterol: 0.1744643,
+        hdlCholesterol: -0.120203,
+        systolicBPBelow110: -0.0665117,
+        systolicBPAbove110: 0.2753037,
+        diabetes: 0.4790257,
+        smoking: 0.1782635,
+        egfrBelow60: -0.0218789,
+        egfrAbove60: 0.0602553,
+        bpTreatment: 0.1421182,
+        statin: 0.0135996,
+        bpTreatmentSystolicBP: -0.0218265,
+        statinNonHdlCholesterol: 0.1013148,
+        ageNonHdlCholesterol: -0.0312619,
+        ageHdlCholesterol: 0.020673,
+        ageSystolicBP: -0.0920935,
+        ageDiabetes: -0.2159947,
+        ageSmoking: -0.1548811,
+        ageEgfr: -0.0712547,
+      },
+    },
+    heartFailure: {
+      10: {
+        constant: -3.946391,
+        age: 0.8972642,
+        systolicBPBelow110: -0.6811466,
+        systolicBPAbove110: 0.3634461,
+        diabetes: 0.923776,
+        smoking: 0.5023736,
+        bmiBelow30: -0.0485841,
+        bmiAbove30: 0.3726929,
+        egfrBelow60: 0.6926917,
+        egfrAbove60: 0.0251827,
+        bpTreatment: 0.2980922,
+        bpTreatmentSystolicBP: -0.0497731,
+        ageSystolicBP: -0.1289201,
+        ageDiabetes: -0.3040924,
+        ageSmoking: -0.1401688,
+        ageBmi: 0.0068126,
+        ageEgfr: -0.1797778,
+      },
+      30: {
+        constant: -1.95751,
+        age: 0.5681541,
+        ageSquared: -0.1048388,
+        systolicBPBelow110: -0.4761564,
+        systolicBPAbove110: 0.30324,
+        diabetes: 0.6840338,
+        smoking: 0.2656273,
+        bmiBelow30: 0.0833107,
+        bmiAbove30: 0.26999,
+        egfrBelow60: 0.2541805,
+        egfrAbove60: 0.0638923,
+        bpTreatment: 0.2583631,
+        bpTreatmentSystolicBP: -0.0391938,
+        ageSystolicBP: -0.1269124,
+        ageDiabetes: -0.3273572,
+        ageSmoking: -0.1536447,
+        ageBmi: -0.0182831,
+        ageEgfr: -0.1382885,
+      },
+    },
+  },
+};
+
+// ESC SCORE2 coefficients for ages 40-69 (SCORE2 working group, Eur Heart J 2021)
+// Predictors: (age-60)/5, (SBP-120)/20, total cholesterol-6 and (HDL-1.3)/0.5 in mmol/L
+export const SCORE2_COEFFICIENTS: Record<'male' | 'female', Score2CoefficientSet> = {
+  male: {
+    age: 0.3742,
+    smoking: 0.6012,
+    systolicBP: 0.2777,
+    diabetes: 0.6457,
+    totalCholesterol: 0.1458,
+    hdlCholesterol: -0.2698,
+    ageSmoking: -0.0755,
+    ageSystolicBP: -0.0255,
+    ageDiabetes: -0.0983,
+    ageTotalCholesterol: -0.0281,
+    ageHdlCholesterol: 0.0426,
+    baselineSurvival: 0.9605,
+    meanLinearPredictor: 0,
+  },
+  female: {
+    age: 0.4648,
+    smoking: 0.7744,
+    systolicBP: 0.3131,
+    diabetes: 0.8096,
+    totalCholesterol: 0.1002,
+    hdlCholesterol: -0.2606,
+    ageSmoking: -0.1088,
+    ageSystolicBP: -0.0277,
+    ageDiabetes: -0.1272,
+    ageTotalCholesterol: -0.0226,
+    ageHdlCholesterol: 0.0613,
+    baselineSurvival: 0.9776,
+    meanLinearPredictor: 0,
+  },
+};
+
+// ESC SCORE2-OP coefficients for ages 70 and over (SCORE2-OP working group, Eur Heart J 2021)
+// Predictors: age-73, SBP-150, total cholesterol-6 and HDL-1.4 in mmol/L
+export const SCORE2_OP_COEFFICIENTS: Record<'male' | 'female', Score2CoefficientSet> = {
+  male: {
+    age: 0.0634,
+    smoking: 0.3524,
+    systolicBP: 0.0094,
+    diabetes: 0.4245,
+    totalCholesterol: 0.0850,
+    hdlCholesterol: -0.3564,
+    ageSmoking: -0.0247,
+    ageSystolicBP: -0.0005,
+    ageDiabetes: -0.0174,
+    ageTotalCholesterol: 0.0073,
+    ageHdlCholesterol: 0.0091,
+    baselineSurvival: 0.7576,
+    meanLinearPredictor: 0.0929,
+  },
+  female: {
+    age: 0.0789,
+    smoking: 0.4921,
+    systolicBP: 0.0102,
+    diabetes: 0.6010,
+    totalCholesterol: 0.0605,
+    hdlCholesterol: -0.3040,
+    ageSmoking: -0.0255,
+    ageSystolicBP: -0.0004,
+    ageDiabetes: -0.0107,
+    ageTotalCholesterol: -0.0009,
+    ageHdlCholesterol: 0.0154,
+    baselineSurvival: 0.8082,
+    meanLinearPredictor: 0.2290,
+  },
+};
+
+// Optimal risk factor profile used as the heart age reference (D'Agostino et al., 2008):
+// untreated SBP 125 mmHg, total cholesterol 180 mg/dL, HDL 45 mg/dL, non-smoker, no diabetes
+export const FRAMINGHAM_OPTIMAL_RISK_FACTORS = {
+  totalCholesterol: 180,
+  hdlCholesterol: 45,
+  systolicBP: 125,
+};
+
+// Optimal BMI for the non-laboratory heart age reference, in place of the cholesterol values
+export const FRAMINGHAM_OPTIMAL_BMI = 22.5;
+
+// Reference profile for per-factor risk attribution: the heart age optimal risk factors in a
+// woman at the model's youngest age, without diabetes or a family history, who has never smoked
+export const RISK_ATTRIBUTION_REFERENCE = {
+  ...FRAMINGHAM_OPTIMAL_RISK_FACTORS,
+  bmi: FRAMINGHAM_OPTIMAL_BMI,
+  height: 170,                   // cm; the reference weight is chosen to give the reference BMI
+  gender: 'female' as const,
+  diastolicBP: 80,
+  smokingStatus: 'never' as const,
+};
+
+export const RISK_FACTOR_LABELS: Record<RiskFactor, string> = {
+  age: 'Age',
+  gender: 'Sex',
+  cholesterol: 'Cholesterol',
+  bloodPressure: 'Blood pressure',
+  smoking: 'Smoking',
+  diabetes: 'Diabetes',
+  familyHistory: 'Family history',
+};
+
+// Non-laboratory models attribute body mass index where other models attribute cholesterol
+export const BODY_SIZE_RISK_FACTOR_LABEL = 'Body mass index';
+
+// Measurement uncertainty propagated into the plausible range around the 10-year risk:
+// SD of a single office SBP reading, and NCEP laboratory analytical goals for the
+// coefficient of variation of total cholesterol (3%) and HDL cholesterol (4%)
+export const MEASUREMENT_UNCERTAINTY = {
+  systolicBP: 5,                 // mmHg, standard deviation
+  totalCholesterolCV: 0.03,
+  hdlCholesterolCV: 0.04,
+};
+
+// Two-sided 95% normal quantile for the plausible risk range
+export const RISK_RANGE_Z_SCORE = 1.96;
+
+// Heart ages outside this range are reported at the boundary, as in the published tables
+export const HEART_AGE_RANGE = { min: 30, max: 80 };
+
+// Lloyd-Jones lifetime CVD risk from age 50 to 95 by aggregate risk factor burden
+// (Lloyd-Jones et al., Circulation 2006)
+export const LIFETIME_RISK: Record<'male' | 'female', Record<LifetimeRiskCategory, number>> = {
+  male: {
+    allOptimal: 5.2,
+    notOptimal: 36.4,
+    elevated: 45.5,
+    oneMajor: 50.4,
+    multipleMajor: 68.9,
+  },
+  female: {
+    allOptimal: 8.2,
+    notOptimal: 26.9,
+    elevated: 39.1,
+    oneMajor: 38.8,
+    multipleMajor: 50.2,
+  },
+};
+
+// Lower bounds of the not optimal, elevated and major levels (cholesterol in mg/dL, BP in mmHg)
+export const LIFETIME_RISK_FACTOR_LEVELS = {
+  totalCholesterol: { notOptimal: 180, elevated: 200, major: 240 },
+  systolicBP: { notOptimal: 120, elevated: 140, major: 160 },
+  diastolicBP: { notOptimal: 80, elevated: 90, major: 100 },
+};
+
+// MESA 10-year CHD risk score with and without coronary artery calcium (McClelland et al., JACC 2015)
+// risk = 1 - baselineSurvival ^ exp(sum of coefficient * value), cholesterol in mg/dL
+export const MESA_COEFFICIENTS: Record<'withCac' | 'withoutCac', MesaCoefficientSet> = {
+  withoutCac: {
+    age: 0.0455,
+    male: 0.7496,
+    race: { chinese: -0.5055, 'african-american': -0.2111, hispanic: -0.19 },
+    diabetes: 0.5168,
+    smoking: 0.4732,
+    totalCholesterol: 0.0053,
+    hdlCholesterol: -0.014,
+    lipidLowering: 0.2473,
+    systolicBP: 0.0085,
+    bpTreatment: 0.3381,
+    familyHistory: 0.4522,
+    baselineSurvival: 0.99963,
+  },
+  withCac: {
+    age: 0.0172,
+    male: 0.4079,
+    race: { chinese: -0.3475, 'african-american': 0.0353, hispanic: -0.0222 },
+    diabetes: 0.3892,
+    smoking: 0.3717,
+    totalCholesterol: 0.0043,
+    hdlCholesterol: -0.0114,
+    lipidLowering: 0.1206,
+    systolicBP: 0.0066,
+    bpTreatment: 0.2278,
+    familyHistory: 0.3239,
+    lnCacPlusOne: 0.2743,
+    baselineSurvival: 0.99833,
+  },
+};
+
+// ACC/AHA 2018: CAC 0 favors down-classification, CAC >= 100 favors up-classification. The guideline's
+// alternative >= 75th percentile criterion is not applied, as it needs the MESA age, sex and race percentiles
+export const CAC_RECLASSIFICATION_THRESHOLD = 100;
+
+export const CAC_SCORE_RANGE: RiskModelInputRange = { min: 0, max: 5000, unit: 'Agatston' };
+
+// Expected LDL-C lowering by statin intensity (ACC/AHA 2018 cholesterol guideline:
+// low <30%, moderate 30-49%, high >=50%)
+export const STATIN_LDL_REDUCTION: Record<StatinIntensity, number> = {
+  low: 0.25,
+  moderate: 0.4,
+  high: 0.5,
+};
+
+export const STATIN_INTENSITY_LABELS: Record<StatinIntensity, string> = {
+  low: 'Low-intensity statin',
+  moderate: 'Moderate-intensity statin',
+  high: 'High-intensity statin',
+};
+
+// Average systolic reduction from one standard-dose antihypertensive (Law et al., BMJ 2009)
+export const BP_MEDICATION_SBP_REDUCTION = 9;
+
+export const SCENARIO_TARGET_SBP_RANGE: RiskModelInputRange = { min: 110, max: 200, unit: 'mmHg' };
+
+// ACC/AHA 2018 cholesterol guideline primary prevention statin criteria (Grundy et al., Circulation 2019);
+// the 10-year risk cut-offs are those of the 'acc-aha-2018' threshold scheme
+export const ACC_AHA_STATIN_CRITERIA = {
+  SEVERE_HYPERCHOLESTEROLEMIA_LDL_MG_DL: 190, // High-intensity statin from age 20 to 75
+  MIN_LDL_MG_DL: 70,                          // Risk-based groups start at LDL-C >= 70 mg/dL
+  YOUNG_ADULT_LDL_MG_DL: 160,                 // Ages 20-39 with LDL-C >= 160 mg/dL may benefit
+  MIN_AGE: 20,
+  RISK_BASED_AGE_RANGE: { min: 40, max: 75 },
+};
+
+// USPSTF 2022 statin recommendation for adults 40-75 with at least one CVD risk factor
+// (dyslipidemia, diabetes, hypertension or smoking); hypertension uses the ACC/AHA 2017 130/80 cut-off
+export const USPSTF_STATIN_CRITERIA = {
+  AGE_RANGE: { min: 40, max: 75 },
+  GRADE_B_MIN_RISK: 10,          // Initiate a statin at 10-year risk >= 10%
+  GRADE_C_MIN_RISK: 7.5,         // Selectively offer a statin at 7.5% to <10%
+  DYSLIPIDEMIA_LDL_MG_DL: 130,   // LDL-C > 130 mg/dL
+  DYSLIPIDEMIA_HDL_MG_DL: 40,    // HDL-C < 40 mg/dL
+  HYPERTENSION_SYSTOLIC: 130,
+  HYPERTENSION_DIASTOLIC: 80,
+};
+
+export const STATIN_RECOMMENDATION_LABELS: Record<StatinRecommendation, string> = {
+  indicated: 'Statin indicated',
+  consider: 'Consider statin',
+  discuss: 'Discuss statin',
+  'not-indicated': 'Statin not indicated',
+};
+
+// VLDL cholesterol assumed when estimating LDL without a measured value or triglycerides
+// (Friedewald triglycerides / 5, with triglycerides of 150 mg/dL)
+export const ASSUMED_VLDL_CHOLESTEROL = 30;
+
+// Regional recalibration: risk = 1 - exp(-exp(scale1 + scale2 * ln(-ln(1 - uncalibrated risk))))
+export const SCORE2_REGION_RECALIBRATION: Score2RegionRecalibration = {
+  'low': {
+    male: { scale1: -0.5699, scale2: 0.7476 },
+    female: { scale1: -0.7380, scale2: 0.7019 },
+  },
+  'moderate': {
+    male: { scale1: -0.1565, scale2: 0.8009 },
+    female: { scale1: -0.3143, scale2: 0.7701 },
+  },
+  'high': {
+    male: { scale1: 0.3207, scale2: 0.9360 },
+    female: { scale1: 0.5710, scale2: 0.9369 },
+  },
+  'very-high': {
+    male: { scale1: 0.5836, scale2: 0.8294 },
+    female: { scale1: 0.9412, scale2: 0.8329 },
+  },
+};
+
+export const SCORE2_OP_REGION_RECALIBRATION: Score2RegionRecalibration = {
+  'low': {
+    male: { scale1: -0.34, scale2: 1.19 },
+    female: { scale1: -0.52, scale2: 1.01 },
+  },
+  'moderate': {
+    male: { scale1: 0.01, scale2: 1.25 },
+    female: { scale1: -0.10, scale2: 1.10 },
+  },
+  'high': {
+    male: { scale1: 0.08, scale2: 1.15 },
+    female: { scale1: 0.38, scale2: 1.09 },
+  },
+  'very-high': {
+    male: { scale1: 0.05, scale2: 0.70 },
+    female: { scale1: 0.38, scale2: 0.69 },
+  },
+};
+
+// QRISK3-2017 coefficients from the ClinRisk open-source release (Hippisley-Cox et al., BMJ 2017)
+// age1/age2 are fractional polynomial terms of age/10; bmi1 = (bmi/10)^-2, bmi2 = (bmi/10)^-2 * ln(bmi/10)
+export const QRISK3_COEFFICIENTS: Qrisk3Coefficients = {
+  female: {
+    ethnicity: {
+      'white': 0,
+      'indian': 0.28040314332995425,
+      'pakistani': 0.562989941420754,
+      'bangladeshi': 0.29590000851116516,
+      'other-asian': 0.07278537987798255,
+      'black-caribbean': -0.17072135508857317,
+      'black-african': -0.3937104331487497,
+      'chinese': -0.3263249528353027,
+      'other': -0.17127056883241784,
+    },
+    smoking: [
+      0,
+      0.13386833786546262,
+      0.5620085801243854,
+      0.6674959337750255,
+      0.8494817764483085,
+    ],
+    agePowers: [-2, 1],
+    centring: {
+      age1: 0.053274843841791,
+      age2: 4.332503318786621,
+      bmi1: 0.154946178197861,
+      bmi2: 0.144462317228317,
+      cholesterolRatio: 3.47632646560669,
+      systolicBP: 123.13001251220703,
+      systolicBPVariability: 9.002537727355957,
+      townsend: 0.392308831214905,
+    },
+    age1: -8.138810924772619,
+    age2: 0.797333766896991,
+    bmi1: 0.2923609227546005,
+    bmi2: -4.1513300213837665,
+    cholesterolRatio: 0.15338035820802554,
+    systolicBP: 0.013131488407103424,
+    systolicBPVariability: 0.00788945410145861,
+    townsend: 0.07722379058859011,
+    atrialFibrillation: 1.5923354969269663,
+    atypicalAntipsychotics: 0.25237642070115557,
+    corticosteroids: 0.5952072530460185,
+    erectileDysfunction: 0,
+    migraine: 0.301267260870345,
+    rheumatoidArthritis: 0.21364803435181942,
+    chronicKidneyDisease: 0.6519456949384583,
+    severeMentalIllness: 0.12555308058820178,
+    lupus: 0.7588093865426769,
+    treatedHypertension: 0.50931593683423,
+    type1Diabetes: 1.7267977510537347,
+    type2Diabetes: 1.0688773244615468,
+    familyHistory: 0.45445319020896213,
+    age1Interactions: {
+      smoking: [
+        -4.705716178585189,
+        -2.7430383403573337,
+        -0.8660808882939218,
+        0.9024156236971065,
+      ],
+      atrialFibrillation: 19.93803488954656,
+      corticosteroids: -0.9840804523593628,
+      erectileDysfunction: 0,
+      migraine: 1.7634979587872999,
+      chronicKidneyDisease: -3.5874047731694114,
+      lupus: 19.690303738638292,
+      treatedHypertension: 11.872809733921812,
+      type1Diabetes: -1.2444332714320747,
+      type2Diabetes: 6.86523420000096,
+      bmi1: 23.80262341214174,
+      bmi2: -71.18494769208701,
+      familyHistory: 0.9946780794043513,
+      systolicBP: 0.034131842338615485,
+      townsend: -1.0301180802035639,
+    },
+    age2Interactions: {
+      smoking: [
+        -0.07558924464319303,
+        -0.11951192874867074,
+        -0.10366306397571923,
+        -0.1399185359171839,
+      ],
+      atrialFibrillation: -0.0761826510111625,
+      corticosteroids: -0.12005364946742472,
+      erectileDysfunction: 0,
+      migraine: -0.06558691789869986,
+      chronicKidneyDisease: -0.22688873086442507,
+      lupus: 0.07734794967901627,
+      treatedHypertension: 0.0009685782358817444,
+      type1Diabetes: -0.2872406462448895,
+      type2Diabetes: -0.09711225259069549,
+      bmi1: 0.5236995893366443,
+      bmi2: 0.04574419012232376,
+      familyHistory: -0.07688505169842304,
+      systolicBP: -0.0015082501423272358,
+      townsend: -0.03159341467496233,
+    },
+    baselineSurvival: 0.988876402378082,
+  },
+  male: {
+    ethnicity: {
+      'white': 0,
+      'indian': 0.2771924876030828,
+      'pakistani': 0.4744636071493127,
+      'bangladeshi': 0.5296172991968937,
+      'other-asian': 0.03510015918629902,
+      'black-caribbean': -0.3580789966932792,
+      'black-african': -0.4005648523216514,
+      'chinese': -0.41522792889830173,
+      'other': -0.26321348134749967,
+    },
+    smoking: [
+      0,
+      0.19128222863388983,
+      0.5524158819264555,
+      0.6383505302750607,
+      0.7898381988185802,
+    ],
+    agePowers: [-1, 3],
+    centring: {
+      age1: 0.234766781330109,
+      age2: 77.2840805053711,
+      bmi1: 0.149176135659218,
+      bmi2: 0.141913309693336,
+      cholesterolRatio: 4.300998687744141,
+      systolicBP: 128.5715789794922,
+      systolicBPVariability: 8.756621360778809,
+      townsend: 0.52630490064621,
+    },
+    age1: -17.839781666005575,
+    age2: 0.002296488060576549,
+    bmi1: 2.456277666053636,
+    bmi2: -8.301112231471135,
+    cholesterolRatio: 0.1734019685632711,
+    systolicBP: 0.012910126542553305,
+    systolicBPVariability: 0.010251914291290456,
+    townsend: 0.033268201277287295,
+    atrialFibrillation: 0.8820923692805466,
+    atypicalAntipsychotics: 0.13046879855173513,
+    corticosteroids: 0.45485399750445543,
+    erectileDysfunction: 0.22251859086705383,
+    migraine: 0.25584178074159913,
+    rheumatoidArthritis: 0.20970658013956567,
+    chronicKidneyDisease: 0.7185326128827438,
+    severeMentalIllness: 0.12133039882047164,
+    lupus: 0.4401572174457522,
+    treatedHypertension: 0.5165987108269547,
+    type1Diabetes: 1.2343425521675175,
+    type2Diabetes: 0.8594207143093222,
+    familyHistory: 0.5405546900939016,
+    age1Interactions: {
+      smoking: [
+        -0.21011133933516346,
+        0.7526867644750319,
+        0.9931588755640579,
+        2.1331163414389076,
+      ],
+      atrialFibrillation: 3.4896675530623207,
+      corticosteroids: 1.1708133653489108,
+      erectileDysfunction: -1.506400985745431,
+      migraine: 2.349115987140244,
+      chronicKidneyDisease: -0.5065671632722369,
+      lupus: 0,
+      treatedHypertension: 6.511458109853267,
+      type1Diabetes: 5.337986487800653,
+      type2Diabetes: 3.646181740622131,
+      bmi1: 31.004952956033886,
+      bmi2: -111.29157184391643,
+      familyHistory: 2.7808628508531887,
+      systolicBP: 0.018858524469865853,
+      townsend: -0.1007554870063731,
+    },
+    age2Interactions: {
+      smoking: [
+        -0.0004985487027532612,
+        -0.0007987563331738541,
+        -0.000837061842662513,
+        -0.0007840031915563729,
+      ],
+      atrialFibrillation: -0.0003499560834063605,
+      corticosteroids: -0.0002496045095297166,
+      erectileDysfunction: -0.0011058218441227373,
+      migraine: 0.0001989644604147863,
+      chronicKidneyDisease: -0.0018325930166498813,
+      lupus: 0,
+      treatedHypertension: 0.0006383805310416501,
+      type1Diabetes: 0.0006409780808752897,
+      type2Diabetes: -0.00024695695588868315,
+      bmi1: 0.005038010235632203,
+      bmi2: -0.013074483002524319,
+      familyHistory: -0.0002479180990739604,
+      systolicBP: -1.271874191588457e-05,
+      townsend: -9.329964232327289e-05,
+    },
+    baselineSurvival: 0.977268040180206,
+  },
+};
+
 // Unit conversion factors
 export const CONVERSION_FACTORS = {
   CHOLESTEROL_MG_DL_TO_MMOL_L: 0.02586,
   CHOLESTEROL_MMOL_L_TO_MG_DL: 38.67,
+  CM_PER_INCH: 2.54,
+  KG_PER_POUND: 0.45359237,
   GLUCOSE_MG_DL_TO_MMOL_L: 0.05551,
   GLUCOSE_MMOL_L_TO_MG_DL: 18.018,
+  TRIGLYCERIDES_MG_DL_TO_MMOL_L: 0.01129,
+  TRIGLYCERIDES_MMOL_L_TO_MG_DL: 88.57,
+  // HbA1c master equation: IFCC (mmol/mol) = 10.929 * (NGSP (%) - 2.15)
+  HBA1C_IFCC_PER_PERCENT: 10.929,
+  HBA1C_NGSP_OFFSET: 2.15,
+};
+
+// Risk categorization threshold schemes; each risk model reports its results with one of these
+export const RISK_THRESHOLD_SCHEMES: Record<RiskThresholdSchemeId, RiskThresholdScheme> = {
+  // NCEP ATP III 10-year risk categories: <10%, 10-20%, >=20%
+  'atp-iii': {
+    id: 'atp-iii',
+    name: 'NCEP ATP III',
+    tiers: [
+      { category: 'low', label: 'Low Risk', raisedByRiskEnhancers: true },
+      { category: 'moderate', label: 'Moderate Risk' },
+      { category: 'high', label: 'High Risk' },
+    ],
+    cutOffs: [10, 20],
+  },
+  // ACC/AHA 2018 cholesterol guideline (Grundy et al., Circulation 2019): <5%, 5-7.5%, 7.5-20%, >=20%
+  'acc-aha-2018': {
+    id: 'acc-aha-2018',
+    name: 'ACC/AHA 2018',
+    tiers: [
+      { category: 'low', label: 'Low Risk' },
+      { category: 'borderline', label: 'Borderline Risk', raisedByRiskEnhancers: true },
+      { category: 'intermediate', label: 'Intermediate Risk' },
+      { category: 'high', label: 'High Risk' },
+    ],
+    cutOffs: [5, 7.5, 20],
+  },
+  // ESC 2021 age-specific SCORE2/SCORE2-OP thresholds for apparently healthy people
+  'esc-2021': {
+    id: 'esc-2021',
+    name: 'ESC 2021',
+    tiers: [
+      { category: 'low-to-moderate', label: 'Low to Moderate Risk' },
+      { category: 'high', label: 'High Risk' },
+      { category: 'very-high', label: 'Very High Risk' },
+    ],
+    cutOffs: [5, 10],
+    ageBands: [
+      { maxAge: 49, cutOffs: [2.5, 7.5] },
+      { maxAge: 69, cutOffs: [5, 10] },
+      { maxAge: Infinity, cutOffs: [7.5, 15] },
+    ],
+  },
+};
+
+export const DEFAULT_THRESHOLD_SCHEME_ID: RiskThresholdSchemeId = 'atp-iii';
+
+// Category names used when a category is not part of the scheme, e.g. in results saved before it changed
+export const RISK_CATEGORY_LABELS: Record<RiskCategory, string> = {
+  low: 'Low Risk',
+  'low-to-moderate': 'Low to Moderate Risk',
+  borderline: 'Borderline Risk',
+  moderate: 'Moderate Risk',
+  intermediate: 'Intermediate Risk',
+  high: 'High Risk',
+  'very-high': 'Very High Risk',
+};
+
+// ACC/AHA 2018 risk-enhancing factor cut-offs (Grundy et al., Circulation 2019)
+export const RISK_ENHANCER_THRESHOLDS = {
+  LDL_MG_DL: 160,              // LDL-C >= 160 mg/dL (4.1 mmol/L)
+  LIPOPROTEIN_A_MG_DL: 50,     // Lp(a) >= 50 mg/dL
+  HS_CRP_MG_L: 2,              // hs-CRP >= 2.0 mg/L
+  APOLIPOPROTEIN_B_MG_DL: 130, // ApoB >= 130 mg/dL
+  ANKLE_BRACHIAL_INDEX: 0.9,   // ABI < 0.9
+  // Enhancers favor starting a statin from borderline risk (5%), so they raise a result
+  // at or above this level from a tier marked raisedByRiskEnhancers to the next tier
+  MIN_RISK_FOR_TIER_SHIFT: 5,
+};
+
+export const RISK_ENHANCER_LABELS: Record<RiskEnhancer, string> = {
+  familyHistory: 'Family history of premature heart disease',
+  highLdl: 'LDL cholesterol of 160 mg/dL (4.1 mmol/L) or higher',
+  chronicKidneyDisease: 'Chronic kidney disease',
+  metabolicSyndrome: 'Metabolic syndrome',
+  inflammatoryDisease: 'Chronic inflammatory disease',
+  southAsianAncestry: 'South Asian ancestry',
+  lipoproteinA: 'Lipoprotein(a) of 50 mg/dL or higher',
+  hsCRP: 'hs-CRP of 2.0 mg/L or higher',
+  apolipoproteinB: 'Apolipoprotein B of 130 mg/dL or higher',
+  lowAnkleBrachialIndex: 'Ankle-brachial index below 0.9',
+};
+
+// ACC/AHA 2017 blood pressure categories (Whelton et al., Hypertension 2018), lower bounds in mmHg
+export const BLOOD_PRESSURE_THRESHOLDS = {
+  ELEVATED_SYSTOLIC: 120,  // 120-129 with diastolic < 80
+  STAGE_1_SYSTOLIC: 130,   // 130-139 or diastolic 80-89
+  STAGE_1_DIASTOLIC: 80,
+  STAGE_2_SYSTOLIC: 140,   // >= 140 or diastolic >= 90
+  STAGE_2_DIASTOLIC: 90,
+  CRISIS_SYSTOLIC: 180,    // > 180 and/or diastolic > 120
+  CRISIS_DIASTOLIC: 120,
+  // Stage 1 hypertension is treated with medication from this 10-year ASCVD risk
+  DRUG_THERAPY_MIN_RISK: 10,
+};
+
+export const BLOOD_PRESSURE_CATEGORY_LABELS: Record<BloodPressureCategory, string> = {
+  normal: 'Normal',
+  elevated: 'Elevated',
+  'stage-1': 'Stage 1 Hypertension',
+  'stage-2': 'Stage 2 Hypertension',
+  crisis: 'Hypertensive Crisis',
+};
+
+// Plausible ranges for the optional risk-enhancer measurements
+export const RISK_ENHANCER_INPUT_RANGES: Record<
+  'lipoproteinA' | 'hsCRP' | 'apolipoproteinB' | 'ankleBrachialIndex',
+  RiskModelInputRange
+> = {
+  lipoproteinA: { min: 0, max: 300, unit: 'mg/dL' },
+  hsCRP: { min: 0, max: 20, unit: 'mg/L' },
+  apolipoproteinB: { min: 20, max: 300, unit: 'mg/dL' },
+  ankleBrachialIndex: { min: 0.3, max: 1.5 },
+};
+
+export const LDL_CHOLESTEROL_RANGES: Record<'mg/dL' | 'mmol/L', RiskModelInputRange> = {
+  'mg/dL': { min: 30, max: 300, unit: 'mg/dL' },
+  'mmol/L': { min: 0.8, max: 7.8, unit: 'mmol/L' },
+};
+
+// Plausible adult height and weight for the non-laboratory Framingham model
+export const HEIGHT_RANGES: Record<BodyMeasurementUnit, RiskModelInputRange> = {
+  metric: { min: 120, max: 220, unit: 'cm' },
+  imperial: { min: 47, max: 87, unit: 'in' },
+};
+
+export const WEIGHT_RANGES: Record<BodyMeasurementUnit, RiskModelInputRange> = {
+  metric: { min: 30, max: 250, unit: 'kg' },
+  imperial: { min: 66, max: 550, unit: 'lb' },
+};
+
+export const HBA1C_RANGES: Record<HbA1cUnit, RiskModelInputRange> = {
+  '%': { min: 4, max: 18, unit: '%' },
+  'mmol/mol': { min: 20, max: 174, unit: 'mmol/mol' },
+};
+
+// Plausible QRS duration for the heart failure model
+export const QRS_DURATION_RANGE: RiskModelInputRange = { min: 60, max: 200, unit: 'ms' };
+
+// ADA Standards of Care diagnostic criteria for prediabetes and diabetes
+export const GLYCEMIC_THRESHOLDS = {
+  HBA1C_PREDIABETES: 5.7,      // % (39 mmol/mol)
+  HBA1C_DIABETES: 6.5,         // % (48 mmol/mol)
+  FASTING_GLUCOSE_PREDIABETES: 100, // mg/dL, impaired fasting glucose
+  FASTING_GLUCOSE_DIABETES: 126,    // mg/dL
+  RANDOM_GLUCOSE_DIABETES: 200,     // mg/dL; a random reading cannot identify prediabetes
+};
+
+export const GLYCEMIC_STATUS_LABELS: Record<GlycemicStatus, string> = {
+  normal: 'Normal',
+  prediabetes: 'Prediabetes',
+  diabetes: 'Diabetes range',
 };
 
-// Risk categorization thresholds
-export const RISK_THRESHOLDS = {
-  LOW: 10,      // <10%
-  MODERATE: 20, // 10-20%
-  // HIGH: >=20%
+export const TRIGLYCERIDE_RANGES: Record<'mg/dL' | 'mmol/L', RiskModelInputRange> = {
+  'mg/dL': { min: 20, max: 2000, unit: 'mg/dL' },
+  'mmol/L': { min: 0.2, max: 22.6, unit: 'mmol/L' },
 };
 
+// LDL cholesterol estimation equations, in order of preference, and the triglyceride
+// level (mg/dL) from which each is no longer valid
+export const LDL_ESTIMATION_METHODS: LdlEstimationMethod[] = ['martin-hopkins', 'sampson', 'friedewald'];
+
+export const LDL_ESTIMATION_MAX_TRIGLYCERIDES: Record<LdlEstimationMethod, number> = {
+  friedewald: 400,      // Friedewald et al., Clin Chem 1972
+  'martin-hopkins': 400, // Martin et al., JAMA 2013 (180-cell table)
+  sampson: 800,         // Sampson et al., JAMA Cardiol 2020
+};
+
+export const LDL_ESTIMATION_METHOD_LABELS: Record<LdlEstimationMethod | 'measured', string> = {
+  measured: 'Measured',
+  friedewald: 'Friedewald',
+  'martin-hopkins': 'Martin-Hopkins',
+  sampson: 'Sampson/NIH',
+};
+
+// Martin-Hopkins triglyceride:VLDL cholesterol factors (Martin et al., JAMA 2013)
+// Rows are triglyceride strata by upper bound (mg/dL); columns are non-HDL cholesterol
+// strata <100, 100-129, 130-159, 160-189, 190-219 and >=220 mg/dL
+export const MARTIN_HOPKINS_NON_HDL_STRATA = [100, 130, 160, 190, 220];
+
+export const MARTIN_HOPKINS_FACTORS: Array<{ maxTriglycerides: number; factors: number[] }> = [
+  { maxTriglycerides: 49, factors: [3.5, 3.4, 3.3, 3.3, 3.2, 3.1] },
+  { maxTriglycerides: 56, factors: [4.0, 3.9, 3.7, 3.6, 3.6, 3.4] },
+  { maxTriglycerides: 61, factors: [4.3, 4.1, 4.0, 3.9, 3.8, 3.6] },
+  { maxTriglycerides: 66, factors: [4.5, 4.3, 4.1, 4.0, 3.9, 3.9] },
+  { maxTriglycerides: 71, factors: [4.7, 4.4, 4.3, 4.2, 4.1, 3.9] },
+  { maxTriglycerides: 75, factors: [4.8, 4.6, 4.4, 4.2, 4.2, 4.1] },
+  { maxTriglycerides: 79, factors: [4.9, 4.6, 4.5, 4.3, 4.3, 4.2] },
+  { maxTriglycerides: 83, factors: [5.0, 4.8, 4.6, 4.4, 4.3, 4.2] },
+  { maxTriglycerides: 87, factors: [5.1, 4.8, 4.6, 4.5, 4.4, 4.3] },
+  { maxTriglycerides: 92, factors: [5.2, 4.9, 4.7, 4.6, 4.4, 4.3] },
+  { maxTriglycerides: 96, factors: [5.3, 5.0, 4.8, 4.7, 4.5, 4.4] },
+  { maxTriglycerides: 100, factors: [5.4, 5.1, 4.8, 4.7, 4.5, 4.3] },
+  { maxTriglycerides: 105, factors: [5.5, 5.2, 5.0, 4.7, 4.6, 4.5] },
+  { maxTriglycerides: 110, factors: [5.6, 5.3, 5.0, 4.8, 4.6, 4.5] },
+  { maxTriglycerides: 115, factors: [5.7, 5.4, 5.1, 4.9, 4.7, 4.5] },
+  { maxTriglycerides: 120, factors: [5.8, 5.5, 5.2, 5.0, 4.8, 4.6] },
+  { maxTriglycerides: 126, factors: [6.0, 5.5, 5.3, 5.0, 4.8, 4.6] },
+  { maxTriglycerides: 132, factors: [6.1, 5.7, 5.3, 5.1, 4.9, 4.7] },
+  { maxTriglycerides: 138, factors: [6.2, 5.8, 5.4, 5.2, 5.0, 4.7] },
+  { maxTriglycerides: 146, factors: [6.3, 5.9, 5.6, 5.3, 5.0, 4.8] },
+  { maxTriglycerides: 154, factors: [6.5, 6.0, 5.7, 5.4, 5.1, 4.8] },
+  { maxTriglycerides: 163, factors: [6.7, 6.2, 5.8, 5.4, 5.2, 4.9] },
+  { maxTriglycerides: 173, factors: [6.8, 6.3, 5.9, 5.5, 5.3, 5.0] },
+  { maxTriglycerides: 185, factors: [7.0, 6.5, 6.0, 5.7, 5.4, 5.1] },
+  { maxTriglycerides: 201, factors: [7.3, 6.7, 6.2, 5.8, 5.5, 5.2] },
+  { maxTriglycerides: 220, factors: [7.6, 6.9, 6.4, 6.0, 5.6, 5.3] },
+  { maxTriglycerides: 247, factors: [8.0, 7.2, 6.6, 6.2, 5.9, 5.4] },
+  { maxTriglycerides: 292, factors: [8.5, 7.6, 7.0, 6.5, 6.1, 5.6] },
+  { maxTriglycerides: 399, factors: [9.5, 8.3, 7.5, 7.0, 6.5, 5.9] },
+];
+
 // Application constants
 export const APP_CONFIG = {
   FRAMINGHAM_VERSION: '2008',
+  POOLED_COHORT_VERSION: '2013',
+  PREVENT_VERSION: '2023',
+  SCORE2_VERSION: '2021',
+  QRISK3_VERSION: '2017',
   CALCULATION_TIMEOUT_MS: 100,
   MAX_DECIMAL_PLACES: 1,
 };
 
+// Outcome display labels
+export const RISK_OUTCOME_LABELS: Record<RiskOutcome, string> = {
+  cvd: 'Total Cardiovascular Disease',
+  ascvd: 'Atherosclerotic Cardiovascular Disease',
+  heartFailure: 'Heart Failure',
+  stroke: 'Stroke',
+};
+
+// Outcome names in the "10-Year ... Risk" titles of results
+export const RISK_OUTCOME_TITLES: Record<RiskOutcome, string> = {
+  cvd: 'Cardiovascular',
+  ascvd: 'Cardiovascular',
+  heartFailure: 'Heart Failure',
+  stroke: 'Stroke',
+};
+
 // Form field options
 export const FORM_OPTIONS = {
   GENDER: [
     { value: 'male', label: 'Male' },
     { value: 'female', label: 'Female' },
   ],
+  RACE: [
+    { value: 'white', label: 'White' },
+    { value: 'african-american', label: 'African American' },
+    { value: 'chinese', label: 'Chinese' },
+    { value: 'hispanic', label: 'Hispanic' },
+    { value: 'other', label: 'Other' },
+  ],
+  RISK_REGION: [
+    { value: 'low', label: 'Low risk (e.g. France, Spain, Netherlands, UK)' },
+    { value: 'moderate', label: 'Moderate risk (e.g. Germany, Italy, Greece, Sweden)' },
+    { value: 'high', label: 'High risk (e.g. Poland, Hungary, Czechia, Turkey)' },
+    { value: 'very-high', label: 'Very high risk (e.g. Romania, Serbia, Ukraine, Egypt)' },
+  ],
+  ETHNICITY: [
+    { value: 'white', label: 'White or not stated' },
+    { value: 'indian', label: 'Indian' },
+    { value: 'pakistani', label: 'Pakistani' },
+    { value: 'bangladeshi', label: 'Bangladeshi' },
+    { value: 'other-asian', label: 'Other Asian' },
+    { value: 'black-caribbean', label: 'Black Caribbean' },
+    { value: 'black-african', label: 'Black African' },
+    { value: 'chinese', label: 'Chinese' },
+    { value: 'other', label: 'Other ethnic group' },
+  ],
+  SMOKING_INTENSITY: [
+    { value: 'light', label: 'Light (less than 10 a day)' },
+    { value: 'moderate', label: 'Moderate (10 to 19 a day)' },
+    { value: 'heavy', label: 'Heavy (20 or more a day)' },
+  ],
+  PARENTAL_HYPERTENSION: [
+    { value: 'none', label: 'Neither parent' },
+    { value: 'one', label: 'One parent' },
+    { value: 'both', label: 'Both parents' },
+  ],
+  DIABETES_TYPE: [
+    { value: 'type1', label: 'Type 1' },
+    { value: 'type2', label: 'Type 2' },
+  ],
   SMOKING_STATUS: [
     { value: 'never', label: 'Never smoked' },
     { value: 'former', label: 'Former smoker' },
@@ -80,6 +1410,18 @@ export const FORM_OPTIONS = {
     { value: 'mg/dL', label: 'mg/dL' },
     { value: 'mmol/L', label: 'mmol/L' },
   ],
+  HBA1C_UNITS: [
+    { value: '%', label: '%' },
+    { value: 'mmol/mol', label: 'mmol/mol' },
+  ],
+  GLUCOSE_TEST_TYPES: [
+    { value: 'fasting', label: 'Fasting (no food for 8+ hours)' },
+    { value: 'random', label: 'Random (non-fasting)' },
+  ],
+  BODY_MEASUREMENT_UNITS: [
+    { value: 'metric', label: 'Metric (cm, kg)' },
+    { value: 'imperial', label: 'Imperial (in, lb)' },
+  ],
 };
 
 // Error messages
@@ -1,7 +1,22 @@
-import type { PatientData, RiskResult, FraminghamCoefficients } from '../types';
-import { FRAMINGHAM_COEFFICIENTS, APP_CONFIG } from './constants';
+import type {
+  CalculationTrace,
+  PatientData,
+  RiskCalculationOptions,
+  RiskResult,
+  FraminghamCoefficients,
+} from '../types';
+import {
+  FRAMINGHAM_AGE_EXTRAPOLATION_RANGE,
+  FRAMINGHAM_COEFFICIENTS,
+  FRAMINGHAM_OPTIMAL_RISK_FACTORS,
+  HEART_AGE_RANGE,
+  APP_CONFIG,
+  VALIDATION_RULES,
+} from './constants';
 import { categorizeRisk, generateRecommendations } from './riskCategorization';
 import { withPerformanceMonitoring } from './performance';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { COX_RISK_FORMULA, createTraceTerm, indicator } from './calculationTrace';
 
 /**
  * Framingham Risk Score Calculator
@@ -14,7 +29,10 @@ import { withPerformanceMonitoring } from './performance';
  * @returns Risk result with percentage and detailed analysis
  */
 export const calculateFraminghamRisk = withPerformanceMonitoring(
-  function calculateFraminghamRiskInternal(patientData: PatientData): RiskResult {
+  function calculateFraminghamRiskInternal(
+    patientData: PatientData,
+    options: RiskCalculationOptions = {}
+  ): RiskResult {
   try {
     // Comprehensive input validation
     const validationErrors = validateFraminghamInputs(patientData);
@@ -71,11 +89,17 @@ export const calculateFraminghamRisk = withPerformanceMonitoring(
     return {
       tenYearRisk: Math.round(tenYearRisk * 10) / 10, // Round to 1 decimal place
       riskCategory,
+      heartAge: solveHeartAge(totalScore, coefficients),
+      riskEnhancers: identifyRiskEnhancers(patientData),
+      trace: options.includeTrace
+        ? buildFraminghamTrace(standardizedData, coefficients, totalScore, tenYearRisk)
+        : undefined,
       riskFactors,
       comparisonData,
       recommendations,
       calculatedAt: new Date(),
-      framinghamVersion: APP_CONFIG.FRAMINGHAM_VERSION,
+      modelId: 'framingham-2008',
+      modelVersion: APP_CONFIG.FRAMINGHAM_VERSION,
     };
   } catch (error) {
     throw new Error(`Framingham risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -132,10 +156,6 @@ function calculateRiskFactorScores(
     ? coefficients.diabetes 
     : 0;
   
-  // Family history is not part of the original Framingham algorithm
-  // but we'll include it as a modifier (simplified approach)
-  const familyHistoryScore = patientData.familyHistory ? 0.2 : 0;
-  
   return {
     age: ageScore,
     gender: 0, // Gender is handled by coefficient selection
@@ -143,33 +163,32 @@ function calculateRiskFactorScores(
     bloodPressure: bloodPressureScore,
     smoking: smokingScore,
     diabetes: diabetesScore,
-    familyHistory: familyHistoryScore,
+    familyHistory: 0, // Not part of the Framingham equations; reported as a risk enhancer
   };
 }
 
+// Gender-specific baseline survival probabilities at 10 years
+// These are derived from the Framingham Heart Study
+const BASELINE_SURVIVAL = {
+  male: 0.88431,    // 88.431% baseline 10-year survival for men
+  female: 0.95012,  // 95.012% baseline 10-year survival for women
+};
+
+// Mean scores for the reference population (from Framingham study)
+const MEAN_SCORES = {
+  male: 23.9802,
+  female: 26.1931,
+};
+
 /**
  * Converts the total risk score to a 10-year risk percentage
  * Uses gender-specific baseline survival functions from Framingham study
  */
 function convertScoreToRiskPercentage(totalScore: number, gender: 'male' | 'female'): number {
-  // Gender-specific baseline survival probabilities at 10 years
-  // These are derived from the Framingham Heart Study
-  const baselineSurvival = {
-    male: 0.88431,    // 88.431% baseline 10-year survival for men
-    female: 0.95012,  // 95.012% baseline 10-year survival for women
-  };
-  
   // Calculate risk using the Framingham formula
   // Risk = 1 - (baseline_survival ^ exp(total_score - mean_score))
-  
-  // Mean scores for the reference population (from Framingham study)
-  const meanScores = {
-    male: 23.9802,
-    female: 26.1931,
-  };
-  
-  const adjustedScore = totalScore - meanScores[gender];
-  const survivalProbability = Math.pow(baselineSurvival[gender], Math.exp(adjustedScore));
+  const adjustedScore = totalScore - MEAN_SCORES[gender];
+  const survivalProbability = Math.pow(BASELINE_SURVIVAL[gender], Math.exp(adjustedScore));
   const riskProbability = 1 - survivalProbability;
   
   // Convert to percentage and ensure it's within reasonable bounds
@@ -178,12 +197,88 @@ function convertScoreToRiskPercentage(totalScore: number, gender: 'male' | 'fema
   return riskPercentage;
 }
 
+/**
+ * Records each step of the calculation for the "show your work" trace
+ * @param patientData - Patient data standardized to mg/dL
+ */
+function buildFraminghamTrace(
+  patientData: PatientData,
+  coefficients: FraminghamCoefficients['male'] | FraminghamCoefficients['female'],
+  totalScore: number,
+  riskPercentage: number
+): CalculationTrace {
+  const treated = patientData.onBPMedication;
+  
+  return {
+    inputs: [
+      { label: 'Sex', value: patientData.gender },
+      { label: 'Age', value: patientData.age, unit: 'years' },
+      { label: 'Total cholesterol', value: patientData.totalCholesterol, unit: 'mg/dL' },
+      { label: 'HDL cholesterol', value: patientData.hdlCholesterol, unit: 'mg/dL' },
+      { label: 'Systolic BP', value: patientData.systolicBP, unit: 'mmHg' },
+      { label: 'On BP medication', value: treated ? 'Yes' : 'No' },
+      { label: 'Current smoker', value: patientData.smokingStatus === 'current' ? 'Yes' : 'No' },
+      { label: 'Diabetes', value: patientData.hasDiabetes ? 'Yes' : 'No' },
+    ],
+    terms: [
+      createTraceTerm('ln(Age)', Math.log(patientData.age), coefficients.age),
+      createTraceTerm('ln(Total cholesterol)', Math.log(patientData.totalCholesterol), coefficients.totalCholesterol),
+      createTraceTerm('ln(HDL cholesterol)', Math.log(patientData.hdlCholesterol), coefficients.hdlCholesterol),
+      createTraceTerm(
+        treated ? 'ln(Treated systolic BP)' : 'ln(Untreated systolic BP)',
+        Math.log(patientData.systolicBP),
+        treated ? coefficients.systolicBPTreated : coefficients.systolicBP
+      ),
+      createTraceTerm('Current smoker', indicator(patientData.smokingStatus === 'current'), coefficients.smoking),
+      createTraceTerm('Diabetes', indicator(patientData.hasDiabetes), coefficients.diabetes),
+    ],
+    sum: totalScore,
+    meanOffset: MEAN_SCORES[patientData.gender],
+    baselineSurvival: BASELINE_SURVIVAL[patientData.gender],
+    formula: COX_RISK_FORMULA,
+    risk: riskPercentage,
+  };
+}
+
 // Risk categorization is now handled by the riskCategorization module
 
+/**
+ * Calculates heart age: the age at which a person of the same sex with optimal
+ * risk factors would have the patient's Framingham risk
+ * @param patientData - Patient data with all required risk factors
+ * @returns Heart age in whole years, limited to HEART_AGE_RANGE
+ */
+export function calculateHeartAge(patientData: PatientData): number {
+  const standardizedData = standardizeUnits(patientData);
+  const coefficients = FRAMINGHAM_COEFFICIENTS[patientData.gender];
+  const totalScore = Object.values(calculateRiskFactorScores(standardizedData, coefficients))
+    .reduce((sum, score) => sum + score, 0);
+  
+  return solveHeartAge(totalScore, coefficients);
+}
+
+/**
+ * Solves coefficient.age * ln(heartAge) + optimal score = patient score for heartAge
+ * Equal scores give equal risk, so no survival function is needed
+ */
+function solveHeartAge(
+  totalScore: number,
+  coefficients: FraminghamCoefficients['male'] | FraminghamCoefficients['female']
+): number {
+  const optimalScoreWithoutAge =
+    coefficients.totalCholesterol * Math.log(FRAMINGHAM_OPTIMAL_RISK_FACTORS.totalCholesterol) +
+    coefficients.hdlCholesterol * Math.log(FRAMINGHAM_OPTIMAL_RISK_FACTORS.hdlCholesterol) +
+    coefficients.systolicBP * Math.log(FRAMINGHAM_OPTIMAL_RISK_FACTORS.systolicBP);
+  
+  const heartAge = Math.exp((totalScore - optimalScoreWithoutAge) / coefficients.age);
+  
+  return Math.round(Math.max(HEART_AGE_RANGE.min, Math.min(HEART_AGE_RANGE.max, heartAge)));
+}
+
 /**
  * Generates comparison data for the patient's demographic
  */
-function generateComparisonData(patientData: PatientData): RiskResult['comparisonData'] {
+export function generateComparisonData(patientData: PatientData): RiskResult['comparisonData'] {
   // These are approximate values based on population studies
   // In a real implementation, these would come from comprehensive datasets
   
@@ -224,12 +319,14 @@ function mmolLToMgDl(mmolL: number): number {
 
 /**
  * Validates that patient data contains all required fields for Framingham calculation
+ * Ages outside 30-79 are accepted when the user opted in to extrapolating the ln(age) term
  */
 export function validateFraminghamInputs(patientData: PatientData): string[] {
   const errors: string[] = [];
+  const ageRange = patientData.extrapolateAge ? FRAMINGHAM_AGE_EXTRAPOLATION_RANGE : VALIDATION_RULES.age;
   
-  if (!patientData.age || patientData.age < 30 || patientData.age > 79) {
-    errors.push('Age must be between 30 and 79 years');
+  if (!patientData.age || patientData.age < ageRange.min || patientData.age > ageRange.max) {
+    errors.push(`Age must be between ${ageRange.min} and ${ageRange.max} years`);
   }
   
   if (!patientData.gender || !['male', 'female'].includes(patientData.gender)) {
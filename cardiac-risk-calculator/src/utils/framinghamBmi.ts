@@ -0,0 +1,202 @@
+import type {
+  CalculationTrace,
+  FraminghamBmiCoefficientSet,
+  PatientData,
+  RiskCalculationOptions,
+  RiskResult,
+} from '../types';
+import {
+  APP_CONFIG,
+  FRAMINGHAM_AGE_EXTRAPOLATION_RANGE,
+  FRAMINGHAM_BMI_COEFFICIENTS,
+  FRAMINGHAM_OPTIMAL_BMI,
+  FRAMINGHAM_OPTIMAL_RISK_FACTORS,
+  HEART_AGE_RANGE,
+} from './constants';
+import { categorizeRisk, generateRecommendations } from './riskCategorization';
+import { generateComparisonData } from './framingham';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { calculateBmi } from './unitConverter';
+import { withPerformanceMonitoring } from './performance';
+import { COX_RISK_FORMULA, createTraceTerm, indicator } from './calculationTrace';
+
+/**
+ * Non-laboratory Framingham Risk Score Calculator
+ * Implements the office-based variant of the 2008 Framingham general CVD model, which
+ * replaces total and HDL cholesterol with body mass index so risk can be estimated
+ * without a blood test. BMI is calculated from height and weight in either unit system.
+ */
+
+export const FRAMINGHAM_BMI_AGE_RANGE = { min: 30, max: 74 };
+
+/**
+ * Calculates the 10-year cardiovascular risk using the non-laboratory Framingham model
+ * @param patientData - Patient data with height and weight instead of cholesterol
+ * @returns Risk result with percentage and detailed analysis
+ */
+export const calculateFraminghamBmiRisk = withPerformanceMonitoring(
+  function calculateFraminghamBmiRiskInternal(
+    patientData: PatientData,
+    options: RiskCalculationOptions = {}
+  ): RiskResult {
+  try {
+    const validationErrors = validateFraminghamBmiInputs(patientData);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const coefficients = FRAMINGHAM_BMI_COEFFICIENTS[patientData.gender];
+    const bmi = getPatientBmi(patientData);
+    const riskFactors = calculateRiskFactorScores(patientData, bmi, coefficients);
+    const totalScore = Object.values(riskFactors).reduce((sum, score) => sum + score, 0);
+
+    const tenYearRisk = 100 * (1 - Math.pow(coefficients.baselineSurvival, Math.exp(totalScore - coefficients.meanScore)));
+    if (!isFinite(tenYearRisk) || tenYearRisk < 0 || tenYearRisk > 100) {
+      throw new Error(`Invalid risk percentage calculated: ${tenYearRisk}`);
+    }
+
+    const riskCategory = categorizeRisk(tenYearRisk);
+
+    return {
+      tenYearRisk: Math.round(tenYearRisk * 10) / 10, // Round to 1 decimal place
+      riskCategory,
+      heartAge: solveHeartAge(totalScore, coefficients),
+      riskEnhancers: identifyRiskEnhancers(patientData),
+      trace: options.includeTrace
+        ? buildFraminghamBmiTrace(patientData, bmi, coefficients, totalScore, tenYearRisk)
+        : undefined,
+      riskFactors,
+      comparisonData: generateComparisonData(patientData),
+      recommendations: generateRecommendations(riskCategory, tenYearRisk, patientData),
+      calculatedAt: new Date(),
+      modelId: 'framingham-bmi-2008',
+      modelVersion: APP_CONFIG.FRAMINGHAM_VERSION,
+    };
+  } catch (error) {
+    throw new Error(`Non-laboratory Framingham risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}, 'risk-calculation');
+
+/**
+ * Gets the patient's BMI from height and weight (metric units unless stated)
+ * @returns BMI in kg/m²
+ */
+export function getPatientBmi(patientData: PatientData): number {
+  return calculateBmi(patientData.height!, patientData.weight!, patientData.bodyMeasurementUnit ?? 'metric');
+}
+
+/**
+ * Calculates individual risk factor scores; BMI is reported under cholesterol, the factor it replaces
+ */
+function calculateRiskFactorScores(
+  patientData: PatientData,
+  bmi: number,
+  c: FraminghamBmiCoefficientSet
+): RiskResult['riskFactors'] {
+  const bpCoefficient = patientData.onBPMedication ? c.systolicBPTreated : c.systolicBP;
+
+  return {
+    age: c.age * Math.log(patientData.age),
+    gender: 0, // Gender is handled by coefficient selection
+    cholesterol: c.bmi * Math.log(bmi),
+    bloodPressure: bpCoefficient * Math.log(patientData.systolicBP),
+    smoking: patientData.smokingStatus === 'current' ? c.smoking : 0,
+    diabetes: patientData.hasDiabetes ? c.diabetes : 0,
+    familyHistory: 0, // Not part of the Framingham equations; reported as a risk enhancer
+  };
+}
+
+/**
+ * Solves coefficient.age * ln(heartAge) + optimal score = patient score for heartAge
+ * The optimal profile is the lipid model's, with a BMI of 22.5 kg/m²
+ */
+function solveHeartAge(totalScore: number, c: FraminghamBmiCoefficientSet): number {
+  const optimalScoreWithoutAge =
+    c.bmi * Math.log(FRAMINGHAM_OPTIMAL_BMI) +
+    c.systolicBP * Math.log(FRAMINGHAM_OPTIMAL_RISK_FACTORS.systolicBP);
+
+  const heartAge = Math.exp((totalScore - optimalScoreWithoutAge) / c.age);
+
+  return Math.round(Math.max(HEART_AGE_RANGE.min, Math.min(HEART_AGE_RANGE.max, heartAge)));
+}
+
+/**
+ * Records each step of the calculation for the "show your work" trace
+ */
+function buildFraminghamBmiTrace(
+  patientData: PatientData,
+  bmi: number,
+  c: FraminghamBmiCoefficientSet,
+  totalScore: number,
+  riskPercentage: number
+): CalculationTrace {
+  const treated = patientData.onBPMedication;
+
+  return {
+    inputs: [
+      { label: 'Sex', value: patientData.gender },
+      { label: 'Age', value: patientData.age, unit: 'years' },
+      { label: 'BMI', value: Math.round(bmi * 10) / 10, unit: 'kg/m²' },
+      { label: 'Systolic BP', value: patientData.systolicBP, unit: 'mmHg' },
+      { label: 'On BP medication', value: treated ? 'Yes' : 'No' },
+      { label: 'Current smoker', value: patientData.smokingStatus === 'current' ? 'Yes' : 'No' },
+      { label: 'Diabetes', value: patientData.hasDiabetes ? 'Yes' : 'No' },
+    ],
+    terms: [
+      createTraceTerm('ln(Age)', Math.log(patientData.age), c.age),
+      createTraceTerm('ln(BMI)', Math.log(bmi), c.bmi),
+      createTraceTerm(
+        treated ? 'ln(Treated systolic BP)' : 'ln(Untreated systolic BP)',
+        Math.log(patientData.systolicBP),
+        treated ? c.systolicBPTreated : c.systolicBP
+      ),
+      createTraceTerm('Current smoker', indicator(patientData.smokingStatus === 'current'), c.smoking),
+      createTraceTerm('Diabetes', indicator(patientData.hasDiabetes), c.diabetes),
+    ],
+    sum: totalScore,
+    meanOffset: c.meanScore,
+    baselineSurvival: c.baselineSurvival,
+    formula: COX_RISK_FORMULA,
+    risk: riskPercentage,
+  };
+}
+
+/**
+ * Validates that patient data contains all required fields for the non-laboratory model
+ * Ages outside 30-74 are accepted when the user opted in to extrapolating the ln(age) term
+ */
+export function validateFraminghamBmiInputs(patientData: PatientData): string[] {
+  const errors: string[] = [];
+  const ageRange = patientData.extrapolateAge ? FRAMINGHAM_AGE_EXTRAPOLATION_RANGE : FRAMINGHAM_BMI_AGE_RANGE;
+
+  if (!patientData.age || patientData.age < ageRange.min || patientData.age > ageRange.max) {
+    errors.push(`Age must be between ${ageRange.min} and ${ageRange.max} years`);
+  }
+
+  if (!patientData.gender || !['male', 'female'].includes(patientData.gender)) {
+    errors.push('Gender must be specified as male or female');
+  }
+
+  if (!patientData.height || patientData.height <= 0) {
+    errors.push('Height must be provided and greater than 0');
+  }
+
+  if (!patientData.weight || patientData.weight <= 0) {
+    errors.push('Weight must be provided and greater than 0');
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0) {
+    errors.push('Systolic blood pressure must be provided and greater than 0');
+  }
+
+  if (!patientData.diastolicBP || patientData.diastolicBP <= 0) {
+    errors.push('Diastolic blood pressure must be provided and greater than 0');
+  }
+
+  if (patientData.systolicBP && patientData.diastolicBP &&
+      patientData.systolicBP <= patientData.diastolicBP) {
+    errors.push('Systolic blood pressure must be higher than diastolic blood pressure');
+  }
+
+  return errors;
+}
@@ -0,0 +1,221 @@
+import type {
+  CalculationTrace,
+  FraminghamStrokeCoefficientSet,
+  PatientData,
+  RiskCalculationOptions,
+  RiskResult,
+} from '../types';
+import {
+  FRAMINGHAM_OPTIMAL_RISK_FACTORS,
+  FRAMINGHAM_STROKE_COEFFICIENTS,
+  FRAMINGHAM_STROKE_SBP_REFERENCE,
+} from './constants';
+import { categorizeRisk, generateRecommendations, getRiskThresholdScheme } from './riskCategorization';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { withPerformanceMonitoring } from './performance';
+import { COX_RISK_FORMULA, createTraceTerm, indicator } from './calculationTrace';
+
+/**
+ * Framingham Stroke Risk Profile Calculator
+ * Implements the stroke risk profile revised for antihypertensive treatment (D'Agostino et al.,
+ * Stroke 1994). It predicts 10-year risk of stroke rather than general cardiovascular disease,
+ * and adds prior cardiovascular disease, atrial fibrillation and LVH on ECG to the usual factors.
+ */
+
+export const FRAMINGHAM_STROKE_AGE_RANGE = { min: 55, max: 84 };
+
+/**
+ * Calculates the 10-year stroke risk using the Framingham Stroke Risk Profile
+ * @param patientData - Patient data; cholesterol is not used
+ * @returns Risk result with percentage and detailed analysis
+ */
+export const calculateFraminghamStrokeRisk = withPerformanceMonitoring(
+  function calculateFraminghamStrokeRiskInternal(
+    patientData: PatientData,
+    options: RiskCalculationOptions = {}
+  ): RiskResult {
+  try {
+    const validationErrors = validateFraminghamStrokeInputs(patientData);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const coefficients = FRAMINGHAM_STROKE_COEFFICIENTS[patientData.gender];
+    const riskFactors = calculateRiskFactorScores(patientData, coefficients);
+    const totalScore = calculateStrokeScore(patientData, coefficients);
+
+    const tenYearRisk = calculateStrokeRiskPercentage(totalScore, coefficients);
+    if (!isFinite(tenYearRisk) || tenYearRisk < 0 || tenYearRisk > 100) {
+      throw new Error(`Invalid risk percentage calculated: ${tenYearRisk}`);
+    }
+
+    const riskCategory = categorizeRisk(tenYearRisk);
+
+    return {
+      tenYearRisk: Math.round(tenYearRisk * 10) / 10, // Round to 1 decimal place
+      riskCategory,
+      riskEnhancers: identifyRiskEnhancers(patientData),
+      trace: options.includeTrace
+        ? buildFraminghamStrokeTrace(patientData, coefficients, totalScore, tenYearRisk)
+        : undefined,
+      riskFactors,
+      comparisonData: generateStrokeComparisonData(patientData, coefficients),
+      recommendations: generateRecommendations(riskCategory, tenYearRisk, patientData, getRiskThresholdScheme(), {
+        outcome: 'stroke',
+      }),
+      calculatedAt: new Date(),
+      modelId: 'framingham-stroke-1994',
+      modelVersion: '1994',
+    };
+  } catch (error) {
+    throw new Error(`Framingham stroke risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}, 'risk-calculation');
+
+/**
+ * Checks whether the patient has what the stroke profile needs, including an age of 55-84
+ */
+export function isStrokeRiskApplicable(patientData: PatientData): boolean {
+  return validateFraminghamStrokeInputs(patientData).length === 0;
+}
+
+/**
+ * Converts a linear predictor to a 10-year risk percentage
+ */
+function calculateStrokeRiskPercentage(totalScore: number, c: FraminghamStrokeCoefficientSet): number {
+  return 100 * (1 - Math.pow(c.baselineSurvival, Math.exp(totalScore - c.meanScore)));
+}
+
+/**
+ * Sums every term of the stroke profile, including the conditions not reported as risk factors
+ */
+function calculateStrokeScore(patientData: PatientData, c: FraminghamStrokeCoefficientSet): number {
+  const riskFactors = calculateRiskFactorScores(patientData, c);
+
+  return (
+    Object.values(riskFactors).reduce((sum, score) => sum + score, 0) +
+    (patientData.hasCardiovascularDisease ? c.cardiovascularDisease : 0) +
+    (patientData.hasAtrialFibrillation ? c.atrialFibrillation : 0) +
+    (patientData.hasLeftVentricularHypertrophy ? c.leftVentricularHypertrophy : 0)
+  );
+}
+
+/**
+ * Calculates individual risk factor scores
+ */
+function calculateRiskFactorScores(
+  patientData: PatientData,
+  c: FraminghamStrokeCoefficientSet
+): RiskResult['riskFactors'] {
+  const bpCoefficient = patientData.onBPMedication ? c.systolicBPTreated : c.systolicBP;
+
+  return {
+    age: c.age * patientData.age,
+    gender: 0, // Gender is handled by coefficient selection
+    cholesterol: 0, // Not part of the stroke profile
+    bloodPressure: bpCoefficient * (patientData.systolicBP - FRAMINGHAM_STROKE_SBP_REFERENCE),
+    smoking: patientData.smokingStatus === 'current' ? c.smoking : 0,
+    diabetes: patientData.hasDiabetes ? c.diabetes : 0,
+    familyHistory: 0, // Not part of the stroke profile; reported as a risk enhancer
+  };
+}
+
+/**
+ * Compares the patient with the cohort average at the same age, the cohort average for their
+ * sex, and the same age with optimal blood pressure and none of the other factors
+ */
+function generateStrokeComparisonData(
+  patientData: PatientData,
+  c: FraminghamStrokeCoefficientSet
+): RiskResult['comparisonData'] {
+  const idealScore = calculateStrokeScore(
+    {
+      ...patientData,
+      systolicBP: FRAMINGHAM_OPTIMAL_RISK_FACTORS.systolicBP,
+      onBPMedication: false,
+      smokingStatus: 'never',
+      hasDiabetes: false,
+      hasCardiovascularDisease: false,
+      hasAtrialFibrillation: false,
+      hasLeftVentricularHypertrophy: false,
+    },
+    c
+  );
+
+  const round = (risk: number) => Math.round(risk * 10) / 10;
+
+  return {
+    averageForAge: round(calculateStrokeRiskPercentage(c.meanScore + c.age * (patientData.age - c.meanAge), c)),
+    averageForGender: round(calculateStrokeRiskPercentage(c.meanScore, c)),
+    idealRisk: round(calculateStrokeRiskPercentage(idealScore, c)),
+  };
+}
+
+/**
+ * Records each step of the calculation for the "show your work" trace
+ */
+function buildFraminghamStrokeTrace(
+  patientData: PatientData,
+  c: FraminghamStrokeCoefficientSet,
+  totalScore: number,
+  riskPercentage: number
+): CalculationTrace {
+  const treated = patientData.onBPMedication;
+
+  return {
+    inputs: [
+      { label: 'Sex', value: patientData.gender },
+      { label: 'Age', value: patientData.age, unit: 'years' },
+      { label: 'Systolic BP', value: patientData.systolicBP, unit: 'mmHg' },
+      { label: 'On BP medication', value: treated ? 'Yes' : 'No' },
+      { label: 'Current smoker', value: patientData.smokingStatus === 'current' ? 'Yes' : 'No' },
+      { label: 'Diabetes', value: patientData.hasDiabetes ? 'Yes' : 'No' },
+      { label: 'Cardiovascular disease', value: patientData.hasCardiovascularDisease ? 'Yes' : 'No' },
+      { label: 'Atrial fibrillation', value: patientData.hasAtrialFibrillation ? 'Yes' : 'No' },
+      { label: 'LVH on ECG', value: patientData.hasLeftVentricularHypertrophy ? 'Yes' : 'No' },
+    ],
+    terms: [
+      createTraceTerm('Age', patientData.age, c.age),
+      createTraceTerm(
+        treated ? 'Treated systolic BP - 100' : 'Untreated systolic BP - 100',
+        patientData.systolicBP - FRAMINGHAM_STROKE_SBP_REFERENCE,
+        treated ? c.systolicBPTreated : c.systolicBP
+      ),
+      createTraceTerm('Diabetes', indicator(patientData.hasDiabetes), c.diabetes),
+      createTraceTerm('Current smoker', indicator(patientData.smokingStatus === 'current'), c.smoking),
+      createTraceTerm('Cardiovascular disease', indicator(patientData.hasCardiovascularDisease), c.cardiovascularDisease),
+      createTraceTerm('Atrial fibrillation', indicator(patientData.hasAtrialFibrillation), c.atrialFibrillation),
+      createTraceTerm('LVH on ECG', indicator(patientData.hasLeftVentricularHypertrophy), c.leftVentricularHypertrophy),
+    ],
+    sum: totalScore,
+    meanOffset: c.meanScore,
+    baselineSurvival: c.baselineSurvival,
+    formula: COX_RISK_FORMULA,
+    risk: riskPercentage,
+  };
+}
+
+/**
+ * Validates that patient data contains all required fields for the stroke profile
+ */
+export function validateFraminghamStrokeInputs(patientData: PatientData): string[] {
+  const errors: string[] = [];
+
+  if (
+    !patientData.age ||
+    patientData.age < FRAMINGHAM_STROKE_AGE_RANGE.min ||
+    patientData.age > FRAMINGHAM_STROKE_AGE_RANGE.max
+  ) {
+    errors.push(`Age must be between ${FRAMINGHAM_STROKE_AGE_RANGE.min} and ${FRAMINGHAM_STROKE_AGE_RANGE.max} years`);
+  }
+
+  if (!patientData.gender || !['male', 'female'].includes(patientData.gender)) {
+    errors.push('Gender must be specified as male or female');
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0) {
+    errors.push('Systolic blood pressure must be provided and greater than 0');
+  }
+
+  return errors;
+}
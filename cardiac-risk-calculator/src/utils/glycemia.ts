@@ -0,0 +1,119 @@
+import type { GlucoseTestType, GlycemicAssessment, GlycemicStatus, PatientData } from '../types';
+import { GLYCEMIC_STATUS_LABELS, GLYCEMIC_THRESHOLDS } from './constants';
+import { convertGlucoseToMgDl, convertHbA1cToPercent } from './unitConverter';
+
+/**
+ * Glycemic Status Classification
+ * Interprets HbA1c and blood glucose with the ADA diagnostic criteria, and flags results in
+ * the diabetes range for a patient who has not reported a diabetes diagnosis.
+ */
+
+const STATUS_ORDER: GlycemicStatus[] = ['normal', 'prediabetes', 'diabetes'];
+
+/**
+ * Classifies an HbA1c result
+ * @param hba1cPercent - HbA1c in percent (NGSP)
+ */
+export function classifyHbA1c(hba1cPercent: number): GlycemicStatus {
+  if (hba1cPercent >= GLYCEMIC_THRESHOLDS.HBA1C_DIABETES) {
+    return 'diabetes';
+  }
+  if (hba1cPercent >= GLYCEMIC_THRESHOLDS.HBA1C_PREDIABETES) {
+    return 'prediabetes';
+  }
+  return 'normal';
+}
+
+/**
+ * Classifies a blood glucose result
+ * A random reading only identifies the diabetes range, so below it the result is not classified
+ * @param glucoseMgDl - Blood glucose in mg/dL
+ * @param testType - Whether the sample was taken fasting
+ */
+export function classifyGlucose(glucoseMgDl: number, testType: GlucoseTestType): GlycemicStatus | undefined {
+  if (testType === 'random') {
+    return glucoseMgDl >= GLYCEMIC_THRESHOLDS.RANDOM_GLUCOSE_DIABETES ? 'diabetes' : undefined;
+  }
+  if (glucoseMgDl >= GLYCEMIC_THRESHOLDS.FASTING_GLUCOSE_DIABETES) {
+    return 'diabetes';
+  }
+  if (glucoseMgDl >= GLYCEMIC_THRESHOLDS.FASTING_GLUCOSE_PREDIABETES) {
+    return 'prediabetes';
+  }
+  return 'normal';
+}
+
+/**
+ * Assesses the patient's glycemic status from whichever of HbA1c and blood glucose were entered
+ * When the tests disagree, the higher category applies
+ * @param patientData - Patient data
+ * @returns The assessment, or undefined when no result can be classified
+ */
+export function assessGlycemicStatus(patientData: PatientData): GlycemicAssessment | undefined {
+  const results: Array<{ status: GlycemicStatus; description: string }> = [];
+  let hba1cPercent: number | undefined;
+  let glucoseMgDl: number | undefined;
+
+  if (typeof patientData.hba1c === 'number' && !isNaN(patientData.hba1c)) {
+    const unit = patientData.hba1cUnit ?? '%';
+    hba1cPercent = convertHbA1cToPercent(patientData.hba1c, unit);
+    results.push({
+      status: classifyHbA1c(hba1cPercent),
+      description: `HbA1c ${patientData.hba1c}${unit === '%' ? '%' : ' mmol/mol'}`,
+    });
+  }
+
+  if (typeof patientData.bloodGlucose === 'number' && !isNaN(patientData.bloodGlucose)) {
+    const testType = patientData.glucoseTestType ?? 'fasting';
+    glucoseMgDl = convertGlucoseToMgDl(patientData.bloodGlucose, patientData.glucoseUnit);
+    const status = classifyGlucose(glucoseMgDl, testType);
+    if (status) {
+      results.push({
+        status,
+        description: `${testType === 'fasting' ? 'Fasting' : 'Random'} glucose ${patientData.bloodGlucose} ${patientData.glucoseUnit}`,
+      });
+    }
+  }
+
+  if (results.length === 0) {
+    return undefined;
+  }
+
+  const status = results.reduce<GlycemicStatus>(
+    (highest, result) => (STATUS_ORDER.indexOf(result.status) > STATUS_ORDER.indexOf(highest) ? result.status : highest),
+    'normal'
+  );
+
+  return {
+    status,
+    basis: results.filter(result => result.status === status).map(result => result.description),
+    hba1cPercent,
+    glucoseMgDl,
+    diabetesStatusMismatch: status === 'diabetes' && !patientData.hasDiabetes,
+  };
+}
+
+/**
+ * Gets the display label for a glycemic status
+ */
+export function getGlycemicStatusLabel(status: GlycemicStatus): string {
+  return GLYCEMIC_STATUS_LABELS[status];
+}
+
+/**
+ * Gets glycemic status color for UI display
+ * @param status - Glycemic status
+ * @returns Color code for UI styling
+ */
+export function getGlycemicStatusColor(status: GlycemicStatus): string {
+  switch (status) {
+    case 'normal':
+      return '#22c55e'; // Green
+    case 'prediabetes':
+      return '#f97316'; // Orange
+    case 'diabetes':
+      return '#ef4444'; // Red
+    default:
+      return '#6b7280'; // Gray
+  }
+}
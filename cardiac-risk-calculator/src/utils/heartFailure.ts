@@ -0,0 +1,327 @@
+import type {
+  CalculationTrace,
+  HeartFailureCoefficientSet,
+  PatientData,
+  RiskCalculationOptions,
+  RiskResult,
+} from '../types';
+import {
+  FRAMINGHAM_OPTIMAL_BMI,
+  FRAMINGHAM_OPTIMAL_RISK_FACTORS,
+  HEART_FAILURE_AVERAGE_RISK_FACTORS,
+  HEART_FAILURE_COEFFICIENTS,
+  HEART_FAILURE_OPTIMAL_RISK_FACTORS,
+} from './constants';
+import { categorizeRisk, generateHeartFailureRecommendations } from './riskCategorization';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { withPerformanceMonitoring } from './performance';
+import { COX_RISK_FORMULA, createTraceTerm, indicator } from './calculationTrace';
+import { convertCholesterolToMgDl, convertGlucoseToMgDl, getBmi } from './unitConverter';
+
+/**
+ * Heart Failure Risk Calculator
+ * Implements the sex- and race-specific Pooled Cohort Equations to Prevent Heart Failure (PCP-HF;
+ * Khan et al., JAMA Cardiol 2020) for 10-year risk of incident heart failure from age, systolic
+ * BP by treatment, fasting glucose by treatment, smoking, cholesterol, BMI and QRS duration.
+ * Glucose counts as treated in patients with diabetes. The published equations have no term for a
+ * prior myocardial infarction, so it does not change the risk.
+ */
+
+export const HEART_FAILURE_AGE_RANGE = { min: 30, max: 79 };
+
+/**
+ * Calculates the 10-year heart failure risk
+ * @param patientData - Patient data with race, cholesterol, fasting glucose, QRS duration and BMI
+ *   (entered or from height and weight)
+ * @returns Risk result with percentage, detailed analysis and heart failure recommendations
+ */
+export const calculateHeartFailureRisk = withPerformanceMonitoring(
+  function calculateHeartFailureRiskInternal(
+    patientData: PatientData,
+    options: RiskCalculationOptions = {}
+  ): RiskResult {
+  try {
+    const validationErrors = validateHeartFailureInputs(patientData);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const bmi = getBmi(patientData);
+    if (bmi === undefined) {
+      throw new Error('BMI, or height and weight, must be provided');
+    }
+
+    const coefficients = getHeartFailureCoefficients(patientData);
+    const riskFactors = calculateRiskFactorScores(patientData, coefficients);
+    const totalScore = calculateHeartFailureScore(patientData, bmi, coefficients);
+
+    const tenYearRisk = calculateHeartFailureRiskPercentage(totalScore, coefficients);
+    if (!isFinite(tenYearRisk) || tenYearRisk < 0 || tenYearRisk > 100) {
+      throw new Error(`Invalid risk percentage calculated: ${tenYearRisk}`);
+    }
+
+    const riskCategory = categorizeRisk(tenYearRisk);
+
+    return {
+      tenYearRisk: Math.round(tenYearRisk * 10) / 10, // Round to 1 decimal place
+      riskCategory,
+      riskEnhancers: identifyRiskEnhancers(patientData),
+      trace: options.includeTrace
+        ? buildHeartFailureTrace(patientData, bmi, coefficients, totalScore, tenYearRisk)
+        : undefined,
+      riskFactors,
+      comparisonData: generateHeartFailureComparisonData(patientData, coefficients),
+      recommendations: generateHeartFailureRecommendations(riskCategory, tenYearRisk, patientData),
+      calculatedAt: new Date(),
+      modelId: 'pcp-hf-2019',
+      modelVersion: '2019',
+    };
+  } catch (error) {
+    throw new Error(`Heart failure risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}, 'risk-calculation');
+
+/**
+ * Checks whether the patient has what the heart failure model needs: an age of 30-79,
+ * cholesterol, a fasting glucose, a BMI and a QRS duration
+ */
+export function isHeartFailureRiskApplicable(patientData: PatientData): boolean {
+  return validateHeartFailureInputs(patientData).length === 0;
+}
+
+/**
+ * Selects the sex- and race-specific coefficient set
+ * As with the Pooled Cohort Equations, the white equations are used for other races
+ */
+export function getHeartFailureCoefficients(patientData: PatientData): HeartFailureCoefficientSet {
+  const sexCoefficients = HEART_FAILURE_COEFFICIENTS[patientData.gender];
+  return patientData.race === 'african-american'
+    ? sexCoefficients.africanAmerican
+    : sexCoefficients.white;
+}
+
+/**
+ * Gets the patient's glucose in mg/dL
+ */
+function getGlucoseMgDl(patientData: PatientData): number {
+  return convertGlucoseToMgDl(patientData.bloodGlucose!, patientData.glucoseUnit);
+}
+
+/**
+ * Converts a linear predictor to a 10-year risk percentage
+ */
+function calculateHeartFailureRiskPercentage(totalScore: number, c: HeartFailureCoefficientSet): number {
+  return 100 * (1 - Math.pow(c.baselineSurvival, Math.exp(totalScore - c.meanScore)));
+}
+
+/**
+ * Sums every term of the model, including the BMI and QRS duration terms that are not reported
+ * as risk factors
+ */
+function calculateHeartFailureScore(patientData: PatientData, bmi: number, c: HeartFailureCoefficientSet): number {
+  const riskFactors = calculateRiskFactorScores(patientData, c);
+  const lnAge = Math.log(patientData.age);
+  const lnBmi = Math.log(bmi);
+
+  return (
+    Object.values(riskFactors).reduce((sum, score) => sum + score, 0) +
+    c.lnBmi * lnBmi +
+    c.lnAgeLnBmi * lnAge * lnBmi +
+    c.lnQrsDuration * Math.log(patientData.qrsDuration!)
+  );
+}
+
+/**
+ * Calculates individual risk factor scores
+ * Age interaction terms are attributed to the factor they modify
+ */
+function calculateRiskFactorScores(
+  patientData: PatientData,
+  c: HeartFailureCoefficientSet
+): RiskResult['riskFactors'] {
+  const lnAge = Math.log(patientData.age);
+  const lnSystolicBP = Math.log(patientData.systolicBP);
+  const lnGlucose = Math.log(getGlucoseMgDl(patientData));
+
+  const bloodPressureTerm = patientData.onBPMedication
+    ? c.lnTreatedSystolicBP * lnSystolicBP + c.lnAgeLnTreatedSystolicBP * lnAge * lnSystolicBP
+    : c.lnUntreatedSystolicBP * lnSystolicBP + c.lnAgeLnUntreatedSystolicBP * lnAge * lnSystolicBP;
+
+  return {
+    age: c.lnAge * lnAge + c.lnAgeSquared * lnAge * lnAge,
+    gender: 0, // Sex is handled by coefficient selection
+    cholesterol:
+      c.lnTotalCholesterol * Math.log(convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit)) +
+      c.lnHdlCholesterol * Math.log(convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit)),
+    bloodPressure: bloodPressureTerm,
+    smoking: patientData.smokingStatus === 'current' ? c.smoking + c.lnAgeSmoking * lnAge : 0,
+    diabetes: (patientData.hasDiabetes ? c.lnTreatedGlucose : c.lnUntreatedGlucose) * lnGlucose, // Fasting glucose
+    familyHistory: 0, // Not part of the heart failure model; reported as a risk enhancer
+  };
+}
+
+/**
+ * Compares the patient with a typical adult of the same age, the cohort average for their sex
+ * and race, and the same age with optimal blood pressure, glucose, cholesterol, BMI and QRS duration
+ */
+function generateHeartFailureComparisonData(
+  patientData: PatientData,
+  c: HeartFailureCoefficientSet
+): RiskResult['comparisonData'] {
+  const healthyProfile: PatientData = {
+    ...patientData,
+    onBPMedication: false,
+    hasDiabetes: false,
+    glucoseUnit: 'mg/dL',
+    cholesterolUnit: 'mg/dL',
+    smokingStatus: 'never',
+  };
+
+  const averageScore = calculateHeartFailureScore(
+    {
+      ...healthyProfile,
+      systolicBP: HEART_FAILURE_AVERAGE_RISK_FACTORS.systolicBP,
+      bloodGlucose: HEART_FAILURE_AVERAGE_RISK_FACTORS.glucose,
+      totalCholesterol: HEART_FAILURE_AVERAGE_RISK_FACTORS.totalCholesterol,
+      hdlCholesterol: HEART_FAILURE_AVERAGE_RISK_FACTORS.hdlCholesterol,
+      qrsDuration: HEART_FAILURE_AVERAGE_RISK_FACTORS.qrsDuration,
+    },
+    HEART_FAILURE_AVERAGE_RISK_FACTORS.bmi,
+    c
+  );
+
+  const idealScore = calculateHeartFailureScore(
+    {
+      ...healthyProfile,
+      systolicBP: HEART_FAILURE_OPTIMAL_RISK_FACTORS.systolicBP,
+      bloodGlucose: HEART_FAILURE_OPTIMAL_RISK_FACTORS.glucose,
+      totalCholesterol: FRAMINGHAM_OPTIMAL_RISK_FACTORS.totalCholesterol,
+      hdlCholesterol: FRAMINGHAM_OPTIMAL_RISK_FACTORS.hdlCholesterol,
+      qrsDuration: HEART_FAILURE_OPTIMAL_RISK_FACTORS.qrsDuration,
+    },
+    FRAMINGHAM_OPTIMAL_BMI,
+    c
+  );
+
+  const round = (risk: number) => Math.round(risk * 10) / 10;
+
+  return {
+    averageForAge: round(calculateHeartFailureRiskPercentage(averageScore, c)),
+    averageForGender: round(calculateHeartFailureRiskPercentage(c.meanScore, c)),
+    idealRisk: round(calculateHeartFailureRiskPercentage(idealScore, c)),
+  };
+}
+
+/**
+ * Records each step of the calculation for the "show your work" trace
+ */
+function buildHeartFailureTrace(
+  patientData: PatientData,
+  bmi: number,
+  c: HeartFailureCoefficientSet,
+  totalScore: number,
+  riskPercentage: number
+): CalculationTrace {
+  const treated = patientData.onBPMedication;
+  const glucoseTreated = patientData.hasDiabetes;
+  const totalCholesterol = convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit);
+  const hdlCholesterol = convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit);
+  const glucose = getGlucoseMgDl(patientData);
+  const qrsDuration = patientData.qrsDuration!;
+  const lnAge = Math.log(patientData.age);
+  const lnSystolicBP = Math.log(patientData.systolicBP);
+  const lnBmi = Math.log(bmi);
+  const smoker = indicator(patientData.smokingStatus === 'current');
+
+  return {
+    inputs: [
+      { label: 'Sex', value: patientData.gender },
+      { label: 'Equation', value: patientData.race === 'african-american' ? 'Black' : 'White' },
+      { label: 'Age', value: patientData.age, unit: 'years' },
+      { label: 'Systolic BP', value: patientData.systolicBP, unit: 'mmHg' },
+      { label: 'On BP medication', value: treated ? 'Yes' : 'No' },
+      { label: 'Fasting glucose', value: Math.round(glucose), unit: 'mg/dL' },
+      { label: 'Diabetes', value: glucoseTreated ? 'Yes' : 'No' },
+      { label: 'Current smoker', value: smoker ? 'Yes' : 'No' },
+      { label: 'Total cholesterol', value: totalCholesterol, unit: 'mg/dL' },
+      { label: 'HDL cholesterol', value: hdlCholesterol, unit: 'mg/dL' },
+      { label: 'BMI', value: Math.round(bmi * 10) / 10, unit: 'kg/m²' },
+      { label: 'QRS duration', value: qrsDuration, unit: 'ms' },
+    ],
+    terms: [
+      createTraceTerm('ln(Age)', lnAge, c.lnAge),
+      createTraceTerm('ln(Age)²', lnAge * lnAge, c.lnAgeSquared),
+      treated
+        ? createTraceTerm('ln(Treated systolic BP)', lnSystolicBP, c.lnTreatedSystolicBP)
+        : createTraceTerm('ln(Untreated systolic BP)', lnSystolicBP, c.lnUntreatedSystolicBP),
+      treated
+        ? createTraceTerm('ln(Age) × ln(Treated systolic BP)', lnAge * lnSystolicBP, c.lnAgeLnTreatedSystolicBP)
+        : createTraceTerm('ln(Age) × ln(Untreated systolic BP)', lnAge * lnSystolicBP, c.lnAgeLnUntreatedSystolicBP),
+      createTraceTerm('Current smoker', smoker, c.smoking),
+      createTraceTerm('ln(Age) × Current smoker', lnAge * smoker, c.lnAgeSmoking),
+      glucoseTreated
+        ? createTraceTerm('ln(Treated fasting glucose)', Math.log(glucose), c.lnTreatedGlucose)
+        : createTraceTerm('ln(Untreated fasting glucose)', Math.log(glucose), c.lnUntreatedGlucose),
+      createTraceTerm('ln(Total cholesterol)', Math.log(totalCholesterol), c.lnTotalCholesterol),
+      createTraceTerm('ln(HDL cholesterol)', Math.log(hdlCholesterol), c.lnHdlCholesterol),
+      createTraceTerm('ln(BMI)', lnBmi, c.lnBmi),
+      createTraceTerm('ln(Age) × ln(BMI)', lnAge * lnBmi, c.lnAgeLnBmi),
+      createTraceTerm('ln(QRS duration)', Math.log(qrsDuration), c.lnQrsDuration),
+    ],
+    sum: totalScore,
+    meanOffset: c.meanScore,
+    baselineSurvival: c.baselineSurvival,
+    formula: COX_RISK_FORMULA,
+    risk: riskPercentage,
+  };
+}
+
+/**
+ * Validates that patient data contains all required fields for the heart failure model
+ */
+export function validateHeartFailureInputs(patientData: PatientData): string[] {
+  const errors: string[] = [];
+
+  if (
+    !patientData.age ||
+    patientData.age < HEART_FAILURE_AGE_RANGE.min ||
+    patientData.age > HEART_FAILURE_AGE_RANGE.max
+  ) {
+    errors.push(`Age must be between ${HEART_FAILURE_AGE_RANGE.min} and ${HEART_FAILURE_AGE_RANGE.max} years`);
+  }
+
+  if (!patientData.gender || !['male', 'female'].includes(patientData.gender)) {
+    errors.push('Gender must be specified as male or female');
+  }
+
+  if (!patientData.race || !['white', 'african-american', 'chinese', 'hispanic', 'other'].includes(patientData.race)) {
+    errors.push('Race must be specified as white, African American or other');
+  }
+
+  if (!patientData.totalCholesterol || patientData.totalCholesterol <= 0) {
+    errors.push('Total cholesterol must be provided and greater than 0');
+  }
+
+  if (!patientData.hdlCholesterol || patientData.hdlCholesterol <= 0) {
+    errors.push('HDL cholesterol must be provided and greater than 0');
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0) {
+    errors.push('Systolic blood pressure must be provided and greater than 0');
+  }
+
+  if (!patientData.bloodGlucose || patientData.bloodGlucose <= 0 || patientData.glucoseTestType === 'random') {
+    errors.push('Fasting blood glucose must be provided and greater than 0');
+  }
+
+  const bmi = getBmi(patientData);
+  if (!bmi || !isFinite(bmi) || bmi <= 0) {
+    errors.push('BMI, or height and weight, must be provided');
+  }
+
+  if (!patientData.qrsDuration || patientData.qrsDuration <= 0) {
+    errors.push('QRS duration must be provided and greater than 0');
+  }
+
+  return errors;
+}
@@ -0,0 +1,109 @@
+import type { HypertensionRiskResult, PatientData } from '../types';
+import { FRAMINGHAM_HYPERTENSION_COEFFICIENTS } from './constants';
+import { getBmi } from './unitConverter';
+
+/**
+ * Framingham Hypertension Risk Score (Parikh et al., Ann Intern Med 2008)
+ * Estimates the 1-, 2- and 4-year risk of developing hypertension (140/90 mmHg or more, or starting
+ * treatment) for adults whose blood pressure is below 140/90 mmHg without medication. Uses the
+ * BMI entered for the PREVENT equations or calculated from height and weight.
+ */
+
+export const HYPERTENSION_RISK_AGE_RANGE = { min: 20, max: 69 };
+
+// Blood pressure (mmHg) at or above which the patient already has hypertension
+const HYPERTENSION_SYSTOLIC_THRESHOLD = 140;
+const HYPERTENSION_DIASTOLIC_THRESHOLD = 90;
+
+/**
+ * Checks whether the hypertension risk score can be calculated: the patient is untreated with
+ * blood pressure below 140/90 mmHg, aged 20-69, with a BMI
+ */
+export function isHypertensionRiskApplicable(patientData: PatientData): boolean {
+  return validateHypertensionRiskInputs(patientData).length === 0;
+}
+
+/**
+ * Calculates the risk of developing hypertension over 1, 2 and 4 years
+ * @param patientData - Normotensive patient data with BMI or height and weight
+ * @returns Risks rounded to 1 decimal place
+ */
+export function calculateHypertensionRisk(patientData: PatientData): HypertensionRiskResult {
+  try {
+    const validationErrors = validateHypertensionRiskInputs(patientData);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const bmi = getBmi(patientData);
+    if (bmi === undefined) {
+      throw new Error('BMI, or height and weight, must be provided');
+    }
+
+    const c = FRAMINGHAM_HYPERTENSION_COEFFICIENTS;
+    const parentalTerm =
+      patientData.parentalHypertension === 'both' ? c.bothParentsHypertension :
+      patientData.parentalHypertension === 'one' ? c.oneParentHypertension :
+      0;
+    const linearPredictor =
+      c.intercept +
+      c.age * patientData.age +
+      (patientData.gender === 'female' ? c.female : 0) +
+      c.systolicBP * patientData.systolicBP +
+      c.diastolicBP * patientData.diastolicBP +
+      c.bmi * bmi +
+      (patientData.smokingStatus === 'current' ? c.smoking : 0) +
+      parentalTerm +
+      c.ageDiastolicBP * patientData.age * patientData.diastolicBP;
+
+    const riskAt = (years: number): number => {
+      const risk = 100 * (1 - Math.exp(-Math.exp((Math.log(years) - linearPredictor) / c.scale)));
+      if (!isFinite(risk) || risk < 0 || risk > 100) {
+        throw new Error(`Invalid risk percentage calculated: ${risk}`);
+      }
+      return Math.round(risk * 10) / 10; // Round to 1 decimal place
+    };
+
+    return {
+      oneYearRisk: riskAt(1),
+      twoYearRisk: riskAt(2),
+      fourYearRisk: riskAt(4),
+    };
+  } catch (error) {
+    throw new Error(`Hypertension risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Validates that patient data suits the hypertension risk score
+ */
+export function validateHypertensionRiskInputs(patientData: PatientData): string[] {
+  const errors: string[] = [];
+
+  if (
+    !patientData.age ||
+    patientData.age < HYPERTENSION_RISK_AGE_RANGE.min ||
+    patientData.age > HYPERTENSION_RISK_AGE_RANGE.max
+  ) {
+    errors.push(`Age must be between ${HYPERTENSION_RISK_AGE_RANGE.min} and ${HYPERTENSION_RISK_AGE_RANGE.max} years`);
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0 || !patientData.diastolicBP || patientData.diastolicBP <= 0) {
+    errors.push('Blood pressure must be provided and greater than 0');
+  } else if (
+    patientData.systolicBP >= HYPERTENSION_SYSTOLIC_THRESHOLD ||
+    patientData.diastolicBP >= HYPERTENSION_DIASTOLIC_THRESHOLD
+  ) {
+    errors.push(`Blood pressure must be below ${HYPERTENSION_SYSTOLIC_THRESHOLD}/${HYPERTENSION_DIASTOLIC_THRESHOLD} mmHg`);
+  }
+
+  if (patientData.onBPMedication) {
+    errors.push('Patient must not be on blood pressure medication');
+  }
+
+  if (getBmi(patientData) === undefined) {
+    errors.push('BMI, or height and weight, must be provided');
+  }
+
+  return errors;
+}
@@ -2,6 +2,7 @@
 
 export * from './constants';
 export * from './framingham';
+export * from './riskModels';
 export * from './unitConverter';
 export * from './riskCategorization';
 export * from './validation';
@@ -0,0 +1,92 @@
+import type { LifetimeRiskCategory, LifetimeRiskResult, PatientData, RiskResult } from '../types';
+import { LIFETIME_RISK, LIFETIME_RISK_FACTOR_LEVELS } from './constants';
+import { convertCholesterolToMgDl } from './unitConverter';
+
+/**
+ * Lifetime Risk (Lloyd-Jones et al., Circulation 2006)
+ * Estimates the risk of a cardiovascular event by age 95 from the aggregate burden
+ * of cholesterol, blood pressure, smoking and diabetes. Younger adults often have a
+ * low 10-year risk despite a high lifetime risk, so the estimate is offered to them.
+ */
+
+export const LIFETIME_RISK_MAX_AGE = 50;
+
+type RiskFactorLevel = 'optimal' | 'notOptimal' | 'elevated' | 'major';
+
+/**
+ * Checks whether the lifetime estimate should be shown alongside a 10-year result
+ * @param patientData - Patient data used for the 10-year result
+ * @param riskResult - The 10-year result
+ */
+export function isLifetimeRiskApplicable(patientData: PatientData, riskResult: RiskResult): boolean {
+  return patientData.age < LIFETIME_RISK_MAX_AGE && riskResult.riskCategory === 'low';
+}
+
+/**
+ * Calculates lifetime CVD risk from the patient's risk factor category
+ * @param patientData - Patient data with cholesterol in either unit
+ * @returns Risk factor category with the lifetime risk and the all-optimal risk for comparison
+ */
+export function calculateLifetimeRisk(patientData: PatientData): LifetimeRiskResult {
+  const category = getLifetimeRiskCategory(patientData);
+  const risks = LIFETIME_RISK[patientData.gender];
+
+  return {
+    category,
+    lifetimeRisk: risks[category],
+    optimalRisk: risks.allOptimal,
+  };
+}
+
+/**
+ * Assigns the Lloyd-Jones category from the worst level of any single risk factor
+ * and the number of major risk factors
+ */
+export function getLifetimeRiskCategory(patientData: PatientData): LifetimeRiskCategory {
+  const levels: RiskFactorLevel[] = [
+    getCholesterolLevel(patientData),
+    getBloodPressureLevel(patientData),
+    patientData.smokingStatus === 'current' ? 'major' : 'optimal',
+    patientData.hasDiabetes ? 'major' : 'optimal',
+  ];
+  const majorCount = levels.filter(level => level === 'major').length;
+
+  if (majorCount >= 2) return 'multipleMajor';
+  if (majorCount === 1) return 'oneMajor';
+  if (levels.includes('elevated')) return 'elevated';
+  if (levels.includes('notOptimal')) return 'notOptimal';
+  return 'allOptimal';
+}
+
+/**
+ * Total cholesterol level; treatment with a statin counts as major
+ */
+function getCholesterolLevel(patientData: PatientData): RiskFactorLevel {
+  if (patientData.onStatin) return 'major';
+
+  const totalCholesterol = convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit);
+  return getLevel(totalCholesterol, LIFETIME_RISK_FACTOR_LEVELS.totalCholesterol);
+}
+
+/**
+ * Blood pressure level from the higher of systolic and diastolic; treatment counts as major
+ */
+function getBloodPressureLevel(patientData: PatientData): RiskFactorLevel {
+  if (patientData.onBPMedication) return 'major';
+
+  const order: RiskFactorLevel[] = ['optimal', 'notOptimal', 'elevated', 'major'];
+  const systolic = getLevel(patientData.systolicBP, LIFETIME_RISK_FACTOR_LEVELS.systolicBP);
+  const diastolic = getLevel(patientData.diastolicBP, LIFETIME_RISK_FACTOR_LEVELS.diastolicBP);
+
+  return order[Math.max(order.indexOf(systolic), order.indexOf(diastolic))];
+}
+
+function getLevel(
+  value: number,
+  bounds: { notOptimal: number; elevated: number; major: number }
+): RiskFactorLevel {
+  if (value >= bounds.major) return 'major';
+  if (value >= bounds.elevated) return 'elevated';
+  if (value >= bounds.notOptimal) return 'notOptimal';
+  return 'optimal';
+}
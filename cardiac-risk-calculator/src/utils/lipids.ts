@@ -0,0 +1,167 @@
+import type { LdlEstimationMethod, LipidProfile, PatientData } from '../types';
+import {
+  ASSUMED_VLDL_CHOLESTEROL,
+  LDL_ESTIMATION_MAX_TRIGLYCERIDES,
+  LDL_ESTIMATION_METHODS,
+  MARTIN_HOPKINS_FACTORS,
+  MARTIN_HOPKINS_NON_HDL_STRATA,
+} from './constants';
+import { convertCholesterolToMgDl, convertTriglyceridesToMgDl } from './unitConverter';
+
+/**
+ * Lipid helpers
+ * Derived cholesterol values shared by the treatment simulator, statin decision support and
+ * the results: non-HDL cholesterol and LDL cholesterol estimated from triglycerides with the
+ * Friedewald, Martin-Hopkins or Sampson/NIH equation. All values are in mg/dL.
+ */
+
+interface StandardLipids {
+  totalCholesterol: number;
+  hdlCholesterol: number;
+  triglycerides: number;
+}
+
+/**
+ * Friedewald equation: LDL = TC - HDL - TG / 5
+ */
+export function calculateFriedewaldLdl({ totalCholesterol, hdlCholesterol, triglycerides }: StandardLipids): number {
+  return totalCholesterol - hdlCholesterol - triglycerides / 5;
+}
+
+/**
+ * Martin-Hopkins equation: LDL = non-HDL - TG / factor, with the factor looked up by
+ * triglyceride and non-HDL cholesterol stratum
+ */
+export function calculateMartinHopkinsLdl({ totalCholesterol, hdlCholesterol, triglycerides }: StandardLipids): number {
+  const nonHdl = totalCholesterol - hdlCholesterol;
+  const row = MARTIN_HOPKINS_FACTORS.find(({ maxTriglycerides }) => triglycerides < maxTriglycerides + 1)
+    ?? MARTIN_HOPKINS_FACTORS[MARTIN_HOPKINS_FACTORS.length - 1];
+  const column = MARTIN_HOPKINS_NON_HDL_STRATA.filter(lowerBound => nonHdl >= lowerBound).length;
+
+  return nonHdl - triglycerides / row.factors[column];
+}
+
+/**
+ * Sampson/NIH equation 2 (Sampson et al., JAMA Cardiol 2020)
+ */
+export function calculateSampsonLdl({ totalCholesterol, hdlCholesterol, triglycerides }: StandardLipids): number {
+  const nonHdl = totalCholesterol - hdlCholesterol;
+  return (
+    totalCholesterol / 0.948 -
+    hdlCholesterol / 0.971 -
+    (triglycerides / 8.56 + (triglycerides * nonHdl) / 2140 - triglycerides ** 2 / 16100) -
+    9.44
+  );
+}
+
+const LDL_EQUATIONS: Record<LdlEstimationMethod, (lipids: StandardLipids) => number> = {
+  friedewald: calculateFriedewaldLdl,
+  'martin-hopkins': calculateMartinHopkinsLdl,
+  sampson: calculateSampsonLdl,
+};
+
+/**
+ * Checks whether an equation is valid at the given triglyceride level (mg/dL)
+ */
+export function isLdlEstimationValid(method: LdlEstimationMethod, triglycerides: number): boolean {
+  return triglycerides < LDL_ESTIMATION_MAX_TRIGLYCERIDES[method];
+}
+
+/**
+ * Estimates LDL cholesterol with one equation
+ * @returns LDL in mg/dL rounded to a whole number, or undefined when triglycerides are missing
+ * or outside the equation's validity limit
+ */
+export function estimateLdlWithMethod(patientData: PatientData, method: LdlEstimationMethod): number | undefined {
+  if (!hasMeasuredTriglycerides(patientData)) {
+    return undefined;
+  }
+
+  const lipids: StandardLipids = {
+    totalCholesterol: convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit),
+    hdlCholesterol: convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit),
+    triglycerides: convertTriglyceridesToMgDl(patientData.triglycerides!, patientData.cholesterolUnit),
+  };
+
+  if (!isLdlEstimationValid(method, lipids.triglycerides)) {
+    return undefined;
+  }
+
+  return Math.max(0, Math.round(LDL_EQUATIONS[method](lipids)));
+}
+
+/**
+ * Derives the lipid profile: measured LDL when entered, otherwise the first valid equation
+ * @param patientData - Patient data
+ * @param methods - Equations to try, in order of preference
+ */
+export function calculateLipidProfile(
+  patientData: PatientData,
+  methods: LdlEstimationMethod[] = LDL_ESTIMATION_METHODS
+): LipidProfile {
+  const nonHdlCholesterol = Math.round(
+    convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit) -
+    convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit)
+  );
+  const triglycerides = hasMeasuredTriglycerides(patientData)
+    ? Math.round(convertTriglyceridesToMgDl(patientData.triglycerides!, patientData.cholesterolUnit))
+    : undefined;
+
+  if (hasMeasuredLdl(patientData)) {
+    return {
+      ldlCholesterol: Math.round(convertCholesterolToMgDl(patientData.ldlCholesterol!, patientData.cholesterolUnit)),
+      ldlMethod: 'measured',
+      nonHdlCholesterol,
+      triglycerides,
+    };
+  }
+
+  for (const method of methods) {
+    const ldlCholesterol = estimateLdlWithMethod(patientData, method);
+    if (ldlCholesterol !== undefined) {
+      return { ldlCholesterol, ldlMethod: method, nonHdlCholesterol, triglycerides };
+    }
+  }
+
+  return { nonHdlCholesterol, triglycerides };
+}
+
+/**
+ * LDL cholesterol in mg/dL: measured, estimated from triglycerides, or non-HDL cholesterol
+ * minus a typical VLDL cholesterol when neither is available
+ * Never more than non-HDL cholesterol, so treated total cholesterol stays above HDL
+ */
+export function estimateLdlCholesterol(patientData: PatientData): number {
+  const nonHdl =
+    convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit) -
+    convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit);
+  const ldl = hasMeasuredLdl(patientData)
+    ? convertCholesterolToMgDl(patientData.ldlCholesterol!, patientData.cholesterolUnit)
+    : calculateLipidProfile(patientData).ldlCholesterol ?? nonHdl - ASSUMED_VLDL_CHOLESTEROL;
+
+  return Math.max(0, Math.min(ldl, nonHdl));
+}
+
+/**
+ * Checks whether total and HDL cholesterol were entered; the non-laboratory model runs without them
+ */
+export function hasLipidPanel(patientData: PatientData): boolean {
+  return (
+    typeof patientData.totalCholesterol === 'number' && !isNaN(patientData.totalCholesterol) &&
+    typeof patientData.hdlCholesterol === 'number' && !isNaN(patientData.hdlCholesterol)
+  );
+}
+
+/**
+ * Checks whether a measured LDL cholesterol was entered
+ */
+export function hasMeasuredLdl(patientData: PatientData): boolean {
+  return patientData.ldlCholesterol !== undefined && !isNaN(patientData.ldlCholesterol);
+}
+
+/**
+ * Checks whether triglycerides were entered
+ */
+export function hasMeasuredTriglycerides(patientData: PatientData): boolean {
+  return patientData.triglycerides !== undefined && !isNaN(patientData.triglycerides);
+}
@@ -0,0 +1,135 @@
+import type { CacReclassification, MesaCoefficientSet, PatientData, RiskCategory, RiskResult } from '../types';
+import { CAC_RECLASSIFICATION_THRESHOLD, MESA_COEFFICIENTS } from './constants';
+import { getRiskThresholdScheme } from './riskCategorization';
+import { getRiskModel } from './riskModels';
+import { convertCholesterolToMgDl } from './unitConverter';
+
+/**
+ * MESA Risk Score with Coronary Artery Calcium (McClelland et al., JACC 2015)
+ * Estimates 10-year coronary heart disease risk from traditional risk factors and
+ * the CAC score, and reclassifies the selected model's category the way the
+ * ACC/AHA 2018 guideline uses CAC for patients whose treatment decision is uncertain.
+ */
+
+export const MESA_AGE_RANGE = { min: 45, max: 85 };
+
+
+/**
+ * Gets the categories of the result's threshold scheme, lowest first
+ * Results saved under an earlier scheme of their model fall back to the default scheme
+ */
+function getCategoryOrder(riskResult: RiskResult): RiskCategory[] {
+  const modelCategories = getRiskThresholdScheme(getRiskModel(riskResult.modelId).thresholdScheme)
+    .tiers.map(tier => tier.category);
+
+  return modelCategories.includes(riskResult.riskCategory)
+    ? modelCategories
+    : getRiskThresholdScheme().tiers.map(tier => tier.category);
+}
+
+/**
+ * Checks whether a usable CAC score was entered
+ */
+export function hasCacScore(patientData: PatientData): boolean {
+  return patientData.cacScore !== undefined && !isNaN(patientData.cacScore) && patientData.cacScore >= 0;
+}
+
+/**
+ * Checks whether the MESA score applies to a patient
+ */
+export function isMesaRiskApplicable(patientData: PatientData): boolean {
+  return patientData.age >= MESA_AGE_RANGE.min && patientData.age <= MESA_AGE_RANGE.max;
+}
+
+/**
+ * Calculates the MESA 10-year CHD risk
+ * @param patientData - Patient data with cholesterol in either unit; race defaults to white
+ * @param withCac - Include the CAC score (requires patientData.cacScore)
+ * @returns 10-year CHD risk percentage, rounded to 1 decimal place
+ */
+export function calculateMesaRisk(patientData: PatientData, withCac: boolean): number {
+  if (!isMesaRiskApplicable(patientData)) {
+    throw new Error(`MESA risk requires age between ${MESA_AGE_RANGE.min} and ${MESA_AGE_RANGE.max} years`);
+  }
+  if (withCac && !hasCacScore(patientData)) {
+    throw new Error('MESA risk with CAC requires a CAC score of 0 or more');
+  }
+
+  const c = withCac ? MESA_COEFFICIENTS.withCac : MESA_COEFFICIENTS.withoutCac;
+  const sum =
+    c.age * patientData.age +
+    c.male * (patientData.gender === 'male' ? 1 : 0) +
+    getRaceTerm(patientData, c) +
+    c.diabetes * (patientData.hasDiabetes ? 1 : 0) +
+    c.smoking * (patientData.smokingStatus === 'current' ? 1 : 0) +
+    c.totalCholesterol * convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit) +
+    c.hdlCholesterol * convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit) +
+    c.lipidLowering * (patientData.onStatin ? 1 : 0) +
+    c.systolicBP * patientData.systolicBP +
+    c.bpTreatment * (patientData.onBPMedication ? 1 : 0) +
+    c.familyHistory * (patientData.familyHistory ? 1 : 0) +
+    (withCac ? c.lnCacPlusOne! * Math.log(patientData.cacScore! + 1) : 0);
+
+  const risk = 100 * (1 - Math.pow(c.baselineSurvival, Math.exp(sum)));
+  if (!isFinite(risk) || risk < 0 || risk > 100) {
+    throw new Error(`Invalid MESA risk percentage calculated: ${risk}`);
+  }
+
+  return Math.round(risk * 10) / 10; // Round to 1 decimal place
+}
+
+function getRaceTerm(patientData: PatientData, c: MesaCoefficientSet): number {
+  switch (patientData.race) {
+    case 'chinese':
+    case 'african-american':
+    case 'hispanic':
+      return c.race[patientData.race];
+    default:
+      return 0; // White and other races use the reference group
+  }
+}
+
+/**
+ * Reclassifies the selected model's risk category using the CAC score
+ * CAC 0 moves the category down one level, except for smokers, diabetics and people
+ * with a family history of premature heart disease. CAC of 100 or more moves it up one
+ * level; the guideline's 75th percentile alternative is not applied (see
+ * CAC_RECLASSIFICATION_THRESHOLD).
+ * @param patientData - Patient data including cacScore
+ * @param riskResult - Result of the selected model
+ */
+export function calculateCacReclassification(
+  patientData: PatientData,
+  riskResult: RiskResult
+): CacReclassification {
+  if (!hasCacScore(patientData)) {
+    throw new Error('CAC reclassification requires a CAC score of 0 or more');
+  }
+
+  const cacScore = patientData.cacScore!;
+  const categoryOrder = getCategoryOrder(riskResult);
+  const baseIndex = categoryOrder.indexOf(riskResult.riskCategory);
+
+  let reclassifiedIndex = baseIndex;
+  if (cacScore >= CAC_RECLASSIFICATION_THRESHOLD) {
+    reclassifiedIndex = Math.min(baseIndex + 1, categoryOrder.length - 1);
+  } else if (
+    cacScore === 0 &&
+    patientData.smokingStatus !== 'current' &&
+    !patientData.hasDiabetes &&
+    !patientData.familyHistory
+  ) {
+    reclassifiedIndex = Math.max(baseIndex - 1, 0);
+  }
+
+  const mesaApplicable = isMesaRiskApplicable(patientData);
+
+  return {
+    cacScore,
+    baseCategory: riskResult.riskCategory,
+    reclassifiedCategory: categoryOrder[reclassifiedIndex],
+    direction: reclassifiedIndex > baseIndex ? 'up' : reclassifiedIndex < baseIndex ? 'down' : 'unchanged',
+    mesaRisk: mesaApplicable ? calculateMesaRisk(patientData, true) : undefined,
+    mesaRiskWithoutCac: mesaApplicable ? calculateMesaRisk(patientData, false) : undefined,
+  };
+}
@@ -132,12 +132,14 @@ export const performanceMonitor = new PerformanceMonitor();
 
 /**
  * Higher-order function to wrap functions with performance monitoring
+ * The wrapped function stays available as `unmonitored`, for repeated internal calls that
+ * should not be counted in the metric
  */
 export function withPerformanceMonitoring<T extends (...args: any[]) => any>(
   fn: T,
   metricName: string
-): T {
-  return ((...args: any[]) => {
+): T & { unmonitored: T } {
+  const monitored = ((...args: any[]) => {
     const endTiming = performanceMonitor.startTiming(metricName);
     
     try {
@@ -156,7 +158,10 @@ export function withPerformanceMonitoring<T extends (...args: any[]) => any>(
       endTiming();
       throw error;
     }
-  }) as T;
+  }) as T & { unmonitored: T };
+
+  monitored.unmonitored = fn;
+  return monitored;
 }
 
 /**
@@ -0,0 +1,254 @@
+import type {
+  CalculationTrace,
+  PatientData,
+  PooledCohortCoefficientSet,
+  RiskCalculationOptions,
+  RiskResult,
+} from '../types';
+import { POOLED_COHORT_COEFFICIENTS, APP_CONFIG } from './constants';
+import { categorizeRisk, generateRecommendations, getRiskThresholdScheme } from './riskCategorization';
+import { generateComparisonData } from './framingham';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { convertCholesterolToMgDl } from './unitConverter';
+import { withPerformanceMonitoring } from './performance';
+import { COX_RISK_FORMULA, createTraceTerm, indicator } from './calculationTrace';
+
+/**
+ * Pooled Cohort Equations Calculator
+ * Implements the ACC/AHA 2013 sex- and race-specific equations for 10-year
+ * atherosclerotic cardiovascular disease (ASCVD) risk
+ */
+
+export const POOLED_COHORT_AGE_RANGE = { min: 40, max: 79 };
+
+/**
+ * Calculates the 10-year ASCVD risk using the Pooled Cohort Equations
+ * @param patientData - Patient data including race
+ * @returns Risk result with percentage and detailed analysis
+ */
+export const calculatePooledCohortRisk = withPerformanceMonitoring(
+  function calculatePooledCohortRiskInternal(
+    patientData: PatientData,
+    options: RiskCalculationOptions = {}
+  ): RiskResult {
+  try {
+    const validationErrors = validatePooledCohortInputs(patientData);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const coefficients = getPooledCohortCoefficients(patientData);
+    const riskFactors = calculatePooledCohortTerms(patientData, coefficients);
+
+    const individualSum = Object.values(riskFactors).reduce((sum, term) => sum + term, 0);
+    if (!isFinite(individualSum)) {
+      throw new Error(`Invalid individual sum: ${individualSum}`);
+    }
+
+    const tenYearRisk = convertSumToRiskPercentage(individualSum, coefficients);
+    if (!isFinite(tenYearRisk) || tenYearRisk < 0 || tenYearRisk > 100) {
+      throw new Error(`Invalid risk percentage calculated: ${tenYearRisk}`);
+    }
+
+    const comparisonData = generateComparisonData(patientData);
+    const thresholdScheme = getRiskThresholdScheme('acc-aha-2018');
+    const riskCategory = categorizeRisk(tenYearRisk, thresholdScheme);
+    const recommendations = generateRecommendations(riskCategory, tenYearRisk, patientData, thresholdScheme, {
+      outcome: 'ascvd',
+      ascvdRisk: tenYearRisk,
+    });
+
+    return {
+      tenYearRisk: Math.round(tenYearRisk * 10) / 10, // Round to 1 decimal place
+      riskCategory,
+      riskEnhancers: identifyRiskEnhancers(patientData),
+      trace: options.includeTrace
+        ? buildPooledCohortTrace(patientData, coefficients, individualSum, tenYearRisk)
+        : undefined,
+      riskFactors,
+      comparisonData,
+      recommendations,
+      calculatedAt: new Date(),
+      modelId: 'pce-2013',
+      modelVersion: APP_CONFIG.POOLED_COHORT_VERSION,
+    };
+  } catch (error) {
+    throw new Error(`Pooled Cohort risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}, 'risk-calculation');
+
+/**
+ * Selects the sex- and race-specific coefficient set
+ * The guideline recommends the white equations for races other than African American
+ */
+export function getPooledCohortCoefficients(patientData: PatientData): PooledCohortCoefficientSet {
+  const sexCoefficients = POOLED_COHORT_COEFFICIENTS[patientData.gender];
+  return patientData.race === 'african-american'
+    ? sexCoefficients.africanAmerican
+    : sexCoefficients.white;
+}
+
+/**
+ * Calculates each risk factor's share of the individual sum
+ * Age interaction terms are attributed to the factor they modify
+ */
+function calculatePooledCohortTerms(
+  patientData: PatientData,
+  coefficients: PooledCohortCoefficientSet
+): RiskResult['riskFactors'] {
+  const lnAge = Math.log(patientData.age);
+  const lnTotalCholesterol = Math.log(
+    convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit)
+  );
+  const lnHdlCholesterol = Math.log(
+    convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit)
+  );
+  const lnSystolicBP = Math.log(patientData.systolicBP);
+
+  const ageTerm = coefficients.lnAge * lnAge + coefficients.lnAgeSquared * lnAge * lnAge;
+
+  const cholesterolTerm =
+    coefficients.lnTotalCholesterol * lnTotalCholesterol +
+    coefficients.lnAgeLnTotalCholesterol * lnAge * lnTotalCholesterol +
+    coefficients.lnHdlCholesterol * lnHdlCholesterol +
+    coefficients.lnAgeLnHdlCholesterol * lnAge * lnHdlCholesterol;
+
+  const bloodPressureTerm = patientData.onBPMedication
+    ? coefficients.lnTreatedSystolicBP * lnSystolicBP +
+      coefficients.lnAgeLnTreatedSystolicBP * lnAge * lnSystolicBP
+    : coefficients.lnUntreatedSystolicBP * lnSystolicBP +
+      coefficients.lnAgeLnUntreatedSystolicBP * lnAge * lnSystolicBP;
+
+  // Only current smoking counts in the Pooled Cohort Equations
+  const smokingTerm = patientData.smokingStatus === 'current'
+    ? coefficients.smoking + coefficients.lnAgeSmoking * lnAge
+    : 0;
+
+  const diabetesTerm = patientData.hasDiabetes ? coefficients.diabetes : 0;
+
+  return {
+    age: ageTerm,
+    gender: 0, // Sex is handled by coefficient selection
+    cholesterol: cholesterolTerm,
+    bloodPressure: bloodPressureTerm,
+    smoking: smokingTerm,
+    diabetes: diabetesTerm,
+    familyHistory: 0, // Not part of the Pooled Cohort Equations
+  };
+}
+
+/**
+ * Converts the individual sum to a 10-year risk percentage
+ * Risk = 1 - baseline_survival ^ exp(individual_sum - mean_sum)
+ */
+function convertSumToRiskPercentage(
+  individualSum: number,
+  coefficients: PooledCohortCoefficientSet
+): number {
+  const survivalProbability = Math.pow(
+    coefficients.baselineSurvival,
+    Math.exp(individualSum - coefficients.meanScore)
+  );
+
+  return Math.max(0, Math.min(100, (1 - survivalProbability) * 100));
+}
+
+/**
+ * Records each step of the calculation for the "show your work" trace
+ */
+function buildPooledCohortTrace(
+  patientData: PatientData,
+  coefficients: PooledCohortCoefficientSet,
+  individualSum: number,
+  riskPercentage: number
+): CalculationTrace {
+  const totalCholesterol = convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit);
+  const hdlCholesterol = convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit);
+  const lnAge = Math.log(patientData.age);
+  const lnTotalCholesterol = Math.log(totalCholesterol);
+  const lnHdlCholesterol = Math.log(hdlCholesterol);
+  const lnSystolicBP = Math.log(patientData.systolicBP);
+  const treated = patientData.onBPMedication;
+  const smoker = indicator(patientData.smokingStatus === 'current');
+
+  return {
+    inputs: [
+      { label: 'Sex', value: patientData.gender },
+      { label: 'Equation', value: patientData.race === 'african-american' ? 'African American' : 'White' },
+      { label: 'Age', value: patientData.age, unit: 'years' },
+      { label: 'Total cholesterol', value: totalCholesterol, unit: 'mg/dL' },
+      { label: 'HDL cholesterol', value: hdlCholesterol, unit: 'mg/dL' },
+      { label: 'Systolic BP', value: patientData.systolicBP, unit: 'mmHg' },
+      { label: 'On BP medication', value: treated ? 'Yes' : 'No' },
+      { label: 'Current smoker', value: smoker ? 'Yes' : 'No' },
+      { label: 'Diabetes', value: patientData.hasDiabetes ? 'Yes' : 'No' },
+    ],
+    terms: [
+      createTraceTerm('ln(Age)', lnAge, coefficients.lnAge),
+      createTraceTerm('ln(Age)²', lnAge * lnAge, coefficients.lnAgeSquared),
+      createTraceTerm('ln(Total cholesterol)', lnTotalCholesterol, coefficients.lnTotalCholesterol),
+      createTraceTerm('ln(Age) × ln(Total cholesterol)', lnAge * lnTotalCholesterol, coefficients.lnAgeLnTotalCholesterol),
+      createTraceTerm('ln(HDL cholesterol)', lnHdlCholesterol, coefficients.lnHdlCholesterol),
+      createTraceTerm('ln(Age) × ln(HDL cholesterol)', lnAge * lnHdlCholesterol, coefficients.lnAgeLnHdlCholesterol),
+      treated
+        ? createTraceTerm('ln(Treated systolic BP)', lnSystolicBP, coefficients.lnTreatedSystolicBP)
+        : createTraceTerm('ln(Untreated systolic BP)', lnSystolicBP, coefficients.lnUntreatedSystolicBP),
+      treated
+        ? createTraceTerm('ln(Age) × ln(Treated systolic BP)', lnAge * lnSystolicBP, coefficients.lnAgeLnTreatedSystolicBP)
+        : createTraceTerm('ln(Age) × ln(Untreated systolic BP)', lnAge * lnSystolicBP, coefficients.lnAgeLnUntreatedSystolicBP),
+      createTraceTerm('Current smoker', smoker, coefficients.smoking),
+      createTraceTerm('ln(Age) × Current smoker', lnAge * smoker, coefficients.lnAgeSmoking),
+      createTraceTerm('Diabetes', indicator(patientData.hasDiabetes), coefficients.diabetes),
+    ],
+    sum: individualSum,
+    meanOffset: coefficients.meanScore,
+    baselineSurvival: coefficients.baselineSurvival,
+    formula: COX_RISK_FORMULA,
+    risk: riskPercentage,
+  };
+}
+
+/**
+ * Validates that patient data contains all required fields for the Pooled Cohort Equations
+ */
+export function validatePooledCohortInputs(patientData: PatientData): string[] {
+  const errors: string[] = [];
+
+  if (
+    !patientData.age ||
+    patientData.age < POOLED_COHORT_AGE_RANGE.min ||
+    patientData.age > POOLED_COHORT_AGE_RANGE.max
+  ) {
+    errors.push(`Age must be between ${POOLED_COHORT_AGE_RANGE.min} and ${POOLED_COHORT_AGE_RANGE.max} years`);
+  }
+
+  if (!patientData.gender || !['male', 'female'].includes(patientData.gender)) {
+    errors.push('Gender must be specified as male or female');
+  }
+
+  if (!patientData.race || !['white', 'african-american', 'chinese', 'hispanic', 'other'].includes(patientData.race)) {
+    errors.push('Race must be specified as white, African American or other');
+  }
+
+  if (!patientData.totalCholesterol || patientData.totalCholesterol <= 0) {
+    errors.push('Total cholesterol must be provided and greater than 0');
+  }
+
+  if (!patientData.hdlCholesterol || patientData.hdlCholesterol <= 0) {
+    errors.push('HDL cholesterol must be provided and greater than 0');
+  }
+
+  if (
+    patientData.totalCholesterol &&
+    patientData.hdlCholesterol &&
+    patientData.hdlCholesterol >= patientData.totalCholesterol
+  ) {
+    errors.push('HDL cholesterol cannot be higher than or equal to total cholesterol');
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0) {
+    errors.push('Systolic blood pressure must be provided and greater than 0');
+  }
+
+  return errors;
+}
@@ -0,0 +1,270 @@
+import type {
+  OutcomeRisk,
+  PatientData,
+  PreventCoefficientSet,
+  PreventCoefficients,
+  RiskResult,
+} from '../types';
+import { PREVENT_COEFFICIENTS, APP_CONFIG, CONVERSION_FACTORS } from './constants';
+import { categorizeRisk, generateRecommendations, getRiskThresholdScheme } from './riskCategorization';
+import { generateComparisonData } from './framingham';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { withPerformanceMonitoring } from './performance';
+
+/**
+ * PREVENT Equations Calculator
+ * Implements the AHA 2023 PREVENT base equations for 10- and 30-year risk of
+ * total cardiovascular disease, ASCVD and heart failure. The equations are
+ * sex-specific and do not use race. Only the base model is implemented: the
+ * full model's urine albumin-creatinine ratio (UACR), HbA1c and social
+ * deprivation index (SDI) terms are not, so an entered HbA1c does not change
+ * the PREVENT risk.
+ */
+
+export const PREVENT_AGE_RANGE = { min: 30, max: 79 };
+
+export const PREVENT_OUTCOMES: Array<keyof PreventCoefficients['male']> = ['cvd', 'ascvd', 'heartFailure'];
+export const PREVENT_HORIZONS: Array<10 | 30> = [10, 30];
+
+/**
+ * Centred and scaled predictors shared by all PREVENT equations
+ */
+interface PreventPredictors {
+  age: number;
+  nonHdlCholesterol: number;
+  hdlCholesterol: number;
+  systolicBPBelow110: number;
+  systolicBPAbove110: number;
+  egfrBelow60: number;
+  egfrAbove60: number;
+  bmiBelow30: number;
+  bmiAbove30: number;
+  diabetes: number;
+  smoking: number;
+  bpTreatment: number;
+  statin: number;
+}
+
+/**
+ * Calculates 10- and 30-year risks using the PREVENT equations
+ * @param patientData - Patient data including eGFR and BMI
+ * @returns Risk result; tenYearRisk holds 10-year total CVD and outcomes holds every estimate
+ */
+export const calculatePreventRisk = withPerformanceMonitoring(
+  function calculatePreventRiskInternal(patientData: PatientData): RiskResult {
+  try {
+    const validationErrors = validatePreventInputs(patientData);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const predictors = calculatePreventPredictors(patientData);
+    const coefficients = PREVENT_COEFFICIENTS[patientData.gender];
+
+    const outcomes: OutcomeRisk[] = PREVENT_OUTCOMES.flatMap((outcome) =>
+      PREVENT_HORIZONS.map((horizonYears) => ({
+        outcome,
+        horizonYears,
+        risk: roundRisk(
+          convertLogOddsToRiskPercentage(
+            calculateLogOdds(predictors, coefficients[outcome][horizonYears], horizonYears)
+          )
+        ),
+      }))
+    );
+
+    const tenYearRisk = outcomes.find(
+      (outcome) => outcome.outcome === 'cvd' && outcome.horizonYears === 10
+    )!.risk;
+    if (!isFinite(tenYearRisk) || tenYearRisk < 0 || tenYearRisk > 100) {
+      throw new Error(`Invalid risk percentage calculated: ${tenYearRisk}`);
+    }
+
+    const riskFactors = calculatePreventRiskFactors(predictors, coefficients.cvd[10]);
+    const comparisonData = generateComparisonData(patientData);
+    const thresholdScheme = getRiskThresholdScheme('acc-aha-2018');
+    const riskCategory = categorizeRisk(tenYearRisk, thresholdScheme);
+    // Statin advice follows the ASCVD outcome, which the ACC/AHA thresholds were set for
+    const ascvdRisk = outcomes.find(
+      (outcome) => outcome.outcome === 'ascvd' && outcome.horizonYears === 10
+    )!.risk;
+    const recommendations = generateRecommendations(riskCategory, tenYearRisk, patientData, thresholdScheme, {
+      ascvdRisk,
+    });
+
+    return {
+      tenYearRisk,
+      riskCategory,
+      outcomes,
+      riskEnhancers: identifyRiskEnhancers(patientData),
+      riskFactors,
+      comparisonData,
+      recommendations,
+      calculatedAt: new Date(),
+      modelId: 'prevent-2023',
+      modelVersion: APP_CONFIG.PREVENT_VERSION,
+    };
+  } catch (error) {
+    throw new Error(`PREVENT risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}, 'risk-calculation');
+
+/**
+ * Centres and scales patient data the way the PREVENT equations expect
+ * Cholesterol is used in mmol/L; SBP, eGFR and BMI are split into linear splines
+ */
+function calculatePreventPredictors(patientData: PatientData): PreventPredictors {
+  const totalCholesterol = toMmolL(patientData.totalCholesterol, patientData.cholesterolUnit);
+  const hdlCholesterol = toMmolL(patientData.hdlCholesterol, patientData.cholesterolUnit);
+  const egfr = patientData.egfr as number;
+  const bmi = patientData.bmi as number;
+
+  return {
+    age: (patientData.age - 55) / 10,
+    nonHdlCholesterol: totalCholesterol - hdlCholesterol - 3.5,
+    hdlCholesterol: (hdlCholesterol - 1.3) / 0.3,
+    systolicBPBelow110: (Math.min(patientData.systolicBP, 110) - 110) / 20,
+    systolicBPAbove110: (Math.max(patientData.systolicBP, 110) - 130) / 20,
+    egfrBelow60: (Math.min(egfr, 60) - 60) / -15,
+    egfrAbove60: (Math.max(egfr, 60) - 90) / -15,
+    bmiBelow30: (Math.min(bmi, 30) - 25) / 5,
+    bmiAbove30: (Math.max(bmi, 30) - 30) / 5,
+    diabetes: patientData.hasDiabetes ? 1 : 0,
+    smoking: patientData.smokingStatus === 'current' ? 1 : 0,
+    bpTreatment: patientData.onBPMedication ? 1 : 0,
+    statin: patientData.onStatin ? 1 : 0,
+  };
+}
+
+/**
+ * Converts cholesterol to mmol/L without the display rounding applied by unitConverter
+ */
+function toMmolL(value: number, unit: PatientData['cholesterolUnit']): number {
+  return unit === 'mmol/L' ? value : value * CONVERSION_FACTORS.CHOLESTEROL_MG_DL_TO_MMOL_L;
+}
+
+/**
+ * Evaluates one PREVENT equation; terms missing from the coefficient set contribute nothing
+ */
+function calculateLogOdds(
+  x: PreventPredictors,
+  c: PreventCoefficientSet,
+  horizonYears: 10 | 30
+): number {
+  return (
+    c.constant +
+    c.age * x.age +
+    (horizonYears === 30 ? (c.ageSquared ?? 0) * x.age * x.age : 0) +
+    (c.nonHdlCholesterol ?? 0) * x.nonHdlCholesterol +
+    (c.hdlCholesterol ?? 0) * x.hdlCholesterol +
+    c.systolicBPBelow110 * x.systolicBPBelow110 +
+    c.systolicBPAbove110 * x.systolicBPAbove110 +
+    c.diabetes * x.diabetes +
+    c.smoking * x.smoking +
+    (c.bmiBelow30 ?? 0) * x.bmiBelow30 +
+    (c.bmiAbove30 ?? 0) * x.bmiAbove30 +
+    c.egfrBelow60 * x.egfrBelow60 +
+    c.egfrAbove60 * x.egfrAbove60 +
+    c.bpTreatment * x.bpTreatment +
+    (c.statin ?? 0) * x.statin +
+    c.bpTreatmentSystolicBP * x.bpTreatment * x.systolicBPAbove110 +
+    (c.statinNonHdlCholesterol ?? 0) * x.statin * x.nonHdlCholesterol +
+    (c.ageNonHdlCholesterol ?? 0) * x.age * x.nonHdlCholesterol +
+    (c.ageHdlCholesterol ?? 0) * x.age * x.hdlCholesterol +
+    c.ageSystolicBP * x.age * x.systolicBPAbove110 +
+    c.ageDiabetes * x.age * x.diabetes +
+    c.ageSmoking * x.age * x.smoking +
+    (c.ageBmi ?? 0) * x.age * x.bmiAbove30 +
+    c.ageEgfr * x.age * x.egfrBelow60
+  );
+}
+
+/**
+ * Splits the 10-year total CVD log-odds into the risk factors the app reports
+ * Age interaction terms are attributed to the factor they modify; eGFR terms are not reported
+ */
+function calculatePreventRiskFactors(
+  x: PreventPredictors,
+  c: PreventCoefficientSet
+): RiskResult['riskFactors'] {
+  return {
+    age: c.age * x.age,
+    gender: 0, // Sex is handled by coefficient selection
+    cholesterol:
+      (c.nonHdlCholesterol ?? 0) * x.nonHdlCholesterol +
+      (c.hdlCholesterol ?? 0) * x.hdlCholesterol +
+      (c.statin ?? 0) * x.statin +
+      (c.statinNonHdlCholesterol ?? 0) * x.statin * x.nonHdlCholesterol +
+      (c.ageNonHdlCholesterol ?? 0) * x.age * x.nonHdlCholesterol +
+      (c.ageHdlCholesterol ?? 0) * x.age * x.hdlCholesterol,
+    bloodPressure:
+      c.systolicBPBelow110 * x.systolicBPBelow110 +
+      c.systolicBPAbove110 * x.systolicBPAbove110 +
+      c.bpTreatment * x.bpTreatment +
+      c.bpTreatmentSystolicBP * x.bpTreatment * x.systolicBPAbove110 +
+      c.ageSystolicBP * x.age * x.systolicBPAbove110,
+    smoking: c.smoking * x.smoking + c.ageSmoking * x.age * x.smoking,
+    diabetes: c.diabetes * x.diabetes + c.ageDiabetes * x.age * x.diabetes,
+    familyHistory: 0, // Not part of the PREVENT equations
+  };
+}
+
+/**
+ * Converts log-odds to a risk percentage (PREVENT uses logistic models)
+ */
+function convertLogOddsToRiskPercentage(logOdds: number): number {
+  return (Math.exp(logOdds) / (1 + Math.exp(logOdds))) * 100;
+}
+
+function roundRisk(riskPercentage: number): number {
+  return Math.round(riskPercentage * 10) / 10; // Round to 1 decimal place
+}
+
+/**
+ * Validates that patient data contains all required fields for the PREVENT equations
+ */
+export function validatePreventInputs(patientData: PatientData): string[] {
+  const errors: string[] = [];
+
+  if (
+    !patientData.age ||
+    patientData.age < PREVENT_AGE_RANGE.min ||
+    patientData.age > PREVENT_AGE_RANGE.max
+  ) {
+    errors.push(`Age must be between ${PREVENT_AGE_RANGE.min} and ${PREVENT_AGE_RANGE.max} years`);
+  }
+
+  if (!patientData.gender || !['male', 'female'].includes(patientData.gender)) {
+    errors.push('Gender must be specified as male or female');
+  }
+
+  if (!patientData.totalCholesterol || patientData.totalCholesterol <= 0) {
+    errors.push('Total cholesterol must be provided and greater than 0');
+  }
+
+  if (!patientData.hdlCholesterol || patientData.hdlCholesterol <= 0) {
+    errors.push('HDL cholesterol must be provided and greater than 0');
+  }
+
+  if (
+    patientData.totalCholesterol &&
+    patientData.hdlCholesterol &&
+    patientData.hdlCholesterol >= patientData.totalCholesterol
+  ) {
+    errors.push('HDL cholesterol cannot be higher than or equal to total cholesterol');
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0) {
+    errors.push('Systolic blood pressure must be provided and greater than 0');
+  }
+
+  if (!patientData.egfr || patientData.egfr <= 0) {
+    errors.push('eGFR must be provided and greater than 0');
+  }
+
+  if (!patientData.bmi || patientData.bmi <= 0) {
+    errors.push('BMI must be provided and greater than 0');
+  }
+
+  return errors;
+}
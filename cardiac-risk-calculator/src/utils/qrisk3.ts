@@ -0,0 +1,288 @@
+import type {
+  PatientData,
+  Qrisk3CoefficientSet,
+  QriskEthnicity,
+  RiskResult,
+  SmokingIntensity,
+} from '../types';
+import { APP_CONFIG, QRISK3_COEFFICIENTS } from './constants';
+import { categorizeRisk, generateRecommendations } from './riskCategorization';
+import { generateComparisonData } from './framingham';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { withPerformanceMonitoring } from './performance';
+
+/**
+ * QRISK3 Calculator
+ * Implements the QRISK3-2017 open-source algorithm (ClinRisk, Hippisley-Cox et al., BMJ 2017)
+ * for 10-year risk of heart attack or stroke in the UK population aged 25-84. The
+ * cholesterol/HDL ratio is unit-independent, so cholesterol is used as entered.
+ */
+
+export const QRISK3_AGE_RANGE = { min: 25, max: 84 };
+
+const QRISK_ETHNICITIES: QriskEthnicity[] = [
+  'white',
+  'indian',
+  'pakistani',
+  'bangladeshi',
+  'other-asian',
+  'black-caribbean',
+  'black-african',
+  'chinese',
+  'other',
+];
+
+const SMOKING_INTENSITY_CATEGORY: Record<SmokingIntensity, 2 | 3 | 4> = {
+  light: 2,
+  moderate: 3,
+  heavy: 4,
+};
+
+/**
+ * Transformed and centred predictors, plus the 0/1 indicators
+ */
+interface Qrisk3Predictors {
+  age1: number;
+  age2: number;
+  bmi1: number;
+  bmi2: number;
+  cholesterolRatio: number;
+  systolicBP: number;
+  systolicBPVariability: number;
+  townsend: number;
+  smokingCategory: 0 | 1 | 2 | 3 | 4; // Non, ex, light, moderate, heavy
+  atrialFibrillation: number;
+  atypicalAntipsychotics: number;
+  corticosteroids: number;
+  erectileDysfunction: number;
+  migraine: number;
+  rheumatoidArthritis: number;
+  chronicKidneyDisease: number;
+  severeMentalIllness: number;
+  lupus: number;
+  treatedHypertension: number;
+  type1Diabetes: number;
+  type2Diabetes: number;
+  familyHistory: number;
+}
+
+/**
+ * Calculates the 10-year CVD risk using QRISK3
+ * @param patientData - Patient data including BMI and the QRISK3 clinical history
+ * @returns Risk result categorized with the standard thresholds
+ */
+export const calculateQrisk3Risk = withPerformanceMonitoring(
+  function calculateQrisk3RiskInternal(patientData: PatientData): RiskResult {
+  try {
+    const validationErrors = validateQrisk3Inputs(patientData);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const coefficients = QRISK3_COEFFICIENTS[patientData.gender];
+    const predictors = calculateQrisk3Predictors(patientData, coefficients);
+    const riskFactors = calculateQrisk3RiskFactors(predictors, coefficients);
+
+    const linearPredictor =
+      Object.values(riskFactors).reduce((sum, term) => sum + term, 0) +
+      calculateUkSpecificTerms(patientData, predictors, coefficients);
+
+    const tenYearRisk = 100 * (1 - Math.pow(coefficients.baselineSurvival, Math.exp(linearPredictor)));
+    if (!isFinite(tenYearRisk) || tenYearRisk < 0 || tenYearRisk > 100) {
+      throw new Error(`Invalid risk percentage calculated: ${tenYearRisk}`);
+    }
+
+    const riskCategory = categorizeRisk(tenYearRisk);
+
+    return {
+      tenYearRisk: Math.round(tenYearRisk * 10) / 10, // Round to 1 decimal place
+      riskCategory,
+      riskEnhancers: identifyRiskEnhancers(patientData),
+      riskFactors,
+      comparisonData: generateComparisonData(patientData),
+      recommendations: generateRecommendations(riskCategory, tenYearRisk, patientData),
+      calculatedAt: new Date(),
+      modelId: 'qrisk3-2017',
+      modelVersion: APP_CONFIG.QRISK3_VERSION,
+    };
+  } catch (error) {
+    throw new Error(`QRISK3 risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}, 'risk-calculation');
+
+/**
+ * Applies the fractional polynomial transforms and centring
+ * A missing Townsend score is taken as 0 and missing SBP variability as the
+ * cohort mean, matching the published calculator's handling of blank fields.
+ */
+function calculateQrisk3Predictors(
+  patientData: PatientData,
+  c: Qrisk3CoefficientSet
+): Qrisk3Predictors {
+  const scaledAge = patientData.age / 10;
+  const scaledBmi = patientData.bmi! / 10;
+  const flag = (value: boolean | undefined) => (value ? 1 : 0);
+
+  return {
+    age1: Math.pow(scaledAge, c.agePowers[0]) - c.centring.age1,
+    age2: Math.pow(scaledAge, c.agePowers[1]) - c.centring.age2,
+    bmi1: Math.pow(scaledBmi, -2) - c.centring.bmi1,
+    bmi2: Math.pow(scaledBmi, -2) * Math.log(scaledBmi) - c.centring.bmi2,
+    cholesterolRatio: patientData.totalCholesterol / patientData.hdlCholesterol - c.centring.cholesterolRatio,
+    systolicBP: patientData.systolicBP - c.centring.systolicBP,
+    systolicBPVariability:
+      (patientData.systolicBPVariability ?? c.centring.systolicBPVariability) - c.centring.systolicBPVariability,
+    townsend: (patientData.townsendScore ?? 0) - c.centring.townsend,
+    smokingCategory: getSmokingCategory(patientData),
+    atrialFibrillation: flag(patientData.hasAtrialFibrillation),
+    atypicalAntipsychotics: flag(patientData.onAtypicalAntipsychotics),
+    corticosteroids: flag(patientData.onCorticosteroids),
+    erectileDysfunction: patientData.gender === 'male' ? flag(patientData.hasErectileDysfunction) : 0,
+    migraine: flag(patientData.hasMigraine),
+    rheumatoidArthritis: flag(patientData.hasRheumatoidArthritis),
+    chronicKidneyDisease: flag(patientData.hasChronicKidneyDisease),
+    severeMentalIllness: flag(patientData.hasSevereMentalIllness),
+    lupus: flag(patientData.hasLupus),
+    treatedHypertension: flag(patientData.onBPMedication),
+    type1Diabetes: flag(patientData.hasDiabetes && patientData.diabetesType === 'type1'),
+    type2Diabetes: flag(patientData.hasDiabetes && patientData.diabetesType === 'type2'),
+    familyHistory: flag(patientData.familyHistory),
+  };
+}
+
+/**
+ * Maps smoking status and intensity onto the five QRISK3 smoking categories
+ */
+function getSmokingCategory(patientData: PatientData): Qrisk3Predictors['smokingCategory'] {
+  if (patientData.smokingStatus === 'never') return 0;
+  if (patientData.smokingStatus === 'former') return 1;
+
+  return SMOKING_INTENSITY_CATEGORY[patientData.smokingIntensity!];
+}
+
+/**
+ * Groups the terms shared with the other models into the standard risk factor breakdown
+ */
+function calculateQrisk3RiskFactors(
+  x: Qrisk3Predictors,
+  c: Qrisk3CoefficientSet
+): RiskResult['riskFactors'] {
+  const ageInteraction = (key: 'systolicBP' | 'treatedHypertension' | 'type1Diabetes' | 'type2Diabetes' | 'familyHistory') =>
+    x.age1 * c.age1Interactions[key] + x.age2 * c.age2Interactions[key];
+  const smokingIndex = x.smokingCategory - 1;
+
+  return {
+    age: c.age1 * x.age1 + c.age2 * x.age2,
+    gender: 0, // Sex is handled by coefficient selection
+    cholesterol: c.cholesterolRatio * x.cholesterolRatio,
+    bloodPressure:
+      c.systolicBP * x.systolicBP +
+      c.systolicBPVariability * x.systolicBPVariability +
+      c.treatedHypertension * x.treatedHypertension +
+      ageInteraction('systolicBP') * x.systolicBP +
+      ageInteraction('treatedHypertension') * x.treatedHypertension,
+    smoking:
+      c.smoking[x.smokingCategory] +
+      (smokingIndex >= 0
+        ? x.age1 * c.age1Interactions.smoking[smokingIndex] + x.age2 * c.age2Interactions.smoking[smokingIndex]
+        : 0),
+    diabetes:
+      (c.type1Diabetes + ageInteraction('type1Diabetes')) * x.type1Diabetes +
+      (c.type2Diabetes + ageInteraction('type2Diabetes')) * x.type2Diabetes,
+    familyHistory: (c.familyHistory + ageInteraction('familyHistory')) * x.familyHistory,
+  };
+}
+
+/**
+ * Sums the ethnicity, BMI, deprivation and clinical history terms that have no
+ * counterpart in the standard risk factor breakdown
+ */
+function calculateUkSpecificTerms(
+  patientData: PatientData,
+  x: Qrisk3Predictors,
+  c: Qrisk3CoefficientSet
+): number {
+  const withAgeInteraction = (
+    value: number,
+    key: 'atrialFibrillation' | 'corticosteroids' | 'erectileDysfunction' | 'migraine' | 'chronicKidneyDisease' | 'lupus' | 'bmi1' | 'bmi2' | 'townsend'
+  ) => value * (c[key] + x.age1 * c.age1Interactions[key] + x.age2 * c.age2Interactions[key]);
+
+  return (
+    c.ethnicity[patientData.ethnicity ?? 'white'] +
+    withAgeInteraction(x.bmi1, 'bmi1') +
+    withAgeInteraction(x.bmi2, 'bmi2') +
+    withAgeInteraction(x.townsend, 'townsend') +
+    withAgeInteraction(x.atrialFibrillation, 'atrialFibrillation') +
+    withAgeInteraction(x.corticosteroids, 'corticosteroids') +
+    withAgeInteraction(x.erectileDysfunction, 'erectileDysfunction') +
+    withAgeInteraction(x.migraine, 'migraine') +
+    withAgeInteraction(x.chronicKidneyDisease, 'chronicKidneyDisease') +
+    withAgeInteraction(x.lupus, 'lupus') +
+    c.atypicalAntipsychotics * x.atypicalAntipsychotics +
+    c.rheumatoidArthritis * x.rheumatoidArthritis +
+    c.severeMentalIllness * x.severeMentalIllness
+  );
+}
+
+/**
+ * Validates that patient data contains all required fields for QRISK3
+ * @param patientData - Patient data to check
+ * @returns Array of validation error messages
+ */
+export function validateQrisk3Inputs(patientData: PatientData): string[] {
+  const errors: string[] = [];
+
+  if (
+    !patientData.age ||
+    patientData.age < QRISK3_AGE_RANGE.min ||
+    patientData.age > QRISK3_AGE_RANGE.max
+  ) {
+    errors.push(`Age must be between ${QRISK3_AGE_RANGE.min} and ${QRISK3_AGE_RANGE.max} years`);
+  }
+
+  if (!patientData.gender || !['male', 'female'].includes(patientData.gender)) {
+    errors.push('Gender must be specified as male or female');
+  }
+
+  if (patientData.ethnicity !== undefined && !QRISK_ETHNICITIES.includes(patientData.ethnicity)) {
+    errors.push('Ethnicity must be one of the QRISK3 ethnic groups');
+  }
+
+  if (!patientData.totalCholesterol || patientData.totalCholesterol <= 0) {
+    errors.push('Total cholesterol must be provided and greater than 0');
+  }
+
+  if (!patientData.hdlCholesterol || patientData.hdlCholesterol <= 0) {
+    errors.push('HDL cholesterol must be provided and greater than 0');
+  }
+
+  if (
+    patientData.totalCholesterol &&
+    patientData.hdlCholesterol &&
+    patientData.hdlCholesterol >= patientData.totalCholesterol
+  ) {
+    errors.push('HDL cholesterol cannot be higher than or equal to total cholesterol');
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0) {
+    errors.push('Systolic blood pressure must be provided and greater than 0');
+  }
+
+  if (!patientData.bmi || patientData.bmi <= 0) {
+    errors.push('BMI must be provided and greater than 0');
+  }
+
+  if (patientData.systolicBPVariability !== undefined && patientData.systolicBPVariability < 0) {
+    errors.push('Systolic blood pressure variability cannot be negative');
+  }
+
+  if (patientData.smokingStatus === 'current' && !patientData.smokingIntensity) {
+    errors.push('Smoking intensity must be specified for current smokers');
+  }
+
+  if (patientData.hasDiabetes && !patientData.diabetesType) {
+    errors.push('Diabetes type must be specified');
+  }
+
+  return errors;
+}
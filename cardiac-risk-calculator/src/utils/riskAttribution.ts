@@ -0,0 +1,127 @@
+import type { PatientData, RiskFactor, RiskModel, RiskResult } from '../types';
+import { RISK_ATTRIBUTION_REFERENCE, VALIDATION_RULES } from './constants';
+import { convertCholesterolFromMgDl } from './unitConverter';
+
+/**
+ * Counterfactual risk attribution
+ * Splits a model's 10-year risk into percentage-point contributions per risk factor by
+ * resetting factors to a reference profile and measuring the change in risk. Because the
+ * models are not additive, each factor gets its Shapley value: the average change it makes
+ * over every combination of the other factors, so the contributions add up exactly to the
+ * difference between the patient's risk and the reference risk.
+ */
+
+export const ATTRIBUTED_RISK_FACTORS: RiskFactor[] = [
+  'age',
+  'gender',
+  'cholesterol',
+  'bloodPressure',
+  'smoking',
+  'diabetes',
+  'familyHistory',
+];
+
+export interface RiskAttribution {
+  riskFactors: RiskResult['riskFactors'];
+  referenceRisk: number;
+}
+
+/**
+ * Gets the reference values that reset one factor
+ */
+function getReferenceValues(factor: RiskFactor, patientData: PatientData, model: RiskModel): Partial<PatientData> {
+  switch (factor) {
+    case 'age':
+      return { age: model.inputRanges.age?.min ?? VALIDATION_RULES.age.min };
+    case 'gender':
+      return { gender: RISK_ATTRIBUTION_REFERENCE.gender };
+    case 'cholesterol':
+      // Non-laboratory models use body mass index in place of cholesterol
+      if (model.requiredInputs.includes('height')) {
+        return {
+          height: RISK_ATTRIBUTION_REFERENCE.height,
+          weight: RISK_ATTRIBUTION_REFERENCE.bmi * (RISK_ATTRIBUTION_REFERENCE.height / 100) ** 2,
+          bodyMeasurementUnit: 'metric',
+        };
+      }
+      return {
+        totalCholesterol: convertCholesterolFromMgDl(RISK_ATTRIBUTION_REFERENCE.totalCholesterol, patientData.cholesterolUnit),
+        hdlCholesterol: convertCholesterolFromMgDl(RISK_ATTRIBUTION_REFERENCE.hdlCholesterol, patientData.cholesterolUnit),
+      };
+    case 'bloodPressure':
+      return {
+        systolicBP: RISK_ATTRIBUTION_REFERENCE.systolicBP,
+        diastolicBP: RISK_ATTRIBUTION_REFERENCE.diastolicBP,
+        onBPMedication: false,
+      };
+    case 'smoking':
+      return { smokingStatus: RISK_ATTRIBUTION_REFERENCE.smokingStatus };
+    case 'diabetes':
+      return { hasDiabetes: false };
+    case 'familyHistory':
+      return { familyHistory: false };
+  }
+}
+
+function factorial(n: number): number {
+  return n <= 1 ? 1 : n * factorial(n - 1);
+}
+
+/**
+ * Attributes a model's 10-year risk to the patient's risk factors
+ * @param patientData - Patient data the model accepts
+ * @param model - Registered model to rerun for every combination of reset factors
+ * @returns Percentage-point contribution per factor, rounded to 1 decimal place, and the reference risk
+ */
+export function calculateRiskAttribution(patientData: PatientData, model: RiskModel): RiskAttribution {
+  const resets = ATTRIBUTED_RISK_FACTORS.map(factor => getReferenceValues(factor, patientData, model));
+
+  // Factors already at their reference value contribute nothing and are left out of the combinations
+  const activeFactors = ATTRIBUTED_RISK_FACTORS
+    .map((factor, index) => ({ factor, reset: resets[index] }))
+    .filter(({ reset }) =>
+      (Object.keys(reset) as Array<keyof PatientData>).some(key => reset[key] !== patientData[key])
+    );
+  const n = activeFactors.length;
+
+  // Risk with the factors in the bitmask kept at the patient's values and the rest reset
+  const riskCache = new Map<number, number>();
+  const getRisk = (mask: number): number => {
+    if (!riskCache.has(mask)) {
+      const data = activeFactors.reduce<PatientData>(
+        (current, { reset }, index) => (mask & (1 << index) ? current : { ...current, ...reset }),
+        { ...patientData }
+      );
+      riskCache.set(mask, model.computeUnmonitored(data).tenYearRisk);
+    }
+    return riskCache.get(mask)!;
+  };
+
+  const riskFactors = Object.fromEntries(
+    ATTRIBUTED_RISK_FACTORS.map(factor => [factor, 0])
+  ) as RiskResult['riskFactors'];
+
+  activeFactors.forEach(({ factor }, index) => {
+    const bit = 1 << index;
+    let contribution = 0;
+
+    for (let mask = 0; mask < 1 << n; mask++) {
+      if (mask & bit) continue;
+      const size = countBits(mask);
+      const weight = (factorial(size) * factorial(n - size - 1)) / factorial(n);
+      contribution += weight * (getRisk(mask | bit) - getRisk(mask));
+    }
+
+    riskFactors[factor] = Math.round(contribution * 10) / 10; // Round to 1 decimal place
+  });
+
+  return { riskFactors, referenceRisk: getRisk(0) };
+}
+
+function countBits(mask: number): number {
+  let count = 0;
+  for (let value = mask; value > 0; value >>= 1) {
+    count += value & 1;
+  }
+  return count;
+}
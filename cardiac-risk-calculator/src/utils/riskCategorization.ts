@@ -1,5 +1,28 @@
-import type { PatientData, Recommendation, RiskCategory } from '../types';
-import { RISK_THRESHOLDS } from './constants';
+import type {
+  PatientData,
+  Recommendation,
+  RecommendationOptions,
+  RiskCategory,
+  RiskEnhancer,
+  RiskOutcome,
+  RiskThresholdScheme,
+  RiskThresholdSchemeId,
+} from '../types';
+import {
+  DEFAULT_THRESHOLD_SCHEME_ID,
+  RISK_CATEGORY_LABELS,
+  RISK_ENHANCER_LABELS,
+  RISK_OUTCOME_LABELS,
+  RISK_OUTCOME_TITLES,
+  RISK_THRESHOLD_SCHEMES,
+} from './constants';
+import { getRecommendationTier, identifyRiskEnhancers } from './riskEnhancers';
+import { assessBloodPressure, getBloodPressureCategoryLabel } from './bloodPressure';
+import { assessStatinEligibility, describeStatinDecision } from './statinEligibility';
+import { hasLipidPanel } from './lipids';
+import { assessGlycemicStatus } from './glycemia';
+import { calculateHypertensionRisk, isHypertensionRiskApplicable } from './hypertensionRisk';
+import { getBmi } from './unitConverter';
 
 /**
  * Risk Categorization and Recommendation Engine
@@ -7,60 +30,293 @@ import { RISK_THRESHOLDS } from './constants';
  * based on cardiovascular risk level and patient factors
  */
 
+/**
+ * Gets a named threshold scheme
+ * @param schemeId - Scheme id (defaults to the ATP III 10%/20% cut-offs)
+ */
+export function getRiskThresholdScheme(
+  schemeId: RiskThresholdSchemeId = DEFAULT_THRESHOLD_SCHEME_ID
+): RiskThresholdScheme {
+  return RISK_THRESHOLD_SCHEMES[schemeId];
+}
+
+/**
+ * Gets the cut-offs of a threshold scheme, for the patient's age when they are age-specific
+ * @param scheme - Threshold scheme
+ * @param age - Patient age in years; without it the scheme's general cut-offs are used
+ * @returns Upper bounds (exclusive) of every tier but the highest, in percent
+ */
+export function getRiskCutOffs(scheme: RiskThresholdScheme, age?: number): number[] {
+  if (age === undefined || !scheme.ageBands) {
+    return scheme.cutOffs;
+  }
+  return scheme.ageBands.find(band => age <= band.maxAge)!.cutOffs;
+}
+
 /**
  * Categorizes risk level based on 10-year cardiovascular risk percentage
  * @param riskPercentage - 10-year risk percentage (0-100)
- * @returns Risk category: 'low', 'moderate', or 'high'
+ * @param scheme - Threshold scheme (defaults to the ATP III low/moderate/high scheme)
+ * @param age - Patient age in years, for schemes with age-specific cut-offs
+ * @returns The scheme's category for the risk
  */
-export function categorizeRisk(riskPercentage: number): RiskCategory {
-  if (riskPercentage < RISK_THRESHOLDS.LOW) {
-    return 'low';
-  }
-  if (riskPercentage < RISK_THRESHOLDS.MODERATE) {
-    return 'moderate';
-  }
-  return 'high';
+export function categorizeRisk(
+  riskPercentage: number,
+  scheme: RiskThresholdScheme = getRiskThresholdScheme(),
+  age?: number
+): RiskCategory {
+  const tierIndex = getRiskCutOffs(scheme, age).filter(cutOff => riskPercentage >= cutOff).length;
+  return scheme.tiers[tierIndex].category;
 }
 
 /**
  * Generates personalized recommendations based on risk category and patient factors
+ * Risk-enhancing factors can move the recommendations up a tier (see getRecommendationTier)
  * @param riskCategory - Risk category from categorizeRisk()
  * @param riskPercentage - Actual risk percentage for context
  * @param patientData - Patient data for personalized recommendations
+ * @param scheme - Threshold scheme the category comes from
+ * @param options - Outcome of the risk, and the ASCVD risk for models the statin guidelines apply to
  * @returns Array of recommendations with priorities and action items
  */
 export function generateRecommendations(
   riskCategory: RiskCategory,
   riskPercentage: number,
-  patientData: PatientData
+  patientData: PatientData,
+  scheme: RiskThresholdScheme = getRiskThresholdScheme(),
+  options: RecommendationOptions = {}
 ): Recommendation[] {
+  const { outcome = 'cvd', ascvdRisk } = options;
   const recommendations: Recommendation[] = [];
+  const enhancers = identifyRiskEnhancers(patientData);
+  const tier = getRecommendationTier(riskCategory, riskPercentage, enhancers, scheme);
 
-  // Base recommendations by risk category
-  recommendations.push(...getBaseRecommendationsByCategory(riskCategory, riskPercentage));
+  // Base recommendations by risk tier
+  recommendations.push(...getBaseRecommendationsByCategory(
+    tier,
+    riskPercentage,
+    `10-year ${RISK_OUTCOME_TITLES[outcome].toLowerCase()} risk`,
+    tier !== riskCategory ? riskCategory : undefined
+  ));
+
+  // Explain the risk enhancers found
+  if (enhancers.length > 0) {
+    recommendations.push(getRiskEnhancerRecommendation(enhancers));
+  }
+
+  // Guideline statin decisions need a lipid panel, which the non-laboratory model runs without,
+  // and an ASCVD risk, which other outcomes and populations do not stand in for. Other models
+  // explain that instead, unless their own lowest tier leaves no treatment decision to make
+  let statinRecommendation: Recommendation | undefined;
+  if (!hasLipidPanel(patientData)) {
+    statinRecommendation = getLipidTestingRecommendation();
+  } else if (ascvdRisk !== undefined) {
+    statinRecommendation = getStatinRecommendation(patientData, ascvdRisk);
+  } else if (tier !== scheme.tiers[0].category) {
+    statinRecommendation = getStatinOutcomeCaveat(outcome);
+  }
+  if (statinRecommendation) {
+    recommendations.push(statinRecommendation);
+  }
 
   // Add personalized recommendations based on risk factors
-  recommendations.push(...getPersonalizedRecommendations(patientData, riskCategory));
+  recommendations.push(...getPersonalizedRecommendations(patientData, riskPercentage, tier));
 
   // Sort by priority (high -> medium -> low)
   return sortRecommendationsByPriority(recommendations);
 }
 
+/**
+ * Generates recommendations for preventing heart failure, following the 2022 AHA/ACC/HFSA heart
+ * failure guideline for people at risk of heart failure (stage A)
+ * @param riskCategory - Risk category from categorizeRisk()
+ * @param riskPercentage - 10-year heart failure risk percentage
+ * @param patientData - Patient data for personalized recommendations
+ * @returns Array of recommendations with priorities and action items
+ */
+export function generateHeartFailureRecommendations(
+  riskCategory: RiskCategory,
+  riskPercentage: number,
+  patientData: PatientData
+): Recommendation[] {
+  const recommendations: Recommendation[] = [getHeartFailureBaseRecommendation(riskCategory, riskPercentage)];
+  const bmi = getBmi(patientData);
+
+  if (patientData.systolicBP >= 130 || patientData.onBPMedication) {
+    recommendations.push({
+      category: 'medical',
+      priority: patientData.systolicBP >= 130 ? 'high' : 'medium',
+      title: 'Blood Pressure Control to Prevent Heart Failure',
+      description: `High blood pressure is the most important modifiable cause of heart failure. Your systolic blood pressure is ${patientData.systolicBP} mmHg; keeping it below 130 mmHg lowers the risk of developing heart failure.`,
+      actionItems: [
+        patientData.onBPMedication
+          ? 'Review your blood pressure medication with your doctor to reach below 130/80 mmHg'
+          : 'Discuss blood pressure treatment with your doctor',
+        'Monitor blood pressure regularly at home',
+        'Reduce sodium intake to less than 2,300mg per day',
+      ],
+    });
+  }
+
+  if (patientData.hasDiabetes || assessGlycemicStatus(patientData)?.status === 'diabetes') {
+    recommendations.push({
+      category: 'medical',
+      priority: 'high',
+      title: 'Diabetes and Heart Failure',
+      description: 'Diabetes raises the risk of heart failure. SGLT2 inhibitors lower blood sugar and also reduce hospitalization for heart failure in people with type 2 diabetes.',
+      actionItems: [
+        'Ask your doctor whether an SGLT2 inhibitor is appropriate for you',
+        'Keep HbA1c at the target agreed with your doctor',
+      ],
+    });
+  }
+
+  if (bmi !== undefined && bmi >= 30) {
+    recommendations.push({
+      category: 'lifestyle',
+      priority: 'medium',
+      title: 'Weight Management',
+      description: `Your BMI of ${bmi.toFixed(1)} is in the obese range, which raises the risk of heart failure.`,
+      actionItems: [
+        'Aim to lose 5-10% of your body weight with your healthcare provider\'s support',
+        'Get at least 150 minutes of moderate physical activity per week',
+      ],
+    });
+  }
+
+  if (patientData.smokingStatus === 'current') {
+    recommendations.push({
+      category: 'lifestyle',
+      priority: 'high',
+      title: 'Smoking Cessation',
+      description: 'Smoking damages the heart muscle and blood vessels and raises the risk of heart failure.',
+      actionItems: [
+        'Contact a smoking cessation program or quitline (1-800-QUIT-NOW)',
+        'Consider nicotine replacement therapy or prescription medications',
+      ],
+    });
+  }
+
+  if (patientData.hasPriorMyocardialInfarction) {
+    recommendations.push({
+      category: 'medical',
+      priority: 'high',
+      title: 'Heart Failure Prevention After a Heart Attack',
+      description: 'A previous heart attack can weaken the heart muscle. Guideline treatment after a heart attack reduces the chance of it progressing to heart failure.',
+      actionItems: [
+        'Ask your doctor whether you have had an echocardiogram to check your heart function',
+        'Take the ACE inhibitor, beta-blocker and statin prescribed after your heart attack',
+      ],
+    });
+  }
+
+  if (patientData.qrsDuration !== undefined && patientData.qrsDuration >= 120) {
+    recommendations.push({
+      category: 'monitoring',
+      priority: 'medium',
+      title: 'Prolonged QRS Duration',
+      description: `A QRS duration of ${patientData.qrsDuration} ms shows delayed electrical conduction in the heart, which is linked to heart failure.`,
+      actionItems: [
+        'Discuss an echocardiogram with your doctor to check your heart structure and function',
+      ],
+    });
+  }
+
+  recommendations.push({
+    category: 'monitoring',
+    priority: 'low',
+    title: 'Know the Warning Signs of Heart Failure',
+    description: 'Seeing a doctor early when symptoms start allows heart failure to be treated sooner.',
+    actionItems: [
+      'Report shortness of breath on exertion or when lying flat',
+      'Report swelling of the ankles or legs, or a weight gain of 2-3 pounds in a day',
+      'Report unusual tiredness or a reduced ability to exercise',
+    ],
+    resources: [
+      {
+        title: 'AHA: Heart Failure',
+        url: 'https://www.heart.org/en/health-topics/heart-failure',
+        description: 'Causes, warning signs and prevention of heart failure'
+      }
+    ]
+  });
+
+  return sortRecommendationsByPriority(recommendations);
+}
+
+/**
+ * Gets the recommendation for the heart failure risk category
+ */
+function getHeartFailureBaseRecommendation(category: RiskCategory, riskPercentage: number): Recommendation {
+  const guideline = {
+    title: '2022 AHA/ACC/HFSA Heart Failure Guideline',
+    url: 'https://www.ahajournals.org/doi/10.1161/CIR.0000000000001063',
+    description: 'Prevention of heart failure in people at risk'
+  };
+
+  switch (category) {
+    case 'low':
+      return {
+        category: 'lifestyle',
+        priority: 'medium',
+        title: 'Heart Failure Prevention',
+        description: `Your 10-year heart failure risk is ${riskPercentage.toFixed(1)}%, which is considered low. Keeping blood pressure, weight and blood sugar under control keeps it low.`,
+        actionItems: [
+          'Get at least 150 minutes of moderate physical activity per week',
+          'Keep your weight within a healthy range',
+          'Check your blood pressure and blood sugar at your regular check-ups',
+        ],
+      };
+
+    case 'high':
+      return {
+        category: 'medical',
+        priority: 'high',
+        title: 'High Heart Failure Risk',
+        description: `Your 10-year heart failure risk is ${riskPercentage.toFixed(1)}%, which is high. Screening can find early changes in the heart before symptoms start, when treatment can prevent heart failure.`,
+        actionItems: [
+          'Ask your doctor about a natriuretic peptide blood test (BNP or NT-proBNP)',
+          'Discuss an echocardiogram to check your heart structure and function',
+          'Work with your healthcare team to treat blood pressure, diabetes and weight',
+        ],
+        resources: [guideline],
+      };
+
+    default:
+      return {
+        category: 'medical',
+        priority: 'medium',
+        title: 'Elevated Heart Failure Risk',
+        description: `Your 10-year heart failure risk is ${riskPercentage.toFixed(1)}%, which is ${category}. Treating the conditions that lead to heart failure now can prevent it.`,
+        actionItems: [
+          'Ask your doctor whether a natriuretic peptide blood test (BNP or NT-proBNP) is appropriate',
+          'Work with your healthcare team to treat blood pressure, diabetes and weight',
+        ],
+        resources: [guideline],
+      };
+  }
+}
+
 /**
  * Gets base recommendations for each risk category
+ * @param riskName - What the risk estimates, e.g. '10-year stroke risk'
+ * @param raisedFrom - Category of the result when risk enhancers moved it into this tier
  */
 function getBaseRecommendationsByCategory(
   category: RiskCategory,
-  riskPercentage: number
+  riskPercentage: number,
+  riskName: string,
+  raisedFrom?: RiskCategory
 ): Recommendation[] {
   switch (category) {
     case 'low':
+    case 'low-to-moderate':
       return [
         {
           category: 'lifestyle',
           priority: 'medium',
           title: 'Maintain Healthy Lifestyle',
-          description: `Your 10-year cardiovascular risk is ${riskPercentage.toFixed(1)}%, which is considered low. Continue your current healthy practices to maintain this low risk.`,
+          description: `Your ${riskName} is ${riskPercentage.toFixed(1)}%, which is considered ${category.replace(/-/g, ' ')}. Continue your current healthy practices to maintain this low risk.`,
           actionItems: [
             'Continue regular physical activity (at least 150 minutes moderate exercise per week)',
             'Maintain a heart-healthy diet rich in fruits, vegetables, and whole grains',
@@ -90,13 +346,50 @@ function getBaseRecommendationsByCategory(
         }
       ];
 
+    case 'borderline':
+      return [
+        {
+          category: 'medical',
+          priority: 'medium',
+          title: 'Discuss Your Borderline Risk',
+          description: `Your ${riskName} is ${riskPercentage.toFixed(1)}%, which is borderline. Talk with your healthcare provider about whether other risk factors favor preventive treatment.`,
+          actionItems: [
+            'Review risk-enhancing factors such as family history, LDL cholesterol and metabolic syndrome with your doctor',
+            'Consider a coronary artery calcium scan if the decision remains uncertain',
+            'Recheck your risk factors every year'
+          ],
+          resources: [
+            {
+              title: 'ACC/AHA Cardiovascular Risk Calculator',
+              url: 'https://tools.acc.org/ascvd-risk-estimator-plus/',
+              description: 'Professional cardiovascular risk assessment tool'
+            }
+          ]
+        },
+        {
+          category: 'lifestyle',
+          priority: 'medium',
+          title: 'Strengthen Healthy Habits',
+          description: 'Lifestyle changes now can keep your risk from rising into the range where medication is recommended.',
+          actionItems: [
+            'Get at least 150 minutes of moderate exercise per week',
+            'Follow a Mediterranean or DASH diet pattern',
+            'Achieve and maintain a healthy weight (BMI 18.5-24.9)',
+            'Avoid tobacco use and limit alcohol consumption'
+          ]
+        }
+      ];
+
     case 'moderate':
+    case 'intermediate':
       return [
         {
           category: 'medical',
           priority: 'high',
           title: 'Medical Consultation Recommended',
-          description: `Your 10-year cardiovascular risk is ${riskPercentage.toFixed(1)}%, which is in the moderate range. Consult with your healthcare provider to discuss prevention strategies.`,
+          description: raisedFrom
+            ? `Your ${riskName} is ${riskPercentage.toFixed(1)}%, which is ${raisedFrom}, but risk-enhancing factors place you in the ${category} range. Consult with your healthcare provider to discuss prevention strategies.`
+            : `Your ${riskName} is ${riskPercentage.toFixed(1)}%, which is in the ${category} range. Consult with your healthcare provider to discuss prevention strategies.`,
           actionItems: [
             'Schedule an appointment with your primary care physician',
             'Discuss your risk factors and potential interventions',
@@ -139,15 +432,16 @@ function getBaseRecommendationsByCategory(
       ];
 
     case 'high':
+    case 'very-high':
       return [
         {
           category: 'medical',
           priority: 'high',
           title: 'Immediate Medical Consultation Required',
-          description: `Your 10-year cardiovascular risk is ${riskPercentage.toFixed(1)}%, which is considered high. Immediate medical attention is strongly recommended.`,
+          description: `Your ${riskName} is ${riskPercentage.toFixed(1)}%, which is considered ${category.replace(/-/g, ' ')}. Immediate medical attention is strongly recommended.`,
           actionItems: [
             'Schedule an urgent appointment with a cardiologist or primary care physician',
-            'Discuss immediate medication options (statins, blood pressure medications)',
+            'Discuss immediate medication options for blood pressure and other treatable risk factors',
             'Consider aspirin therapy if appropriate and not contraindicated',
             'Develop an aggressive risk reduction plan',
             'Discuss emergency warning signs and when to seek immediate care'
@@ -193,11 +487,263 @@ function getBaseRecommendationsByCategory(
   }
 }
 
+/**
+ * Lists the risk enhancers found and what they mean for treatment decisions
+ */
+function getRiskEnhancerRecommendation(enhancers: RiskEnhancer[]): Recommendation {
+  return {
+    category: 'medical',
+    priority: 'medium',
+    title: 'Risk-Enhancing Factors',
+    description: `These factors are not part of the 10-year risk calculation but increase your cardiovascular risk: ${enhancers.map(enhancer => RISK_ENHANCER_LABELS[enhancer]).join('; ')}.`,
+    actionItems: [
+      'Discuss with your healthcare provider how these factors affect your treatment options',
+      'Consider a coronary artery calcium scan if the treatment decision remains uncertain',
+      'Recheck abnormal blood markers such as LDL cholesterol, Lp(a) or hs-CRP as advised',
+    ],
+  };
+}
+
+/**
+ * States whether the ACC/AHA 2018 and USPSTF 2022 guidelines support a statin
+ * @param ascvdRisk - 10-year ASCVD risk percentage, the risk both guidelines are based on
+ * @returns Recommendation citing each guideline, or undefined when neither favors a statin
+ */
+function getStatinRecommendation(patientData: PatientData, ascvdRisk: number): Recommendation | undefined {
+  const decisions = assessStatinEligibility(patientData, ascvdRisk);
+
+  if (decisions.every(decision => decision.recommendation === 'not-indicated')) {
+    return undefined;
+  }
+
+  return {
+    category: 'medical',
+    priority: decisions.some(decision => decision.recommendation === 'indicated') ? 'high' : 'medium',
+    title: 'Statin Therapy',
+    description: `Based on your 10-year atherosclerotic cardiovascular disease (ASCVD) risk of ${ascvdRisk.toFixed(1)}%, your cholesterol, diabetes status and age, the ACC/AHA 2018 cholesterol guideline and the USPSTF 2022 recommendation say the following about statin therapy. Discuss them with your healthcare provider.`,
+    actionItems: decisions.map(describeStatinDecision),
+    resources: [
+      {
+        title: '2018 ACC/AHA Guideline on the Management of Blood Cholesterol',
+        url: 'https://www.ahajournals.org/doi/10.1161/CIR.0000000000000625',
+        description: 'Statin benefit groups and classes of recommendation'
+      },
+      {
+        title: 'USPSTF: Statin Use for the Primary Prevention of Cardiovascular Disease in Adults',
+        url: 'https://www.uspreventiveservicestaskforce.org/uspstf/recommendation/statin-use-in-adults-preventive-medication',
+        description: 'USPSTF 2022 recommendation statement'
+      }
+    ]
+  };
+}
+
+/**
+ * Explains why no guideline statin advice is given for a model that does not estimate ASCVD risk
+ * @param outcome - Outcome the model estimates
+ */
+function getStatinOutcomeCaveat(outcome: RiskOutcome): Recommendation {
+  return {
+    category: 'medical',
+    priority: 'medium',
+    title: 'Statin Therapy',
+    description: `The ACC/AHA 2018 and USPSTF 2022 statin recommendations are based on 10-year atherosclerotic cardiovascular disease (ASCVD) risk from the Pooled Cohort Equations. This model estimates ${RISK_OUTCOME_LABELS[outcome].toLowerCase()} risk, so its result is not compared with their thresholds.`,
+    actionItems: [
+      'Calculate your risk with the Pooled Cohort Equations or PREVENT to see guideline statin advice',
+      'Discuss statin therapy with your healthcare provider, particularly if you have diabetes or LDL cholesterol of 190 mg/dL or higher',
+    ],
+  };
+}
+
+/**
+ * Asks for a lipid panel when risk was estimated without one
+ */
+function getLipidTestingRecommendation(): Recommendation {
+  return {
+    category: 'monitoring',
+    priority: 'medium',
+    title: 'Cholesterol Testing',
+    description: 'Your risk was estimated without cholesterol results, using body mass index instead. A lipid panel gives a more precise estimate and is needed to decide on statin therapy.',
+    actionItems: [
+      'Ask your healthcare provider for a lipid panel (total, HDL and LDL cholesterol and triglycerides)',
+      'Recalculate your risk with a laboratory-based model once you have the results',
+    ],
+  };
+}
+
+/**
+ * Follows the ACC/AHA 2017 hypertension pathway for the patient's blood pressure category
+ * @returns Recommendation for elevated blood pressure and above, or undefined when it is normal
+ */
+function getBloodPressureRecommendation(
+  patientData: PatientData,
+  riskPercentage: number,
+  riskCategory: RiskCategory
+): Recommendation | undefined {
+  const assessment = assessBloodPressure(patientData, riskPercentage);
+
+  if (assessment.category === 'normal') {
+    return undefined;
+  }
+
+  const reading = `${patientData.systolicBP}/${patientData.diastolicBP} mmHg`;
+  const lifestyleItems = [
+    'Reduce sodium intake to less than 2,300mg per day (ideally 1,500mg)',
+    'Increase potassium-rich foods (bananas, oranges, spinach)',
+    'Maintain a healthy weight',
+    'Limit alcohol to no more than 1-2 drinks per day',
+  ];
+
+  if (assessment.category === 'crisis') {
+    return {
+      category: 'medical',
+      priority: 'high',
+      title: 'Blood Pressure Management - Hypertensive Crisis',
+      description: `Your blood pressure (${reading}) is in the hypertensive crisis range. ${assessment.rationale}.`,
+      actionItems: [
+        assessment.followUp,
+        'Recheck your blood pressure after resting quietly for 5 minutes',
+        'Do not stop or change medications without medical advice',
+      ],
+      resources: [
+        {
+          title: 'AHA: Hypertensive Crisis',
+          url: 'https://www.heart.org/en/health-topics/high-blood-pressure/understanding-blood-pressure-readings/hypertensive-crisis-when-you-should-call-911-for-high-blood-pressure',
+          description: 'When to call 911 for high blood pressure'
+        }
+      ]
+    };
+  }
+
+  return {
+    category: 'medical',
+    priority: assessment.drugTherapyRecommended || riskCategory === 'high' ? 'high' : 'medium',
+    title: `Blood Pressure Management - ${getBloodPressureCategoryLabel(assessment.category)}`,
+    description: `Your blood pressure (${reading}) is classified as ${getBloodPressureCategoryLabel(assessment.category).toLowerCase()} under the ACC/AHA 2017 guideline. ${assessment.rationale}.`,
+    actionItems: [
+      ...(assessment.drugTherapyRecommended
+        ? [patientData.onBPMedication
+            ? 'Review your blood pressure medication with your doctor to reach below 130/80 mmHg'
+            : 'Discuss starting blood pressure medication with your doctor']
+        : []),
+      'Monitor blood pressure regularly at home',
+      ...lifestyleItems,
+      assessment.followUp,
+    ],
+    resources: [
+      {
+        title: '2017 ACC/AHA High Blood Pressure Guideline',
+        url: 'https://www.ahajournals.org/doi/10.1161/HYP.0000000000000065',
+        description: 'Blood pressure categories and treatment thresholds'
+      }
+    ]
+  };
+}
+
+/**
+ * Gives the Framingham hypertension risk score to a patient whose blood pressure is below 140/90
+ * mmHg without medication
+ * @returns Recommendation with the 1-, 2- and 4-year risks, or undefined when the score does not apply
+ */
+function getHypertensionPreventionRecommendation(patientData: PatientData): Recommendation | undefined {
+  if (!isHypertensionRiskApplicable(patientData)) {
+    return undefined;
+  }
+
+  const { oneYearRisk, twoYearRisk, fourYearRisk } = calculateHypertensionRisk(patientData);
+  const bmi = getBmi(patientData);
+
+  return {
+    category: 'lifestyle',
+    priority: fourYearRisk >= 20 ? 'medium' : 'low',
+    title: 'Preventing High Blood Pressure',
+    description: `Your chance of developing high blood pressure (140/90 mmHg or higher) is ${oneYearRisk.toFixed(1)}% within 1 year, ${twoYearRisk.toFixed(1)}% within 2 years and ${fourYearRisk.toFixed(1)}% within 4 years, estimated with the Framingham hypertension risk score.`,
+    actionItems: [
+      fourYearRisk >= 20
+        ? 'Recheck your blood pressure every year'
+        : 'Recheck your blood pressure at least every 2 years',
+      ...(bmi !== undefined && bmi >= 25 ? ['Lose weight if you are overweight; each kilogram lost lowers blood pressure by about 1 mmHg'] : []),
+      ...(patientData.smokingStatus === 'current' ? ['Quit smoking'] : []),
+      'Follow a DASH-style diet rich in fruit, vegetables and low-fat dairy',
+      'Reduce sodium intake to less than 2,300mg per day',
+      'Aim for at least 150 minutes of moderate physical activity per week',
+      'Limit alcohol to no more than 1-2 drinks per day',
+    ],
+    resources: [
+      {
+        title: 'AHA: Changes You Can Make to Manage High Blood Pressure',
+        url: 'https://www.heart.org/en/health-topics/high-blood-pressure/changes-you-can-make-to-manage-high-blood-pressure',
+        description: 'Lifestyle changes that prevent and lower high blood pressure'
+      }
+    ]
+  };
+}
+
+/**
+ * Interprets HbA1c and glucose results for a patient without a diabetes diagnosis
+ * @returns Recommendation for prediabetes or diabetes-range results, or undefined otherwise
+ */
+function getGlycemicRecommendation(patientData: PatientData): Recommendation | undefined {
+  const assessment = assessGlycemicStatus(patientData);
+
+  if (!assessment || patientData.hasDiabetes) {
+    return undefined;
+  }
+
+  const results = assessment.basis.join(' and ');
+
+  if (assessment.diabetesStatusMismatch) {
+    return {
+      category: 'medical',
+      priority: 'high',
+      title: 'Possible Undiagnosed Diabetes',
+      description: `Your ${results} ${assessment.basis.length > 1 ? 'are' : 'is'} in the diabetes range under ADA criteria, but you have not reported a diabetes diagnosis. Your risk was calculated as if you did not have diabetes, so it may be underestimated.`,
+      actionItems: [
+        'See your doctor to confirm the result with a repeat test',
+        'Recalculate your risk with diabetes selected if the diagnosis is confirmed',
+        'Seek care promptly if you have excessive thirst, frequent urination or unexplained weight loss',
+      ],
+      resources: [
+        {
+          title: 'American Diabetes Association: Diagnosis',
+          url: 'https://diabetes.org/about-diabetes/diagnosis',
+          description: 'How diabetes and prediabetes are diagnosed'
+        }
+      ]
+    };
+  }
+
+  if (assessment.status === 'prediabetes') {
+    return {
+      category: 'lifestyle',
+      priority: 'medium',
+      title: 'Prediabetes',
+      description: `Your ${results} ${assessment.basis.length > 1 ? 'are' : 'is'} in the prediabetes range under ADA criteria. Prediabetes raises your risk of type 2 diabetes and heart disease, and lifestyle changes now can prevent or delay diabetes.`,
+      actionItems: [
+        'Join a diabetes prevention lifestyle program',
+        'Aim to lose 5-7% of your body weight if you are overweight',
+        'Get at least 150 minutes of moderate physical activity per week',
+        'Recheck your HbA1c or fasting glucose every year',
+        'Ask your doctor whether metformin is appropriate, especially if you are under 60 with a BMI of 35 or more',
+      ],
+      resources: [
+        {
+          title: 'CDC National Diabetes Prevention Program',
+          url: 'https://www.cdc.gov/diabetes-prevention/',
+          description: 'Find a lifestyle change program for prediabetes'
+        }
+      ]
+    };
+  }
+
+  return undefined;
+}
+
 /**
  * Generates personalized recommendations based on specific patient risk factors
  */
 function getPersonalizedRecommendations(
   patientData: PatientData,
+  riskPercentage: number,
   riskCategory: RiskCategory
 ): Recommendation[] {
   const recommendations: Recommendation[] = [];
@@ -263,22 +809,22 @@ function getPersonalizedRecommendations(
     });
   }
 
-  // High blood pressure recommendations
-  if (patientData.systolicBP >= 140 || patientData.diastolicBP >= 90) {
-    const priority = riskCategory === 'high' ? 'high' : 'medium';
-    recommendations.push({
-      category: 'medical',
-      priority,
-      title: 'Blood Pressure Management',
-      description: `Your blood pressure (${patientData.systolicBP}/${patientData.diastolicBP} mmHg) is elevated and requires attention.`,
-      actionItems: [
-        'Monitor blood pressure regularly at home',
-        'Reduce sodium intake to less than 2,300mg per day (ideally 1,500mg)',
-        'Increase potassium-rich foods (bananas, oranges, spinach)',
-        'Maintain a healthy weight',
-        'Discuss blood pressure medications with your doctor if needed'
-      ]
-    });
+  // Glycemic status recommendations by ADA criteria
+  const glycemicRecommendation = getGlycemicRecommendation(patientData);
+  if (glycemicRecommendation) {
+    recommendations.push(glycemicRecommendation);
+  }
+
+  // Blood pressure recommendations by ACC/AHA 2017 category
+  const bloodPressureRecommendation = getBloodPressureRecommendation(patientData, riskPercentage, riskCategory);
+  if (bloodPressureRecommendation) {
+    recommendations.push(bloodPressureRecommendation);
+  }
+
+  // Chance of developing hypertension for untreated blood pressure below 140/90
+  const hypertensionPreventionRecommendation = getHypertensionPreventionRecommendation(patientData);
+  if (hypertensionPreventionRecommendation) {
+    recommendations.push(hypertensionPreventionRecommendation);
   }
 
   // Cholesterol-specific recommendations
@@ -300,8 +846,7 @@ function getPersonalizedRecommendations(
         'Adopt a heart-healthy diet low in saturated and trans fats',
         'Increase soluble fiber intake (oats, beans, apples)',
         'Include omega-3 fatty acids (fish, walnuts, flaxseed)',
-        'Increase physical activity to raise HDL cholesterol',
-        'Discuss statin therapy with your healthcare provider if appropriate'
+        'Increase physical activity to raise HDL cholesterol'
       ]
     });
   }
@@ -374,32 +919,71 @@ function sortRecommendationsByPriority(recommendations: Recommendation[]): Recom
 export function getRiskCategoryColor(category: RiskCategory): string {
   switch (category) {
     case 'low':
+    case 'low-to-moderate':
       return '#22c55e'; // Green
+    case 'borderline':
+      return '#eab308'; // Yellow
     case 'moderate':
       return '#f59e0b'; // Yellow/Orange
+    case 'intermediate':
+      return '#f97316'; // Orange
     case 'high':
       return '#ef4444'; // Red
+    case 'very-high':
+      return '#b91c1c'; // Dark red
     default:
       return '#6b7280'; // Gray
   }
 }
 
+/**
+ * Gets the display name of a risk category
+ * @param category - Risk category
+ * @param scheme - Threshold scheme, for guideline names such as ESC's 'Very High Risk'
+ * @returns The scheme's name for the category, or the general name when the scheme lacks it
+ */
+export function getRiskCategoryLabel(
+  category: RiskCategory,
+  scheme: RiskThresholdScheme = getRiskThresholdScheme()
+): string {
+  return scheme.tiers.find(tier => tier.category === category)?.label
+    ?? RISK_CATEGORY_LABELS[category]
+    ?? 'Unknown Risk';
+}
+
+/**
+ * Formats the risk range covered by one tier of a scheme
+ * @param tierIndex - Position of the tier, lowest first
+ * @param cutOffs - Cut-offs between the tiers
+ * @returns Range such as '<5%', '5-7.5%' or '≥20%'
+ */
+export function formatRiskTierRange(tierIndex: number, cutOffs: number[]): string {
+  if (tierIndex === 0) {
+    return `<${cutOffs[0]}%`;
+  }
+  if (tierIndex >= cutOffs.length) {
+    return `≥${cutOffs[cutOffs.length - 1]}%`;
+  }
+  return `${cutOffs[tierIndex - 1]}-${cutOffs[tierIndex]}%`;
+}
+
 /**
  * Gets risk category description for display
  * @param category - Risk category
+ * @param scheme - Threshold scheme (defaults to the ATP III low/moderate/high scheme)
+ * @param cutOffs - Cut-offs used, when they differ from the scheme's general cut-offs
  * @returns Human-readable description
  */
-export function getRiskCategoryDescription(category: RiskCategory): string {
-  switch (category) {
-    case 'low':
-      return 'Low Risk (<10%)';
-    case 'moderate':
-      return 'Moderate Risk (10-20%)';
-    case 'high':
-      return 'High Risk (≥20%)';
-    default:
-      return 'Unknown Risk';
+export function getRiskCategoryDescription(
+  category: RiskCategory,
+  scheme: RiskThresholdScheme = getRiskThresholdScheme(),
+  cutOffs: number[] = scheme.cutOffs
+): string {
+  const tierIndex = scheme.tiers.findIndex(tier => tier.category === category);
+  if (tierIndex < 0) {
+    return 'Unknown Risk';
   }
+  return `${scheme.tiers[tierIndex].label} (${formatRiskTierRange(tierIndex, cutOffs)})`;
 }
 
 /**
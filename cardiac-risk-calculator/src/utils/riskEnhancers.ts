@@ -0,0 +1,107 @@
+import type { PatientData, RiskCategory, RiskEnhancer, RiskThresholdScheme } from '../types';
+import { DEFAULT_THRESHOLD_SCHEME_ID, RISK_ENHANCER_THRESHOLDS, RISK_THRESHOLD_SCHEMES } from './constants';
+import { convertCholesterolToMgDl } from './unitConverter';
+
+/**
+ * Risk-Enhancing Factors (ACC/AHA 2018 cholesterol guideline)
+ * Conditions and markers that are not in the risk equations but favor preventive
+ * treatment when the 10-year risk is borderline. They are reported with the result
+ * and move the recommendations up a tier; the calculated percentage is unchanged.
+ */
+
+const SOUTH_ASIAN_ETHNICITIES: Array<PatientData['ethnicity']> = ['indian', 'pakistani', 'bangladeshi'];
+
+// eGFR below this is CKD stage 3 or worse, in mL/min/1.73m²
+const CKD_EGFR_THRESHOLD = 60;
+
+/**
+ * Identifies the risk-enhancing factors present in the patient data
+ * @param patientData - Patient data with cholesterol in either unit
+ * @returns Enhancers present, in guideline order
+ */
+export function identifyRiskEnhancers(patientData: PatientData): RiskEnhancer[] {
+  const enhancers: RiskEnhancer[] = [];
+
+  if (patientData.familyHistory) {
+    enhancers.push('familyHistory');
+  }
+
+  if (
+    patientData.ldlCholesterol &&
+    convertCholesterolToMgDl(patientData.ldlCholesterol, patientData.cholesterolUnit) >= RISK_ENHANCER_THRESHOLDS.LDL_MG_DL
+  ) {
+    enhancers.push('highLdl');
+  }
+
+  if (patientData.hasChronicKidneyDisease || (patientData.egfr !== undefined && patientData.egfr < CKD_EGFR_THRESHOLD)) {
+    enhancers.push('chronicKidneyDisease');
+  }
+
+  if (patientData.hasMetabolicSyndrome) {
+    enhancers.push('metabolicSyndrome');
+  }
+
+  if (patientData.hasInflammatoryDisease || patientData.hasRheumatoidArthritis || patientData.hasLupus) {
+    enhancers.push('inflammatoryDisease');
+  }
+
+  if (patientData.isSouthAsian || SOUTH_ASIAN_ETHNICITIES.includes(patientData.ethnicity)) {
+    enhancers.push('southAsianAncestry');
+  }
+
+  if (patientData.lipoproteinA !== undefined && patientData.lipoproteinA >= RISK_ENHANCER_THRESHOLDS.LIPOPROTEIN_A_MG_DL) {
+    enhancers.push('lipoproteinA');
+  }
+
+  if (patientData.hsCRP !== undefined && patientData.hsCRP >= RISK_ENHANCER_THRESHOLDS.HS_CRP_MG_L) {
+    enhancers.push('hsCRP');
+  }
+
+  if (
+    patientData.apolipoproteinB !== undefined &&
+    patientData.apolipoproteinB >= RISK_ENHANCER_THRESHOLDS.APOLIPOPROTEIN_B_MG_DL
+  ) {
+    enhancers.push('apolipoproteinB');
+  }
+
+  if (
+    patientData.ankleBrachialIndex !== undefined &&
+    patientData.ankleBrachialIndex < RISK_ENHANCER_THRESHOLDS.ANKLE_BRACHIAL_INDEX
+  ) {
+    enhancers.push('lowAnkleBrachialIndex');
+  }
+
+  return enhancers;
+}
+
+/**
+ * Gets the tier whose recommendations apply once risk enhancers are considered
+ * A result at borderline risk with any enhancer, in a tier the scheme marks as raised by
+ * enhancers, is treated as the next tier, where the guideline favors discussing a statin;
+ * other results keep their own tier.
+ * @param riskCategory - Category from the 10-year risk
+ * @param riskPercentage - 10-year risk percentage
+ * @param enhancers - Risk enhancers present
+ * @param scheme - Threshold scheme the category comes from
+ */
+export function getRecommendationTier(
+  riskCategory: RiskCategory,
+  riskPercentage: number,
+  enhancers: RiskEnhancer[],
+  scheme: RiskThresholdScheme = RISK_THRESHOLD_SCHEMES[DEFAULT_THRESHOLD_SCHEME_ID]
+): RiskCategory {
+  const index = scheme.tiers.findIndex(tier => tier.category === riskCategory);
+  const nextTier = scheme.tiers[index + 1];
+
+  if (
+    index >= 0 &&
+    scheme.tiers[index].raisedByRiskEnhancers &&
+    nextTier &&
+    enhancers.length > 0 &&
+    riskPercentage >= RISK_ENHANCER_THRESHOLDS.MIN_RISK_FOR_TIER_SHIFT
+  ) {
+    return nextTier.category;
+  }
+
+  return riskCategory;
+}
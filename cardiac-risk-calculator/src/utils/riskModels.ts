@@ -0,0 +1,469 @@
+import type {
+  PatientData,
+  RiskCalculationOptions,
+  RiskModel,
+  RiskModelId,
+  RiskOutcome,
+  RiskResult,
+} from '../types';
+import {
+  APP_CONFIG,
+  FRAMINGHAM_AGE_EXTRAPOLATION_RANGE,
+  QRS_DURATION_RANGE,
+  VALIDATION_RULES,
+} from './constants';
+import { calculateFraminghamRisk } from './framingham';
+import { calculateFraminghamBmiRisk, FRAMINGHAM_BMI_AGE_RANGE } from './framinghamBmi';
+import { calculateFraminghamStrokeRisk, FRAMINGHAM_STROKE_AGE_RANGE } from './framinghamStroke';
+import { calculateHeartFailureRisk, HEART_FAILURE_AGE_RANGE } from './heartFailure';
+import { calculatePooledCohortRisk, POOLED_COHORT_AGE_RANGE } from './pooledCohort';
+import { calculatePreventRisk, PREVENT_AGE_RANGE } from './prevent';
+import {
+  calculateScore2Risk,
+  calculateScore2OpRisk,
+  SCORE2_AGE_RANGE,
+  SCORE2_OP_AGE_RANGE,
+} from './score2';
+import { calculateQrisk3Risk, QRISK3_AGE_RANGE } from './qrisk3';
+import { calculateRiskAttribution } from './riskAttribution';
+import { calculateRiskRange } from './riskUncertainty';
+import { calculateLipidProfile, hasLipidPanel } from './lipids';
+import { getAgeExtrapolationWarning } from './validation';
+
+/**
+ * Risk Model Registry
+ * Central list of the risk algorithms the calculator can run. The form, results,
+ * export and profile storage look models up here instead of calling an algorithm directly.
+ */
+
+export const DEFAULT_RISK_MODEL_ID: RiskModelId = 'framingham-2008';
+
+// Model the form switches to when the patient has no recent lipid results
+export const NON_LABORATORY_RISK_MODEL_ID: RiskModelId = 'framingham-bmi-2008';
+
+// Model the results report as the stroke outcome next to the selected model
+export const STROKE_RISK_MODEL_ID: RiskModelId = 'framingham-stroke-1994';
+
+// Model the results report as the heart failure outcome next to the selected model
+export const HEART_FAILURE_RISK_MODEL_ID: RiskModelId = 'pcp-hf-2019';
+
+// Outcomes reported alongside the selected model rather than offered as model choices
+const COMPANION_OUTCOMES: RiskOutcome[] = ['stroke', 'heartFailure'];
+
+/**
+ * Framingham 2008 general cardiovascular disease model (D'Agostino et al., Circulation 2008)
+ */
+export const FRAMINGHAM_2008_MODEL: RiskModel = {
+  id: 'framingham-2008',
+  name: 'Framingham Risk Score',
+  version: APP_CONFIG.FRAMINGHAM_VERSION,
+  description: '10-year risk of general cardiovascular disease from the Framingham Heart Study',
+  outcome: 'cvd',
+  requiredInputs: [
+    'age',
+    'gender',
+    'totalCholesterol',
+    'hdlCholesterol',
+    'systolicBP',
+    'diastolicBP',
+    'smokingStatus',
+  ],
+  optionalInputs: [
+    'ldlCholesterol',
+    'onBPMedication',
+    'bloodGlucose',
+    'hasDiabetes',
+    'familyHistory',
+  ],
+  inputRanges: {
+    age: { min: VALIDATION_RULES.age.min, max: VALIDATION_RULES.age.max, unit: 'years' },
+    totalCholesterol: {
+      min: VALIDATION_RULES.totalCholesterol.min['mg/dL'],
+      max: VALIDATION_RULES.totalCholesterol.max['mg/dL'],
+      unit: 'mg/dL',
+    },
+    hdlCholesterol: {
+      min: VALIDATION_RULES.hdlCholesterol.min['mg/dL'],
+      max: VALIDATION_RULES.hdlCholesterol.max['mg/dL'],
+      unit: 'mg/dL',
+    },
+    systolicBP: { min: VALIDATION_RULES.systolicBP.min, max: VALIDATION_RULES.systolicBP.max, unit: 'mmHg' },
+    diastolicBP: { min: VALIDATION_RULES.diastolicBP.min, max: VALIDATION_RULES.diastolicBP.max, unit: 'mmHg' },
+  },
+  thresholdScheme: 'atp-iii',
+  ageExtrapolationRange: FRAMINGHAM_AGE_EXTRAPOLATION_RANGE,
+  compute: (patientData, options) => calculateFraminghamRisk(patientData, options),
+  computeUnmonitored: (patientData) => calculateFraminghamRisk.unmonitored(patientData),
+};
+
+/**
+ * Framingham 2008 office-based model, with BMI in place of cholesterol (D'Agostino et al., Circulation 2008)
+ */
+export const FRAMINGHAM_BMI_2008_MODEL: RiskModel = {
+  id: 'framingham-bmi-2008',
+  name: 'Framingham Risk Score (non-laboratory, BMI)',
+  version: APP_CONFIG.FRAMINGHAM_VERSION,
+  description: '10-year risk of general cardiovascular disease estimated without blood tests, using body mass index from height and weight instead of cholesterol',
+  outcome: 'cvd',
+  requiredInputs: [
+    'age',
+    'gender',
+    'height',
+    'weight',
+    'systolicBP',
+    'diastolicBP',
+    'smokingStatus',
+  ],
+  optionalInputs: [
+    'bodyMeasurementUnit',
+    'onBPMedication',
+    'bloodGlucose',
+    'hasDiabetes',
+    'familyHistory',
+  ],
+  inputRanges: {
+    age: { ...FRAMINGHAM_BMI_AGE_RANGE, unit: 'years' },
+    systolicBP: FRAMINGHAM_2008_MODEL.inputRanges.systolicBP,
+    diastolicBP: FRAMINGHAM_2008_MODEL.inputRanges.diastolicBP,
+  },
+  thresholdScheme: 'atp-iii',
+  ageExtrapolationRange: FRAMINGHAM_AGE_EXTRAPOLATION_RANGE,
+  compute: (patientData, options) => calculateFraminghamBmiRisk(patientData, options),
+  computeUnmonitored: (patientData) => calculateFraminghamBmiRisk.unmonitored(patientData),
+};
+
+/**
+ * Framingham Stroke Risk Profile, revised for antihypertensive treatment (D'Agostino et al., Stroke 1994)
+ * Reported alongside the selected model as the stroke outcome rather than offered as a model choice
+ */
+export const FRAMINGHAM_STROKE_1994_MODEL: RiskModel = {
+  id: 'framingham-stroke-1994',
+  name: 'Framingham Stroke Risk Profile',
+  version: '1994',
+  description: '10-year risk of stroke for ages 55-84 from the Framingham Heart Study, including atrial fibrillation, LVH and prior cardiovascular disease',
+  outcome: 'stroke',
+  requiredInputs: [
+    'age',
+    'gender',
+    'systolicBP',
+    'smokingStatus',
+  ],
+  optionalInputs: [
+    'onBPMedication',
+    'hasDiabetes',
+    'hasCardiovascularDisease',
+    'hasAtrialFibrillation',
+    'hasLeftVentricularHypertrophy',
+  ],
+  inputRanges: {
+    age: { ...FRAMINGHAM_STROKE_AGE_RANGE, unit: 'years' },
+    systolicBP: FRAMINGHAM_2008_MODEL.inputRanges.systolicBP,
+  },
+  thresholdScheme: 'atp-iii',
+  compute: (patientData, options) => calculateFraminghamStrokeRisk(patientData, options),
+  computeUnmonitored: (patientData) => calculateFraminghamStrokeRisk.unmonitored(patientData),
+};
+
+/**
+ * Pooled Cohort Equations to Prevent Heart Failure (PCP-HF; Khan et al., JAMA Cardiol 2020, published
+ * online 2019)
+ * Reported alongside the selected model as the heart failure outcome rather than offered as a model choice.
+ * Prior myocardial infarction is not a PCP-HF predictor, so it only shapes the heart failure
+ * recommendations and is not a model input
+ */
+export const PCP_HF_2019_MODEL: RiskModel = {
+  id: 'pcp-hf-2019',
+  name: 'Heart Failure Risk (PCP-HF)',
+  version: '2019',
+  description: '10-year risk of developing heart failure from age, race, blood pressure, fasting glucose, smoking, cholesterol, BMI and QRS duration',
+  outcome: 'heartFailure',
+  requiredInputs: [
+    'age',
+    'gender',
+    'race',
+    'totalCholesterol',
+    'hdlCholesterol',
+    'bmi',
+    'systolicBP',
+    'bloodGlucose',
+    'smokingStatus',
+    'qrsDuration',
+  ],
+  optionalInputs: [
+    'cholesterolUnit',
+    'height',
+    'weight',
+    'bodyMeasurementUnit',
+    'onBPMedication',
+    'hasDiabetes',
+  ],
+  inputRanges: {
+    age: { ...HEART_FAILURE_AGE_RANGE, unit: 'years' },
+    systolicBP: FRAMINGHAM_2008_MODEL.inputRanges.systolicBP,
+    qrsDuration: QRS_DURATION_RANGE,
+  },
+  thresholdScheme: 'atp-iii',
+  compute: (patientData, options) => calculateHeartFailureRisk(patientData, options),
+  computeUnmonitored: (patientData) => calculateHeartFailureRisk.unmonitored(patientData),
+};
+
+/**
+ * ACC/AHA 2013 Pooled Cohort Equations for 10-year ASCVD risk (Goff et al., Circulation 2014)
+ */
+export const POOLED_COHORT_2013_MODEL: RiskModel = {
+  id: 'pce-2013',
+  name: 'Pooled Cohort Equations',
+  version: APP_CONFIG.POOLED_COHORT_VERSION,
+  description: '10-year risk of a first atherosclerotic cardiovascular disease event from the ACC/AHA 2013 guideline',
+  outcome: 'ascvd',
+  requiredInputs: [
+    'age',
+    'gender',
+    'race',
+    'totalCholesterol',
+    'hdlCholesterol',
+    'systolicBP',
+    'diastolicBP',
+    'smokingStatus',
+  ],
+  optionalInputs: [
+    'onBPMedication',
+    'hasDiabetes',
+  ],
+  inputRanges: {
+    ...FRAMINGHAM_2008_MODEL.inputRanges,
+    age: { ...POOLED_COHORT_AGE_RANGE, unit: 'years' },
+  },
+  thresholdScheme: 'acc-aha-2018',
+  compute: (patientData, options) => calculatePooledCohortRisk(patientData, options),
+  computeUnmonitored: (patientData) => calculatePooledCohortRisk.unmonitored(patientData),
+};
+
+/**
+ * AHA PREVENT base equations for 10- and 30-year CVD, ASCVD and heart failure risk (Khan et al., Circulation 2024)
+ */
+export const PREVENT_2023_MODEL: RiskModel = {
+  id: 'prevent-2023',
+  name: 'PREVENT Equations',
+  version: APP_CONFIG.PREVENT_VERSION,
+  description: '10- and 30-year risk of total cardiovascular disease, ASCVD and heart failure from the AHA PREVENT base equations (without the optional UACR, HbA1c and social deprivation index terms)',
+  outcome: 'cvd',
+  requiredInputs: [
+    'age',
+    'gender',
+    'totalCholesterol',
+    'hdlCholesterol',
+    'systolicBP',
+    'diastolicBP',
+    'smokingStatus',
+    'egfr',
+    'bmi',
+  ],
+  optionalInputs: [
+    'onBPMedication',
+    'onStatin',
+    'hasDiabetes',
+  ],
+  inputRanges: {
+    age: { ...PREVENT_AGE_RANGE, unit: 'years' },
+    totalCholesterol: { min: 130, max: 320, unit: 'mg/dL' },
+    hdlCholesterol: { min: 20, max: 100, unit: 'mg/dL' },
+    systolicBP: { min: 90, max: 180, unit: 'mmHg' },
+    diastolicBP: FRAMINGHAM_2008_MODEL.inputRanges.diastolicBP,
+    egfr: { min: 15, max: 140, unit: 'mL/min/1.73m²' },
+    bmi: { min: 18.5, max: 39.9, unit: 'kg/m²' },
+  },
+  thresholdScheme: 'acc-aha-2018',
+  compute: (patientData) => calculatePreventRisk(patientData),
+  computeUnmonitored: (patientData) => calculatePreventRisk.unmonitored(patientData),
+};
+
+const SCORE2_REQUIRED_INPUTS: RiskModel['requiredInputs'] = [
+  'age',
+  'gender',
+  'riskRegion',
+  'totalCholesterol',
+  'hdlCholesterol',
+  'systolicBP',
+  'diastolicBP',
+  'smokingStatus',
+];
+
+/**
+ * ESC SCORE2 for 10-year fatal and non-fatal CVD risk in 40-69 year olds (Eur Heart J 2021)
+ */
+export const SCORE2_2021_MODEL: RiskModel = {
+  id: 'score2-2021',
+  name: 'SCORE2',
+  version: APP_CONFIG.SCORE2_VERSION,
+  description: '10-year risk of fatal and non-fatal cardiovascular disease for ages 40-69, recalibrated to the ESC risk region',
+  outcome: 'cvd',
+  requiredInputs: SCORE2_REQUIRED_INPUTS,
+  optionalInputs: ['hasDiabetes'],
+  inputRanges: {
+    ...FRAMINGHAM_2008_MODEL.inputRanges,
+    age: { ...SCORE2_AGE_RANGE, unit: 'years' },
+  },
+  thresholdScheme: 'esc-2021',
+  compute: (patientData) => calculateScore2Risk(patientData),
+  computeUnmonitored: (patientData) => calculateScore2Risk.unmonitored(patientData),
+};
+
+/**
+ * ESC SCORE2-OP for 10-year fatal and non-fatal CVD risk in people aged 70 and over (Eur Heart J 2021)
+ */
+export const SCORE2_OP_2021_MODEL: RiskModel = {
+  id: 'score2-op-2021',
+  name: 'SCORE2-OP',
+  version: APP_CONFIG.SCORE2_VERSION,
+  description: '10-year risk of fatal and non-fatal cardiovascular disease for ages 70 and over, recalibrated to the ESC risk region',
+  outcome: 'cvd',
+  requiredInputs: SCORE2_REQUIRED_INPUTS,
+  optionalInputs: ['hasDiabetes'],
+  inputRanges: {
+    ...FRAMINGHAM_2008_MODEL.inputRanges,
+    age: { ...SCORE2_OP_AGE_RANGE, unit: 'years' },
+  },
+  thresholdScheme: 'esc-2021',
+  compute: (patientData) => calculateScore2OpRisk(patientData),
+  computeUnmonitored: (patientData) => calculateScore2OpRisk.unmonitored(patientData),
+};
+
+/**
+ * QRISK3-2017 for 10-year risk of heart attack or stroke in the UK population (Hippisley-Cox et al., BMJ 2017)
+ */
+export const QRISK3_2017_MODEL: RiskModel = {
+  id: 'qrisk3-2017',
+  name: 'QRISK3',
+  version: APP_CONFIG.QRISK3_VERSION,
+  description: '10-year risk of heart attack or stroke for ages 25-84, derived from UK primary care records',
+  outcome: 'cvd',
+  requiredInputs: [
+    'age',
+    'gender',
+    'totalCholesterol',
+    'hdlCholesterol',
+    'systolicBP',
+    'diastolicBP',
+    'smokingStatus',
+    'bmi',
+  ],
+  optionalInputs: [
+    'ethnicity',
+    'townsendScore',
+    'systolicBPVariability',
+    'smokingIntensity',
+    'onBPMedication',
+    'hasDiabetes',
+    'diabetesType',
+    'familyHistory',
+    'hasAtrialFibrillation',
+    'hasChronicKidneyDisease',
+    'hasRheumatoidArthritis',
+    'hasLupus',
+    'hasMigraine',
+    'hasSevereMentalIllness',
+    'onAtypicalAntipsychotics',
+    'onCorticosteroids',
+    'hasErectileDysfunction',
+  ],
+  inputRanges: {
+    ...FRAMINGHAM_2008_MODEL.inputRanges,
+    age: { ...QRISK3_AGE_RANGE, unit: 'years' },
+    bmi: { min: 20, max: 40, unit: 'kg/m²' },
+    townsendScore: { min: -7, max: 11 },
+    systolicBPVariability: { min: 0, max: 40, unit: 'mmHg' },
+  },
+  thresholdScheme: 'atp-iii',
+  compute: (patientData) => calculateQrisk3Risk(patientData),
+  computeUnmonitored: (patientData) => calculateQrisk3Risk.unmonitored(patientData),
+};
+
+const registry = new Map<RiskModelId, RiskModel>();
+
+/**
+ * Adds a model to the registry
+ * @param model - Model definition; its id must not already be registered
+ */
+export function registerRiskModel(model: RiskModel): void {
+  if (registry.has(model.id)) {
+    throw new Error(`Risk model already registered: ${model.id}`);
+  }
+  registry.set(model.id, model);
+}
+
+/**
+ * Looks up a registered model
+ * @param modelId - Registry id of the model
+ * @returns The model definition
+ */
+export function getRiskModel(modelId: RiskModelId): RiskModel {
+  const model = registry.get(modelId);
+  if (!model) {
+    throw new Error(`Unknown risk model: ${modelId}`);
+  }
+  return model;
+}
+
+/**
+ * Gets all registered models in registration order
+ */
+export function getRiskModels(): RiskModel[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Gets the registered models that predict cardiovascular disease, the choices offered in the form
+ */
+export function getCardiovascularRiskModels(): RiskModel[] {
+  return getRiskModels().filter(model => !COMPANION_OUTCOMES.includes(model.outcome));
+}
+
+/**
+ * Checks whether a value is the id of a registered model
+ */
+export function isRegisteredRiskModel(modelId: unknown): modelId is RiskModelId {
+  return typeof modelId === 'string' && registry.has(modelId as RiskModelId);
+}
+
+/**
+ * Gets the model used when no other model has been selected
+ */
+export function getDefaultRiskModel(): RiskModel {
+  return getRiskModel(DEFAULT_RISK_MODEL_ID);
+}
+
+/**
+ * Runs a registered model against patient data
+ * @param patientData - Patient data with the model's required inputs
+ * @param modelId - Registry id of the model to run
+ * @param options - Calculation options, e.g. includeTrace for the step-by-step working
+ * @returns Risk result tagged with the model id and version, with riskFactors in percentage points,
+ *   the plausible range of the risk and a warning when the age was extrapolated
+ */
+export function calculateRisk(
+  patientData: PatientData,
+  modelId: RiskModelId = DEFAULT_RISK_MODEL_ID,
+  options: RiskCalculationOptions = {}
+): RiskResult {
+  const model = getRiskModel(modelId);
+  const result = model.compute(patientData, options);
+
+  return {
+    ...result,
+    ...calculateRiskAttribution(patientData, model),
+    riskRange: calculateRiskRange(patientData, model),
+    lipidProfile: hasLipidPanel(patientData) ? calculateLipidProfile(patientData) : undefined,
+    ageWarning: getAgeExtrapolationWarning(patientData, model),
+  };
+}
+
+registerRiskModel(FRAMINGHAM_2008_MODEL);
+registerRiskModel(FRAMINGHAM_BMI_2008_MODEL);
+registerRiskModel(FRAMINGHAM_STROKE_1994_MODEL);
+registerRiskModel(PCP_HF_2019_MODEL);
+registerRiskModel(POOLED_COHORT_2013_MODEL);
+registerRiskModel(PREVENT_2023_MODEL);
+registerRiskModel(SCORE2_2021_MODEL);
+registerRiskModel(SCORE2_OP_2021_MODEL);
+registerRiskModel(QRISK3_2017_MODEL);
@@ -0,0 +1,127 @@
+import type { PatientData, RiskModel, RiskRange } from '../types';
+import { MEASUREMENT_UNCERTAINTY, RISK_RANGE_Z_SCORE } from './constants';
+import { convertCholesterolFromMgDl } from './unitConverter';
+
+/**
+ * Risk uncertainty
+ * Propagates measurement error in blood pressure and cholesterol into a plausible range
+ * around a model's 10-year risk. The error is propagated analytically (delta method) on the
+ * complementary log-log scale, where the proportional hazards models are close to linear in
+ * their inputs, so the range is asymmetric on the percentage scale like the risk curve itself.
+ */
+
+type MeasuredInput = 'systolicBP' | 'totalCholesterol' | 'hdlCholesterol';
+
+// Rounded risks of 0% or 100% are held half a rounding step inside the scale
+const MIN_RISK = 0.05;
+const MAX_RISK = 99.95;
+
+function toLinearScale(risk: number): number {
+  const bounded = Math.min(Math.max(risk, MIN_RISK), MAX_RISK) / 100;
+  return Math.log(-Math.log(1 - bounded));
+}
+
+function fromLinearScale(value: number): number {
+  return (1 - Math.exp(-Math.exp(value))) * 100;
+}
+
+/**
+ * Gets the standard deviation of an input's measurement error in the patient's units
+ */
+function getMeasurementSD(input: MeasuredInput, patientData: PatientData): number {
+  switch (input) {
+    case 'systolicBP':
+      return MEASUREMENT_UNCERTAINTY.systolicBP;
+    case 'totalCholesterol':
+      return patientData.totalCholesterol * MEASUREMENT_UNCERTAINTY.totalCholesterolCV;
+    case 'hdlCholesterol':
+      return patientData.hdlCholesterol * MEASUREMENT_UNCERTAINTY.hdlCholesterolCV;
+  }
+}
+
+/**
+ * Keeps a perturbed input inside the range the model accepts
+ */
+function clampToModelRange(input: MeasuredInput, value: number, patientData: PatientData, model: RiskModel): number {
+  const range = model.inputRanges[input];
+  if (!range) {
+    return value;
+  }
+
+  // Cholesterol ranges are given in mg/dL
+  const toPatientUnit = (bound: number) =>
+    input === 'systolicBP' ? bound : convertCholesterolFromMgDl(bound, patientData.cholesterolUnit);
+
+  return Math.min(Math.max(value, toPatientUnit(range.min)), toPatientUnit(range.max));
+}
+
+/**
+ * Keeps a perturbed cholesterol value on its side of the other, with HDL at least 1 mg/dL
+ * below total cholesterol, as every model requires
+ */
+function keepHdlBelowTotal(input: MeasuredInput, value: number, patientData: PatientData): number {
+  const gap = convertCholesterolFromMgDl(1, patientData.cholesterolUnit);
+
+  switch (input) {
+    case 'totalCholesterol':
+      return Math.max(value, patientData.hdlCholesterol + gap);
+    case 'hdlCholesterol':
+      return Math.min(value, patientData.totalCholesterol - gap);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Reruns the model with one input changed
+ */
+function computeWithInput(input: MeasuredInput, value: number, patientData: PatientData, model: RiskModel): number {
+  const data: PatientData = { ...patientData, [input]: value };
+
+  // Diastolic BP has to stay below the systolic reading
+  if (input === 'systolicBP') {
+    data.diastolicBP = Math.min(patientData.diastolicBP, value - 1);
+  }
+
+  return model.computeUnmonitored(data).tenYearRisk;
+}
+
+/**
+ * Calculates the plausible range of a model's 10-year risk given measurement uncertainty
+ * @param patientData - Patient data the model accepts
+ * @param model - Registered model to rerun one standard deviation either side of each measurement it requires
+ * @returns 95% range of the 10-year risk, rounded to 1 decimal place
+ */
+export function calculateRiskRange(patientData: PatientData, model: RiskModel): RiskRange {
+  const risk = model.computeUnmonitored(patientData).tenYearRisk;
+  const inputs = (['systolicBP', 'totalCholesterol', 'hdlCholesterol'] as MeasuredInput[])
+    .filter(input => model.requiredInputs.includes(input));
+
+  // Change in the linear-scale risk per standard deviation of each measurement
+  const variance = inputs.reduce((sum, input) => {
+    const sd = getMeasurementSD(input, patientData);
+    const bound = (value: number) =>
+      keepHdlBelowTotal(input, clampToModelRange(input, value, patientData, model), patientData);
+    const low = bound(patientData[input] - sd);
+    const high = bound(patientData[input] + sd);
+
+    if (high <= low) {
+      return sum;
+    }
+
+    const slope = (
+      toLinearScale(computeWithInput(input, high, patientData, model)) -
+      toLinearScale(computeWithInput(input, low, patientData, model))
+    ) / (high - low);
+
+    return sum + (slope * sd) ** 2;
+  }, 0);
+
+  const margin = RISK_RANGE_Z_SCORE * Math.sqrt(variance);
+  const center = toLinearScale(risk);
+
+  return {
+    lower: Math.min(Math.round(fromLinearScale(center - margin) * 10) / 10, risk), // Round to 1 decimal place
+    upper: Math.max(Math.round(fromLinearScale(center + margin) * 10) / 10, risk),
+  };
+}
@@ -0,0 +1,230 @@
+import type {
+  EscRiskRegion,
+  PatientData,
+  RiskResult,
+  Score2CoefficientSet,
+  Score2RegionRecalibration,
+} from '../types';
+import {
+  APP_CONFIG,
+  SCORE2_COEFFICIENTS,
+  SCORE2_OP_COEFFICIENTS,
+  SCORE2_REGION_RECALIBRATION,
+  SCORE2_OP_REGION_RECALIBRATION,
+} from './constants';
+import {
+  categorizeRisk,
+  generateRecommendations,
+  getRiskCutOffs,
+  getRiskThresholdScheme,
+} from './riskCategorization';
+import { generateComparisonData } from './framingham';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { convertCholesterolFromMgDl, convertCholesterolToMgDl } from './unitConverter';
+import { withPerformanceMonitoring } from './performance';
+
+/**
+ * SCORE2 / SCORE2-OP Calculator
+ * Implements the ESC 2021 models for 10-year risk of fatal and non-fatal cardiovascular
+ * disease, recalibrated to the patient's ESC risk region. SCORE2 covers ages 40-69 and
+ * SCORE2-OP ages 70 and over. The published charts are indexed by non-HDL cholesterol;
+ * the underlying equations take total and HDL cholesterol in mmol/L.
+ */
+
+export const SCORE2_AGE_RANGE = { min: 40, max: 69 };
+export const SCORE2_OP_AGE_RANGE = { min: 70, max: 89 };
+
+const ESC_RISK_REGIONS: EscRiskRegion[] = ['low', 'moderate', 'high', 'very-high'];
+
+/**
+ * Predictors transformed the way each model expects
+ */
+interface Score2Predictors {
+  age: number;
+  systolicBP: number;
+  totalCholesterol: number;
+  hdlCholesterol: number;
+  smoking: number;
+  diabetes: number;
+}
+
+/**
+ * Calculates the 10-year CVD risk using SCORE2 (ages 40-69)
+ * @param patientData - Patient data including ESC risk region
+ * @returns Region-calibrated risk result categorized with ESC age-specific thresholds
+ */
+export const calculateScore2Risk = withPerformanceMonitoring(
+  function calculateScore2RiskInternal(patientData: PatientData): RiskResult {
+  try {
+    const validationErrors = validateScore2Inputs(patientData, SCORE2_AGE_RANGE);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const { totalCholesterol, hdlCholesterol } = getCholesterolInMmolL(patientData);
+    const predictors: Score2Predictors = {
+      age: (patientData.age - 60) / 5,
+      systolicBP: (patientData.systolicBP - 120) / 20,
+      totalCholesterol: totalCholesterol - 6,
+      hdlCholesterol: (hdlCholesterol - 1.3) / 0.5,
+      smoking: patientData.smokingStatus === 'current' ? 1 : 0,
+      diabetes: patientData.hasDiabetes ? 1 : 0,
+    };
+
+    return buildScore2Result(
+      patientData,
+      predictors,
+      SCORE2_COEFFICIENTS[patientData.gender],
+      SCORE2_REGION_RECALIBRATION,
+      'score2-2021'
+    );
+  } catch (error) {
+    throw new Error(`SCORE2 risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}, 'risk-calculation');
+
+/**
+ * Calculates the 10-year CVD risk using SCORE2-OP (ages 70 and over)
+ * @param patientData - Patient data including ESC risk region
+ * @returns Region-calibrated risk result categorized with ESC age-specific thresholds
+ */
+export const calculateScore2OpRisk = withPerformanceMonitoring(
+  function calculateScore2OpRiskInternal(patientData: PatientData): RiskResult {
+  try {
+    const validationErrors = validateScore2Inputs(patientData, SCORE2_OP_AGE_RANGE);
+    if (validationErrors.length > 0) {
+      throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+    }
+
+    const { totalCholesterol, hdlCholesterol } = getCholesterolInMmolL(patientData);
+    const predictors: Score2Predictors = {
+      age: patientData.age - 73,
+      systolicBP: patientData.systolicBP - 150,
+      totalCholesterol: totalCholesterol - 6,
+      hdlCholesterol: hdlCholesterol - 1.4,
+      smoking: patientData.smokingStatus === 'current' ? 1 : 0,
+      diabetes: patientData.hasDiabetes ? 1 : 0,
+    };
+
+    return buildScore2Result(
+      patientData,
+      predictors,
+      SCORE2_OP_COEFFICIENTS[patientData.gender],
+      SCORE2_OP_REGION_RECALIBRATION,
+      'score2-op-2021'
+    );
+  } catch (error) {
+    throw new Error(`SCORE2-OP risk calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}, 'risk-calculation');
+
+/**
+ * Gets total and HDL cholesterol in mmol/L using the shared unit converter
+ */
+function getCholesterolInMmolL(patientData: PatientData): { totalCholesterol: number; hdlCholesterol: number } {
+  const toMmolL = (value: number) =>
+    convertCholesterolFromMgDl(convertCholesterolToMgDl(value, patientData.cholesterolUnit), 'mmol/L');
+
+  return patientData.cholesterolUnit === 'mmol/L'
+    ? { totalCholesterol: patientData.totalCholesterol, hdlCholesterol: patientData.hdlCholesterol }
+    : { totalCholesterol: toMmolL(patientData.totalCholesterol), hdlCholesterol: toMmolL(patientData.hdlCholesterol) };
+}
+
+/**
+ * Applies the model, recalibrates it to the risk region and categorizes the result
+ */
+function buildScore2Result(
+  patientData: PatientData,
+  x: Score2Predictors,
+  c: Score2CoefficientSet,
+  recalibration: Score2RegionRecalibration,
+  modelId: 'score2-2021' | 'score2-op-2021'
+): RiskResult {
+  const riskFactors: RiskResult['riskFactors'] = {
+    age: c.age * x.age,
+    gender: 0, // Sex is handled by coefficient selection
+    cholesterol:
+      c.totalCholesterol * x.totalCholesterol +
+      c.hdlCholesterol * x.hdlCholesterol +
+      c.ageTotalCholesterol * x.age * x.totalCholesterol +
+      c.ageHdlCholesterol * x.age * x.hdlCholesterol,
+    bloodPressure: c.systolicBP * x.systolicBP + c.ageSystolicBP * x.age * x.systolicBP,
+    smoking: c.smoking * x.smoking + c.ageSmoking * x.age * x.smoking,
+    diabetes: c.diabetes * x.diabetes + c.ageDiabetes * x.age * x.diabetes,
+    familyHistory: 0, // Not part of SCORE2
+  };
+
+  const linearPredictor = Object.values(riskFactors).reduce((sum, term) => sum + term, 0);
+  const uncalibratedRisk = 1 - Math.pow(c.baselineSurvival, Math.exp(linearPredictor - c.meanLinearPredictor));
+
+  const { scale1, scale2 } = recalibration[patientData.riskRegion!][patientData.gender];
+  const calibratedRisk = 1 - Math.exp(-Math.exp(scale1 + scale2 * Math.log(-Math.log(1 - uncalibratedRisk))));
+
+  const tenYearRisk = Math.max(0, Math.min(100, calibratedRisk * 100));
+  if (!isFinite(tenYearRisk)) {
+    throw new Error(`Invalid risk percentage calculated: ${tenYearRisk}`);
+  }
+
+  const thresholdScheme = getRiskThresholdScheme('esc-2021');
+  const riskThresholds = getRiskCutOffs(thresholdScheme, patientData.age);
+  const riskCategory = categorizeRisk(tenYearRisk, thresholdScheme, patientData.age);
+
+  return {
+    tenYearRisk: Math.round(tenYearRisk * 10) / 10, // Round to 1 decimal place
+    riskCategory,
+    riskThresholds,
+    riskEnhancers: identifyRiskEnhancers(patientData),
+    riskFactors,
+    comparisonData: generateComparisonData(patientData),
+    recommendations: generateRecommendations(riskCategory, tenYearRisk, patientData, thresholdScheme),
+    calculatedAt: new Date(),
+    modelId,
+    modelVersion: APP_CONFIG.SCORE2_VERSION,
+  };
+}
+
+/**
+ * Validates that patient data contains all required fields for SCORE2 or SCORE2-OP
+ * @param patientData - Patient data to check
+ * @param ageRange - Age window of the model being run
+ */
+export function validateScore2Inputs(
+  patientData: PatientData,
+  ageRange: { min: number; max: number }
+): string[] {
+  const errors: string[] = [];
+
+  if (!patientData.age || patientData.age < ageRange.min || patientData.age > ageRange.max) {
+    errors.push(`Age must be between ${ageRange.min} and ${ageRange.max} years`);
+  }
+
+  if (!patientData.gender || !['male', 'female'].includes(patientData.gender)) {
+    errors.push('Gender must be specified as male or female');
+  }
+
+  if (!patientData.riskRegion || !ESC_RISK_REGIONS.includes(patientData.riskRegion)) {
+    errors.push('ESC risk region must be specified');
+  }
+
+  if (!patientData.totalCholesterol || patientData.totalCholesterol <= 0) {
+    errors.push('Total cholesterol must be provided and greater than 0');
+  }
+
+  if (!patientData.hdlCholesterol || patientData.hdlCholesterol <= 0) {
+    errors.push('HDL cholesterol must be provided and greater than 0');
+  }
+
+  if (
+    patientData.totalCholesterol &&
+    patientData.hdlCholesterol &&
+    patientData.hdlCholesterol >= patientData.totalCholesterol
+  ) {
+    errors.push('HDL cholesterol cannot be higher than or equal to total cholesterol');
+  }
+
+  if (!patientData.systolicBP || patientData.systolicBP <= 0) {
+    errors.push('Systolic blood pressure must be provided and greater than 0');
+  }
+
+  return errors;
+}
@@ -0,0 +1,166 @@
+import type { PatientData, StatinDecision, StatinIntensity } from '../types';
+import {
+  ACC_AHA_STATIN_CRITERIA,
+  RISK_THRESHOLD_SCHEMES,
+  STATIN_RECOMMENDATION_LABELS,
+  USPSTF_STATIN_CRITERIA,
+} from './constants';
+import { estimateLdlCholesterol } from './lipids';
+import { identifyRiskEnhancers } from './riskEnhancers';
+import { convertCholesterolToMgDl } from './unitConverter';
+
+/**
+ * Statin Eligibility Decision Support
+ * Applies the primary prevention statin rules of the ACC/AHA 2018 cholesterol guideline
+ * (Grundy et al., Circulation 2019) and the USPSTF 2022 recommendation to the risk estimate,
+ * LDL cholesterol, diabetes, age and risk enhancers. Each decision names the rule that fired
+ * and its class of recommendation or grade. LDL is estimated when it was not measured.
+ */
+
+// ACC/AHA borderline, intermediate and high risk start at these 10-year risks
+const [BORDERLINE_RISK, INTERMEDIATE_RISK, HIGH_RISK] = RISK_THRESHOLD_SCHEMES['acc-aha-2018'].cutOffs;
+
+function decision(
+  guideline: StatinDecision['guideline'],
+  recommendation: StatinDecision['recommendation'],
+  rule: string,
+  classOfRecommendation?: string,
+  intensity?: StatinIntensity
+): StatinDecision {
+  return { guideline, recommendation, intensity, rule, classOfRecommendation };
+}
+
+/**
+ * Applies the ACC/AHA 2018 primary prevention statin benefit groups
+ * @param patientData - Patient data
+ * @param riskPercentage - 10-year risk percentage from the selected model
+ */
+export function assessAccAhaStatinEligibility(patientData: PatientData, riskPercentage: number): StatinDecision {
+  const guideline = 'ACC/AHA 2018';
+  const { age } = patientData;
+  const ldl = estimateLdlCholesterol(patientData);
+  const { min: minAge, max: maxAge } = ACC_AHA_STATIN_CRITERIA.RISK_BASED_AGE_RANGE;
+
+  if (ldl >= ACC_AHA_STATIN_CRITERIA.SEVERE_HYPERCHOLESTEROLEMIA_LDL_MG_DL && age >= ACC_AHA_STATIN_CRITERIA.MIN_AGE && age <= maxAge) {
+    return decision(guideline, 'indicated', 'LDL cholesterol ≥190 mg/dL, age 20-75', 'Class I', 'high');
+  }
+
+  if (age > maxAge) {
+    return ldl >= ACC_AHA_STATIN_CRITERIA.MIN_LDL_MG_DL
+      ? decision(guideline, 'discuss', 'Age over 75 with LDL cholesterol 70-189 mg/dL', 'Class IIb', 'moderate')
+      : decision(guideline, 'not-indicated', 'Age over 75 with LDL cholesterol below 70 mg/dL');
+  }
+
+  if (age < minAge) {
+    return patientData.familyHistory || ldl >= ACC_AHA_STATIN_CRITERIA.YOUNG_ADULT_LDL_MG_DL
+      ? decision(guideline, 'discuss', 'Age 20-39 with a family history of premature heart disease or LDL cholesterol ≥160 mg/dL', 'Class IIb')
+      : decision(guideline, 'not-indicated', 'Age under 40 without severe hypercholesterolemia');
+  }
+
+  if (patientData.hasDiabetes) {
+    return riskPercentage >= HIGH_RISK
+      ? decision(guideline, 'indicated', 'Diabetes, age 40-75, with 10-year risk ≥20%', 'Class IIa', 'high')
+      : decision(guideline, 'indicated', 'Diabetes, age 40-75', 'Class I', 'moderate');
+  }
+
+  if (ldl < ACC_AHA_STATIN_CRITERIA.MIN_LDL_MG_DL) {
+    return decision(guideline, 'not-indicated', 'LDL cholesterol below 70 mg/dL');
+  }
+
+  if (riskPercentage >= HIGH_RISK) {
+    return decision(guideline, 'indicated', '10-year risk ≥20%', 'Class I', 'high');
+  }
+
+  if (riskPercentage >= INTERMEDIATE_RISK) {
+    return decision(guideline, 'indicated', '10-year risk 7.5% to <20%', 'Class I', 'moderate');
+  }
+
+  if (riskPercentage >= BORDERLINE_RISK) {
+    return identifyRiskEnhancers(patientData).length > 0
+      ? decision(guideline, 'consider', '10-year risk 5% to <7.5% with risk-enhancing factors', 'Class IIb', 'moderate')
+      : decision(guideline, 'not-indicated', '10-year risk 5% to <7.5% without risk-enhancing factors');
+  }
+
+  return decision(guideline, 'not-indicated', '10-year risk below 5%');
+}
+
+/**
+ * Checks for the CVD risk factors the USPSTF recommendation requires
+ */
+function hasUspstfRiskFactor(patientData: PatientData): boolean {
+  const hdl = convertCholesterolToMgDl(patientData.hdlCholesterol, patientData.cholesterolUnit);
+  const hasDyslipidemia =
+    estimateLdlCholesterol(patientData) > USPSTF_STATIN_CRITERIA.DYSLIPIDEMIA_LDL_MG_DL ||
+    hdl < USPSTF_STATIN_CRITERIA.DYSLIPIDEMIA_HDL_MG_DL;
+  const hasHypertension =
+    patientData.onBPMedication ||
+    patientData.systolicBP >= USPSTF_STATIN_CRITERIA.HYPERTENSION_SYSTOLIC ||
+    patientData.diastolicBP >= USPSTF_STATIN_CRITERIA.HYPERTENSION_DIASTOLIC;
+
+  return hasDyslipidemia || patientData.hasDiabetes || hasHypertension || patientData.smokingStatus === 'current';
+}
+
+/**
+ * Applies the USPSTF 2022 statin recommendation for adults 40-75
+ * @param patientData - Patient data
+ * @param riskPercentage - 10-year risk percentage from the selected model
+ */
+export function assessUspstfStatinEligibility(patientData: PatientData, riskPercentage: number): StatinDecision {
+  const guideline = 'USPSTF 2022';
+  const { min: minAge, max: maxAge } = USPSTF_STATIN_CRITERIA.AGE_RANGE;
+
+  if (patientData.age > maxAge) {
+    return decision(guideline, 'discuss', 'Age 76 or older: evidence is insufficient', 'Grade I');
+  }
+
+  if (patientData.age < minAge) {
+    return decision(guideline, 'not-indicated', 'The recommendation covers adults aged 40-75');
+  }
+
+  if (!hasUspstfRiskFactor(patientData)) {
+    return decision(guideline, 'not-indicated', 'No CVD risk factor (dyslipidemia, diabetes, hypertension or smoking)');
+  }
+
+  if (riskPercentage >= USPSTF_STATIN_CRITERIA.GRADE_B_MIN_RISK) {
+    return decision(guideline, 'indicated', 'At least one CVD risk factor and 10-year risk ≥10%', 'Grade B', 'moderate');
+  }
+
+  if (riskPercentage >= USPSTF_STATIN_CRITERIA.GRADE_C_MIN_RISK) {
+    return decision(guideline, 'consider', 'At least one CVD risk factor and 10-year risk 7.5% to <10%', 'Grade C', 'moderate');
+  }
+
+  return decision(guideline, 'not-indicated', 'At least one CVD risk factor but 10-year risk below 7.5%');
+}
+
+/**
+ * Applies both guidelines
+ * @param patientData - Patient data
+ * @param riskPercentage - 10-year risk percentage from the selected model
+ * @returns ACC/AHA 2018 decision followed by the USPSTF 2022 decision
+ */
+export function assessStatinEligibility(patientData: PatientData, riskPercentage: number): StatinDecision[] {
+  return [
+    assessAccAhaStatinEligibility(patientData, riskPercentage),
+    assessUspstfStatinEligibility(patientData, riskPercentage),
+  ];
+}
+
+/**
+ * Formats a decision as a short statement, e.g. "Statin indicated (moderate intensity)"
+ */
+export function formatStatinDecision(statinDecision: StatinDecision): string {
+  const label = STATIN_RECOMMENDATION_LABELS[statinDecision.recommendation];
+  return statinDecision.intensity && statinDecision.recommendation !== 'not-indicated'
+    ? `${label} (${statinDecision.intensity} intensity)`
+    : label;
+}
+
+/**
+ * Describes a decision with its guideline, the rule that fired and its class or grade
+ */
+export function describeStatinDecision(statinDecision: StatinDecision): string {
+  const citation = statinDecision.classOfRecommendation
+    ? `${statinDecision.guideline}, ${statinDecision.classOfRecommendation}`
+    : statinDecision.guideline;
+  return `${formatStatinDecision(statinDecision)}: ${statinDecision.rule} (${citation})`;
+}
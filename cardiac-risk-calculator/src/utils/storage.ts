@@ -1,4 +1,6 @@
-import type { PatientProfile, StorageError, EncryptedData } from '../types';
+import type { PatientProfile, RiskResult, StorageError, EncryptedData } from '../types';
+import { DEFAULT_RISK_MODEL_ID, isRegisteredRiskModel } from './riskModels';
+import { FORM_OPTIONS } from './constants';
 
 /**
  * Storage utilities for patient profiles with encryption
@@ -192,6 +194,31 @@ function generateDefaultPassword(): string {
   return `cardiac_risk_${Math.abs(hash)}_${STORAGE_VERSION}`;
 }
 
+/**
+ * Brings a stored risk result up to the current shape
+ * Results saved before the model registry only carry a framinghamVersion, and results
+ * saved before threshold schemes store their cut-offs as { LOW, MODERATE }
+ */
+function migrateStoredRiskResult(
+  stored: Omit<RiskResult, 'modelId' | 'modelVersion' | 'riskThresholds'> &
+    Partial<Pick<RiskResult, 'modelId' | 'modelVersion'>> & {
+      framinghamVersion?: string;
+      riskThresholds?: number[] | { LOW: number; MODERATE: number };
+    }
+): RiskResult {
+  const { framinghamVersion, riskThresholds, ...riskResult } = stored;
+
+  return {
+    ...riskResult,
+    modelId: riskResult.modelId ?? DEFAULT_RISK_MODEL_ID,
+    modelVersion: riskResult.modelVersion ?? framinghamVersion,
+    riskThresholds: riskThresholds && !Array.isArray(riskThresholds)
+      ? [riskThresholds.LOW, riskThresholds.MODERATE]
+      : riskThresholds,
+    calculatedAt: new Date(riskResult.calculatedAt),
+  } as RiskResult;
+}
+
 /**
  * Save a patient profile to encrypted local storage
  */
@@ -258,10 +285,9 @@ export async function loadPatientProfile(profileId: string): Promise<PatientProf
       ...profileData,
       createdAt: new Date(profileData.createdAt),
       updatedAt: new Date(profileData.updatedAt),
-      riskResult: profileData.riskResult ? {
-        ...profileData.riskResult,
-        calculatedAt: new Date(profileData.riskResult.calculatedAt)
-      } : undefined
+      riskResult: profileData.riskResult
+        ? migrateStoredRiskResult(profileData.riskResult)
+        : undefined
     };
   } catch (error) {
     if (error instanceof StorageErrorImpl) {
@@ -416,23 +442,117 @@ export function validateProfileData(profile: unknown): profile is PatientProfile
   }
 
   const patientData = p.patientData as Record<string, any>;
+
+  // Results must come from a registered model (legacy results have no modelId)
+  if (p.riskResult && p.riskResult.modelId !== undefined &&
+      !isRegisteredRiskModel(p.riskResult.modelId)) {
+    return false;
+  }
   
   return (
     typeof p.id === 'string' &&
     typeof p.name === 'string' &&
     typeof patientData.age === 'number' &&
     (patientData.gender === 'male' || patientData.gender === 'female') &&
-    typeof patientData.totalCholesterol === 'number' &&
-    typeof patientData.hdlCholesterol === 'number' &&
+    (patientData.race === undefined || ['white', 'african-american', 'chinese', 'hispanic', 'other'].includes(patientData.race)) &&
+    (patientData.riskRegion === undefined || ['low', 'moderate', 'high', 'very-high'].includes(patientData.riskRegion)) &&
+    isValidLipidOrBodySizeData(patientData) &&
     (patientData.cholesterolUnit === 'mg/dL' || patientData.cholesterolUnit === 'mmol/L') &&
     typeof patientData.systolicBP === 'number' &&
     typeof patientData.diastolicBP === 'number' &&
     typeof patientData.onBPMedication === 'boolean' &&
     (patientData.glucoseUnit === 'mg/dL' || patientData.glucoseUnit === 'mmol/L') &&
+    (patientData.glucoseTestType === undefined || ['fasting', 'random'].includes(patientData.glucoseTestType)) &&
+    (patientData.hba1c === undefined || typeof patientData.hba1c === 'number') &&
+    (patientData.hba1cUnit === undefined || ['%', 'mmol/mol'].includes(patientData.hba1cUnit)) &&
     ['never', 'former', 'current'].includes(patientData.smokingStatus) &&
     typeof patientData.hasDiabetes === 'boolean' &&
     typeof patientData.familyHistory === 'boolean' &&
+    (patientData.egfr === undefined || typeof patientData.egfr === 'number') &&
+    (patientData.bmi === undefined || typeof patientData.bmi === 'number') &&
+    (patientData.onStatin === undefined || typeof patientData.onStatin === 'boolean') &&
+    isValidQrisk3Data(patientData) &&
+    isValidRiskEnhancerData(patientData) &&
+    ADDITIONAL_CONDITION_FIELDS.every(field => patientData[field] === undefined || typeof patientData[field] === 'boolean') &&
+    (patientData.qrsDuration === undefined || typeof patientData.qrsDuration === 'number') &&
+    (patientData.cacScore === undefined || typeof patientData.cacScore === 'number') &&
+    (patientData.parentalHypertension === undefined || ['none', 'one', 'both'].includes(patientData.parentalHypertension as string)) &&
+    (patientData.extrapolateAge === undefined || typeof patientData.extrapolateAge === 'boolean') &&
+    (p.scenarios === undefined || (Array.isArray(p.scenarios) && p.scenarios.every(isValidTreatmentScenario))) &&
     (p.createdAt instanceof Date || typeof p.createdAt === 'string') &&
     (p.updatedAt instanceof Date || typeof p.updatedAt === 'string')
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Validate the lipid panel, or the height and weight the non-laboratory model uses instead
+ */
+function isValidLipidOrBodySizeData(patientData: Record<string, unknown>): boolean {
+  const isNumber = (field: string) => typeof patientData[field] === 'number';
+  const isNumberOrMissing = (field: string) => patientData[field] === undefined || isNumber(field);
+
+  return (
+    ((isNumber('totalCholesterol') && isNumber('hdlCholesterol')) || (isNumber('height') && isNumber('weight'))) &&
+    ['totalCholesterol', 'hdlCholesterol', 'height', 'weight'].every(isNumberOrMissing) &&
+    (patientData.bodyMeasurementUnit === undefined || ['metric', 'imperial'].includes(patientData.bodyMeasurementUnit as string))
+  );
+}
+
+const QRISK3_BOOLEAN_FIELDS = [
+  'hasAtrialFibrillation',
+  'hasChronicKidneyDisease',
+  'hasRheumatoidArthritis',
+  'hasLupus',
+  'hasMigraine',
+  'hasSevereMentalIllness',
+  'onAtypicalAntipsychotics',
+  'onCorticosteroids',
+  'hasErectileDysfunction',
+];
+
+/**
+ * Validate the optional QRISK3 fields of stored patient data
+ */
+function isValidQrisk3Data(patientData: Record<string, unknown>): boolean {
+  return (
+    (patientData.ethnicity === undefined || FORM_OPTIONS.ETHNICITY.some(option => option.value === patientData.ethnicity)) &&
+    (patientData.townsendScore === undefined || typeof patientData.townsendScore === 'number') &&
+    (patientData.systolicBPVariability === undefined || typeof patientData.systolicBPVariability === 'number') &&
+    (patientData.smokingIntensity === undefined || ['light', 'moderate', 'heavy'].includes(patientData.smokingIntensity as string)) &&
+    (patientData.diabetesType === undefined || ['type1', 'type2'].includes(patientData.diabetesType as string)) &&
+    QRISK3_BOOLEAN_FIELDS.every(field => patientData[field] === undefined || typeof patientData[field] === 'boolean')
+  );
+}
+
+// Conditions used by the Framingham Stroke Risk Profile, besides atrial fibrillation, and the heart failure model
+const ADDITIONAL_CONDITION_FIELDS = ['hasCardiovascularDisease', 'hasLeftVentricularHypertrophy', 'hasPriorMyocardialInfarction', 'hasHeartFailure'];
+
+const RISK_ENHANCER_BOOLEAN_FIELDS = ['hasMetabolicSyndrome', 'hasInflammatoryDisease', 'isSouthAsian'];
+const RISK_ENHANCER_NUMBER_FIELDS = ['ldlCholesterol', 'triglycerides', 'lipoproteinA', 'hsCRP', 'apolipoproteinB', 'ankleBrachialIndex'];
+
+/**
+ * Validate the optional risk-enhancer fields of stored patient data
+ */
+function isValidRiskEnhancerData(patientData: Record<string, unknown>): boolean {
+  return (
+    RISK_ENHANCER_BOOLEAN_FIELDS.every(field => patientData[field] === undefined || typeof patientData[field] === 'boolean') &&
+    RISK_ENHANCER_NUMBER_FIELDS.every(field => patientData[field] === undefined || typeof patientData[field] === 'number')
+  );
+}
+
+/**
+ * Validate a saved what-if treatment scenario
+ */
+function isValidTreatmentScenario(scenario: unknown): boolean {
+  if (typeof scenario !== 'object' || scenario === null) {
+    return false;
+  }
+
+  const s = scenario as Record<string, unknown>;
+  return (
+    (s.targetSystolicBP === undefined || typeof s.targetSystolicBP === 'number') &&
+    (s.statinIntensity === undefined || ['low', 'moderate', 'high'].includes(s.statinIntensity as string)) &&
+    typeof s.quitSmoking === 'boolean' &&
+    typeof s.startBPMedication === 'boolean'
+  );
+}
@@ -0,0 +1,116 @@
+import type { PatientData, RiskModelId, TreatmentScenario, TreatmentScenarioResult } from '../types';
+import {
+  BP_MEDICATION_SBP_REDUCTION,
+  STATIN_INTENSITY_LABELS,
+  STATIN_LDL_REDUCTION,
+} from './constants';
+import { calculateFraminghamRisk, validateFraminghamInputs } from './framingham';
+import { estimateLdlCholesterol, hasMeasuredLdl } from './lipids';
+import { convertCholesterolFromMgDl, convertCholesterolToMgDl } from './unitConverter';
+
+/**
+ * What-if treatment simulator
+ * Applies statin therapy, blood pressure lowering and smoking cessation to the patient's
+ * risk factors and recomputes the Framingham 10-year risk, with the absolute risk
+ * reduction and number needed to treat for shared decision-making.
+ */
+
+export const NO_TREATMENT_SCENARIO: TreatmentScenario = {
+  quitSmoking: false,
+  startBPMedication: false,
+};
+
+/**
+ * Checks whether a scenario changes any risk factor
+ */
+export function hasTreatment(scenario: TreatmentScenario): boolean {
+  return (
+    scenario.targetSystolicBP !== undefined ||
+    scenario.statinIntensity !== undefined ||
+    scenario.quitSmoking ||
+    scenario.startBPMedication
+  );
+}
+
+/**
+ * Checks whether the simulator can project risk for a patient: the result being compared with
+ * comes from the Framingham model the simulator recomputes, and the Framingham inputs are valid
+ */
+export function isTreatmentSimulatorApplicable(patientData: PatientData, modelId: RiskModelId): boolean {
+  return modelId === 'framingham-2008' && validateFraminghamInputs(patientData).length === 0;
+}
+
+/**
+ * Applies a treatment scenario to the patient's risk factors
+ * Statins lower total cholesterol by the expected LDL reduction. Starting BP medication
+ * lowers SBP by the average effect of one standard-dose drug and a target SBP caps it;
+ * the lower of the two applies. The Framingham treated-SBP coefficient reflects the higher
+ * risk of people who need treatment, so the treatment flag is left as it was.
+ */
+export function applyTreatmentScenario(patientData: PatientData, scenario: TreatmentScenario): PatientData {
+  const treated = { ...patientData };
+
+  if (scenario.statinIntensity) {
+    const ldlReduction = estimateLdlCholesterol(patientData) * STATIN_LDL_REDUCTION[scenario.statinIntensity];
+    const totalCholesterol =
+      convertCholesterolToMgDl(patientData.totalCholesterol, patientData.cholesterolUnit) - ldlReduction;
+    treated.totalCholesterol = convertCholesterolFromMgDl(totalCholesterol, patientData.cholesterolUnit);
+
+    if (hasMeasuredLdl(patientData)) {
+      treated.ldlCholesterol = patientData.ldlCholesterol! * (1 - STATIN_LDL_REDUCTION[scenario.statinIntensity]);
+    }
+  }
+
+  let systolicBP = patientData.systolicBP;
+  if (scenario.startBPMedication && !patientData.onBPMedication) {
+    systolicBP -= BP_MEDICATION_SBP_REDUCTION;
+  }
+  if (scenario.targetSystolicBP !== undefined) {
+    systolicBP = Math.min(systolicBP, scenario.targetSystolicBP);
+  }
+  treated.systolicBP = systolicBP;
+  // DBP is not in the Framingham equation; keep it below the projected SBP so the inputs stay valid
+  treated.diastolicBP = Math.min(patientData.diastolicBP, systolicBP - 1);
+
+  if (scenario.quitSmoking && patientData.smokingStatus === 'current') {
+    treated.smokingStatus = 'former';
+  }
+
+  return treated;
+}
+
+/**
+ * Projects the Framingham 10-year risk with a treatment scenario applied
+ * @param patientData - Patient data as entered
+ * @param scenario - Treatments to simulate
+ * @returns Baseline and projected risk, absolute risk reduction and number needed to treat
+ */
+export function simulateTreatmentScenario(
+  patientData: PatientData,
+  scenario: TreatmentScenario
+): TreatmentScenarioResult {
+  const baselineRisk = calculateFraminghamRisk(patientData).tenYearRisk;
+  const projectedRisk = calculateFraminghamRisk(applyTreatmentScenario(patientData, scenario)).tenYearRisk;
+  const absoluteRiskReduction = Math.round((baselineRisk - projectedRisk) * 10) / 10; // Round to 1 decimal place
+
+  return {
+    baselineRisk,
+    projectedRisk,
+    absoluteRiskReduction,
+    numberNeededToTreat: absoluteRiskReduction > 0 ? Math.ceil(100 / absoluteRiskReduction) : undefined,
+  };
+}
+
+/**
+ * Builds a short description of a scenario, e.g. for the saved scenario list
+ */
+export function describeTreatmentScenario(scenario: TreatmentScenario): string {
+  const parts: string[] = [];
+
+  if (scenario.statinIntensity) parts.push(STATIN_INTENSITY_LABELS[scenario.statinIntensity]);
+  if (scenario.startBPMedication) parts.push('Start BP medication');
+  if (scenario.targetSystolicBP !== undefined) parts.push(`Target SBP ${scenario.targetSystolicBP} mmHg`);
+  if (scenario.quitSmoking) parts.push('Quit smoking');
+
+  return parts.length > 0 ? parts.join(', ') : 'No treatment';
+}
@@ -1,9 +1,9 @@
-import type { UnitConverter } from '../types';
+import type { BodyMeasurementUnit, HbA1cUnit, PatientData, UnitConverter } from '../types';
 import { CONVERSION_FACTORS, VALIDATION_RULES } from './constants';
 
 /**
  * Unit Converter Class
- * Handles conversion between mg/dL and mmol/L for cholesterol and glucose measurements
+ * Handles conversion between mg/dL and mmol/L for cholesterol, triglyceride and glucose measurements
  * Includes validation for medical ranges
  */
 export class UnitConverterImpl implements UnitConverter {
@@ -34,6 +34,33 @@ export class UnitConverterImpl implements UnitConverter {
     return Math.round(value * CONVERSION_FACTORS.CHOLESTEROL_MMOL_L_TO_MG_DL);
   }
 
+  /**
+   * Converts triglycerides from mg/dL to mmol/L
+   * @param value - Triglyceride value in mg/dL
+   * @returns Triglyceride value in mmol/L
+   */
+  triglyceridesMgDlToMmolL(value: number): number {
+    if (!this.isValidNumber(value)) {
+      throw new Error('Invalid triglyceride value: must be a valid number');
+    }
+    
+    const result = value * CONVERSION_FACTORS.TRIGLYCERIDES_MG_DL_TO_MMOL_L;
+    return Math.round(result * 100) / 100;
+  }
+
+  /**
+   * Converts triglycerides from mmol/L to mg/dL
+   * @param value - Triglyceride value in mmol/L
+   * @returns Triglyceride value in mg/dL
+   */
+  triglyceridesMmolLToMgDl(value: number): number {
+    if (!this.isValidNumber(value)) {
+      throw new Error('Invalid triglyceride value: must be a valid number');
+    }
+    
+    return Math.round(value * CONVERSION_FACTORS.TRIGLYCERIDES_MMOL_L_TO_MG_DL);
+  }
+
   /**
    * Converts glucose from mg/dL to mmol/L
    * @param value - Glucose value in mg/dL
@@ -137,6 +164,20 @@ export function convertCholesterolMmolLToMgDl(value: number): number {
   return unitConverter.cholesterolMmolLToMgDl(value);
 }
 
+/**
+ * Converts triglycerides from mg/dL to mmol/L
+ */
+export function convertTriglyceridesMgDlToMmolL(value: number): number {
+  return unitConverter.triglyceridesMgDlToMmolL(value);
+}
+
+/**
+ * Converts triglycerides from mmol/L to mg/dL
+ */
+export function convertTriglyceridesMmolLToMgDl(value: number): number {
+  return unitConverter.triglyceridesMmolLToMgDl(value);
+}
+
 /**
  * Converts glucose from mg/dL to mmol/L
  */
@@ -175,6 +216,16 @@ export function convertCholesterolToMgDl(value: number, fromUnit: 'mg/dL' | 'mmo
   return convertCholesterolMmolLToMgDl(value);
 }
 
+/**
+ * Converts any triglyceride value to mg/dL (standard unit for calculations)
+ */
+export function convertTriglyceridesToMgDl(value: number, fromUnit: 'mg/dL' | 'mmol/L'): number {
+  if (fromUnit === 'mg/dL') {
+    return value;
+  }
+  return convertTriglyceridesMmolLToMgDl(value);
+}
+
 /**
  * Converts any glucose value to mg/dL (standard unit for calculations)
  */
@@ -195,6 +246,16 @@ export function convertCholesterolFromMgDl(value: number, toUnit: 'mg/dL' | 'mmo
   return convertCholesterolMgDlToMmolL(value);
 }
 
+/**
+ * Converts triglycerides from mg/dL to the specified target unit
+ */
+export function convertTriglyceridesFromMgDl(value: number, toUnit: 'mg/dL' | 'mmol/L'): number {
+  if (toUnit === 'mg/dL') {
+    return value;
+  }
+  return convertTriglyceridesMgDlToMmolL(value);
+}
+
 /**
  * Converts glucose from mg/dL to the specified target unit
  */
@@ -205,6 +266,75 @@ export function convertGlucoseFromMgDl(value: number, toUnit: 'mg/dL' | 'mmol/L'
   return convertGlucoseMgDlToMmolL(value);
 }
 
+/**
+ * Converts height to centimetres
+ */
+export function convertHeightToCm(value: number, fromUnit: BodyMeasurementUnit): number {
+  return fromUnit === 'metric' ? value : value * CONVERSION_FACTORS.CM_PER_INCH;
+}
+
+/**
+ * Converts height from centimetres to the specified unit system (inches for imperial)
+ */
+export function convertHeightFromCm(value: number, toUnit: BodyMeasurementUnit): number {
+  return toUnit === 'metric' ? value : value / CONVERSION_FACTORS.CM_PER_INCH;
+}
+
+/**
+ * Converts weight to kilograms
+ */
+export function convertWeightToKg(value: number, fromUnit: BodyMeasurementUnit): number {
+  return fromUnit === 'metric' ? value : value * CONVERSION_FACTORS.KG_PER_POUND;
+}
+
+/**
+ * Converts weight from kilograms to the specified unit system (pounds for imperial)
+ */
+export function convertWeightFromKg(value: number, toUnit: BodyMeasurementUnit): number {
+  return toUnit === 'metric' ? value : value / CONVERSION_FACTORS.KG_PER_POUND;
+}
+
+/**
+ * Converts HbA1c to percent (NGSP), the unit of the ADA diagnostic thresholds
+ */
+export function convertHbA1cToPercent(value: number, fromUnit: HbA1cUnit): number {
+  return fromUnit === '%'
+    ? value
+    : value / CONVERSION_FACTORS.HBA1C_IFCC_PER_PERCENT + CONVERSION_FACTORS.HBA1C_NGSP_OFFSET;
+}
+
+/**
+ * Converts HbA1c from percent (NGSP) to the specified unit (IFCC mmol/mol)
+ */
+export function convertHbA1cFromPercent(value: number, toUnit: HbA1cUnit): number {
+  return toUnit === '%'
+    ? value
+    : (value - CONVERSION_FACTORS.HBA1C_NGSP_OFFSET) * CONVERSION_FACTORS.HBA1C_IFCC_PER_PERCENT;
+}
+
+/**
+ * Calculates body mass index from height and weight
+ * @returns BMI in kg/m²
+ */
+export function calculateBmi(height: number, weight: number, unit: BodyMeasurementUnit): number {
+  const heightM = convertHeightToCm(height, unit) / 100;
+  return convertWeightToKg(weight, unit) / (heightM * heightM);
+}
+
+/**
+ * Gets the patient's BMI, as entered or calculated from height and weight
+ * @returns BMI in kg/m², or undefined when neither was entered
+ */
+export function getBmi(patientData: PatientData): number | undefined {
+  if (patientData.bmi) {
+    return patientData.bmi;
+  }
+  if (patientData.height && patientData.weight) {
+    return calculateBmi(patientData.height, patientData.weight, patientData.bodyMeasurementUnit ?? 'metric');
+  }
+  return undefined;
+}
+
 /**
  * Gets the appropriate decimal places for display based on unit
  */
@@ -249,4 +379,12 @@ export const CONVERSION_REFERENCE = {
     ],
     note: 'Glucose: mg/dL × 0.05551 = mmol/L',
   },
+  triglycerides: {
+    examples: [
+      { mgDl: 150, mmolL: 1.69 },
+      { mgDl: 200, mmolL: 2.26 },
+      { mgDl: 400, mmolL: 4.52 },
+    ],
+    note: 'Triglycerides: mg/dL × 0.01129 = mmol/L',
+  },
 };
\ No newline at end of file
@@ -1,11 +1,29 @@
-import type { PatientData, ValidationError } from '../types';
-import { VALIDATION_RULES, ERROR_MESSAGES } from './constants';
+import type { PatientData, RiskModel, RiskModelInputRange, ValidationError } from '../types';
+import {
+  VALIDATION_RULES,
+  ERROR_MESSAGES,
+  CAC_SCORE_RANGE,
+  HBA1C_RANGES,
+  HEIGHT_RANGES,
+  LDL_CHOLESTEROL_RANGES,
+  QRS_DURATION_RANGE,
+  TRIGLYCERIDE_RANGES,
+  RISK_ENHANCER_INPUT_RANGES,
+  WEIGHT_RANGES,
+} from './constants';
+import { assessGlycemicStatus } from './glycemia';
 
 /**
- * Validates age input according to Framingham study range (30-79 years)
+ * Validates age input according to the active model's range (Framingham: 30-79 years)
  * Handles edge cases like decimal values, negative numbers, and extreme values
+ * @param extrapolationRange - Wider range the model is extrapolated to, when the user opted in;
+ *   ages inside it but outside the validated range are a BOUNDARY_VALUE warning
  */
-export const validateAge = (age: number): ValidationError | null => {
+export const validateAge = (
+  age: number,
+  range: RiskModelInputRange = VALIDATION_RULES.age,
+  extrapolationRange?: RiskModelInputRange
+): ValidationError | null => {
   // Handle null, undefined, or NaN values
   if (age === undefined || age === null || isNaN(age)) {
     return {
@@ -61,12 +79,25 @@ export const validateAge = (age: number): ValidationError | null => {
     };
   }
 
-  // Handle values outside Framingham range
-  if (age < VALIDATION_RULES.age.min || age > VALIDATION_RULES.age.max) {
-    const severity = (age >= 20 && age < 30) || (age > 79 && age <= 90) ? 'warning' : 'error';
+  // Handle values outside the model's validated range, extrapolated when the user opted in
+  if (extrapolationRange && (age < range.min || age > range.max)) {
+    const canExtrapolate = age >= extrapolationRange.min && age <= extrapolationRange.max;
+    return {
+      field: 'age',
+      message: canExtrapolate
+        ? `Age is outside the ${range.min}-${range.max} year range this model was validated for. The risk is extrapolated and may be unreliable.`
+        : `Age must be between ${extrapolationRange.min} and ${extrapolationRange.max} years for an extrapolated risk calculation`,
+      value: age,
+      code: 'BOUNDARY_VALUE',
+      severity: canExtrapolate ? 'warning' : 'error',
+    };
+  }
+
+  if (age < range.min || age > range.max) {
+    const severity = (age >= range.min - 10 && age < range.min) || (age > range.max && age <= range.max + 11) ? 'warning' : 'error';
     return {
       field: 'age',
-      message: `Age must be between ${VALIDATION_RULES.age.min} and ${VALIDATION_RULES.age.max} years for accurate Framingham calculation`,
+      message: `Age must be between ${range.min} and ${range.max} years for accurate risk calculation`,
       value: age,
       code: 'BOUNDARY_VALUE',
       severity,
@@ -410,6 +441,74 @@ export const validateGlucose = (
   return null;
 };
 
+/**
+ * Numeric inputs that only some models use; they are validated against the model's input ranges
+ */
+const MODEL_MEASUREMENT_FIELDS = ['egfr', 'bmi', 'townsendScore', 'systolicBPVariability'] as const;
+
+/**
+ * Optional risk-enhancer measurements; they are validated for every model
+ */
+const RISK_ENHANCER_MEASUREMENT_FIELDS = ['lipoproteinA', 'hsCRP', 'apolipoproteinB', 'ankleBrachialIndex'] as const;
+
+/**
+ * Validates a numeric model input (e.g. eGFR, BMI) against the active model's range
+ * Values slightly outside the range warn; values far outside it are errors
+ */
+export const validateModelInput = (
+  value: number | undefined,
+  fieldName: keyof PatientData,
+  range: RiskModelInputRange,
+  required = true
+): ValidationError | null => {
+  if (value === undefined || value === null || isNaN(value)) {
+    return required
+      ? {
+          field: fieldName,
+          message: ERROR_MESSAGES.REQUIRED_FIELD,
+          value,
+          code: 'REQUIRED_FIELD',
+          severity: 'error',
+        }
+      : null;
+  }
+
+  if (!isFinite(value)) {
+    return {
+      field: fieldName,
+      message: `${getFieldDisplayName(fieldName)} must be a valid number`,
+      value,
+      code: 'INVALID_NUMBER',
+      severity: 'error',
+    };
+  }
+
+  // Scores such as Townsend deprivation can be zero or negative
+  if (range.min > 0 && value <= 0) {
+    return {
+      field: fieldName,
+      message: `${getFieldDisplayName(fieldName)} must be greater than 0`,
+      value,
+      code: 'NEGATIVE_VALUE',
+      severity: 'error',
+    };
+  }
+
+  if (value < range.min || value > range.max) {
+    const severity = (value >= range.min * 0.8 && value < range.min) || (value > range.max && value <= range.max * 1.2) ? 'warning' : 'error';
+    const unit = range.unit ? ` ${range.unit}` : '';
+    return {
+      field: fieldName,
+      message: `${getFieldDisplayName(fieldName)} must be between ${range.min} and ${range.max}${unit} for accurate risk calculation`,
+      value,
+      code: 'BOUNDARY_VALUE',
+      severity,
+    };
+  }
+
+  return null;
+};
+
 /**
  * Validates required string fields
  */
@@ -441,6 +540,54 @@ export const validateGender = (gender: string): ValidationError | null => {
   return null;
 };
 
+/**
+ * Validates race selection (required by the Pooled Cohort Equations)
+ */
+export const validateRace = (race: string): ValidationError | null => {
+  const validRaces = ['white', 'african-american', 'chinese', 'hispanic', 'other'];
+  if (!race || !validRaces.includes(race)) {
+    return {
+      field: 'race',
+      message: 'Please select a race',
+      value: race,
+    };
+  }
+  return null;
+};
+
+/**
+ * Validates ESC risk region selection (required by SCORE2 and SCORE2-OP)
+ */
+export const validateRiskRegion = (region: string): ValidationError | null => {
+  const validRegions = ['low', 'moderate', 'high', 'very-high'];
+  if (!region || !validRegions.includes(region)) {
+    return {
+      field: 'riskRegion',
+      message: 'Please select a risk region',
+      value: region,
+    };
+  }
+  return null;
+};
+
+/**
+ * Validates ethnicity selection (optional for QRISK3, where it defaults to "white or not stated")
+ */
+export const validateEthnicity = (ethnicity: string | undefined): ValidationError | null => {
+  const validEthnicities = [
+    'white', 'indian', 'pakistani', 'bangladeshi', 'other-asian',
+    'black-caribbean', 'black-african', 'chinese', 'other',
+  ];
+  if (ethnicity !== undefined && !validEthnicities.includes(ethnicity)) {
+    return {
+      field: 'ethnicity',
+      message: 'Please select an ethnic group',
+      value: ethnicity,
+    };
+  }
+  return null;
+};
+
 /**
  * Validates smoking status
  */
@@ -456,22 +603,61 @@ export const validateSmokingStatus = (status: string): ValidationError | null =>
   return null;
 };
 
+/**
+ * Gets the ages the model may be extrapolated to, when the user opted in with extrapolateAge
+ */
+const getAgeExtrapolationRange = (
+  data: Partial<PatientData>,
+  model?: RiskModel
+): RiskModelInputRange | undefined => (data.extrapolateAge ? model?.ageExtrapolationRange : undefined);
+
+/**
+ * Gets the warning raised for an age the model is extrapolated to
+ * @returns The BOUNDARY_VALUE warning validatePatientData gives for the age, or undefined when the
+ *   age is within the validated range or extrapolation is off
+ */
+export const getAgeExtrapolationWarning = (
+  data: Partial<PatientData>,
+  model: RiskModel
+): ValidationError | undefined => {
+  const extrapolationRange = getAgeExtrapolationRange(data, model);
+  const ageError = extrapolationRange
+    ? validateAge(data.age as number, model.inputRanges.age, extrapolationRange)
+    : null;
+
+  return ageError?.code === 'BOUNDARY_VALUE' && ageError.severity === 'warning' ? ageError : undefined;
+};
+
 /**
  * Comprehensive validation for all patient data with cross-field validation
+ * @param data - Patient data to validate
+ * @param model - Active risk model; its input ranges override the default rules
  */
-export const validatePatientData = (data: Partial<PatientData>): ValidationError[] => {
+export const validatePatientData = (data: Partial<PatientData>, model?: RiskModel): ValidationError[] => {
   const errors: ValidationError[] = [];
 
-  // Validate age
-  const ageError = validateAge(data.age as number);
+  // Validate age, allowing extrapolation when the user opted in
+  const ageError = validateAge(data.age as number, model?.inputRanges.age, getAgeExtrapolationRange(data, model));
   if (ageError) errors.push(ageError);
 
   // Validate gender
   const genderError = validateGender(data.gender as string);
   if (genderError) errors.push(genderError);
 
-  // Validate cholesterol values
-  if (data.cholesterolUnit) {
+  // Validate race when the model uses it
+  if (model?.requiredInputs.includes('race')) {
+    const raceError = validateRace(data.race as string);
+    if (raceError) errors.push(raceError);
+  }
+
+  // Validate risk region when the model uses it
+  if (model?.requiredInputs.includes('riskRegion')) {
+    const regionError = validateRiskRegion(data.riskRegion as string);
+    if (regionError) errors.push(regionError);
+  }
+
+  // Validate cholesterol values unless the model runs without a lipid panel
+  if (data.cholesterolUnit && (!model || model.requiredInputs.includes('totalCholesterol'))) {
     const totalCholError = validateCholesterol(
       data.totalCholesterol as number,
       data.cholesterolUnit,
@@ -536,10 +722,86 @@ export const validatePatientData = (data: Partial<PatientData>): ValidationError
     if (glucoseError) errors.push(glucoseError);
   }
 
+  // Validate HbA1c (optional)
+  const hba1cError = validateModelInput(data.hba1c, 'hba1c', HBA1C_RANGES[data.hba1cUnit ?? '%'], false);
+  if (hba1cError) errors.push(hba1cError);
+
+  // Validate QRS duration (required by the heart failure model, otherwise optional)
+  const qrsDurationError = validateModelInput(
+    data.qrsDuration,
+    'qrsDuration',
+    QRS_DURATION_RANGE,
+    model?.requiredInputs.includes('qrsDuration') ?? false
+  );
+  if (qrsDurationError) errors.push(qrsDurationError);
+
   // Validate smoking status
   const smokingError = validateSmokingStatus(data.smokingStatus as string);
   if (smokingError) errors.push(smokingError);
 
+  // Validate measurements used only by the active model
+  for (const field of MODEL_MEASUREMENT_FIELDS) {
+    const range = model?.inputRanges[field];
+    if (range && (model.requiredInputs.includes(field) || model.optionalInputs.includes(field))) {
+      const measurementError = validateModelInput(data[field], field, range, model.requiredInputs.includes(field));
+      if (measurementError) errors.push(measurementError);
+    }
+  }
+
+  // Validate height and weight: required when the model calculates BMI from them, otherwise
+  // optional for the heart failure model and CHARGE-AF
+  const bodySizeRequired = model?.requiredInputs.includes('height') ?? false;
+  const bodyMeasurementUnit = data.bodyMeasurementUnit ?? 'metric';
+  const heightError = validateModelInput(data.height, 'height', HEIGHT_RANGES[bodyMeasurementUnit], bodySizeRequired);
+  if (heightError) errors.push(heightError);
+
+  const weightError = validateModelInput(data.weight, 'weight', WEIGHT_RANGES[bodyMeasurementUnit], bodySizeRequired);
+  if (weightError) errors.push(weightError);
+
+  // Validate ethnicity and the smoking/diabetes detail when the model uses them
+  if (model?.optionalInputs.includes('ethnicity')) {
+    const ethnicityError = validateEthnicity(data.ethnicity);
+    if (ethnicityError) errors.push(ethnicityError);
+  }
+
+  if (model?.optionalInputs.includes('smokingIntensity') && data.smokingStatus === 'current' && !data.smokingIntensity) {
+    errors.push({
+      field: 'smokingIntensity',
+      message: 'Please select how much you smoke',
+      value: data.smokingIntensity,
+      code: 'REQUIRED_FIELD',
+      severity: 'error',
+    });
+  }
+
+  if (model?.optionalInputs.includes('diabetesType') && data.hasDiabetes && !data.diabetesType) {
+    errors.push({
+      field: 'diabetesType',
+      message: 'Please select the type of diabetes',
+      value: data.diabetesType,
+      code: 'REQUIRED_FIELD',
+      severity: 'error',
+    });
+  }
+
+  // Validate the optional risk-enhancer measurements
+  if (data.cholesterolUnit) {
+    const ldlError = validateModelInput(data.ldlCholesterol, 'ldlCholesterol', LDL_CHOLESTEROL_RANGES[data.cholesterolUnit], false);
+    if (ldlError) errors.push(ldlError);
+
+    const triglycerideError = validateModelInput(data.triglycerides, 'triglycerides', TRIGLYCERIDE_RANGES[data.cholesterolUnit], false);
+    if (triglycerideError) errors.push(triglycerideError);
+  }
+
+  for (const field of RISK_ENHANCER_MEASUREMENT_FIELDS) {
+    const measurementError = validateModelInput(data[field], field, RISK_ENHANCER_INPUT_RANGES[field], false);
+    if (measurementError) errors.push(measurementError);
+  }
+
+  // Validate the optional coronary artery calcium score
+  const cacError = validateModelInput(data.cacScore, 'cacScore', CAC_SCORE_RANGE, false);
+  if (cacError) errors.push(cacError);
+
   // Cross-field medical consistency checks
   if (data.age && data.hasDiabetes && data.bloodGlucose && data.glucoseUnit) {
     // Check if glucose levels are consistent with diabetes status
@@ -553,11 +815,17 @@ export const validatePatientData = (data: Partial<PatientData>): ValidationError
         code: 'MEDICAL_INCONSISTENCY',
         severity: 'warning',
       });
-    } else if (!data.hasDiabetes && glucoseInMgDl > 200) {
+    }
+  }
+
+  // Lab results in the ADA diabetes range without a diabetes diagnosis
+  if (data.glucoseUnit && !data.hasDiabetes) {
+    const glycemicAssessment = assessGlycemicStatus(data as PatientData);
+    if (glycemicAssessment?.diabetesStatusMismatch) {
       errors.push({
         field: 'hasDiabetes',
-        message: 'High blood glucose may indicate diabetes. Please verify diabetes status.',
-        value: { glucose: data.bloodGlucose, unit: data.glucoseUnit, hasDiabetes: data.hasDiabetes },
+        message: getDiabetesMismatchMessage(glycemicAssessment.basis),
+        value: { hba1c: data.hba1c, glucose: data.bloodGlucose, hasDiabetes: data.hasDiabetes },
         code: 'MEDICAL_INCONSISTENCY',
         severity: 'warning',
       });
@@ -605,23 +873,29 @@ export const validatePatientData = (data: Partial<PatientData>): ValidationError
 export const validateField = (
   fieldName: string,
   value: unknown,
-  additionalData?: Partial<PatientData>
+  additionalData?: Partial<PatientData>,
+  model?: RiskModel
 ): ValidationError | null => {
   switch (fieldName) {
     case 'age':
-      return validateAge(value as number);
+      return validateAge(value as number, model?.inputRanges.age, getAgeExtrapolationRange(additionalData ?? {}, model));
     
     case 'gender':
       return validateGender(value as string);
     
-    case 'totalCholesterol':
-      return additionalData?.cholesterolUnit 
-        ? validateCholesterol(value as number, additionalData.cholesterolUnit, 'totalCholesterol')
-        : { field: fieldName, message: 'Cholesterol unit is required', value };
+    case 'race':
+      return model?.requiredInputs.includes('race') ? validateRace(value as string) : null;
     
+    case 'riskRegion':
+      return model?.requiredInputs.includes('riskRegion') ? validateRiskRegion(value as string) : null;
+    
+    case 'totalCholesterol':
     case 'hdlCholesterol':
+      if (model && !model.requiredInputs.includes(fieldName)) {
+        return null;
+      }
       return additionalData?.cholesterolUnit 
-        ? validateCholesterol(value as number, additionalData.cholesterolUnit, 'hdlCholesterol')
+        ? validateCholesterol(value as number, additionalData.cholesterolUnit, fieldName)
         : { field: fieldName, message: 'Cholesterol unit is required', value };
     
     case 'systolicBP':
@@ -640,6 +914,60 @@ export const validateField = (
     case 'smokingStatus':
       return validateSmokingStatus(value as string);
     
+    case 'ethnicity':
+      return model?.optionalInputs.includes('ethnicity') ? validateEthnicity(value as string | undefined) : null;
+    
+    case 'egfr':
+    case 'bmi':
+    case 'townsendScore':
+    case 'systolicBPVariability': {
+      const range = model?.inputRanges[fieldName];
+      return range
+        ? validateModelInput(value as number | undefined, fieldName, range, model.requiredInputs.includes(fieldName))
+        : null;
+    }
+    
+    case 'height':
+    case 'weight': {
+      const ranges = fieldName === 'height' ? HEIGHT_RANGES : WEIGHT_RANGES;
+      return validateModelInput(
+        value as number | undefined,
+        fieldName,
+        ranges[additionalData?.bodyMeasurementUnit ?? 'metric'],
+        model?.requiredInputs.includes(fieldName) ?? false
+      );
+    }
+    
+    case 'hba1c':
+      return validateModelInput(value as number | undefined, fieldName, HBA1C_RANGES[additionalData?.hba1cUnit ?? '%'], false);
+    
+    case 'qrsDuration':
+      return validateModelInput(
+        value as number | undefined,
+        fieldName,
+        QRS_DURATION_RANGE,
+        model?.requiredInputs.includes(fieldName) ?? false
+      );
+    
+    case 'ldlCholesterol':
+      return additionalData?.cholesterolUnit
+        ? validateModelInput(value as number | undefined, fieldName, LDL_CHOLESTEROL_RANGES[additionalData.cholesterolUnit], false)
+        : null;
+    
+    case 'triglycerides':
+      return additionalData?.cholesterolUnit
+        ? validateModelInput(value as number | undefined, fieldName, TRIGLYCERIDE_RANGES[additionalData.cholesterolUnit], false)
+        : null;
+    
+    case 'lipoproteinA':
+    case 'hsCRP':
+    case 'apolipoproteinB':
+    case 'ankleBrachialIndex':
+      return validateModelInput(value as number | undefined, fieldName, RISK_ENHANCER_INPUT_RANGES[fieldName], false);
+    
+    case 'cacScore':
+      return validateModelInput(value as number | undefined, fieldName, CAC_SCORE_RANGE, false);
+    
     default:
       return null;
   }
@@ -648,16 +976,18 @@ export const validateField = (
 /**
  * Checks if patient data is complete and valid for calculation
  * Only considers actual errors, not warnings or info messages
+ * @param data - Patient data to check
+ * @param model - Active risk model; its required inputs replace the default list
  */
-export const isPatientDataComplete = (data: Partial<PatientData>): boolean => {
+export const isPatientDataComplete = (data: Partial<PatientData>, model?: RiskModel): boolean => {
   // First check if all required fields are present
-  const requiredFields = [
+  const requiredFields: Array<keyof PatientData> = model?.requiredInputs ?? [
     'age', 'gender', 'totalCholesterol', 'hdlCholesterol', 
     'systolicBP', 'diastolicBP', 'smokingStatus'
   ];
   
   for (const field of requiredFields) {
-    const value = data[field as keyof PatientData];
+    const value = data[field];
     if (value === undefined || value === null) {
       return false;
     }
@@ -669,11 +999,18 @@ export const isPatientDataComplete = (data: Partial<PatientData>): boolean => {
   }
   
   // Then check for validation errors (excluding warnings)
-  const errors = validatePatientData(data);
+  const errors = validatePatientData(data, model);
   const actualErrors = errors.filter(error => error.severity === 'error');
   return actualErrors.length === 0;
 };
 
+/**
+ * Describes lab results in the diabetes range for a patient without a diabetes diagnosis
+ * @param basis - The results in the diabetes range, e.g. 'HbA1c 6.8%'
+ */
+export const getDiabetesMismatchMessage = (basis: string[]): string =>
+  `${basis.join(' and ')} ${basis.length > 1 ? 'are' : 'is'} in the diabetes range, but diabetes is not selected. Please verify diabetes status; a diagnosis needs confirmation by a doctor.`;
+
 /**
  * Gets user-friendly field display names
  */
@@ -681,16 +1018,57 @@ export const getFieldDisplayName = (fieldName: string): string => {
   const displayNames: Record<string, string> = {
     age: 'Age',
     gender: 'Gender',
+    race: 'Race',
+    riskRegion: 'Risk Region',
     totalCholesterol: 'Total Cholesterol',
     hdlCholesterol: 'HDL Cholesterol',
     ldlCholesterol: 'LDL Cholesterol',
+    triglycerides: 'Triglycerides',
     systolicBP: 'Systolic Blood Pressure',
     diastolicBP: 'Diastolic Blood Pressure',
     bloodGlucose: 'Blood Glucose',
+    glucoseTestType: 'Glucose Test Type',
+    hba1c: 'HbA1c',
+    hba1cUnit: 'HbA1c Unit',
     smokingStatus: 'Smoking Status',
     hasDiabetes: 'Diabetes Status',
     familyHistory: 'Family History',
     onBPMedication: 'Blood Pressure Medication',
+    egfr: 'eGFR',
+    bmi: 'BMI',
+    height: 'Height',
+    weight: 'Weight',
+    bodyMeasurementUnit: 'Measurement Units',
+    onStatin: 'Statin Therapy',
+    ethnicity: 'Ethnicity',
+    townsendScore: 'Townsend Deprivation Score',
+    systolicBPVariability: 'Systolic BP Variability',
+    smokingIntensity: 'Smoking Intensity',
+    diabetesType: 'Diabetes Type',
+    hasAtrialFibrillation: 'Atrial Fibrillation',
+    hasChronicKidneyDisease: 'Chronic Kidney Disease (Stage 3-5)',
+    hasRheumatoidArthritis: 'Rheumatoid Arthritis',
+    hasLupus: 'Systemic Lupus Erythematosus',
+    hasMigraine: 'Migraine',
+    hasSevereMentalIllness: 'Severe Mental Illness',
+    onAtypicalAntipsychotics: 'Atypical Antipsychotics',
+    onCorticosteroids: 'Corticosteroids',
+    hasErectileDysfunction: 'Erectile Dysfunction',
+    hasMetabolicSyndrome: 'Metabolic Syndrome',
+    hasInflammatoryDisease: 'Chronic Inflammatory Disease',
+    isSouthAsian: 'South Asian Ancestry',
+    lipoproteinA: 'Lipoprotein(a)',
+    hsCRP: 'hs-CRP',
+    apolipoproteinB: 'Apolipoprotein B',
+    ankleBrachialIndex: 'Ankle-Brachial Index',
+    cacScore: 'CAC Score',
+    hasCardiovascularDisease: 'Cardiovascular Disease',
+    hasLeftVentricularHypertrophy: 'Left Ventricular Hypertrophy',
+    qrsDuration: 'QRS Duration',
+    hasPriorMyocardialInfarction: 'Previous Heart Attack',
+    hasHeartFailure: 'Heart Failure',
+    parentalHypertension: 'Parental Hypertension',
+    extrapolateAge: 'Age Extrapolation',
   };
   
   return displayNames[fieldName] || fieldName;